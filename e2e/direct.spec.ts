@@ -0,0 +1,17 @@
+import { Keypair } from '@solana/web3.js';
+import { expect, sendSol, test } from './fixtures';
+
+test('connects, funds, sends and confirms a SOL transfer', async ({ page, validator }) => {
+  const recipient = Keypair.generate().publicKey.toBase58();
+
+  await page.goto('/direct');
+  await page.getByRole('button', { name: 'Connect Wallet' }).click();
+  // The mock wallet airdrops itself 2 SOL on first connect
+  await expect(page.getByText('2 SOL', { exact: true }).first()).toBeVisible();
+
+  await sendSol(page, recipient, '0.5');
+
+  expect(validator.getBalance(recipient)).toBe(500_000_000);
+  // 2 SOL less the transfer and one signature's fee, shown to four decimals
+  await expect(page.getByText('1.4999 SOL', { exact: true }).first()).toBeVisible();
+});
@@ -0,0 +1,358 @@
+import { randomBytes } from 'node:crypto';
+import type { Page, WebSocketRoute } from '@playwright/test';
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+/**
+ * An in-memory stand-in for a local validator, answering the app's JSON-RPC and WebSocket calls
+ * from inside the browser's network stack. It keeps SOL balances only: System transfers move
+ * lamports, compute budget instructions are ignored, and anything else runs as a no-op.
+ */
+
+const FEE_PER_SIGNATURE = 5000;
+const SLOT_INTERVAL_MS = 400;
+// Rent-exempt minimum for a zero-byte account, as a validator reports it
+const RENT_PER_BYTE_YEAR = 3480;
+const ACCOUNT_STORAGE_OVERHEAD = 128;
+
+type TransactionError = null | string | { InstructionError: [number, { Custom: number }] };
+
+interface Transaction {
+  signature: string;
+  slot: number;
+  blockTime: number;
+  err: TransactionError;
+  accounts: string[];
+}
+
+interface Subscription {
+  method: 'account' | 'signature' | 'slot';
+  key?: string;
+}
+
+interface RpcRequest {
+  // Omitted on notifications
+  id?: number | string;
+  method: string;
+  params?: unknown[];
+}
+
+type Balances = Map<string, number>;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Signatures are 64 bytes, too long for PublicKey's encoder
+function toBase58(bytes: Uint8Array): string {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  const zeros = bytes.findIndex((byte) => byte !== 0);
+  return '1'.repeat(zeros === -1 ? bytes.length : zeros) + encoded;
+}
+
+export class FakeValidator {
+  private balances: Balances = new Map();
+  private transactions = new Map<string, Transaction>();
+  private slot = 1;
+  // One per open WebSocket, told about every transaction that lands
+  private listeners = new Set<(signature: string, accounts: string[]) => void>();
+  // Methods the app called that this fake does not answer, for the spec to assert on
+  readonly unsupported = new Set<string>();
+
+  getBalance(address: PublicKey | string): number {
+    return this.balances.get(address.toString()) ?? 0;
+  }
+
+  /**
+   * Serves the validator to `page` at `rpcUrl` and the WebSocket web3.js derives from it.
+   */
+  async attach(page: Page, rpcUrl: string): Promise<void> {
+    const http = new URL(rpcUrl);
+    // web3.js subscribes on the next port up
+    const wsHost = http.port ? `${http.hostname}:${Number(http.port) + 1}` : http.host;
+
+    await page.route(
+      (url) => url.host === http.host,
+      async (route) => {
+        const headers = {
+          'access-control-allow-origin': '*',
+          'access-control-allow-headers': '*',
+          'access-control-allow-methods': 'POST, OPTIONS',
+        };
+        if (route.request().method() === 'OPTIONS') {
+          await route.fulfill({ status: 204, headers });
+          return;
+        }
+        await route.fulfill({ json: this.handle(route.request().postDataJSON()), headers });
+      }
+    );
+    await page.routeWebSocket(
+      (url) => url.host === wsHost,
+      (ws) => this.serveSocket(ws, page)
+    );
+  }
+
+  /**
+   * Answers a JSON-RPC request body, batched or not.
+   */
+  handle(body: RpcRequest | RpcRequest[]): unknown {
+    return Array.isArray(body) ? body.map((request) => this.respond(request)) : this.respond(body);
+  }
+
+  private context() {
+    return { apiVersion: '2.0.0', slot: this.slot };
+  }
+
+  // Every account is a data-less System account; notifications report a closed one with 0 lamports
+  private accountValue(lamports: number) {
+    return {
+      data: ['', 'base64'],
+      executable: false,
+      lamports,
+      owner: SystemProgram.programId.toBase58(),
+      rentEpoch: 0,
+      space: 0,
+    };
+  }
+
+  private account(address: string) {
+    const lamports = this.getBalance(address);
+    return lamports === 0 ? null : this.accountValue(lamports);
+  }
+
+  private respond({ id, method, params = [] }: RpcRequest) {
+    try {
+      return { jsonrpc: '2.0', id, result: this.call(method, params) };
+    } catch (err) {
+      return { jsonrpc: '2.0', id, error: { code: -32002, message: (err as Error).message } };
+    }
+  }
+
+  private call(method: string, params: unknown[]): unknown {
+    const [first, second] = params as [unknown, Record<string, unknown> | undefined];
+
+    switch (method) {
+      case 'getVersion':
+        return { 'solana-core': '2.0.0', 'feature-set': 0 };
+      case 'getGenesisHash':
+        return toBase58(Buffer.alloc(32, 1));
+      case 'getHealth':
+        return 'ok';
+      case 'getSlot':
+      case 'getBlockHeight':
+        return this.slot;
+      case 'getEpochInfo':
+        return { absoluteSlot: this.slot, blockHeight: this.slot, epoch: 0, slotIndex: this.slot, slotsInEpoch: 432000 };
+      case 'getLatestBlockhash':
+        return {
+          context: this.context(),
+          value: { blockhash: toBase58(randomBytes(32)), lastValidBlockHeight: this.slot + 150 },
+        };
+      case 'isBlockhashValid':
+        return { context: this.context(), value: true };
+      case 'getBalance':
+        return { context: this.context(), value: this.getBalance(first as string) };
+      case 'getAccountInfo':
+        return { context: this.context(), value: this.account(first as string) };
+      case 'getMultipleAccounts':
+        return { context: this.context(), value: (first as string[]).map((address) => this.account(address)) };
+      case 'getMinimumBalanceForRentExemption':
+        return ((first as number) + ACCOUNT_STORAGE_OVERHEAD) * RENT_PER_BYTE_YEAR * 2;
+      case 'getFeeForMessage': {
+        const message = Buffer.from(first as string, 'base64');
+        // The first byte of a message header is its number of required signatures
+        const versioned = (message[0] & 0x80) !== 0;
+        return { context: this.context(), value: message[versioned ? 1 : 0] * FEE_PER_SIGNATURE };
+      }
+      case 'getRecentPrioritizationFees':
+        return [];
+      case 'getTokenAccountsByOwner':
+      case 'getProgramAccounts':
+        return method === 'getProgramAccounts' ? [] : { context: this.context(), value: [] };
+      case 'requestAirdrop':
+        return this.airdrop(first as string, params[1] as number);
+      case 'simulateTransaction':
+        return this.simulate(first as string, second ?? {});
+      case 'sendTransaction':
+        return this.send(first as string);
+      case 'getSignatureStatuses':
+        return { context: this.context(), value: (first as string[]).map((signature) => this.status(signature)) };
+      case 'getSignaturesForAddress':
+        return [...this.transactions.values()]
+          .filter((tx) => tx.accounts.includes(first as string))
+          .reverse()
+          .map(({ signature, slot, blockTime, err }) => ({
+            signature,
+            slot,
+            blockTime,
+            err,
+            memo: null,
+            confirmationStatus: 'finalized',
+          }));
+      case 'getTransaction':
+        return null;
+      default:
+        this.unsupported.add(method);
+        throw new Error(`Method not supported by the fake validator: ${method}`);
+    }
+  }
+
+  private status(signature: string) {
+    const tx = this.transactions.get(signature);
+    if (!tx) return null;
+    return { slot: tx.slot, confirmations: null, err: tx.err, confirmationStatus: 'finalized' };
+  }
+
+  private record(signature: string, accounts: string[], err: TransactionError) {
+    this.slot += 1;
+    this.transactions.set(signature, { signature, slot: this.slot, blockTime: Math.floor(Date.now() / 1000), err, accounts });
+    this.listeners.forEach((listener) => listener(signature, accounts));
+  }
+
+  private airdrop(address: string, lamports: number): string {
+    const signature = toBase58(randomBytes(64));
+    this.balances.set(address, this.getBalance(address) + lamports);
+    this.record(signature, [address], null);
+    return signature;
+  }
+
+  /**
+   * Runs `transaction` against a copy of `balances`, returning the copy and any error.
+   */
+  private execute(transaction: VersionedTransaction, balances: Balances): { balances: Balances; err: TransactionError } {
+    const next = new Map(balances);
+    const { message } = transaction;
+    const keys = message.staticAccountKeys;
+    const payer = keys[0].toBase58();
+    const fee = message.header.numRequiredSignatures * FEE_PER_SIGNATURE;
+    if ((next.get(payer) ?? 0) < fee) return { balances, err: 'InsufficientFundsForFee' };
+    next.set(payer, (next.get(payer) ?? 0) - fee);
+
+    for (const [index, compiled] of message.compiledInstructions.entries()) {
+      const programId = keys[compiled.programIdIndex];
+      if (programId.equals(ComputeBudgetProgram.programId) || !programId.equals(SystemProgram.programId)) continue;
+      const instruction = {
+        programId,
+        keys: compiled.accountKeyIndexes.map((i) => ({ pubkey: keys[i], isSigner: message.isAccountSigner(i), isWritable: message.isAccountWritable(i) })),
+        data: Buffer.from(compiled.data),
+      };
+      if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') continue;
+      const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+      const from = fromPubkey.toBase58();
+      const to = toPubkey.toBase58();
+      if ((next.get(from) ?? 0) < Number(lamports)) {
+        // Debit the fee only, as a validator does for a failed transaction
+        const failed = new Map(balances);
+        failed.set(payer, (failed.get(payer) ?? 0) - fee);
+        return { balances: failed, err: { InstructionError: [index, { Custom: 1 }] } };
+      }
+      next.set(from, (next.get(from) ?? 0) - Number(lamports));
+      next.set(to, (next.get(to) ?? 0) + Number(lamports));
+    }
+    return { balances: next, err: null };
+  }
+
+  private simulate(serialized: string, config: Record<string, unknown>) {
+    const transaction = VersionedTransaction.deserialize(Buffer.from(serialized, 'base64'));
+    const { balances, err } = this.execute(transaction, this.balances);
+    const addresses = (config.accounts as { addresses?: string[] } | undefined)?.addresses;
+    const after = (address: string) => {
+      const lamports = balances.get(address) ?? 0;
+      return lamports === 0 ? null : this.accountValue(lamports);
+    };
+    return {
+      context: this.context(),
+      value: {
+        err,
+        logs: err ? ['Program 11111111111111111111111111111111 failed: custom program error: 0x1'] : [],
+        accounts: addresses ? addresses.map(after) : null,
+        unitsConsumed: 450,
+        returnData: null,
+      },
+    };
+  }
+
+  private send(serialized: string): string {
+    const transaction = VersionedTransaction.deserialize(Buffer.from(serialized, 'base64'));
+    const { balances, err } = this.execute(transaction, this.balances);
+    if (err === 'InsufficientFundsForFee') {
+      throw new Error('Transaction simulation failed: Attempt to debit an account but found no record of a prior credit.');
+    }
+    const signature = toBase58(transaction.signatures[0]);
+    this.balances = balances;
+    this.record(signature, transaction.message.staticAccountKeys.map((key) => key.toBase58()), err);
+    return signature;
+  }
+
+  private serveSocket(ws: WebSocketRoute, page: Page) {
+    const subscriptions = new Map<number, Subscription>();
+    let nextId = 1;
+    const notify = (id: number, method: string, result: unknown) =>
+      ws.send(JSON.stringify({ jsonrpc: '2.0', method, params: { subscription: id, result } }));
+
+    const onTransaction = (signature: string, accounts: string[]) => {
+      for (const [id, subscription] of subscriptions) {
+        if (subscription.method === 'signature' && subscription.key === signature) {
+          notify(id, 'signatureNotification', { context: this.context(), value: { err: this.transactions.get(signature)?.err ?? null } });
+          subscriptions.delete(id);
+        }
+        if (subscription.method === 'account' && accounts.includes(subscription.key ?? '')) {
+          const lamports = this.getBalance(subscription.key ?? '');
+          notify(id, 'accountNotification', { context: this.context(), value: this.accountValue(lamports) });
+        }
+      }
+    };
+    this.listeners.add(onTransaction);
+
+    const ticker = setInterval(() => {
+      this.slot += 1;
+      for (const [id, subscription] of subscriptions) {
+        if (subscription.method === 'slot') notify(id, 'slotNotification', { parent: this.slot - 1, root: this.slot - 1, slot: this.slot });
+      }
+    }, SLOT_INTERVAL_MS);
+
+    // The page can close without closing its sockets
+    const close = () => {
+      clearInterval(ticker);
+      this.listeners.delete(onTransaction);
+    };
+    ws.onClose(close);
+    page.once('close', close);
+
+    ws.onMessage((raw) => {
+      const requests = JSON.parse(raw.toString()) as RpcRequest | RpcRequest[];
+      for (const { id, method, params = [] } of Array.isArray(requests) ? requests : [requests]) {
+        // Notifications such as web3.js's keep-alive `ping` expect no answer
+        if (id === undefined) continue;
+        const reply = (result: unknown) => ws.send(JSON.stringify({ jsonrpc: '2.0', id, result }));
+        if (method.endsWith('Unsubscribe')) {
+          reply(subscriptions.delete(params[0] as number));
+          continue;
+        }
+        const kind = { accountSubscribe: 'account', signatureSubscribe: 'signature', slotSubscribe: 'slot' }[method] as
+          | Subscription['method']
+          | undefined;
+        if (!kind) {
+          this.unsupported.add(method);
+          ws.send(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: 'Method not found' } }));
+          continue;
+        }
+        const subscriptionId = nextId++;
+        subscriptions.set(subscriptionId, { method: kind, key: params[0] as string | undefined });
+        reply(subscriptionId);
+        // A signature that already landed is reported straight away
+        if (kind === 'signature' && this.transactions.has(params[0] as string)) {
+          onTransaction(params[0] as string, []);
+        }
+      }
+    });
+  }
+}
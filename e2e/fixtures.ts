@@ -0,0 +1,33 @@
+import { test as base, expect, type Page } from '@playwright/test';
+import { RPC_URL } from '../playwright.config';
+import { FakeValidator } from './fakeValidator';
+
+/**
+ * `validator` answers the page's RPC calls before the spec navigates. Methods it does not know
+ * are listed on the test, which is where to look when a new screen starts calling one.
+ */
+export const test = base.extend<{ validator: FakeValidator }>({
+  validator: async ({ page }, provide, testInfo) => {
+    const validator = new FakeValidator();
+    await validator.attach(page, RPC_URL);
+    await provide(validator);
+    if (validator.unsupported.size > 0) {
+      testInfo.annotations.push({ type: 'unsupported RPC', description: [...validator.unsupported].join(', ') });
+    }
+  },
+});
+
+export { expect };
+
+/**
+ * Sends SOL through the send screen and waits for the progress view to reach confirmed.
+ */
+export async function sendSol(page: Page, recipient: string, amount: string): Promise<void> {
+  await page.getByRole('button', { name: 'Send SOL' }).click();
+  await page.locator('#recipient').fill(recipient);
+  await page.locator('#amount').fill(amount);
+  await page.getByRole('button', { name: 'Review', exact: true }).click();
+  await page.getByRole('button', { name: 'Confirm & Sign' }).click();
+  await expect(page.getByText('Confirmed', { exact: true })).toHaveClass(/text-green-200/);
+  await page.getByRole('button', { name: 'Close' }).click();
+}
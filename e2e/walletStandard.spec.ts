@@ -0,0 +1,16 @@
+import { Keypair } from '@solana/web3.js';
+import { expect, sendSol, test } from './fixtures';
+
+test('connects the mock Standard Wallet, funds, sends and confirms a SOL transfer', async ({ page, validator }) => {
+  const recipient = Keypair.generate().publicKey.toBase58();
+
+  await page.goto('/wallet-standard');
+  await page.getByRole('button', { name: /Mock Wallet/ }).click();
+  // The mock wallet airdrops itself 2 SOL on first connect
+  await expect(page.getByText('2 SOL', { exact: true }).first()).toBeVisible();
+
+  await sendSol(page, recipient, '0.5');
+
+  expect(validator.getBalance(recipient)).toBe(500_000_000);
+  await expect(page.getByText('1.4999 SOL', { exact: true }).first()).toBeVisible();
+});
@@ -0,0 +1,31 @@
+import { defineConfig } from '@playwright/test';
+
+// The app talks to this URL; the specs answer it with an in-memory validator, so nothing listens here
+export const RPC_URL = 'http://127.0.0.1:8899';
+const PORT = 5174;
+
+/**
+ * End-to-end specs drive both integrations against the mock wallet. Set `E2E_CHROME_PATH` to use
+ * an installed Chrome instead of the browser `npx playwright install chromium` downloads.
+ */
+export default defineConfig({
+  testDir: 'e2e',
+  workers: 1,
+  timeout: 60_000,
+  reporter: process.env.CI ? 'list' : 'line',
+  use: {
+    baseURL: `http://127.0.0.1:${PORT}`,
+    launchOptions: { executablePath: process.env.E2E_CHROME_PATH || undefined },
+    trace: 'retain-on-failure',
+  },
+  webServer: {
+    command: `npm run dev -- --port ${PORT} --strictPort --host 127.0.0.1`,
+    url: `http://127.0.0.1:${PORT}`,
+    reuseExistingServer: !process.env.CI,
+    env: {
+      VITE_MOCK_WALLET: 'true',
+      VITE_DEFAULT_CLUSTER: 'localnet',
+      VITE_LOCALNET_RPC_URL: RPC_URL,
+    },
+  },
+});
@@ -0,0 +1,270 @@
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { utils } from '@coral-xyz/anchor';
+import { Connection, Keypair, LAMPORTS_PER_SOL, VersionedTransaction } from '@solana/web3.js';
+import { PolicyError, createLedger, describePolicy, loadPolicy, reviewTransaction } from './policy.js';
+
+// Local stand-in for a Kora paymaster: the JSON-RPC methods LazorKit and @solana/kora call, with
+// sponsorship limited by the policy in the config file.
+//
+//   npm run paymaster -- --config server/paymaster/paymaster.config.local.json
+
+const HERE = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_CONFIG = resolve(HERE, 'paymaster.config.example.json');
+const AIRDROP_LAMPORTS = 10 * LAMPORTS_PER_SOL;
+// How often a transaction that was only signed is checked for having landed, and for how long
+const SETTLE_POLL_MS = 10_000;
+const SETTLE_MAX_POLLS = 60;
+
+// JSON-RPC error codes. Policy rejections get their own, so clients can tell them from bad input.
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const POLICY_REJECTED = -32001;
+
+class RpcError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function readConfig() {
+  const flag = process.argv.indexOf('--config');
+  const path = resolve(flag !== -1 ? process.argv[flag + 1] : process.env.PAYMASTER_CONFIG ?? DEFAULT_CONFIG);
+  return { path, config: JSON.parse(readFileSync(path, 'utf8')) };
+}
+
+/**
+ * The fee payer keypair. A missing `keypair_path` file is created, so the address stays the same
+ * across restarts; without `keypair_path` the key only lives as long as the process.
+ */
+function loadKeypair(configPath, keypairPath) {
+  if (!keypairPath) return Keypair.generate();
+  const path = resolve(dirname(configPath), keypairPath);
+  if (existsSync(path)) {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(readFileSync(path, 'utf8'))));
+  }
+  const keypair = Keypair.generate();
+  writeFileSync(path, JSON.stringify(Array.from(keypair.secretKey)));
+  return keypair;
+}
+
+function decodeTransaction(input) {
+  if (typeof input?.transaction !== 'string') {
+    throw new RpcError(INVALID_PARAMS, 'transaction must be a base64 string');
+  }
+  try {
+    return VersionedTransaction.deserialize(Buffer.from(input.transaction, 'base64'));
+  } catch {
+    throw new RpcError(INVALID_PARAMS, 'transaction is not a valid serialized transaction');
+  }
+}
+
+async function resolveKeys(connection, message) {
+  const addressLookupTableAccounts = await Promise.all(
+    message.addressTableLookups.map(async (lookup) => {
+      const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+      if (!value) throw new RpcError(INVALID_PARAMS, `Lookup table ${lookup.accountKey.toBase58()} not found`);
+      return value;
+    })
+  );
+  return message.getAccountKeys({ addressLookupTableAccounts }).keySegments().flat();
+}
+
+const { path: configPath, config } = readConfig();
+const policy = loadPolicy(config.policy);
+const ledger = createLedger();
+const payer = loadKeypair(configPath, config.keypair_path);
+const connection = new Connection(config.rpc_url ?? 'http://127.0.0.1:8899', 'confirmed');
+const port = Number(process.env.PORT ?? config.port ?? 8080);
+
+/**
+ * A transaction that was only signed is sent by the client, or never. Its reservation is kept once
+ * it lands and released once its blockhash expires without it. If the RPC stays unreachable the
+ * reservation is kept.
+ */
+async function releaseUnlessSent(transaction, release) {
+  // The fee payer signs first, so its signature is the transaction's
+  const signature = utils.bytes.bs58.encode(transaction.signatures[0]);
+  const landed = async () => {
+    const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+    return value[0] !== null;
+  };
+
+  for (let poll = 0; poll < SETTLE_MAX_POLLS; poll++) {
+    await sleep(SETTLE_POLL_MS);
+    try {
+      if (await landed()) return;
+      const { value: valid } = await connection.isBlockhashValid(transaction.message.recentBlockhash);
+      if (valid) continue;
+      // Checked again, in case it landed in the last valid block
+      if (!(await landed())) release();
+      return;
+    } catch (err) {
+      console.warn(`Checking ${signature} failed: ${err.message}`);
+    }
+  }
+}
+
+/**
+ * Reviews and signs a transaction. The reservation against the wallet's allowance is released
+ * again if `afterSign` fails, e.g. because the send was rejected; `afterSign` also gets the release
+ * function for transactions whose fate it learns later.
+ */
+async function sponsor(input, afterSign) {
+  const transaction = decodeTransaction(input);
+  const { message } = transaction;
+  const keys = await resolveKeys(connection, message);
+  const instructions = message.compiledInstructions.map((ix) => ({
+    programId: keys[ix.programIdIndex],
+    accounts: ix.accountKeyIndexes,
+    data: ix.data,
+  }));
+
+  const { release } = await reviewTransaction({ connection, policy, ledger, payer: payer.publicKey, message, keys, instructions });
+  try {
+    transaction.sign([payer]);
+    const signed = transaction.serialize();
+    const extra = await afterSign(signed, transaction, release);
+    return {
+      ...extra,
+      signed_transaction: Buffer.from(signed).toString('base64'),
+      signer_pubkey: payer.publicKey.toBase58(),
+    };
+  } catch (err) {
+    release();
+    throw err;
+  }
+}
+
+const methods = {
+  liveness: async () => null,
+  getConfig: async () => ({
+    fee_payers: [payer.publicKey.toBase58()],
+    validation_config: {
+      max_allowed_lamports: policy.maxFeeLamports,
+      max_signatures: 16,
+      allowed_programs: [...policy.allowedPrograms],
+      allowed_tokens: [],
+      allowed_spl_paid_tokens: [],
+      disallowed_accounts: [],
+      price: { type: 'free' },
+    },
+    enabled_methods: {
+      liveness: true,
+      estimate_transaction_fee: true,
+      get_supported_tokens: true,
+      sign_transaction: true,
+      sign_and_send_transaction: true,
+      transfer_transaction: false,
+      get_blockhash: true,
+      get_config: true,
+    },
+    // Not part of Kora: the full policy, which the app reads to explain what will be sponsored
+    sponsorship_policy: describePolicy(policy),
+  }),
+  getPayerSigner: async () => ({
+    signer_address: payer.publicKey.toBase58(),
+    payment_address: payer.publicKey.toBase58(),
+  }),
+  getBlockhash: async () => ({ blockhash: (await connection.getLatestBlockhash()).blockhash }),
+  getSupportedTokens: async () => ({ tokens: [] }),
+  estimateTransactionFee: async (input) => {
+    const { message } = decodeTransaction(input);
+    const { value } = await connection.getFeeForMessage(message);
+    return { fee_in_lamports: value ?? 5000 * message.header.numRequiredSignatures, fee_in_token: 0 };
+  },
+  signTransaction: (input) =>
+    sponsor(input, async (_signed, transaction, release) => {
+      void releaseUnlessSent(transaction, release);
+      return {};
+    }),
+  signAndSendTransaction: (input) =>
+    sponsor(input, async (signed) => ({ signature: await connection.sendRawTransaction(signed) })),
+  // Not part of Kora: what is left of a wallet's allowance today
+  getSponsorshipAllowance: async (input) => {
+    if (typeof input?.wallet !== 'string') throw new RpcError(INVALID_PARAMS, 'wallet must be a base58 address');
+    return ledger.allowance(input.wallet, policy);
+  },
+};
+
+// Kora clients send params as an object. LazorKit's own paymaster client sends `[transaction]`.
+function paramsOf(request) {
+  const params = Array.isArray(request.params) ? request.params[0] : request.params;
+  return typeof params === 'string' ? { transaction: params } : params;
+}
+
+async function handle(request) {
+  const method = methods[request?.method];
+  if (!method) throw new RpcError(METHOD_NOT_FOUND, `Method ${request?.method} not found`);
+  return method(paramsOf(request) ?? {});
+}
+
+function toRpcError(err) {
+  if (err instanceof RpcError) return { code: err.code, message: err.message };
+  // The prefix lets the app tell a policy rejection from any other paymaster failure
+  if (err instanceof PolicyError) return { code: POLICY_REJECTED, message: `Paymaster policy: ${err.message}` };
+  console.error(err);
+  return { code: INTERNAL_ERROR, message: err instanceof Error ? err.message : String(err) };
+}
+
+function readBody(req) {
+  return new Promise((resolveBody, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'content-type, x-api-key, x-timestamp, x-hmac-signature');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  let request;
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch {
+    res.writeHead(400, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+    return;
+  }
+
+  const reply = { jsonrpc: '2.0', id: request?.id ?? null };
+  try {
+    reply.result = await handle(request);
+    console.log(`${request.method}: ok`);
+  } catch (err) {
+    reply.error = toRpcError(err);
+    console.log(`${request?.method}: ${reply.error.message}`);
+  }
+  res.writeHead(200, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(reply));
+});
+
+// A fresh key on a local validator has nothing to pay fees with
+const isLocal = /localhost|127\.0\.0\.1/.test(connection.rpcEndpoint);
+if (isLocal && (await connection.getBalance(payer.publicKey).catch(() => null)) === 0) {
+  await connection
+    .requestAirdrop(payer.publicKey, AIRDROP_LAMPORTS)
+    .then((signature) => connection.confirmTransaction(signature))
+    .catch((err) => console.warn(`Airdrop to the fee payer failed: ${err.message}`));
+}
+
+server.listen(port, () => {
+  console.log(`Paymaster ${payer.publicKey.toBase58()} listening on http://127.0.0.1:${port}`);
+  console.log(`Config: ${configPath}`);
+});
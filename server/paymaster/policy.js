@@ -0,0 +1,208 @@
+import { PublicKey } from '@solana/web3.js';
+
+// Policy checks for the local paymaster. Every rejection is a PolicyError, whose message the
+// server returns as-is so the app can show it to the user.
+
+export const LAZORKIT_PROGRAM_ID = 'Gsuz7YcA5sbMGVRXT3xSYhJBessW4xFC4xYsihNCqMFh';
+
+// LazorKit instructions all take the paymaster as `payer` first and the smart wallet second. `execute`
+// names its CPI target and policy program at fixed positions; `executeChunk` passes CPI programs
+// among its remaining accounts, and refunds the chunk's rent to its `sessionRefund` account.
+const PAYER_INDEX = 0;
+const SMART_WALLET_INDEX = 1;
+const SESSION_REFUND_INDEX = 4;
+const POLICY_PROGRAM_INDEX = 4;
+const CPI_PROGRAM_INDEX = 5;
+const EXECUTE_CHUNK_FIXED_ACCOUNTS = 6;
+const EXECUTE_DISCRIMINATOR = Buffer.from([130, 221, 242, 154, 13, 193, 189, 29]);
+const EXECUTE_CHUNK_DISCRIMINATOR = Buffer.from([106, 83, 113, 47, 89, 243, 39, 220]);
+const CREATE_CHUNK_DISCRIMINATOR = Buffer.from([83, 226, 15, 219, 9, 19, 186, 90]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PolicyError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PolicyError';
+  }
+}
+
+/**
+ * Normalises the `policy` block of the config file. Limits left out (or null) are not enforced.
+ */
+export function loadPolicy(config = {}) {
+  const allowedPrograms = config.allowed_programs ?? [];
+  allowedPrograms.forEach((program) => new PublicKey(program));
+  return {
+    allowedPrograms: new Set(allowedPrograms),
+    maxFeeLamports: config.max_fee_lamports ?? null,
+    dailyLimitLamports: config.daily_limit_lamports ?? null,
+    dailyLimitTransactions: config.daily_limit_transactions ?? null,
+  };
+}
+
+/**
+ * The policy as reported to clients in `getConfig`.
+ */
+export function describePolicy(policy) {
+  return {
+    allowed_programs: [...policy.allowedPrograms],
+    max_fee_lamports: policy.maxFeeLamports,
+    daily_limit_lamports: policy.dailyLimitLamports,
+    daily_limit_transactions: policy.dailyLimitTransactions,
+  };
+}
+
+function hasDiscriminator(data, discriminator) {
+  return Buffer.from(data.subarray(0, discriminator.length)).equals(discriminator);
+}
+
+/**
+ * Whether the paymaster may appear at `position` of an instruction: only where LazorKit expects it,
+ * as the payer and as the recipient of a chunk's rent refund. Anywhere else it could be made to
+ * pay rent, fund an account or sign for a CPI.
+ */
+function isPayerSlot({ programId, data }, position) {
+  if (!programId.equals(new PublicKey(LAZORKIT_PROGRAM_ID))) return false;
+  if (position === PAYER_INDEX) return true;
+  return position === SESSION_REFUND_INDEX && hasDiscriminator(data, EXECUTE_CHUNK_DISCRIMINATOR);
+}
+
+/**
+ * Every program the transaction can reach: top-level programs, plus the programs a LazorKit
+ * smart wallet calls on the user's behalf.
+ */
+async function collectPrograms(connection, keys, instructions) {
+  const programs = new Set();
+  const candidates = [];
+
+  for (const { programId, accounts, data } of instructions) {
+    programs.add(programId.toBase58());
+    if (!programId.equals(new PublicKey(LAZORKIT_PROGRAM_ID))) continue;
+
+    const accountKey = (index) => keys[accounts[index]];
+    if (hasDiscriminator(data, EXECUTE_DISCRIMINATOR)) {
+      programs.add(accountKey(POLICY_PROGRAM_INDEX).toBase58());
+      programs.add(accountKey(CPI_PROGRAM_INDEX).toBase58());
+    } else if (hasDiscriminator(data, CREATE_CHUNK_DISCRIMINATOR)) {
+      programs.add(accountKey(POLICY_PROGRAM_INDEX).toBase58());
+    } else if (hasDiscriminator(data, EXECUTE_CHUNK_DISCRIMINATOR)) {
+      candidates.push(...accounts.slice(EXECUTE_CHUNK_FIXED_ACCOUNTS).map((index) => keys[index]));
+    }
+  }
+
+  // Chunked CPIs only list their programs among other accounts, so look for the executable ones
+  if (candidates.length > 0) {
+    const infos = await connection.getMultipleAccountsInfo(candidates);
+    infos.forEach((info, index) => {
+      if (info?.executable) programs.add(candidates[index].toBase58());
+    });
+  }
+  return programs;
+}
+
+/**
+ * The wallet a transaction is sponsored for: the smart wallet for LazorKit instructions, otherwise
+ * the first signer other than the paymaster.
+ */
+function findWallet(keys, numSigners, instructions) {
+  const lazorkit = instructions.find((ix) => ix.programId.equals(new PublicKey(LAZORKIT_PROGRAM_ID)));
+  if (lazorkit) return keys[lazorkit.accounts[SMART_WALLET_INDEX]].toBase58();
+  const signer = keys.slice(1, numSigners)[0];
+  if (signer) return signer.toBase58();
+  throw new PolicyError('Cannot tell which wallet this transaction is for');
+}
+
+/**
+ * Checks a decoded transaction against the policy and returns the wallet it is for and its fee.
+ * `keys` must already include accounts loaded from lookup tables.
+ */
+export async function reviewTransaction({ connection, policy, ledger, payer, message, keys, instructions }) {
+  if (!keys[0].equals(payer)) {
+    throw new PolicyError(`Fee payer must be the paymaster (${payer.toBase58()})`);
+  }
+
+  // Beyond paying the fee, the paymaster's account is not for the transaction to use
+  const misuse = instructions.find((ix) =>
+    ix.accounts.some((index, position) => keys[index].equals(payer) && !isPayerSlot(ix, position))
+  );
+  if (misuse) {
+    throw new PolicyError(
+      `Transactions may not use the paymaster's account outside the fee payer slot (${misuse.programId.toBase58()})`
+    );
+  }
+
+  const programs = await collectPrograms(connection, keys, instructions);
+  const notAllowed = [...programs].find((program) => !policy.allowedPrograms.has(program));
+  if (notAllowed) {
+    throw new PolicyError(`Program ${notAllowed} is not on this paymaster's allow list`);
+  }
+
+  const { value } = await connection.getFeeForMessage(message);
+  const fee = value ?? 5000 * message.header.numRequiredSignatures;
+  if (policy.maxFeeLamports !== null && fee > policy.maxFeeLamports) {
+    throw new PolicyError(`Fee of ${fee} lamports exceeds this paymaster's limit of ${policy.maxFeeLamports}`);
+  }
+
+  const wallet = findWallet(keys, message.header.numRequiredSignatures, instructions);
+  const release = ledger.reserve(wallet, fee, policy);
+  return { wallet, fee, release };
+}
+
+function today(now) {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Per-wallet usage for the current UTC day, in memory: a restart resets every allowance.
+ */
+export function createLedger() {
+  const usage = new Map();
+
+  const current = (wallet, now = Date.now()) => {
+    const entry = usage.get(wallet);
+    if (entry && entry.day === today(now)) return entry;
+    const fresh = { day: today(now), lamports: 0, transactions: 0 };
+    usage.set(wallet, fresh);
+    return fresh;
+  };
+
+  return {
+    /**
+     * Counts a transaction against the wallet's allowance before it is sent, so concurrent
+     * requests cannot both squeeze under the limit. Call the returned function if it fails or is
+     * never sent.
+     */
+    reserve(wallet, fee, policy) {
+      const entry = current(wallet);
+      if (policy.dailyLimitTransactions !== null && entry.transactions + 1 > policy.dailyLimitTransactions) {
+        throw new PolicyError(`Daily limit of ${policy.dailyLimitTransactions} sponsored transactions reached for this wallet`);
+      }
+      if (policy.dailyLimitLamports !== null && entry.lamports + fee > policy.dailyLimitLamports) {
+        throw new PolicyError(
+          `Daily sponsorship allowance used up for this wallet (${policy.dailyLimitLamports - entry.lamports} of ${policy.dailyLimitLamports} lamports left)`
+        );
+      }
+      entry.lamports += fee;
+      entry.transactions += 1;
+      return () => {
+        entry.lamports -= fee;
+        entry.transactions -= 1;
+      };
+    },
+
+    allowance(wallet, policy) {
+      const now = Date.now();
+      const entry = current(wallet, now);
+      const remaining = (limit, used) => (limit === null ? null : Math.max(0, limit - used));
+      return {
+        wallet,
+        used_lamports: entry.lamports,
+        used_transactions: entry.transactions,
+        remaining_lamports: remaining(policy.dailyLimitLamports, entry.lamports),
+        remaining_transactions: remaining(policy.dailyLimitTransactions, entry.transactions),
+        resets_at: new Date(Math.floor(now / DAY_MS) * DAY_MS + DAY_MS).toISOString(),
+      };
+    },
+  };
+}
@@ -1,19 +1,19 @@
-import { useState } from 'react';
 import { Wallet, Zap, ArrowRight } from 'lucide-react';
 import AppDirect from './AppDirect';
 import AppWalletStandard from './AppWalletStandard';
-
-type IntegrationMode = 'select' | 'direct' | 'wallet-standard';
+import { useRouter } from './context/RouterContext';
+import { formatRoute } from './lib/routes';
 
 function App() {
-  const [mode, setMode] = useState<IntegrationMode>('select');
+  const { location, navigate } = useRouter();
+  const goHome = () => navigate(formatRoute(null));
 
-  if (mode === 'direct') {
-    return <AppDirect onGoHome={() => setMode('select')} />;
+  if (location.integration === 'direct') {
+    return <AppDirect onGoHome={goHome} />;
   }
 
-  if (mode === 'wallet-standard') {
-    return <AppWalletStandard onGoHome={() => setMode('select')} />;
+  if (location.integration === 'wallet-standard') {
+    return <AppWalletStandard onGoHome={goHome} />;
   }
 
   return (
@@ -82,7 +82,7 @@ function App() {
             </div>
 
             <button
-              onClick={() => setMode('direct')}
+              onClick={() => navigate(formatRoute('direct'))}
               className="w-full bg-gradient-to-r from-purple-500 to-pink-500 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-600 hover:to-pink-600 transition-all flex items-center justify-center gap-2"
             >
               <span>Try Direct Integration</span>
@@ -139,7 +139,7 @@ function App() {
             </div>
 
             <button
-              onClick={() => setMode('wallet-standard')}
+              onClick={() => navigate(formatRoute('wallet-standard'))}
               className="w-full bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 transition-all flex items-center justify-center gap-2"
             >
               <span>Try Wallet Standard</span>
@@ -1,16 +1,63 @@
-import { useState, useEffect } from 'react';
-import { LazorkitProvider, useWallet } from '@lazorkit/wallet';
-import { Loader2, Wallet, Send, Copy, CheckCircle, LogOut, RefreshCw, ExternalLink } from 'lucide-react';
-import { Connection, PublicKey, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
-
-// LazorKit Configuration (using official defaults for Devnet)
-const LAZORKIT_CONFIG = {
-  rpcUrl: 'https://api.devnet.solana.com',
-  portalUrl: 'https://portal.lazor.sh',
-  paymasterConfig: {
-    paymasterUrl: 'https://kora.devnet.lazorkit.com'
-  }
-} as const;
+import { useState, useCallback, useMemo } from 'react';
+import { LazorkitProvider as SdkLazorkitProvider, useWallet as useSdkWallet } from '@lazorkit/wallet';
+import { Loader2, Wallet, Send, Users, Copy, CheckCircle, LogOut, RefreshCw, ExternalLink, QrCode, Terminal, PenLine, Lock, ScanSearch, ShieldCheck, LifeBuoy } from 'lucide-react';
+import { Connection } from '@solana/web3.js';
+import { ActivityFeed } from './components/ActivityFeed';
+import { AddressDetail } from './components/AddressDetail';
+import { BatchSendModal } from './components/BatchSendModal';
+import { ClusterSelector } from './components/ClusterSelector';
+import { ConnectionStatus } from './components/ConnectionStatus';
+import { DuePaymentsModal } from './components/DuePaymentsModal';
+import { InspectLink } from './components/InspectLink';
+import { InspectorSearch } from './components/InspectorSearch';
+import { LookupTables } from './components/LookupTables';
+import { Page } from './components/Page';
+import { PasskeySettings } from './components/PasskeySettings';
+import { PendingTransactions } from './components/PendingTransactions';
+import { PolicySettings } from './components/PolicySettings';
+import { ProgramConsole } from './components/ProgramConsole';
+import { ReceiveModal } from './components/ReceiveModal';
+import { RecoveryGuide } from './components/RecoveryGuide';
+import { RouteLink } from './components/RouteLink';
+import { ScheduleModal } from './components/ScheduleModal';
+import { ScheduledPayments } from './components/ScheduledPayments';
+import { SendModal } from './components/SendModal';
+import { SignMessageModal } from './components/SignMessageModal';
+import { SponsorshipStatus } from './components/SponsorshipStatus';
+import { TokenBalances } from './components/TokenBalances';
+import { TransactionDetail } from './components/TransactionDetail';
+import { WalletSwitcher } from './components/WalletSwitcher';
+import { getPaymasterConfig } from './config/clusters';
+import { MOCK_WALLET_ENABLED } from './config/mockWallet';
+import { SESSION_IDLE_MINUTES } from './config/session';
+import { useCluster } from './context/ClusterContext';
+import { useMockWallet } from './context/MockLazorkitContext';
+import { MockLazorkitProvider } from './context/MockLazorkitProvider';
+import { useSubscriptions } from './context/SubscriptionContext';
+import { SubscriptionProvider } from './context/SubscriptionProvider';
+import { TransactionTrackerProvider } from './context/TransactionTrackerProvider';
+import { useActivity } from './hooks/useActivity';
+import { useAppRoute } from './hooks/useAppRoute';
+import { useLiveBalance } from './hooks/useLiveBalance';
+import { useLookupTables } from './hooks/useLookupTables';
+import { usePaymasterStatus } from './hooks/usePaymasterStatus';
+import { usePolicies } from './hooks/usePolicies';
+import { useSavedWallets } from './hooks/useSavedWallets';
+import { useScheduledPayments } from './hooks/useScheduledPayments';
+import { useSessionKey } from './hooks/useSessionKey';
+import { useTokenBalances } from './hooks/useTokenBalances';
+import { useWalletActions } from './hooks/useWalletActions';
+import { useWalletSession } from './hooks/useWalletSession';
+import { shortenAddress } from './lib/addressBook';
+import { formatSol } from './lib/amounts';
+import { createLazorkitMessageSigner } from './lib/messageSigning';
+import { TokenBalance } from './lib/tokenService';
+import { TransactionSigner, createLazorkitSigner } from './lib/transactionService';
+import { endSession } from './lib/walletSession';
+
+// VITE_MOCK_WALLET swaps in a local keypair with the same provider props and hook shape
+const LazorkitProvider = MOCK_WALLET_ENABLED ? MockLazorkitProvider : SdkLazorkitProvider;
+const useWallet = MOCK_WALLET_ENABLED ? useMockWallet : useSdkWallet;
 
 function ConnectButton() {
   const { connect, disconnect, isConnected, isConnecting, wallet } = useWallet();
@@ -48,35 +95,30 @@ function ConnectButton() {
   );
 }
 
-function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
-  const { smartWalletPubkey, signAndSendTransaction, disconnect, wallet, isConnected } = useWallet();
-  const [balance, setBalance] = useState<number | null>(null);
+interface WalletDashboardProps {
+  onGoHome: () => void;
+  onLock: () => void;
+  onDisconnect: () => void;
+}
+
+function WalletDashboard({ onGoHome, onLock, onDisconnect }: WalletDashboardProps) {
+  const { smartWalletPubkey, signAndSendTransaction, signMessage, connect, wallet, isConnected } = useWallet();
+  // The mock has a single keypair and its own session, so it stays out of the saved wallets
+  const savedWallets = useSavedWallets(MOCK_WALLET_ENABLED ? null : wallet);
   const [copied, setCopied] = useState(false);
-  const [showSendModal, setShowSendModal] = useState(false);
-  const [recipient, setRecipient] = useState('');
-  const [amount, setAmount] = useState('');
-  const [txHash, setTxHash] = useState<string | null>(null);
-  const [txError, setTxError] = useState('');
-  const [sending, setSending] = useState(false);
-  const [connection] = useState(() => new Connection(LAZORKIT_CONFIG.rpcUrl, 'confirmed'));
-
-  useEffect(() => {
-    if (smartWalletPubkey) {
-      refreshBalance();
-      const interval = setInterval(refreshBalance, 10000);
-      return () => clearInterval(interval);
-    }
-  }, [smartWalletPubkey]);
+  const { route, open, close, pathTo } = useAppRoute('direct');
+  const { cluster } = useCluster();
+  const { manager } = useSubscriptions();
+  const { connection } = manager;
 
-  const refreshBalance = async () => {
-    if (!smartWalletPubkey) return;
-    try {
-      const balanceLamports = await connection.getBalance(smartWalletPubkey);
-      setBalance(balanceLamports / LAMPORTS_PER_SOL);
-    } catch (error) {
-      console.error('Balance refresh error:', error);
-    }
-  };
+  const { tokens, loading: tokensLoading, refreshTokens } = useTokenBalances(smartWalletPubkey);
+  const activity = useActivity(connection, smartWalletPubkey, cluster.name);
+
+  const { balance, refreshBalance: refreshSolBalance } = useLiveBalance(smartWalletPubkey);
+
+  const refreshBalance = useCallback(async () => {
+    await Promise.all([refreshSolBalance(), refreshTokens()]);
+  }, [refreshSolBalance, refreshTokens]);
 
   const copyAddress = () => {
     if (smartWalletPubkey) {
@@ -86,99 +128,135 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
     }
   };
 
-  const handleSendTransaction = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setTxError('');
-    setTxHash(null);
-    setSending(true);
+  // The mock wallet pays its own fees
+  const paymasterUrl = MOCK_WALLET_ENABLED ? undefined : cluster.paymasterUrl;
+  const sponsorship = usePaymasterStatus(paymasterUrl, smartWalletPubkey);
+  const lookupTables = useLookupTables(smartWalletPubkey, cluster.name);
+  const scheduled = useScheduledPayments(smartWalletPubkey, cluster.name);
+  const policies = usePolicies(smartWalletPubkey, cluster.name);
+  const sessionKey = useSessionKey(smartWalletPubkey, cluster.name);
+
+  const getSigner = (): TransactionSigner => {
+    if (!smartWalletPubkey) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!isConnected || !wallet) {
+      throw new Error('Please reconnect your wallet');
+    }
+
+    // The wallet's active lookup tables are only used when a transaction would not fit without them
+    return createLazorkitSigner(
+      smartWalletPubkey,
+      signAndSendTransaction,
+      {
+        computeUnitLimit: 200000, // Set appropriate compute units
+        clusterSimulation: cluster.clusterSimulation, // Specify cluster for simulation
+      },
+      lookupTables.activeTables
+    );
+  };
+
+  const actions = useWalletActions({
+    getSigner,
+    paymasterUrl,
+    balance,
+    tokens,
+    policies,
+    sessionKey,
+    onConfirmed: () => Promise.all([refreshBalance(), activity.refreshActivity()]),
+  });
+
+  const handleSwitchWallet = (smartWallet: string) => {
+    savedWallets.switchTo(smartWallet).catch((error) => console.error('Wallet switch error:', error));
+  };
 
+  // Opens the portal for another passkey; if that is cancelled, the current wallet comes back
+  const handleAddWallet = async () => {
+    const previous = wallet?.smartWallet;
+    await savedWallets.deactivate();
     try {
-      if (!smartWalletPubkey) {
-        throw new Error('Wallet not connected');
-      }
-
-      if (!isConnected || !wallet) {
-        throw new Error('Please reconnect your wallet');
-      }
-
-      const recipientPubkey = new PublicKey(recipient.trim());
-      const amountNum = parseFloat(amount);
-
-      if (isNaN(amountNum) || amountNum <= 0) {
-        throw new Error('Invalid amount');
-      }
-
-      // Reserve some SOL for rent-exempt minimum (~0.001 SOL)
-      const RENT_RESERVE = 0.001;
-      const maxSendable = Math.max(0, (balance || 0) - RENT_RESERVE);
-
-      if (balance !== null && amountNum > balance) {
-        throw new Error('Insufficient balance');
-      }
-
-      if (balance !== null && amountNum > maxSendable) {
-        throw new Error(`Amount too high. Keep at least ${RENT_RESERVE} SOL for rent. Max sendable: ${maxSendable.toFixed(4)} SOL`);
-      }
-
-      const instruction = SystemProgram.transfer({
-        fromPubkey: smartWalletPubkey,
-        toPubkey: recipientPubkey,
-        lamports: amountNum * LAMPORTS_PER_SOL,
-      });
-
-      console.log('Attempting to sign transaction...', {
-        from: smartWalletPubkey.toString(),
-        to: recipientPubkey.toString(),
-        amount: amountNum,
-        lamports: amountNum * LAMPORTS_PER_SOL,
-        walletConnected: isConnected,
-        hasWallet: !!wallet
-      });
-
-      // LazorKit will open a portal for passkey signing
-      // Using transactionOptions to optimize transaction size and enable V0 transaction support
-      const signature = await signAndSendTransaction({
-        instructions: [instruction],
-        transactionOptions: {
-          computeUnitLimit: 200000, // Set appropriate compute units
-          addressLookupTableAccounts: [], // Enable V0 transaction format
-          clusterSimulation: 'devnet' as const, // Specify cluster for simulation
-        },
-      });
-
-      console.log('Transaction successful:', signature);
-
-      setTxHash(signature);
-      setRecipient('');
-      setAmount('');
-      await refreshBalance();
-    } catch (err) {
-      console.error('Transaction failed:', err);
-      let errorMessage = 'Transaction failed';
-      
-      if (err instanceof Error) {
-        errorMessage = err.message;
-        if (err.message.includes('Signing failed')) {
-          errorMessage = 'Signing failed. Please ensure you authenticate with your passkey.';
-        } else if (err.message.includes('User rejected')) {
-          errorMessage = 'Transaction was cancelled.';
-        } else if (err.message.includes('Transaction too large') || err.message.includes('too large')) {
-          errorMessage = 'Transaction too large. The transaction has been optimized with V0 format. If this persists, please try a smaller amount or contact support.';
-        } else if (err.message.includes('custom program error: 0x1') || err.message.includes('custom program error: 0x2')) {
-          errorMessage = `Insufficient funds. Your balance: ${balance?.toFixed(4) || '0'} SOL. You need to keep at least 0.001 SOL for rent. Try a smaller amount or fund your wallet using the faucet.`;
-        } else if (err.message.includes('Attempt to debit an account but found no record of a prior credit')) {
-          errorMessage = 'Account not funded. Please add SOL to your wallet using the faucet.';
-        } else if (err.message.includes('Transaction simulation failed')) {
-          errorMessage = 'Transaction simulation failed. This may be due to insufficient funds or network issues. Please check your balance and try again.';
-        }
-      }
-      
-      setTxError(errorMessage);
-    } finally {
-      setSending(false);
+      await connect();
+    } catch (error) {
+      console.error('Add wallet error:', error);
+      if (previous) await savedWallets.switchTo(previous);
     }
   };
 
+  const openSendModal = (token?: TokenBalance) => {
+    open({ view: 'send', prefill: { token: token?.mint.toString() } });
+  };
+
+  if (route.view === 'policies' && smartWalletPubkey) {
+    return (
+      <PolicySettings
+        owner={smartWalletPubkey}
+        tokens={tokens}
+        policy={policies.policy}
+        spending={policies.spending}
+        onSavePolicy={policies.save}
+        sessionKey={sessionKey}
+        onStartSession={actions.startSession}
+        onBack={close}
+      />
+    );
+  }
+
+  if (route.view === 'recovery' && smartWalletPubkey && !MOCK_WALLET_ENABLED) {
+    return <PasskeySettings smartWallet={smartWalletPubkey} currentDevice={wallet?.walletDevice} onBack={close} />;
+  }
+
+  if (route.view === 'console' && smartWalletPubkey) {
+    return (
+      <ProgramConsole
+        account={smartWalletPubkey}
+        onPreview={actions.previewInstructions}
+        onSend={actions.sendInstructions}
+        onBack={close}
+      />
+    );
+  }
+
+  if (route.view === 'history' && smartWalletPubkey) {
+    return (
+      <Page title="Activity" subtitle={<span className="font-mono">{smartWalletPubkey.toString()}</span>} onBack={close}>
+        <InspectorSearch />
+        <ActivityFeed
+          rows={activity.rows}
+          tokens={tokens}
+          hasMore={activity.hasMore}
+          loading={activity.loading}
+          error={activity.error}
+          onRefresh={activity.refreshActivity}
+          onLoadMore={activity.loadMore}
+        />
+      </Page>
+    );
+  }
+
+  if (route.view === 'tx' && smartWalletPubkey) {
+    return (
+      <TransactionDetail
+        signature={route.signature}
+        owner={smartWalletPubkey}
+        tokens={tokens}
+        onBack={close}
+      />
+    );
+  }
+
+  if (route.view === 'address' && smartWalletPubkey) {
+    return (
+      <AddressDetail
+        address={route.address}
+        owner={smartWalletPubkey}
+        tokens={tokens}
+        onSend={(to) => open({ view: 'send', prefill: { to } })}
+        onBack={close}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 p-4">
       <div className="max-w-4xl mx-auto py-8">
@@ -195,18 +273,65 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
               <p className="text-blue-200 text-sm">Direct Integration</p>
             </div>
           </button>
-          <button
-            onClick={() => disconnect()}
-            className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20"
-          >
-            <LogOut className="w-4 h-4" />
-            <span>Disconnect</span>
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => open({ view: 'console' })}
+              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20"
+              title="Program console"
+            >
+              <Terminal className="w-4 h-4" />
+              <span>Console</span>
+            </button>
+            <button
+              onClick={() => open({ view: 'policies' })}
+              disabled={!smartWalletPubkey}
+              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Spending limits, allowlist and session key"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              <span>Policies</span>
+            </button>
+            <button
+              onClick={() => open({ view: 'sign' })}
+              disabled={!smartWalletPubkey}
+              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Sign a message"
+            >
+              <PenLine className="w-4 h-4" />
+              <span>Sign</span>
+            </button>
+            <ClusterSelector />
+            {MOCK_WALLET_ENABLED || !wallet ? (
+              <button
+                onClick={onDisconnect}
+                className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20"
+              >
+                <LogOut className="w-4 h-4" />
+                <span>Disconnect</span>
+              </button>
+            ) : (
+              <WalletSwitcher
+                wallets={savedWallets.wallets}
+                balances={savedWallets.balances}
+                activeWallet={wallet.smartWallet}
+                onOpen={savedWallets.refreshBalances}
+                onSwitch={handleSwitchWallet}
+                onRename={savedWallets.rename}
+                onForget={savedWallets.forget}
+                onAddWallet={handleAddWallet}
+                onLock={onLock}
+                onDisconnect={onDisconnect}
+              />
+            )}
+          </div>
         </div>
 
         <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-semibold text-white">Balance</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-xl font-semibold text-white">Balance</h2>
+              <ConnectionStatus />
+            </div>
             <button
               onClick={refreshBalance}
               disabled={!smartWalletPubkey}
@@ -218,13 +343,13 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
 
           <div className="mb-6">
             <div className="text-4xl font-bold text-white mb-1">
-              {balance !== null ? balance.toFixed(4) : '---'} SOL
+              {balance !== null ? formatSol(balance.lamports, 4) : '---'} SOL
             </div>
-            {balance !== null && balance === 0 && (
+            {balance !== null && balance.lamports === 0n && cluster.faucetUrl && (
               <div className="text-blue-200 text-sm">
                 Fund your wallet using the{' '}
                 <a
-                  href="https://faucet.solana.com"
+                  href={cluster.faucetUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="underline hover:text-blue-100"
@@ -255,172 +380,203 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
             </div>
           </div>
 
-          <button
-            onClick={() => setShowSendModal(true)}
-            disabled={!smartWalletPubkey || balance === null || balance === 0}
-            className="w-full bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
-          >
-            <Send className="w-5 h-5" />
-            <span>Send SOL</span>
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => openSendModal()}
+              disabled={!smartWalletPubkey || balance === null || balance.lamports === 0n}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+            >
+              <Send className="w-5 h-5" />
+              <span>Send SOL</span>
+            </button>
+            <button
+              onClick={() => open({ view: 'receive' })}
+              disabled={!smartWalletPubkey}
+              className="bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20 flex items-center justify-center gap-2"
+            >
+              <QrCode className="w-5 h-5" />
+              <span>Receive</span>
+            </button>
+            <button
+              onClick={() => open({ view: 'batch' })}
+              disabled={!smartWalletPubkey || balance === null || balance.lamports === 0n}
+              className="bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20 flex items-center justify-center gap-2"
+            >
+              <Users className="w-5 h-5" />
+              <span>Batch</span>
+            </button>
+          </div>
         </div>
 
+        {smartWalletPubkey && (
+          <TokenBalances tokens={tokens} loading={tokensLoading} onSend={openSendModal} />
+        )}
+
+        {smartWalletPubkey && paymasterUrl && (
+          <SponsorshipStatus
+            config={sponsorship.config}
+            allowance={sponsorship.allowance}
+            loading={sponsorship.loading}
+            error={sponsorship.error}
+            onRefresh={sponsorship.refreshStatus}
+          />
+        )}
+
+        {smartWalletPubkey && (
+          <LookupTables
+            tables={lookupTables.tables}
+            loading={lookupTables.loading}
+            error={lookupTables.error}
+            onRefresh={lookupTables.refreshTables}
+            onDiscover={lookupTables.discover}
+            onImport={lookupTables.importTable}
+            onForget={lookupTables.forget}
+            onCreate={(addresses) => lookupTables.create(getSigner(), addresses, actions.trackAs('Create lookup table'))}
+            onExtend={(table, addresses) =>
+              lookupTables.extend(getSigner(), table, addresses, actions.trackAs('Extend lookup table'))
+            }
+            onDeactivate={(table) => lookupTables.deactivate(getSigner(), table, actions.trackAs('Deactivate lookup table'))}
+            onClose={(table) => lookupTables.close(getSigner(), table, actions.trackAs('Close lookup table'))}
+          />
+        )}
+
+        {smartWalletPubkey && (
+          <ScheduledPayments
+            payments={scheduled.payments}
+            due={scheduled.due}
+            log={scheduled.log}
+            tokens={tokens}
+            onNew={() => open({ view: 'schedule' })}
+            onReviewDue={scheduled.openPrompt}
+            onPause={scheduled.setPaused}
+            onRemove={scheduled.remove}
+            onClearLog={scheduled.clearLog}
+          />
+        )}
+
+        {smartWalletPubkey && <PendingTransactions onResubmit={actions.resubmit} />}
+
+        {smartWalletPubkey && (
+          <ActivityFeed
+            rows={activity.rows}
+            tokens={tokens}
+            hasMore={activity.hasMore}
+            loading={activity.loading}
+            error={activity.error}
+            onRefresh={activity.refreshActivity}
+            onLoadMore={activity.loadMore}
+            historyPath={pathTo({ view: 'history' })}
+          />
+        )}
+
         {smartWalletPubkey && (
           <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20">
             <h2 className="text-xl font-semibold text-white mb-4">Quick Links</h2>
             <div className="space-y-2">
-              <a
-                href={`https://explorer.solana.com/address/${smartWalletPubkey.toString()}?cluster=devnet`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="flex items-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all"
-              >
-                <ExternalLink className="w-5 h-5 text-blue-300" />
-                <span className="text-white">View on Solana Explorer</span>
-              </a>
-              <a
-                href="https://faucet.solana.com"
-                target="_blank"
-                rel="noopener noreferrer"
+              <InspectLink
+                kind="address"
+                value={smartWalletPubkey.toString()}
                 className="flex items-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all"
               >
-                <ExternalLink className="w-5 h-5 text-blue-300" />
-                <span className="text-white">Get Devnet SOL from Faucet</span>
-              </a>
+                <ScanSearch className="w-5 h-5 text-blue-300" />
+                <span className="text-white">Inspect this wallet</span>
+              </InspectLink>
+              {!MOCK_WALLET_ENABLED && (
+                <RouteLink
+                  to={pathTo({ view: 'recovery' })}
+                  className="flex items-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all"
+                >
+                  <LifeBuoy className="w-5 h-5 text-blue-300" />
+                  <span className="text-white">Passkeys & recovery</span>
+                </RouteLink>
+              )}
+              {cluster.faucetUrl && (
+                <a
+                  href={cluster.faucetUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all"
+                >
+                  <ExternalLink className="w-5 h-5 text-blue-300" />
+                  <span className="text-white">Get {cluster.label} SOL from Faucet</span>
+                </a>
+              )}
             </div>
           </div>
         )}
       </div>
 
-      {showSendModal && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
-          <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-md w-full border border-white/20">
-            <h3 className="text-2xl font-bold text-white mb-6">Send SOL</h3>
+      {route.view === 'send' && smartWalletPubkey && (
+        <SendModal
+          account={smartWalletPubkey}
+          balance={balance}
+          tokens={tokens}
+          prefill={route.prefill}
+          onPreview={actions.preview}
+          onMaxAmount={actions.getMaxAmount}
+          onSend={actions.send}
+          onPreviewInstructions={actions.previewInstructions}
+          onSendInstructions={actions.sendInstructions}
+          signedBySessionKey={(request) => sessionKey.signerFor(request) !== null}
+          onClose={close}
+        />
+      )}
 
-            {!txHash && !txError && (
-              <div className="mb-4 p-3 bg-blue-500/20 border border-blue-500/50 rounded-lg">
-                <p className="text-blue-100 text-xs">
-                  💡 You'll be prompted to sign with your passkey.
-                </p>
-              </div>
-            )}
+      {route.view === 'sign' && smartWalletPubkey && (
+        <SignMessageModal
+          signer={createLazorkitMessageSigner(smartWalletPubkey, signMessage)}
+          onClose={close}
+        />
+      )}
 
-            {txHash ? (
-              <div className="space-y-4">
-                <div className="p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
-                  <div className="flex items-center gap-3 mb-3">
-                    <CheckCircle className="w-6 h-6 text-green-400" />
-                    <p className="text-green-200 font-medium">Transaction Successful!</p>
-                  </div>
-                  <a
-                    href={`https://explorer.solana.com/tx/${txHash}?cluster=devnet`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="flex items-center gap-2 text-green-300 hover:text-green-200 text-sm"
-                  >
-                    <span className="break-all">{txHash.slice(0, 20)}...</span>
-                    <ExternalLink className="w-4 h-4 flex-shrink-0" />
-                  </a>
-                </div>
-                <button
-                  onClick={() => {
-                    setShowSendModal(false);
-                    setTxHash(null);
-                  }}
-                  className="w-full bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 transition-all border border-white/20"
-                >
-                  Close
-                </button>
-              </div>
-            ) : (
-              <form onSubmit={handleSendTransaction} className="space-y-4">
-                {txError && (
-                  <div className="p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
-                    <p className="text-red-200 text-sm">{txError}</p>
-                  </div>
-                )}
+      {route.view === 'receive' && smartWalletPubkey && (
+        <ReceiveModal address={smartWalletPubkey} tokens={tokens} onClose={close} />
+      )}
 
-                <div>
-                  <label htmlFor="recipient" className="block text-sm font-medium text-blue-200 mb-2">
-                    Recipient Address
-                  </label>
-                  <input
-                    id="recipient"
-                    type="text"
-                    value={recipient}
-                    onChange={(e) => setRecipient(e.target.value)}
-                    placeholder="Enter Solana address"
-                    className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
-                    disabled={sending}
-                    required
-                  />
-                </div>
-
-                <div>
-                  <label htmlFor="amount" className="block text-sm font-medium text-blue-200 mb-2">
-                    Amount (SOL)
-                  </label>
-                  <input
-                    id="amount"
-                    type="number"
-                    step="0.0001"
-                    value={amount}
-                    onChange={(e) => setAmount(e.target.value)}
-                    placeholder="0.0"
-                    className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    disabled={sending}
-                    required
-                  />
-                  {balance !== null && (
-                    <div className="text-blue-300 text-sm mt-1">
-                      <p>Available: {balance.toFixed(4)} SOL</p>
-                      <p className="text-blue-400 text-xs">Max sendable: {Math.max(0, balance - 0.001).toFixed(4)} SOL (keeping 0.001 for rent)</p>
-                    </div>
-                  )}
-                </div>
-
-                <div className="flex gap-3">
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setShowSendModal(false);
-                      setTxError('');
-                      setRecipient('');
-                      setAmount('');
-                    }}
-                    disabled={sending}
-                    className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    type="submit"
-                    disabled={sending}
-                    className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
-                  >
-                    {sending ? (
-                      <>
-                        <Loader2 className="w-5 h-5 animate-spin" />
-                        <span>Signing...</span>
-                      </>
-                    ) : (
-                      <>
-                        <Send className="w-5 h-5" />
-                        <span>Send</span>
-                      </>
-                    )}
-                  </button>
-                </div>
-              </form>
-            )}
-          </div>
-        </div>
+      {route.view === 'batch' && smartWalletPubkey && (
+        <BatchSendModal
+          balance={balance}
+          tokens={tokens}
+          onSendBatch={actions.sendBatch}
+          onClose={close}
+        />
+      )}
+
+      {route.view === 'schedule' && smartWalletPubkey && (
+        <ScheduleModal tokens={tokens} onSchedule={scheduled.add} onClose={close} />
+      )}
+
+      {scheduled.promptOpen && scheduled.due.length > 0 && (
+        <DuePaymentsModal
+          due={scheduled.due}
+          tokens={tokens}
+          running={scheduled.running}
+          onPreview={actions.previewScheduled}
+          onApprove={(due) => scheduled.approve(due, actions.sendScheduled)}
+          onSkip={scheduled.skip}
+          onClose={scheduled.dismissPrompt}
+        />
       )}
     </div>
   );
 }
 
 function WelcomeScreen() {
+  const { connect } = useWallet();
+  const { wallets, switchTo } = useSavedWallets(null);
+  const { route, close, pathTo } = useAppRoute('direct');
+  const savedWallets = MOCK_WALLET_ENABLED ? [] : [...wallets].sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+
+  // Credentials left from the lost session are what keep the portal failing, so they go first
+  const handleReconnect = async () => {
+    await endSession();
+    await connect();
+  };
+
+  if (route.view === 'recovery' && !MOCK_WALLET_ENABLED) {
+    return <RecoveryGuide wallets={savedWallets} onReconnect={handleReconnect} onBack={close} />;
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -440,8 +596,30 @@ function WelcomeScreen() {
             </p>
           </div>
 
-          <div className="flex justify-center">
+          {savedWallets.length > 0 && (
+            <div className="mb-6 space-y-2">
+              <p className="text-blue-200 text-sm">Continue with a saved wallet</p>
+              {savedWallets.map((saved) => (
+                <button
+                  key={saved.info.smartWallet}
+                  onClick={() => switchTo(saved.info.smartWallet).catch((error) => console.error('Wallet switch error:', error))}
+                  className="w-full flex items-center justify-between gap-3 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all text-left"
+                >
+                  <span className="text-white font-medium truncate">{saved.nickname}</span>
+                  <span className="text-blue-300 text-xs font-mono">{shortenAddress(saved.info.smartWallet)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col items-center gap-4">
             <ConnectButton />
+            <ClusterSelector />
+            {!MOCK_WALLET_ENABLED && (
+              <RouteLink to={pathTo({ view: 'recovery' })} className="text-blue-300 text-sm underline hover:text-blue-100">
+                Lost your passkey?
+              </RouteLink>
+            )}
           </div>
 
           <div className="mt-8 pt-6 border-t border-white/20">
@@ -457,35 +635,101 @@ function WelcomeScreen() {
   );
 }
 
+// No way back to the saved-wallet list from here: that would skip the passkey the lock asks for
+function LockedScreen({ smartWallet, onUnlock }: { smartWallet: string; onUnlock: () => void }) {
+  const { wallets } = useSavedWallets(null);
+  const nickname = wallets.find((saved) => saved.info.smartWallet === smartWallet)?.nickname;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-8 border border-white/20">
+          <div className="flex flex-col items-center mb-8">
+            <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-cyan-500 rounded-full flex items-center justify-center mb-4">
+              <Lock className="w-8 h-8 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold text-white mb-2">Wallet locked</h1>
+            <p className="text-blue-200 text-center">
+              {nickname ?? 'Your wallet'} ({shortenAddress(smartWallet)}) is locked. Sign in with its passkey to
+              continue, or with another passkey to switch wallets.
+            </p>
+          </div>
+
+          <div className="flex flex-col items-center gap-4">
+            <button
+              onClick={onUnlock}
+              className="bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-6 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 transition-all flex items-center justify-center gap-2"
+            >
+              <Lock className="w-5 h-5" />
+              <span>Unlock with passkey</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function AppContent({ onGoHome }: { onGoHome: () => void }) {
-  const { isConnected, isConnecting } = useWallet();
+  const { isConnected, isConnecting, isSigning, wallet, connect, disconnect } = useWallet();
+  const session = useWalletSession({
+    enabled: !MOCK_WALLET_ENABLED,
+    idleMinutes: SESSION_IDLE_MINUTES,
+    wallet,
+    isSigning,
+    connect,
+    disconnect,
+  });
+
+  const handleUnlock = () => {
+    session.unlock().catch((error) => console.error('Unlock error:', error));
+  };
+  const handleLock = () => {
+    session.lock().catch((error) => console.error('Session lock error:', error));
+  };
+  const handleDisconnect = () => {
+    session.disconnect().catch((error) => console.error('Disconnect error:', error));
+  };
 
-  if (isConnecting) {
+  if (session.restoring || isConnecting) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center">
         <div className="flex flex-col items-center gap-4 text-white">
           <Loader2 className="w-8 h-8 animate-spin" />
-          <span className="text-lg">Connecting wallet...</span>
+          <span className="text-lg">{session.restoring ? 'Restoring session...' : 'Connecting wallet...'}</span>
         </div>
       </div>
     );
   }
 
   if (!isConnected) {
-    return <WelcomeScreen />;
+    return session.lockedWallet ? (
+      <LockedScreen smartWallet={session.lockedWallet} onUnlock={handleUnlock} />
+    ) : (
+      <WelcomeScreen />
+    );
   }
 
-  return <WalletDashboard onGoHome={onGoHome} />;
+  return <WalletDashboard onGoHome={onGoHome} onLock={handleLock} onDisconnect={handleDisconnect} />;
 }
 
 function AppDirect({ onGoHome }: { onGoHome: () => void }) {
+  const { cluster } = useCluster();
+  const connection = useMemo(() => new Connection(cluster.rpcUrl, 'confirmed'), [cluster.rpcUrl]);
+
+  // Re-mount on cluster change so every hook below starts against the new endpoints
   return (
     <LazorkitProvider
-      rpcUrl={LAZORKIT_CONFIG.rpcUrl}
-      portalUrl={LAZORKIT_CONFIG.portalUrl}
-      paymasterConfig={LAZORKIT_CONFIG.paymasterConfig}
+      key={cluster.name}
+      rpcUrl={cluster.rpcUrl}
+      portalUrl={cluster.portalUrl}
+      paymasterConfig={getPaymasterConfig(cluster)}
     >
-      <AppContent onGoHome={onGoHome} />
+      <SubscriptionProvider connection={connection}>
+        <TransactionTrackerProvider>
+          <AppContent onGoHome={onGoHome} />
+        </TransactionTrackerProvider>
+      </SubscriptionProvider>
     </LazorkitProvider>
   );
 }
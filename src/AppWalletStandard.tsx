@@ -1,52 +1,79 @@
-import { useState, useEffect, useMemo } from 'react';
-import { ConnectionProvider, WalletProvider, useWallet } from '@solana/wallet-adapter-react';
+import { useState, useEffect, useCallback } from 'react';
+import type { Adapter, WalletName } from '@solana/wallet-adapter-base';
+import { ConnectionProvider, WalletProvider, useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { WalletModalProvider, WalletMultiButton } from '@solana/wallet-adapter-react-ui';
-import { registerLazorkitWallet } from '@lazorkit/wallet';
-import { Loader2, Wallet, Send, Copy, CheckCircle, RefreshCw, ExternalLink } from 'lucide-react';
-import { Connection, PublicKey, SystemProgram, LAMPORTS_PER_SOL, Transaction } from '@solana/web3.js';
+import { LazorkitWalletName, registerLazorkitWallet } from '@lazorkit/wallet';
+import { Wallet, Send, Users, Copy, CheckCircle, RefreshCw, ExternalLink, QrCode, Terminal, PenLine, Stethoscope, ScanSearch, ShieldCheck } from 'lucide-react';
+import { ActivityFeed } from './components/ActivityFeed';
+import { AddressDetail } from './components/AddressDetail';
+import { BatchSendModal } from './components/BatchSendModal';
+import { ClusterSelector } from './components/ClusterSelector';
+import { ConnectionStatus } from './components/ConnectionStatus';
+import { DuePaymentsModal } from './components/DuePaymentsModal';
+import { InspectLink } from './components/InspectLink';
+import { InspectorSearch } from './components/InspectorSearch';
+import { LookupTables } from './components/LookupTables';
+import { Page } from './components/Page';
+import { PendingTransactions } from './components/PendingTransactions';
+import { PolicySettings } from './components/PolicySettings';
+import { ProgramConsole } from './components/ProgramConsole';
+import { ReceiveModal } from './components/ReceiveModal';
+import { ScheduleModal } from './components/ScheduleModal';
+import { ScheduledPayments } from './components/ScheduledPayments';
+import { SendModal } from './components/SendModal';
+import { SignMessageModal } from './components/SignMessageModal';
+import { SponsorshipStatus } from './components/SponsorshipStatus';
+import { TokenBalances } from './components/TokenBalances';
+import { TransactionDetail } from './components/TransactionDetail';
+import { WalletDiagnostics } from './components/WalletDiagnostics';
+import { WalletPicker } from './components/WalletPicker';
+import { getPaymasterConfig } from './config/clusters';
+import { MOCK_WALLET_ENABLED, MOCK_WALLET_SECRET } from './config/mockWallet';
+import { useCluster } from './context/ClusterContext';
+import { useSubscriptions } from './context/SubscriptionContext';
+import { SubscriptionProvider } from './context/SubscriptionProvider';
+import { TransactionTrackerProvider } from './context/TransactionTrackerProvider';
+import { useActivity } from './hooks/useActivity';
+import { useAppRoute } from './hooks/useAppRoute';
+import { useDiscoveredWallets } from './hooks/useDiscoveredWallets';
+import { useLiveBalance } from './hooks/useLiveBalance';
+import { useLookupTables } from './hooks/useLookupTables';
+import { usePaymasterStatus } from './hooks/usePaymasterStatus';
+import { usePolicies } from './hooks/usePolicies';
+import { useScheduledPayments } from './hooks/useScheduledPayments';
+import { useSessionKey } from './hooks/useSessionKey';
+import { useTokenBalances } from './hooks/useTokenBalances';
+import { useWalletActions } from './hooks/useWalletActions';
+import { formatSol } from './lib/amounts';
+import { createWalletAdapterMessageSigner } from './lib/messageSigning';
+import { MOCK_WALLET_NAME, registerMockWallet } from './lib/mockStandardWallet';
+import { loadMockKeypair } from './lib/mockWallet';
+import { chainIdForCluster } from './lib/siws';
+import { TokenBalance } from './lib/tokenService';
+import { TransactionSigner, createWalletAdapterSigner } from './lib/transactionService';
+import { getRegistrations, recordRegistration, registerUnregisterable } from './lib/walletDiscovery';
 
 // Import wallet adapter styles
 import '@solana/wallet-adapter-react-ui/styles.css';
 
-// LazorKit Configuration (using official defaults for Devnet)
-const CONFIG = {
-  RPC_URL: 'https://api.devnet.solana.com',
-  PORTAL_URL: 'https://portal.lazor.sh',
-  PAYMASTER: {
-    paymasterUrl: 'https://kora.devnet.lazorkit.com'
-  },
-  CLUSTER: 'devnet'
-} as const;
-
 function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
-  const { publicKey, sendTransaction, connected } = useWallet();
-  const [balance, setBalance] = useState<number | null>(null);
+  const { publicKey, sendTransaction, signMessage, signIn, connected, connecting, wallet, select, connect } = useWallet();
+  const discoveredWallets = useDiscoveredWallets();
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
   const [copied, setCopied] = useState(false);
-  const [showSendModal, setShowSendModal] = useState(false);
-  const [recipient, setRecipient] = useState('');
-  const [amount, setAmount] = useState('');
-  const [txHash, setTxHash] = useState<string | null>(null);
-  const [txError, setTxError] = useState('');
-  const [sending, setSending] = useState(false);
-  const [connection] = useState(() => new Connection(CONFIG.RPC_URL, 'confirmed'));
+  const { route, open, close, pathTo } = useAppRoute('wallet-standard');
+  const { cluster } = useCluster();
+  const { manager } = useSubscriptions();
+  const { connection } = manager;
 
-  useEffect(() => {
-    if (publicKey) {
-      refreshBalance();
-      const interval = setInterval(refreshBalance, 10000);
-      return () => clearInterval(interval);
-    }
-  }, [publicKey]);
-
-  const refreshBalance = async () => {
-    if (!publicKey) return;
-    try {
-      const balanceLamports = await connection.getBalance(publicKey);
-      setBalance(balanceLamports / LAMPORTS_PER_SOL);
-    } catch (error) {
-      console.error('Balance refresh error:', error);
-    }
-  };
+  const { tokens, loading: tokensLoading, refreshTokens } = useTokenBalances(publicKey);
+  const activity = useActivity(connection, publicKey, cluster.name);
+
+  const { balance, refreshBalance: refreshSolBalance } = useLiveBalance(publicKey);
+
+  const refreshBalance = useCallback(async () => {
+    await Promise.all([refreshSolBalance(), refreshTokens()]);
+  }, [refreshSolBalance, refreshTokens]);
 
   const copyAddress = () => {
     if (publicKey) {
@@ -56,87 +83,49 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
     }
   };
 
-  const handleSendTransaction = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setTxError('');
-    setTxHash(null);
-    setSending(true);
-
-    try {
-      if (!publicKey || !connected) {
-        throw new Error('Wallet not connected');
-      }
-
-      const recipientPubkey = new PublicKey(recipient.trim());
-      const amountNum = parseFloat(amount);
-
-      if (isNaN(amountNum) || amountNum <= 0) {
-        throw new Error('Invalid amount');
-      }
-
-      // Reserve some SOL for rent-exempt minimum (~0.001 SOL)
-      const RENT_RESERVE = 0.001;
-      const maxSendable = Math.max(0, (balance || 0) - RENT_RESERVE);
-
-      if (balance !== null && amountNum > balance) {
-        throw new Error('Insufficient balance');
-      }
-
-      if (balance !== null && amountNum > maxSendable) {
-        throw new Error(`Amount too high. Keep at least ${RENT_RESERVE} SOL for rent. Max sendable: ${maxSendable.toFixed(4)} SOL`);
-      }
-
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: publicKey,
-          toPubkey: recipientPubkey,
-          lamports: amountNum * LAMPORTS_PER_SOL,
-        })
-      );
-
-      console.log('Attempting to send transaction...', {
-        from: publicKey.toString(),
-        to: recipientPubkey.toString(),
-        amount: amountNum,
-        lamports: amountNum * LAMPORTS_PER_SOL,
-      });
+  const isLazorkit = wallet?.adapter.name === LazorkitWalletName;
+  // Only the LazorKit wallet goes through the cluster paymaster
+  const paymasterUrl = isLazorkit ? cluster.paymasterUrl : undefined;
+  const sponsorship = usePaymasterStatus(paymasterUrl, publicKey);
+  const lookupTables = useLookupTables(publicKey, cluster.name);
+  const scheduled = useScheduledPayments(publicKey, cluster.name);
+  const policies = usePolicies(publicKey, cluster.name);
+  const sessionKey = useSessionKey(publicKey, cluster.name);
+
+  const getSigner = (): TransactionSigner => {
+    if (!publicKey || !connected) {
+      throw new Error('Wallet not connected');
+    }
+
+    // LazorKit's adapter rebuilds instructions from the message's static keys only, so it cannot
+    // send accounts loaded from a lookup table
+    const tables = isLazorkit ? undefined : lookupTables.activeTables;
+    return createWalletAdapterSigner(publicKey, sendTransaction, connection, tables);
+  };
 
-      // LazorKit handles paymaster logic internally
-      const signature = await sendTransaction(transaction, connection);
-
-      console.log('Transaction successful:', signature);
-
-      setTxHash(signature);
-      setRecipient('');
-      setAmount('');
-      await refreshBalance();
-    } catch (err) {
-      console.error('Transaction failed:', err);
-      let errorMessage = 'Transaction failed';
-      
-      if (err instanceof Error) {
-        errorMessage = err.message;
-        if (err.message.includes('User rejected')) {
-          errorMessage = 'Transaction was cancelled.';
-        } else if (err.message.includes('Signing failed')) {
-          errorMessage = 'Signing failed. Please ensure you authenticate with your passkey.';
-        } else if (err.message.includes('Transaction too large') || err.message.includes('too large')) {
-          errorMessage = 'Transaction too large. If this persists, please try a smaller amount or contact support.';
-        } else if (err.message.includes('custom program error: 0x1') || err.message.includes('custom program error: 0x2')) {
-          errorMessage = `Insufficient funds. Your balance: ${balance?.toFixed(4) || '0'} SOL. You need to keep at least 0.001 SOL for rent. Try a smaller amount or fund your wallet using the faucet.`;
-        } else if (err.message.includes('Attempt to debit an account but found no record of a prior credit')) {
-          errorMessage = 'Account not funded. Please add SOL to your wallet using the faucet.';
-        } else if (err.message.includes('Transaction simulation failed')) {
-          errorMessage = 'Transaction simulation failed. This may be due to insufficient funds or network issues. Please check your balance and try again.';
-        }
-      }
-      
-      setTxError(errorMessage);
-    } finally {
-      setSending(false);
+  const actions = useWalletActions({
+    getSigner,
+    paymasterUrl,
+    balance,
+    tokens,
+    policies,
+    sessionKey,
+    onConfirmed: () => Promise.all([refreshBalance(), activity.refreshActivity()]),
+  });
+
+  // Selecting a new wallet auto-connects; after a failed attempt the same one needs an explicit connect
+  const handleSelectWallet = (name: string) => {
+    if (wallet?.adapter.name === name) {
+      connect().catch((error) => console.error('Wallet connect error:', error));
+    } else {
+      select(name as WalletName);
     }
   };
 
+  const openSendModal = (token?: TokenBalance) => {
+    open({ view: 'send', prefill: { token: token?.mint.toString() } });
+  };
+
   if (!connected) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 flex items-center justify-center p-4">
@@ -157,8 +146,20 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
               </p>
             </div>
 
-            <div className="flex justify-center">
-              <WalletMultiButton className="!bg-gradient-to-r !from-blue-500 !to-cyan-500 hover:!from-blue-600 hover:!to-cyan-600" />
+            <div className="flex flex-col items-center gap-4">
+              <WalletPicker
+                wallets={discoveredWallets}
+                connecting={connecting && wallet ? wallet.adapter.name : null}
+                onSelect={handleSelectWallet}
+              />
+              <ClusterSelector />
+              <button
+                onClick={() => setShowDiagnostics(true)}
+                className="flex items-center gap-1 text-blue-200 hover:text-white text-xs"
+              >
+                <Stethoscope className="w-3 h-3" />
+                Wallet diagnostics
+              </button>
             </div>
 
             <div className="mt-8 pt-6 border-t border-white/20">
@@ -170,10 +171,85 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
             </div>
           </div>
         </div>
+
+        {showDiagnostics && (
+          <WalletDiagnostics
+            wallets={discoveredWallets}
+            registrations={getRegistrations()}
+            connectedWallet={connected && wallet ? wallet.adapter.name : null}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        )}
       </div>
     );
   }
 
+  if (route.view === 'policies' && publicKey) {
+    return (
+      <PolicySettings
+        owner={publicKey}
+        tokens={tokens}
+        policy={policies.policy}
+        spending={policies.spending}
+        onSavePolicy={policies.save}
+        sessionKey={sessionKey}
+        onStartSession={actions.startSession}
+        onBack={close}
+      />
+    );
+  }
+
+  if (route.view === 'console' && publicKey) {
+    return (
+      <ProgramConsole
+        account={publicKey}
+        onPreview={actions.previewInstructions}
+        onSend={actions.sendInstructions}
+        onBack={close}
+      />
+    );
+  }
+
+  if (route.view === 'history' && publicKey) {
+    return (
+      <Page title="Activity" subtitle={<span className="font-mono">{publicKey.toString()}</span>} onBack={close}>
+        <InspectorSearch />
+        <ActivityFeed
+          rows={activity.rows}
+          tokens={tokens}
+          hasMore={activity.hasMore}
+          loading={activity.loading}
+          error={activity.error}
+          onRefresh={activity.refreshActivity}
+          onLoadMore={activity.loadMore}
+        />
+      </Page>
+    );
+  }
+
+  if (route.view === 'tx' && publicKey) {
+    return (
+      <TransactionDetail
+        signature={route.signature}
+        owner={publicKey}
+        tokens={tokens}
+        onBack={close}
+      />
+    );
+  }
+
+  if (route.view === 'address' && publicKey) {
+    return (
+      <AddressDetail
+        address={route.address}
+        owner={publicKey}
+        tokens={tokens}
+        onSend={(to) => open({ view: 'send', prefill: { to } })}
+        onBack={close}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 p-4">
       <div className="max-w-4xl mx-auto py-8">
@@ -190,12 +266,52 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
               <p className="text-blue-200 text-sm">Wallet Standard</p>
             </div>
           </button>
-          <WalletMultiButton className="!bg-white/10 hover:!bg-white/20 !border !border-white/20" />
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => open({ view: 'console' })}
+              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20"
+              title="Program console"
+            >
+              <Terminal className="w-4 h-4" />
+              <span>Console</span>
+            </button>
+            <button
+              onClick={() => open({ view: 'policies' })}
+              disabled={!publicKey}
+              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Spending limits, allowlist and session key"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              <span>Policies</span>
+            </button>
+            <button
+              onClick={() => open({ view: 'sign' })}
+              disabled={!publicKey || !signMessage}
+              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Sign a message"
+            >
+              <PenLine className="w-4 h-4" />
+              <span>Sign</span>
+            </button>
+            <button
+              onClick={() => setShowDiagnostics(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20"
+              title="Wallet diagnostics"
+            >
+              <Stethoscope className="w-4 h-4" />
+              <span>Wallets</span>
+            </button>
+            <ClusterSelector />
+            <WalletMultiButton className="!bg-white/10 hover:!bg-white/20 !border !border-white/20" />
+          </div>
         </div>
 
         <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-semibold text-white">Balance</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-xl font-semibold text-white">Balance</h2>
+              <ConnectionStatus />
+            </div>
             <button
               onClick={refreshBalance}
               disabled={!publicKey}
@@ -207,13 +323,13 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
 
           <div className="mb-6">
             <div className="text-4xl font-bold text-white mb-1">
-              {balance !== null ? balance.toFixed(4) : '---'} SOL
+              {balance !== null ? formatSol(balance.lamports, 4) : '---'} SOL
             </div>
-            {balance !== null && balance === 0 && (
+            {balance !== null && balance.lamports === 0n && cluster.faucetUrl && (
               <div className="text-blue-200 text-sm">
                 Fund your wallet using the{' '}
                 <a
-                  href="https://faucet.solana.com"
+                  href={cluster.faucetUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="underline hover:text-blue-100"
@@ -244,193 +360,226 @@ function WalletDashboard({ onGoHome }: { onGoHome: () => void }) {
             </div>
           </div>
 
-          <button
-            onClick={() => setShowSendModal(true)}
-            disabled={!publicKey || balance === null || balance === 0}
-            className="w-full bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
-          >
-            <Send className="w-5 h-5" />
-            <span>Send SOL</span>
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => openSendModal()}
+              disabled={!publicKey || balance === null || balance.lamports === 0n}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+            >
+              <Send className="w-5 h-5" />
+              <span>Send SOL</span>
+            </button>
+            <button
+              onClick={() => open({ view: 'receive' })}
+              disabled={!publicKey}
+              className="bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20 flex items-center justify-center gap-2"
+            >
+              <QrCode className="w-5 h-5" />
+              <span>Receive</span>
+            </button>
+            <button
+              onClick={() => open({ view: 'batch' })}
+              disabled={!publicKey || balance === null || balance.lamports === 0n}
+              className="bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20 flex items-center justify-center gap-2"
+            >
+              <Users className="w-5 h-5" />
+              <span>Batch</span>
+            </button>
+          </div>
         </div>
 
+        {publicKey && (
+          <TokenBalances tokens={tokens} loading={tokensLoading} onSend={openSendModal} />
+        )}
+
+        {publicKey && paymasterUrl && (
+          <SponsorshipStatus
+            config={sponsorship.config}
+            allowance={sponsorship.allowance}
+            loading={sponsorship.loading}
+            error={sponsorship.error}
+            onRefresh={sponsorship.refreshStatus}
+          />
+        )}
+
+        {publicKey && (
+          <LookupTables
+            tables={lookupTables.tables}
+            loading={lookupTables.loading}
+            error={lookupTables.error}
+            onRefresh={lookupTables.refreshTables}
+            onDiscover={lookupTables.discover}
+            onImport={lookupTables.importTable}
+            onForget={lookupTables.forget}
+            onCreate={(addresses) => lookupTables.create(getSigner(), addresses, actions.trackAs('Create lookup table'))}
+            onExtend={(table, addresses) =>
+              lookupTables.extend(getSigner(), table, addresses, actions.trackAs('Extend lookup table'))
+            }
+            onDeactivate={(table) => lookupTables.deactivate(getSigner(), table, actions.trackAs('Deactivate lookup table'))}
+            onClose={(table) => lookupTables.close(getSigner(), table, actions.trackAs('Close lookup table'))}
+          />
+        )}
+
+        {publicKey && (
+          <ScheduledPayments
+            payments={scheduled.payments}
+            due={scheduled.due}
+            log={scheduled.log}
+            tokens={tokens}
+            onNew={() => open({ view: 'schedule' })}
+            onReviewDue={scheduled.openPrompt}
+            onPause={scheduled.setPaused}
+            onRemove={scheduled.remove}
+            onClearLog={scheduled.clearLog}
+          />
+        )}
+
+        {publicKey && <PendingTransactions onResubmit={actions.resubmit} />}
+
+        {publicKey && (
+          <ActivityFeed
+            rows={activity.rows}
+            tokens={tokens}
+            hasMore={activity.hasMore}
+            loading={activity.loading}
+            error={activity.error}
+            onRefresh={activity.refreshActivity}
+            onLoadMore={activity.loadMore}
+            historyPath={pathTo({ view: 'history' })}
+          />
+        )}
+
         {publicKey && (
           <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20">
             <h2 className="text-xl font-semibold text-white mb-4">Quick Links</h2>
             <div className="space-y-2">
-              <a
-                href={`https://explorer.solana.com/address/${publicKey.toString()}?cluster=devnet`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="flex items-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all"
-              >
-                <ExternalLink className="w-5 h-5 text-blue-300" />
-                <span className="text-white">View on Solana Explorer</span>
-              </a>
-              <a
-                href="https://faucet.solana.com"
-                target="_blank"
-                rel="noopener noreferrer"
+              <InspectLink
+                kind="address"
+                value={publicKey.toString()}
                 className="flex items-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all"
               >
-                <ExternalLink className="w-5 h-5 text-blue-300" />
-                <span className="text-white">Get Devnet SOL from Faucet</span>
-              </a>
+                <ScanSearch className="w-5 h-5 text-blue-300" />
+                <span className="text-white">Inspect this wallet</span>
+              </InspectLink>
+              {cluster.faucetUrl && (
+                <a
+                  href={cluster.faucetUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all"
+                >
+                  <ExternalLink className="w-5 h-5 text-blue-300" />
+                  <span className="text-white">Get {cluster.label} SOL from Faucet</span>
+                </a>
+              )}
             </div>
           </div>
         )}
       </div>
 
-      {showSendModal && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
-          <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-md w-full border border-white/20">
-            <h3 className="text-2xl font-bold text-white mb-6">Send SOL</h3>
+      {route.view === 'send' && publicKey && (
+        <SendModal
+          account={publicKey}
+          balance={balance}
+          tokens={tokens}
+          prefill={route.prefill}
+          onPreview={actions.preview}
+          onMaxAmount={actions.getMaxAmount}
+          onSend={actions.send}
+          onPreviewInstructions={actions.previewInstructions}
+          onSendInstructions={actions.sendInstructions}
+          signedBySessionKey={(request) => sessionKey.signerFor(request) !== null}
+          onClose={close}
+        />
+      )}
 
-            {!txHash && !txError && (
-              <div className="mb-4 p-3 bg-blue-500/20 border border-blue-500/50 rounded-lg">
-                <p className="text-blue-100 text-xs">
-                  💡 You'll be prompted to sign with your passkey.
-                </p>
-              </div>
-            )}
+      {showDiagnostics && (
+        <WalletDiagnostics
+          wallets={discoveredWallets}
+          registrations={getRegistrations()}
+          connectedWallet={connected && wallet ? wallet.adapter.name : null}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
 
-            {txHash ? (
-              <div className="space-y-4">
-                <div className="p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
-                  <div className="flex items-center gap-3 mb-3">
-                    <CheckCircle className="w-6 h-6 text-green-400" />
-                    <p className="text-green-200 font-medium">Transaction Successful!</p>
-                  </div>
-                  <a
-                    href={`https://explorer.solana.com/tx/${txHash}?cluster=devnet`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="flex items-center gap-2 text-green-300 hover:text-green-200 text-sm"
-                  >
-                    <span className="break-all">{txHash.slice(0, 20)}...</span>
-                    <ExternalLink className="w-4 h-4 flex-shrink-0" />
-                  </a>
-                </div>
-                <button
-                  onClick={() => {
-                    setShowSendModal(false);
-                    setTxHash(null);
-                  }}
-                  className="w-full bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 transition-all border border-white/20"
-                >
-                  Close
-                </button>
-              </div>
-            ) : (
-              <form onSubmit={handleSendTransaction} className="space-y-4">
-                {txError && (
-                  <div className="p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
-                    <p className="text-red-200 text-sm">{txError}</p>
-                  </div>
-                )}
+      {route.view === 'sign' && publicKey && signMessage && (
+        <SignMessageModal
+          signer={createWalletAdapterMessageSigner(publicKey, signMessage, signIn)}
+          onClose={close}
+        />
+      )}
 
-                <div>
-                  <label htmlFor="recipient" className="block text-sm font-medium text-blue-200 mb-2">
-                    Recipient Address
-                  </label>
-                  <input
-                    id="recipient"
-                    type="text"
-                    value={recipient}
-                    onChange={(e) => setRecipient(e.target.value)}
-                    placeholder="Enter Solana address"
-                    className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
-                    disabled={sending}
-                    required
-                  />
-                </div>
-
-                <div>
-                  <label htmlFor="amount" className="block text-sm font-medium text-blue-200 mb-2">
-                    Amount (SOL)
-                  </label>
-                  <input
-                    id="amount"
-                    type="number"
-                    step="0.0001"
-                    value={amount}
-                    onChange={(e) => setAmount(e.target.value)}
-                    placeholder="0.0"
-                    className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    disabled={sending}
-                    required
-                  />
-                  {balance !== null && (
-                    <div className="text-blue-300 text-sm mt-1">
-                      <p>Available: {balance.toFixed(4)} SOL</p>
-                      <p className="text-blue-400 text-xs">Max sendable: {Math.max(0, balance - 0.001).toFixed(4)} SOL (keeping 0.001 for rent)</p>
-                    </div>
-                  )}
-                </div>
-
-                <div className="flex gap-3">
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setShowSendModal(false);
-                      setTxError('');
-                      setRecipient('');
-                      setAmount('');
-                    }}
-                    disabled={sending}
-                    className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    type="submit"
-                    disabled={sending}
-                    className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
-                  >
-                    {sending ? (
-                      <>
-                        <Loader2 className="w-5 h-5 animate-spin" />
-                        <span>Signing...</span>
-                      </>
-                    ) : (
-                      <>
-                        <Send className="w-5 h-5" />
-                        <span>Send</span>
-                      </>
-                    )}
-                  </button>
-                </div>
-              </form>
-            )}
-          </div>
-        </div>
+      {route.view === 'receive' && publicKey && (
+        <ReceiveModal address={publicKey} tokens={tokens} onClose={close} />
+      )}
+
+      {route.view === 'batch' && publicKey && (
+        <BatchSendModal
+          balance={balance}
+          tokens={tokens}
+          onSendBatch={actions.sendBatch}
+          onClose={close}
+        />
+      )}
+
+      {route.view === 'schedule' && publicKey && (
+        <ScheduleModal tokens={tokens} onSchedule={scheduled.add} onClose={close} />
+      )}
+
+      {scheduled.promptOpen && scheduled.due.length > 0 && (
+        <DuePaymentsModal
+          due={scheduled.due}
+          tokens={tokens}
+          running={scheduled.running}
+          onPreview={actions.previewScheduled}
+          onApprove={(due) => scheduled.approve(due, actions.sendScheduled)}
+          onSkip={scheduled.skip}
+          onClose={scheduled.dismissPrompt}
+        />
       )}
     </div>
   );
 }
 
+// WalletProvider discovers Standard Wallets (LazorKit, Phantom, Solflare, Backpack, ...) by itself
+// and lists them next to these. Adapters are only needed for wallets without Wallet Standard support.
+const LEGACY_ADAPTERS: Adapter[] = [];
+
 function AppProviders({ children }: { children: React.ReactNode }) {
-  // Register LazorKit wallet on mount
+  const { cluster } = useCluster();
+
+  // A Standard Wallet keeps the cluster it was registered for, so each cluster gets its own
+  // registration and the previous one is withdrawn
   useEffect(() => {
-    registerLazorkitWallet({
-      rpcUrl: CONFIG.RPC_URL,
-      portalUrl: CONFIG.PORTAL_URL,
-      paymasterConfig: CONFIG.PAYMASTER,
-      clusterSimulation: CONFIG.CLUSTER,
-    });
-  }, []);
-
-  const wallets = useMemo(
-    () => [
-      // LazorKit will be automatically detected after registration
-      // Other standard wallets (Phantom, Solflare, etc.) would also appear here
-    ],
-    []
-  );
+    let unregister = () => {};
+    if (MOCK_WALLET_ENABLED) {
+      recordRegistration(MOCK_WALLET_NAME, () => {
+        unregister = registerUnregisterable(() =>
+          registerMockWallet({
+            keypair: loadMockKeypair(MOCK_WALLET_SECRET),
+            rpcUrl: cluster.rpcUrl,
+            chain: chainIdForCluster(cluster.name),
+          })
+        );
+      });
+    } else {
+      recordRegistration(LazorkitWalletName, () => {
+        unregister = registerUnregisterable(() =>
+          registerLazorkitWallet({
+            rpcUrl: cluster.rpcUrl,
+            portalUrl: cluster.portalUrl,
+            paymasterConfig: getPaymasterConfig(cluster),
+            clusterSimulation: cluster.clusterSimulation,
+          })
+        );
+      });
+    }
+    return () => unregister();
+  }, [cluster]);
 
   return (
-    <ConnectionProvider endpoint={CONFIG.RPC_URL}>
-      <WalletProvider wallets={wallets} autoConnect>
+    <ConnectionProvider key={cluster.name} endpoint={cluster.rpcUrl} config={{ commitment: 'confirmed' }}>
+      <WalletProvider wallets={LEGACY_ADAPTERS} autoConnect>
         <WalletModalProvider>
           {children}
         </WalletModalProvider>
@@ -439,10 +588,21 @@ function AppProviders({ children }: { children: React.ReactNode }) {
   );
 }
 
+function LiveUpdates({ children }: { children: React.ReactNode }) {
+  const { connection } = useConnection();
+  return (
+    <SubscriptionProvider connection={connection}>
+      <TransactionTrackerProvider>{children}</TransactionTrackerProvider>
+    </SubscriptionProvider>
+  );
+}
+
 function AppWalletStandard({ onGoHome }: { onGoHome: () => void }) {
   return (
     <AppProviders>
-      <WalletDashboard onGoHome={onGoHome} />
+      <LiveUpdates>
+        <WalletDashboard onGoHome={onGoHome} />
+      </LiveUpdates>
     </AppProviders>
   );
 }
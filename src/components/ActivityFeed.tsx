@@ -0,0 +1,153 @@
+import { ArrowDownLeft, ArrowUpRight, History, Loader2, RefreshCw, Repeat } from 'lucide-react';
+import { formatSol } from '../lib/amounts';
+import { ActivityRow, ActivityTransfer } from '../lib/historyService';
+import { TokenBalance, getTokenLabel } from '../lib/tokenService';
+import { InspectLink } from './InspectLink';
+import { RouteLink } from './RouteLink';
+
+interface ActivityFeedProps {
+  rows: ActivityRow[];
+  tokens: TokenBalance[];
+  hasMore: boolean;
+  loading: boolean;
+  error: string;
+  onRefresh: () => void;
+  onLoadMore: () => void;
+  // Adds a link to the full history screen
+  historyPath?: string;
+}
+
+function shorten(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function formatTime(blockTime: number | null): string {
+  return blockTime ? new Date(blockTime * 1000).toLocaleString() : 'Pending';
+}
+
+const DIRECTION_STYLES = {
+  in: { icon: ArrowDownLeft, label: 'Received', color: 'text-green-400', sign: '+' },
+  out: { icon: ArrowUpRight, label: 'Sent', color: 'text-red-300', sign: '-' },
+  self: { icon: Repeat, label: 'Self transfer', color: 'text-blue-300', sign: '' },
+} as const;
+
+interface TransferLineProps {
+  transfer: ActivityTransfer;
+  tokens: TokenBalance[];
+}
+
+export function TransferLine({ transfer, tokens }: TransferLineProps) {
+  const style = DIRECTION_STYLES[transfer.direction];
+  const Icon = style.icon;
+  const token = transfer.mint ? tokens.find((t) => t.mint.toString() === transfer.mint) : undefined;
+  const asset = transfer.mint ? (token ? getTokenLabel(token) : shorten(transfer.mint)) : 'SOL';
+
+  return (
+    <div className="flex items-center gap-3">
+      <Icon className={`w-5 h-5 flex-shrink-0 ${style.color}`} />
+      <div className="flex-1 min-w-0">
+        <p className="text-white text-sm">{style.label}</p>
+        {transfer.counterparty && (
+          <p className="text-blue-300 text-xs font-mono truncate">
+            {transfer.direction === 'in' ? 'from' : 'to'}{' '}
+            <InspectLink kind="address" value={transfer.counterparty} className="hover:text-blue-100 underline">
+              {shorten(transfer.counterparty)}
+            </InspectLink>
+          </p>
+        )}
+      </div>
+      <p className={`text-sm font-medium ${style.color}`}>
+        {style.sign}{transfer.amount} {asset}
+      </p>
+    </div>
+  );
+}
+
+export function ActivityFeed({
+  rows,
+  tokens,
+  hasMore,
+  loading,
+  error,
+  onRefresh,
+  onLoadMore,
+  historyPath,
+}: ActivityFeedProps) {
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">Activity</h2>
+        <div className="flex items-center gap-2">
+          {historyPath && (
+            <RouteLink to={historyPath} className="text-sm text-blue-300 hover:text-blue-100">
+              View all
+            </RouteLink>
+          )}
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="p-2 hover:bg-white/10 rounded-lg transition-all disabled:opacity-50"
+          >
+            <RefreshCw className={`w-5 h-5 text-blue-300 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="flex items-center gap-2 text-blue-200 text-sm">
+          <History className="w-4 h-4" />
+          <span>{loading ? 'Loading activity...' : 'No transactions yet.'}</span>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row) => (
+            <div key={row.signature} className="p-3 bg-white/5 rounded-lg space-y-2">
+              {row.transfers.length > 0 ? (
+                row.transfers.map((transfer, index) => (
+                  <TransferLine key={index} transfer={transfer} tokens={tokens} />
+                ))
+              ) : (
+                <p className="text-white text-sm">Contract interaction</p>
+              )}
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-blue-300">
+                <span>{formatTime(row.blockTime)}</span>
+                <span className={row.status === 'success' ? 'text-green-400' : 'text-red-400'}>
+                  {row.status === 'success' ? 'Success' : 'Failed'}
+                </span>
+                {row.feePayer && (
+                  <span title={row.feePayer}>
+                    Fee {formatSol(row.fee)} SOL {row.sponsored ? `sponsored by ${shorten(row.feePayer)}` : 'paid by you'}
+                  </span>
+                )}
+                <InspectLink
+                  kind="tx"
+                  value={row.signature}
+                  className="font-mono hover:text-blue-100 underline ml-auto"
+                >
+                  {shorten(row.signature)}
+                </InspectLink>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={loading}
+          className="w-full mt-4 bg-white/10 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-white/20 disabled:opacity-50 transition-all border border-white/20 flex items-center justify-center gap-2"
+        >
+          {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Load more</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ExternalLink, Loader2, Send } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { getExplorerUrl } from '../config/clusters';
+import { useCluster } from '../context/ClusterContext';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { useActivity } from '../hooks/useActivity';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { useLiveBalance } from '../hooks/useLiveBalance';
+import { findContact } from '../lib/addressBook';
+import { formatSol } from '../lib/amounts';
+import { InspectedAccount, inspectAccount } from '../lib/inspector';
+import { TokenBalance } from '../lib/tokenService';
+import { ActivityFeed } from './ActivityFeed';
+import { DecodedFields } from './DecodedFields';
+import { InspectLink } from './InspectLink';
+import { InspectorSearch } from './InspectorSearch';
+import { Page } from './Page';
+
+interface AddressDetailProps {
+  address: string;
+  // The connected wallet, which gets no send button to itself
+  owner: PublicKey;
+  tokens: TokenBalance[];
+  onSend: (address: string) => void;
+  onBack: () => void;
+}
+
+export function AddressDetail({
+  address,
+  owner,
+  tokens,
+  onSend,
+  onBack,
+}: AddressDetailProps) {
+  const { cluster } = useCluster();
+  const { manager } = useSubscriptions();
+  const { contacts } = useAddressBook();
+  const publicKey = useMemo(() => new PublicKey(address), [address]);
+  const { balance } = useLiveBalance(publicKey);
+  const activity = useActivity(manager.connection, publicKey, cluster.name);
+  const [account, setAccount] = useState<InspectedAccount | null>(null);
+  const [accountLoading, setAccountLoading] = useState(true);
+  const [accountError, setAccountError] = useState('');
+
+  // Reloaded whenever the live balance moves, since the account data usually changed with it
+  const lamports = balance?.lamports;
+  useEffect(() => {
+    let cancelled = false;
+    setAccountLoading(true);
+    inspectAccount(manager.connection, publicKey)
+      .then((info) => {
+        if (cancelled) return;
+        setAccount(info);
+        setAccountError('');
+      })
+      .catch((err) => {
+        console.error('Account inspect error:', err);
+        if (!cancelled) setAccountError('Could not load the account from the RPC.');
+      })
+      .finally(() => {
+        if (!cancelled) setAccountLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [manager, publicKey, lamports]);
+
+  const isOwner = publicKey.equals(owner);
+  const contact = findContact(contacts, address);
+
+  return (
+    <Page
+      title={isOwner ? 'Your wallet' : contact?.label ?? 'Address'}
+      subtitle={<span className="font-mono">{address}</span>}
+      onBack={onBack}
+    >
+      <InspectorSearch />
+
+      <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-blue-200 text-sm mb-1">Balance</p>
+            <p className="text-3xl font-bold text-white">{balance ? formatSol(balance.lamports, 4) : '---'} SOL</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <a
+              href={getExplorerUrl(cluster, 'address', address)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20 text-sm"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Solana Explorer
+            </a>
+            {!isOwner && (
+              <button
+                onClick={() => onSend(address)}
+                className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 transition-all text-sm"
+              >
+                <Send className="w-4 h-4" />
+                Send
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Account</h2>
+        {accountError && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+            <p className="text-red-200 text-sm">{accountError}</p>
+          </div>
+        )}
+        {!account ? (
+          <div className="flex items-center gap-2 text-blue-200 text-sm">
+            {accountLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{accountLoading ? 'Loading account...' : `No account at this address on ${cluster.label}.`}</span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-blue-200">Owner</span>
+              <InspectLink kind="address" value={account.owner} className="text-white hover:text-blue-100 underline">
+                {account.ownerName}
+              </InspectLink>
+            </div>
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span className="text-blue-200">Data</span>
+              <span className="text-white">
+                {account.space.toLocaleString()} bytes{account.executable ? ' · executable program' : ''}
+              </span>
+            </div>
+            {account.kind && (
+              <div className="pt-2">
+                <p className="text-blue-200 text-xs font-medium uppercase tracking-wide mb-2">{account.kind}</p>
+                <DecodedFields fields={account.fields} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <ActivityFeed
+        rows={activity.rows}
+        tokens={tokens}
+        hasMore={activity.hasMore}
+        loading={activity.loading}
+        error={activity.error}
+        onRefresh={activity.refreshActivity}
+        onLoadMore={activity.loadMore}
+      />
+    </Page>
+  );
+}
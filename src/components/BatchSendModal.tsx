@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, Loader2, RotateCcw, ScanSearch, Upload, Users, XCircle } from 'lucide-react';
+import { BatchRow, checkBatchTotals, parseBatchCsv } from '../lib/batchService';
+import { TokenBalance, getTokenLabel } from '../lib/tokenService';
+import { SolBalance } from '../lib/transactionService';
+import { InspectLink } from './InspectLink';
+
+interface BatchSendModalProps {
+  balance: SolBalance | null;
+  tokens: TokenBalance[];
+  onSendBatch: (rows: BatchRow[], onUpdate: (rows: BatchRow[]) => void) => Promise<BatchRow[]>;
+  onClose: () => void;
+}
+
+const CSV_PLACEHOLDER = `address,amount,token
+7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU,0.01
+9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM,5,USDC`;
+
+function StatusIcon({ row }: { row: BatchRow }) {
+  switch (row.status) {
+    case 'success':
+      return <CheckCircle className="w-4 h-4 text-green-400" />;
+    case 'sending':
+      return <Loader2 className="w-4 h-4 text-blue-300 animate-spin" />;
+    case 'failed':
+    case 'invalid':
+      return <XCircle className="w-4 h-4 text-red-400" />;
+    default:
+      return <div className="w-2 h-2 rounded-full bg-blue-400 mx-1" />;
+  }
+}
+
+export function BatchSendModal({ balance, tokens, onSendBatch, onClose }: BatchSendModalProps) {
+  const [csv, setCsv] = useState('');
+  const [rows, setRows] = useState<BatchRow[] | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const counts = useMemo(() => {
+    const result = { ready: 0, invalid: 0, success: 0, failed: 0 };
+    rows?.forEach((row) => {
+      if (row.status in result) result[row.status as keyof typeof result] += 1;
+    });
+    return result;
+  }, [rows]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv(await file.text());
+    setRows(null);
+  };
+
+  const handleReview = () => {
+    setRows(checkBatchTotals(parseBatchCsv(csv, tokens), balance));
+  };
+
+  const handleSend = async () => {
+    if (!rows) return;
+    setSending(true);
+    try {
+      setRows(await onSendBatch(rows, setRows));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const pendingCount = counts.ready + counts.failed;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-2xl w-full border border-white/20 max-h-[90vh] flex flex-col">
+        <div className="flex items-center gap-3 mb-6">
+          <Users className="w-6 h-6 text-cyan-300" />
+          <h3 className="text-2xl font-bold text-white">Batch Send</h3>
+        </div>
+
+        {rows === null ? (
+          <div className="space-y-4">
+            <p className="text-blue-200 text-sm">
+              One transfer per line as <code className="text-cyan-300">address,amount[,token]</code>. The token column
+              takes a mint address or symbol and defaults to SOL.
+            </p>
+            <textarea
+              value={csv}
+              onChange={(e) => setCsv(e.target.value)}
+              placeholder={CSV_PLACEHOLDER}
+              rows={8}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-xs"
+            />
+            <label className="flex items-center justify-center gap-2 p-3 bg-white/5 hover:bg-white/10 rounded-lg border border-dashed border-white/20 text-blue-200 text-sm cursor-pointer transition-all">
+              <Upload className="w-4 h-4" />
+              <span>Upload CSV file</span>
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 transition-all border border-white/20"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleReview}
+                disabled={!csv.trim()}
+                className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Review
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3 mb-4 text-sm">
+              <span className="text-blue-200">{rows.length} rows</span>
+              {counts.invalid > 0 && <span className="text-red-300">{counts.invalid} invalid</span>}
+              {counts.success > 0 && <span className="text-green-300">{counts.success} sent</span>}
+              {counts.failed > 0 && <span className="text-red-300">{counts.failed} failed</span>}
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-1 mb-4 pr-1">
+              {rows.map((row) => (
+                <div key={row.line} className="flex items-center gap-3 p-2 bg-white/5 rounded-lg text-sm">
+                  <span className="text-blue-400 text-xs w-8 flex-shrink-0">#{row.line}</span>
+                  <StatusIcon row={row} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-mono text-xs truncate">{row.address}</p>
+                    {row.error && (
+                      <p className="text-red-300 text-xs flex items-center gap-1">
+                        <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                        <span className="truncate">{row.error}</span>
+                      </p>
+                    )}
+                  </div>
+                  <span className="text-white whitespace-nowrap">
+                    {row.amount} {row.token ? getTokenLabel(row.token) : row.asset || 'SOL'}
+                  </span>
+                  {row.signature && (
+                    <InspectLink
+                      kind="tx"
+                      value={row.signature}
+                      className="text-green-300 hover:text-green-200"
+                      title="Inspect"
+                    >
+                      <ScanSearch className="w-4 h-4" />
+                    </InspectLink>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="mb-4 p-3 bg-blue-500/20 border border-blue-500/50 rounded-lg">
+              <p className="text-blue-100 text-xs">
+                💡 Transfers are packed into as few transactions as fit. You'll sign each transaction with your passkey.
+              </p>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setRows(null)}
+                disabled={sending}
+                className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20"
+              >
+                Edit
+              </button>
+              {pendingCount > 0 ? (
+                <button
+                  type="button"
+                  onClick={handleSend}
+                  disabled={sending}
+                  className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+                >
+                  {sending ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      <span>Sending...</span>
+                    </>
+                  ) : counts.failed > 0 ? (
+                    <>
+                      <RotateCcw className="w-5 h-5" />
+                      <span>Retry {counts.failed} failed</span>
+                    </>
+                  ) : (
+                    <span>Send {counts.ready} transfers</span>
+                  )}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 transition-all border border-white/20"
+                >
+                  Close
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
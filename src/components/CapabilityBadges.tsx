@@ -0,0 +1,28 @@
+import { CAPABILITY_LABELS, WalletCapability } from '../lib/walletDiscovery';
+
+const ALL_CAPABILITIES = Object.keys(CAPABILITY_LABELS) as WalletCapability[];
+
+/**
+ * One badge per Solana capability, dimmed and struck through when the wallet lacks it.
+ */
+export function CapabilityBadges({ capabilities }: { capabilities: WalletCapability[] }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {ALL_CAPABILITIES.map((capability) => {
+        const supported = capabilities.includes(capability);
+        return (
+          <span
+            key={capability}
+            className={`px-2 py-0.5 rounded-full text-[11px] border ${
+              supported
+                ? 'bg-green-500/20 border-green-500/40 text-green-200'
+                : 'bg-white/5 border-white/10 text-blue-300/50 line-through'
+            }`}
+          >
+            {CAPABILITY_LABELS[capability]}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
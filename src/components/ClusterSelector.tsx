@@ -0,0 +1,25 @@
+import { Globe } from 'lucide-react';
+import { CLUSTER_NAMES, CLUSTER_PROFILES, isClusterName } from '../config/clusters';
+import { useCluster } from '../context/ClusterContext';
+
+export function ClusterSelector({ disabled }: { disabled?: boolean }) {
+  const { cluster, setCluster } = useCluster();
+
+  return (
+    <label className="flex items-center gap-2 px-3 py-2 bg-white/10 rounded-lg border border-white/20 text-white">
+      <Globe className="w-4 h-4 text-blue-300" />
+      <select
+        value={cluster.name}
+        onChange={(e) => isClusterName(e.target.value) && setCluster(e.target.value)}
+        disabled={disabled}
+        className="bg-transparent text-sm focus:outline-none disabled:opacity-50 cursor-pointer"
+      >
+        {CLUSTER_NAMES.map((name) => (
+          <option key={name} value={name} className="bg-slate-900">
+            {CLUSTER_PROFILES[name].label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
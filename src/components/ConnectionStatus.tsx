@@ -0,0 +1,25 @@
+import { Radio, RefreshCw } from 'lucide-react';
+import { useSubscriptions } from '../context/SubscriptionContext';
+
+const STATUS = {
+  connecting: { label: 'Connecting', color: 'bg-yellow-400', icon: Radio },
+  live: { label: 'Live', color: 'bg-green-400', icon: Radio },
+  polling: { label: 'Reconnecting', color: 'bg-orange-400', icon: RefreshCw },
+} as const;
+
+export function ConnectionStatus() {
+  const { health } = useSubscriptions();
+  const status = STATUS[health];
+  const Icon = status.icon;
+
+  return (
+    <div
+      className="flex items-center gap-2 text-xs text-blue-200"
+      title={health === 'polling' ? 'WebSocket unavailable, polling the RPC instead' : 'Receiving updates over WebSocket'}
+    >
+      <span className={`w-2 h-2 rounded-full ${status.color} ${health === 'live' ? 'animate-pulse' : ''}`} />
+      <Icon className="w-3 h-3" />
+      <span>{status.label}</span>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { DecodedField } from '../lib/inspector';
+import { InspectLink } from './InspectLink';
+
+/**
+ * Name/value rows for decoded instruction arguments or account data; addresses link to their screen.
+ */
+export function DecodedFields({ fields }: { fields: DecodedField[] }) {
+  return (
+    <div className="space-y-1">
+      {fields.map((field, index) => (
+        <div key={index} className="flex gap-3 text-xs">
+          <span className="text-blue-300 w-40 flex-shrink-0 truncate" title={field.name}>
+            {field.name}
+          </span>
+          {field.address ? (
+            <InspectLink kind="address" value={field.value} className="font-mono text-blue-100 hover:text-white break-all">
+              {field.value}
+            </InspectLink>
+          ) : (
+            <span className="font-mono text-white break-all">{field.value}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
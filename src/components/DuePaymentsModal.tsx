@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { BellRing, Eye, Loader2, Send, SkipForward } from 'lucide-react';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { findContact, shortenAddress } from '../lib/addressBook';
+import { DuePayment, formatRunTime } from '../lib/scheduledPayments';
+import { TransferPreview } from '../lib/simulationService';
+import { TokenBalance, getAssetLabel } from '../lib/tokenService';
+import { toWalletError } from '../lib/walletErrors';
+import { TransactionReview } from './TransactionReview';
+
+interface DuePaymentsModalProps {
+  due: DuePayment[];
+  tokens: TokenBalance[];
+  // Id of the payment being signed and sent
+  running: string | null;
+  // Simulates the oldest due run, shown for review before it is approved
+  onPreview: (due: DuePayment) => Promise<TransferPreview>;
+  // Sends the oldest due run and resolves once it confirms; each approval is its own passkey prompt
+  onApprove: (due: DuePayment) => Promise<void>;
+  onSkip: (due: DuePayment) => void;
+  onClose: () => void;
+}
+
+export function DuePaymentsModal({ due, tokens, running, onPreview, onApprove, onSkip, onClose }: DuePaymentsModalProps) {
+  const { contacts } = useAddressBook();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // Id of the payment being simulated
+  const [simulating, setSimulating] = useState<string | null>(null);
+  const [review, setReview] = useState<{ item: DuePayment; preview: TransferPreview } | null>(null);
+
+  const setError = (item: DuePayment, error: string) =>
+    setErrors((current) => ({ ...current, [item.payment.id]: error }));
+
+  const handleReview = async (item: DuePayment) => {
+    setError(item, '');
+    setSimulating(item.payment.id);
+    try {
+      setReview({ item, preview: await onPreview(item) });
+    } catch (err) {
+      console.error('Scheduled payment simulation failed:', err);
+      setError(item, toWalletError(err).message);
+    } finally {
+      setSimulating(null);
+    }
+  };
+
+  const handleApprove = async (item: DuePayment) => {
+    setError(item, '');
+    try {
+      await onApprove(item);
+      setReview(null);
+    } catch (err) {
+      console.error('Scheduled payment failed:', err);
+      setError(item, toWalletError(err).message);
+    }
+  };
+
+  const describeRecipient = (item: DuePayment) =>
+    findContact(contacts, item.payment.recipient)?.label ?? shortenAddress(item.payment.recipient);
+
+  if (review) {
+    const { item, preview } = review;
+    const { payment } = item;
+    const busy = running === payment.id;
+    const error = errors[payment.id];
+    return (
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+        <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-2xl w-full border border-white/20 max-h-[90vh] overflow-y-auto space-y-4">
+          <div className="flex items-center gap-3">
+            <BellRing className="w-6 h-6 text-yellow-300" />
+            <h3 className="text-2xl font-bold text-white">Review Payment</h3>
+          </div>
+          <div className="p-3 bg-white/5 rounded-lg text-sm">
+            <p className="text-white">
+              {payment.label || 'Payment'} · {payment.amount} {getAssetLabel(payment.mint, tokens)}
+            </p>
+            <p className="text-blue-300 text-xs">
+              to {describeRecipient(item)} · due {formatRunTime(item.dueAt)}
+            </p>
+            <p className="text-blue-300 text-xs font-mono break-all mt-1">{payment.recipient}</p>
+          </div>
+          <TransactionReview preview={preview} />
+          {error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+              <p className="text-red-200 text-sm">{error}</p>
+            </div>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={() => setReview(null)}
+              disabled={running !== null}
+              className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20"
+            >
+              Back
+            </button>
+            <button
+              onClick={() => handleApprove(item)}
+              disabled={running !== null || !!preview.error}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+            >
+              {busy ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+              <span>{busy ? 'Confirming...' : 'Confirm & Sign'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-2xl w-full border border-white/20 max-h-[90vh] flex flex-col">
+        <div className="flex items-center gap-3 mb-2">
+          <BellRing className="w-6 h-6 text-yellow-300" />
+          <h3 className="text-2xl font-bold text-white">Payments Due</h3>
+        </div>
+        <p className="text-blue-200 text-sm mb-4">
+          Review each payment's simulation and approve it with your passkey, or skip it. Anything left here is asked again next time.
+        </p>
+
+        <div className="space-y-3 overflow-y-auto pr-1 mb-4">
+          {due.map((item) => {
+            const { payment } = item;
+            const error = errors[payment.id];
+            const busy = simulating === payment.id;
+            return (
+              <div key={payment.id} className="p-3 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm truncate">
+                      {payment.label || 'Payment'} · {payment.amount} {getAssetLabel(payment.mint, tokens)}
+                    </p>
+                    <p className="text-blue-300 text-xs truncate">
+                      to {describeRecipient(item)} · due {formatRunTime(item.dueAt)}
+                    </p>
+                    {item.count > 1 && (
+                      <p className="text-yellow-300 text-xs">
+                        {item.count} runs due; each is approved separately, oldest first
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => onSkip(item)}
+                      disabled={running !== null || simulating !== null}
+                      className="flex items-center gap-1 px-3 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm transition-all border border-white/20"
+                    >
+                      <SkipForward className="w-4 h-4" />
+                      Skip
+                    </button>
+                    <button
+                      onClick={() => handleReview(item)}
+                      disabled={running !== null || simulating !== null}
+                      className="flex items-center gap-1 px-3 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-all"
+                    >
+                      {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+                      {busy ? 'Simulating...' : 'Review'}
+                    </button>
+                  </div>
+                </div>
+                {error && (
+                  <div className="mt-2 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+                    <p className="text-red-200 text-sm">{error}</p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={onClose}
+          disabled={running !== null || simulating !== null}
+          className="w-full bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20"
+        >
+          Later
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { useRouter } from '../context/RouterContext';
+import { AppRoute, formatRoute } from '../lib/routes';
+import { RouteLink, RouteLinkProps } from './RouteLink';
+
+type InspectLinkProps = Omit<RouteLinkProps, 'to'> & { kind: 'tx' | 'address'; value: string };
+
+/**
+ * Links a signature or address to its inspector screen in the integration being shown.
+ */
+export function InspectLink({ kind, value, ...props }: InspectLinkProps) {
+  const { location } = useRouter();
+  const route: AppRoute = kind === 'tx' ? { view: 'tx', signature: value } : { view: 'address', address: value };
+
+  return <RouteLink to={formatRoute(location.integration, route)} {...props} />;
+}
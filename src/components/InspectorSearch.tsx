@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { Search } from 'lucide-react';
+import { useRouter } from '../context/RouterContext';
+import { formatRoute, parseInspectTarget } from '../lib/routes';
+
+/**
+ * Opens the inspector for a pasted transaction signature or address.
+ */
+export function InspectorSearch() {
+  const { location, navigate } = useRouter();
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const route = parseInspectTarget(value);
+    if (!route) {
+      setError('Not a transaction signature or address');
+      return;
+    }
+    setError('');
+    setValue('');
+    navigate(formatRoute(location.integration, route));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6">
+      <div className="flex gap-2">
+        <input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="Inspect a transaction signature or address"
+          className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-4 py-2 text-white text-sm placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+        />
+        <button
+          type="submit"
+          disabled={!value.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20 text-sm disabled:opacity-50"
+        >
+          <Search className="w-4 h-4" />
+          Inspect
+        </button>
+      </div>
+      {error && <p className="text-red-300 text-sm mt-2">{error}</p>}
+    </form>
+  );
+}
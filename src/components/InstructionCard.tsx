@@ -0,0 +1,49 @@
+import { DecodedInstruction } from '../lib/inspector';
+import { DecodedFields } from './DecodedFields';
+import { InspectLink } from './InspectLink';
+
+interface InstructionCardProps {
+  instruction: DecodedInstruction;
+  // e.g. `#2` or `#2.1` for the first inner instruction of the second
+  label: string;
+}
+
+export function InstructionCard({ instruction, label }: InstructionCardProps) {
+  return (
+    <div className="p-3 bg-white/5 rounded-lg">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <p className="text-white text-sm min-w-0">
+          <span className="text-blue-300 mr-2">{label}</span>
+          <InspectLink kind="address" value={instruction.programId} className="hover:text-blue-100 underline">
+            {instruction.program}
+          </InspectLink>
+          <span className="text-blue-200">: {instruction.name ?? 'Unknown instruction'}</span>
+        </p>
+        {instruction.computeUnits !== null && (
+          <span className="text-blue-300 text-xs whitespace-nowrap">
+            {instruction.computeUnits.toLocaleString()} CU
+          </span>
+        )}
+      </div>
+
+      {instruction.fields.length > 0 && <DecodedFields fields={instruction.fields} />}
+
+      {!instruction.name && (instruction.accounts.length > 0 || instruction.data) && (
+        <DecodedFields
+          fields={[
+            ...instruction.accounts.map((account, index) => ({ name: `account ${index}`, value: account, address: true })),
+            ...(instruction.data ? [{ name: 'data (base58)', value: instruction.data, address: false }] : []),
+          ]}
+        />
+      )}
+
+      {instruction.inner.length > 0 && (
+        <div className="mt-3 pl-3 border-l border-white/10 space-y-2">
+          {instruction.inner.map((inner, index) => (
+            <InstructionCard key={index} instruction={inner} label={`${label}.${index + 1}`} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
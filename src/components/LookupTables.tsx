@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { Loader2, Plus, RefreshCw, Search, Table2 } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { shortenAddress } from '../lib/addressBook';
+import { LookupTableInfo, LookupTableStatus, MAX_TABLE_ADDRESSES } from '../lib/lookupTables';
+import { toWalletError } from '../lib/walletErrors';
+
+interface LookupTablesProps {
+  tables: LookupTableInfo[];
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+  onDiscover: () => Promise<void>;
+  onImport: (address: PublicKey) => Promise<void>;
+  onForget: (address: PublicKey) => void;
+  onCreate: (addresses: PublicKey[]) => Promise<void>;
+  onExtend: (table: LookupTableInfo, addresses: PublicKey[]) => Promise<void>;
+  onDeactivate: (table: LookupTableInfo) => Promise<void>;
+  onClose: (table: LookupTableInfo) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<LookupTableStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-500/20 text-green-300' },
+  deactivating: { label: 'Cooling down', className: 'bg-yellow-500/20 text-yellow-300' },
+  closable: { label: 'Ready to close', className: 'bg-white/10 text-blue-200' },
+};
+
+// One address per line, or separated by commas or spaces
+function parseAddresses(text: string): PublicKey[] {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((address) => {
+      try {
+        return new PublicKey(address);
+      } catch {
+        throw new Error(`Invalid address: ${address}`);
+      }
+    });
+}
+
+export function LookupTables({
+  tables,
+  loading,
+  error,
+  onRefresh,
+  onDiscover,
+  onImport,
+  onForget,
+  onCreate,
+  onExtend,
+  onDeactivate,
+  onClose,
+}: LookupTablesProps) {
+  // 'new' for the create form, otherwise the table being extended
+  const [editing, setEditing] = useState<string | null>(null);
+  const [addresses, setAddresses] = useState('');
+  const [importAddress, setImportAddress] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [actionError, setActionError] = useState('');
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setActionError('');
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error('Lookup table error:', err);
+      setActionError(toWalletError(err).message);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const startEditing = (key: string) => {
+    setEditing(editing === key ? null : key);
+    setAddresses('');
+    setActionError('');
+  };
+
+  const submitAddresses = async (table?: LookupTableInfo) => {
+    const done = await run(table ? table.account.key.toBase58() : 'new', () => {
+      const parsed = parseAddresses(addresses);
+      return table ? onExtend(table, parsed) : onCreate(parsed);
+    });
+    if (done) setEditing(null);
+  };
+
+  const submitImport = async () => {
+    const done = await run('import', async () => onImport(parseAddresses(importAddress)[0]));
+    if (done) setImportAddress('');
+  };
+
+  const addressForm = (table?: LookupTableInfo) => (
+    <div className="space-y-2 mt-3">
+      <textarea
+        value={addresses}
+        onChange={(e) => setAddresses(e.target.value)}
+        placeholder="Addresses to add, one per line"
+        rows={4}
+        className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-xs"
+      />
+      <button
+        onClick={() => submitAddresses(table)}
+        disabled={busy !== null || (!!table && !addresses.trim())}
+        className="w-full flex items-center justify-center gap-2 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all text-sm"
+      >
+        {busy === (table ? table.account.key.toBase58() : 'new') && <Loader2 className="w-4 h-4 animate-spin" />}
+        {table ? 'Add addresses' : 'Create table'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">Address Lookup Tables</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => run('discover', onDiscover)}
+            disabled={busy !== null}
+            className="p-2 text-blue-200 hover:text-white hover:bg-white/10 rounded-lg transition-all disabled:opacity-50"
+            title="Find tables on chain"
+          >
+            {busy === 'discover' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="p-2 text-blue-200 hover:text-white hover:bg-white/10 rounded-lg transition-all disabled:opacity-50"
+            title="Refresh"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-blue-200 text-sm mb-4">
+        Accounts stored in a table cost 1 byte in a transaction instead of 32. Active tables are picked automatically
+        whenever a transaction would be too large.
+      </p>
+
+      {(error || actionError) && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <p className="text-red-200 text-sm">{actionError || error}</p>
+        </div>
+      )}
+
+      {tables.length === 0 ? (
+        <div className="flex items-center gap-2 text-blue-200 text-sm mb-4">
+          <Table2 className="w-4 h-4" />
+          <span>{loading ? 'Loading tables...' : 'No lookup tables yet.'}</span>
+        </div>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {tables.map((table) => {
+            const address = table.account.key.toBase58();
+            const status = STATUS_LABELS[table.status];
+            const count = table.account.state.addresses.length;
+            return (
+              <div key={address} className="p-3 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm font-mono truncate" title={address}>
+                      {shortenAddress(address)}
+                    </p>
+                    <p className="text-blue-300 text-xs">
+                      {count} of {MAX_TABLE_ADDRESSES} addresses
+                    </p>
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${status.className}`}>{status.label}</span>
+                </div>
+                <div className="flex flex-wrap gap-3 mt-2 text-xs">
+                  {table.status === 'active' && (
+                    <>
+                      <button onClick={() => startEditing(address)} className="text-cyan-300 hover:text-white">
+                        Extend
+                      </button>
+                      <button
+                        onClick={() => run(address, () => onDeactivate(table))}
+                        disabled={busy !== null}
+                        className="text-blue-200 hover:text-white disabled:opacity-50"
+                      >
+                        Deactivate
+                      </button>
+                    </>
+                  )}
+                  {table.status === 'closable' && (
+                    <button
+                      onClick={() => run(address, () => onClose(table))}
+                      disabled={busy !== null}
+                      className="text-blue-200 hover:text-white disabled:opacity-50"
+                    >
+                      Close and reclaim rent
+                    </button>
+                  )}
+                  <button onClick={() => onForget(table.account.key)} className="text-blue-300 hover:text-red-300">
+                    Forget
+                  </button>
+                  {busy === address && editing !== address && <Loader2 className="w-4 h-4 text-blue-200 animate-spin" />}
+                </div>
+                {editing === address && addressForm(table)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <button
+        onClick={() => startEditing('new')}
+        className="flex items-center gap-2 text-sm text-cyan-300 hover:text-white"
+      >
+        <Plus className="w-4 h-4" />
+        New lookup table
+      </button>
+      {editing === 'new' && addressForm()}
+
+      <div className="flex gap-2 mt-4">
+        <input
+          value={importAddress}
+          onChange={(e) => setImportAddress(e.target.value)}
+          placeholder="Import a table by address"
+          className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+        />
+        <button
+          onClick={submitImport}
+          disabled={busy !== null || !importAddress.trim()}
+          className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20 text-sm disabled:opacity-50"
+        >
+          {busy === 'import' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Import'}
+        </button>
+      </div>
+    </div>
+  );
+}
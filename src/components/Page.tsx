@@ -0,0 +1,31 @@
+import { ArrowLeft } from 'lucide-react';
+
+interface PageProps {
+  title: string;
+  subtitle?: React.ReactNode;
+  onBack: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Full-screen layout for the routed screens that replace the dashboard (history, transaction and
+ * address details).
+ */
+export function Page({ title, subtitle, onBack, children }: PageProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 p-4">
+      <div className="max-w-4xl mx-auto py-8">
+        <div className="flex items-center gap-3 mb-8">
+          <button onClick={onBack} className="p-2 hover:bg-white/10 rounded-lg transition-all" title="Back">
+            <ArrowLeft className="w-5 h-5 text-blue-300" />
+          </button>
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-white">{title}</h1>
+            {subtitle && <div className="text-blue-200 text-sm break-all">{subtitle}</div>}
+          </div>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { Cloud, ShieldAlert, Smartphone } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { useCluster } from '../context/ClusterContext';
+import { useRegisteredPasskeys } from '../hooks/useRegisteredPasskeys';
+import { Page } from './Page';
+import { RegisteredPasskeys } from './RegisteredPasskeys';
+
+interface PasskeySettingsProps {
+  smartWallet: PublicKey;
+  // walletDevice account of the connected passkey
+  currentDevice?: string;
+  onBack: () => void;
+}
+
+/**
+ * The passkeys that can sign for the connected wallet, and what backs them up.
+ */
+export function PasskeySettings({ smartWallet, currentDevice, onBack }: PasskeySettingsProps) {
+  const { cluster } = useCluster();
+  const registered = useRegisteredPasskeys(smartWallet, cluster.name);
+
+  return (
+    <Page title="Passkeys & Recovery" subtitle={<span className="font-mono">{smartWallet.toString()}</span>} onBack={onBack}>
+      <RegisteredPasskeys
+        passkeys={registered.passkeys}
+        labels={registered.labels}
+        loading={registered.loading}
+        error={registered.error}
+        currentDevice={currentDevice}
+        onRename={registered.rename}
+        onRefresh={registered.refresh}
+      />
+
+      <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Backup Signers</h2>
+        <div className="space-y-4">
+          <div className="flex items-start gap-3">
+            <Cloud className="w-5 h-5 text-blue-300 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-white text-sm font-medium">Keep your passkey synced</p>
+              <p className="text-blue-200 text-sm">
+                A passkey saved to iCloud Keychain, Google Password Manager or a password manager such as 1Password is
+                on every device signed in to that account, and survives losing any one of them. Check that yours is
+                listed there before relying on this wallet.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-start gap-3">
+            <Smartphone className="w-5 h-5 text-blue-300 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-white text-sm font-medium">Sign in from another device</p>
+              <p className="text-blue-200 text-sm">
+                On a computer without the passkey, pick &quot;Use a phone or tablet&quot; in the passkey prompt and scan
+                the QR code with the device that has it.
+              </p>
+            </div>
+          </div>
+          <div className="p-3 bg-yellow-500/20 border border-yellow-500/50 rounded-lg flex items-start gap-2">
+            <ShieldAlert className="w-4 h-4 text-yellow-300 flex-shrink-0 mt-0.5" />
+            <p className="text-yellow-100 text-xs">
+              The LazorKit program on {cluster.label} registers a passkey only when a wallet is created. It has no
+              instruction to add another device&apos;s passkey to this wallet or to name guardian addresses, so neither
+              can be set up from here. If every copy of the passkeys above is lost, the wallet cannot be recovered.
+            </p>
+          </div>
+        </div>
+      </div>
+    </Page>
+  );
+}
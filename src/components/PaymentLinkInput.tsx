@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Camera, Link, X } from 'lucide-react';
+import { PaymentRequest, parsePaymentURL } from '../lib/solanaPay';
+
+interface PaymentLinkInputProps {
+  onPayment: (payment: PaymentRequest) => void;
+  onCancel: () => void;
+}
+
+// Shape Chromium's Shape Detection API exposes; it is not in TypeScript's DOM lib yet
+interface BarcodeDetector {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetector;
+
+const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+const SCAN_INTERVAL_MS = 300;
+
+/**
+ * Takes a `solana:` link, pasted or scanned from a QR code with the camera where the browser can decode one.
+ */
+export function PaymentLinkInput({ onPayment, onCancel }: PaymentLinkInputProps) {
+  const [link, setLink] = useState('');
+  const [error, setError] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Latest callback, so a re-render of the parent does not restart the camera
+  const onPaymentRef = useRef(onPayment);
+
+  useEffect(() => {
+    onPaymentRef.current = onPayment;
+  });
+
+  const submit = useCallback((value: string) => {
+    try {
+      onPaymentRef.current(parsePaymentURL(value));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Not a valid payment link');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!scanning || !Detector) return;
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((media) => {
+        stream = media;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = media;
+        videoRef.current.play();
+        timer = setInterval(async () => {
+          if (!videoRef.current) return;
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          const code = codes.find((c) => c.rawValue.startsWith('solana:'));
+          if (code && !stopped) {
+            stopped = true;
+            setScanning(false);
+            setLink(code.rawValue);
+            submit(code.rawValue);
+          }
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch((err) => {
+        console.error('Camera error:', err);
+        setError('Camera is not available');
+        setScanning(false);
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [scanning, submit]);
+
+  return (
+    <div className="p-3 bg-white/5 rounded-lg space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={link}
+          onChange={(e) => {
+            setLink(e.target.value);
+            setError('');
+          }}
+          onKeyDown={(e) => {
+            // Sits inside the send form, which would otherwise submit
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              submit(link);
+            }
+          }}
+          placeholder="solana:…"
+          autoFocus
+          className="flex-1 min-w-0 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+        />
+        <button
+          type="button"
+          onClick={() => submit(link)}
+          disabled={!link.trim()}
+          className="px-3 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg text-white"
+          title="Open link"
+        >
+          <Link className="w-4 h-4" />
+        </button>
+        {Detector && (
+          <button
+            type="button"
+            onClick={() => setScanning(!scanning)}
+            className={`px-3 rounded-lg text-white ${scanning ? 'bg-blue-500' : 'bg-white/10 hover:bg-white/20'}`}
+            title="Scan QR code"
+          >
+            <Camera className="w-4 h-4" />
+          </button>
+        )}
+        <button type="button" onClick={onCancel} className="text-blue-300 hover:text-white" title="Cancel">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {scanning && <video ref={videoRef} muted playsInline className="w-full rounded-lg bg-black" />}
+      {error && <p className="text-red-300 text-xs">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Clock, Loader2, RotateCcw, ScanSearch, X, XCircle } from 'lucide-react';
+import { useTransactionTracker } from '../context/TransactionTrackerContext';
+import { TrackedTransaction } from '../lib/transactionTracker';
+import { toWalletError } from '../lib/walletErrors';
+import { InspectLink } from './InspectLink';
+
+interface PendingTransactionsProps {
+  onResubmit: (transaction: TrackedTransaction) => Promise<string>;
+}
+
+const STAGE_TEXT = {
+  sent: 'Waiting for a block…',
+  processed: 'Processed, waiting for confirmation…',
+  confirmed: 'Confirmed, waiting for finalization…',
+  finalized: 'Finalized',
+  failed: 'Failed',
+  expired: 'Expired before it landed',
+} as const;
+
+/**
+ * Transactions that have not finalized yet, including ones left over from a previous visit.
+ */
+export function PendingTransactions({ onResubmit }: PendingTransactionsProps) {
+  const { tracker, transactions } = useTransactionTracker();
+  const [resubmitting, setResubmitting] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const pending = transactions.filter((t) => t.stage !== 'finalized' && !t.replacedBy);
+  if (pending.length === 0) return null;
+
+  const handleResubmit = async (transaction: TrackedTransaction) => {
+    setError('');
+    setResubmitting(transaction.signature);
+    try {
+      const signature = await onResubmit(transaction);
+      tracker.markReplaced(transaction.signature, signature);
+    } catch (err) {
+      console.error('Resubmit failed:', err);
+      setError(toWalletError(err).message);
+    } finally {
+      setResubmitting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <h2 className="text-xl font-semibold text-white mb-4">Pending Transactions</h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {pending.map((transaction) => {
+          const settled = transaction.stage === 'failed' || transaction.stage === 'expired';
+          return (
+            <div key={transaction.signature} className="flex items-center gap-3 p-3 bg-white/5 rounded-lg">
+              {transaction.stage === 'expired' ? (
+                <Clock className="w-5 h-5 text-red-300 flex-shrink-0" />
+              ) : transaction.stage === 'failed' ? (
+                <XCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+              ) : (
+                <Loader2 className="w-5 h-5 text-blue-300 animate-spin flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-white text-sm truncate">{transaction.description}</p>
+                <p className={`text-xs ${settled ? 'text-red-300' : 'text-blue-300'}`}>{STAGE_TEXT[transaction.stage]}</p>
+              </div>
+              {transaction.stage === 'expired' && transaction.request && (
+                <button
+                  onClick={() => handleResubmit(transaction)}
+                  disabled={resubmitting !== null}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg text-white text-xs transition-all border border-white/20"
+                >
+                  {resubmitting === transaction.signature ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-3 h-3" />
+                  )}
+                  <span>Resubmit</span>
+                </button>
+              )}
+              <InspectLink
+                kind="tx"
+                value={transaction.signature}
+                className="text-blue-300 hover:text-blue-100"
+                title="Inspect"
+              >
+                <ScanSearch className="w-4 h-4" />
+              </InspectLink>
+              {settled && (
+                <button
+                  onClick={() => tracker.dismiss(transaction.signature)}
+                  className="text-blue-300 hover:text-blue-100"
+                  title="Dismiss"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
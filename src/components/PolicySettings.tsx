@@ -0,0 +1,71 @@
+import { ShieldCheck } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { useSessionKey } from '../hooks/useSessionKey';
+import { SpendingEntry, WalletPolicy } from '../lib/policies';
+import { NewSessionKey } from '../lib/sessionKeys';
+import { TokenBalance } from '../lib/tokenService';
+import { Page } from './Page';
+import { RecipientAllowlist } from './RecipientAllowlist';
+import { SessionKeyPanel } from './SessionKeyPanel';
+import { SpendingLimits } from './SpendingLimits';
+
+interface PolicySettingsProps {
+  owner: PublicKey;
+  tokens: TokenBalance[];
+  policy: WalletPolicy;
+  spending: SpendingEntry[];
+  onSavePolicy: (policy: WalletPolicy) => void;
+  sessionKey: ReturnType<typeof useSessionKey>;
+  onStartSession: (options: NewSessionKey) => Promise<void>;
+  onBack: () => void;
+}
+
+/**
+ * Settings screen for the policies every transfer from the dashboard is checked against.
+ */
+export function PolicySettings({
+  owner,
+  tokens,
+  policy,
+  spending,
+  onSavePolicy,
+  sessionKey,
+  onStartSession,
+  onBack,
+}: PolicySettingsProps) {
+  return (
+    <Page title="Wallet Policies" subtitle={<span className="font-mono">{owner.toString()}</span>} onBack={onBack}>
+      <div className="mb-6 p-3 bg-blue-500/20 border border-blue-500/50 rounded-lg flex items-start gap-2">
+        <ShieldCheck className="w-4 h-4 text-blue-200 flex-shrink-0 mt-0.5" />
+        <p className="text-blue-100 text-xs">
+          These policies are enforced by this app before anything is signed, and stored in this browser for this wallet
+          and cluster. The LazorKit program itself does not check them, so they do not bind other apps your passkey is
+          used with.
+        </p>
+      </div>
+
+      <SpendingLimits
+        limits={policy.limits}
+        tokens={tokens}
+        spending={spending}
+        onSave={(limits) => onSavePolicy({ ...policy, limits })}
+      />
+
+      <RecipientAllowlist
+        enabled={policy.allowlistEnabled}
+        addresses={policy.allowlist}
+        onChange={(allowlistEnabled, allowlist) => onSavePolicy({ ...policy, allowlistEnabled, allowlist })}
+      />
+
+      <SessionKeyPanel
+        session={sessionKey.session}
+        balance={sessionKey.balance}
+        active={sessionKey.active}
+        busy={sessionKey.busy}
+        error={sessionKey.error}
+        onStart={onStartSession}
+        onEnd={sessionKey.end}
+      />
+    </Page>
+  );
+}
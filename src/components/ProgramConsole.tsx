@@ -0,0 +1,463 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeft, Download, FileJson, Loader2, Play, Search, Send } from 'lucide-react';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { useTransactionTracker } from '../context/TransactionTrackerContext';
+import {
+  DecodedAccount,
+  DecodedEvent,
+  IdlInstruction,
+  LoadedProgram,
+  buildAnchorInstruction,
+  decodeAccount,
+  decodeEvents,
+  describeProgramError,
+  describeType,
+  fetchIdl,
+  flattenAccounts,
+  loadIdl,
+  parseArg,
+  resolvePda,
+  toDisplayValue,
+} from '../lib/anchorService';
+import { TransferPreview } from '../lib/simulationService';
+import { SimulationFailedError, toWalletError } from '../lib/walletErrors';
+import { InspectLink } from './InspectLink';
+import { TransactionReview } from './TransactionReview';
+
+interface ProgramConsoleProps {
+  // Wallet that signs; used as the default for signer accounts
+  account: PublicKey;
+  onPreview: (instructions: TransactionInstruction[]) => Promise<TransferPreview>;
+  onSend: (instructions: TransactionInstruction[], description: string) => Promise<string>;
+  onBack: () => void;
+}
+
+type Result =
+  | { kind: 'simulation'; preview: TransferPreview; events: DecodedEvent[]; programError: string | null }
+  | { kind: 'sent'; signature: string; events: DecodedEvent[] | null; programError: string | null };
+
+const inputClass =
+  'w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono';
+const panelClass = 'bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6';
+
+function JsonView({ value }: { value: unknown }) {
+  return (
+    <pre className="text-[11px] text-blue-100 whitespace-pre-wrap break-all max-h-64 overflow-y-auto bg-black/30 rounded-lg p-3">
+      {JSON.stringify(toDisplayValue(value), null, 2)}
+    </pre>
+  );
+}
+
+function EventList({ events }: { events: DecodedEvent[] }) {
+  if (events.length === 0) return <p className="text-blue-300 text-sm">No events emitted</p>;
+  return (
+    <div className="space-y-2">
+      {events.map((event, index) => (
+        <div key={index}>
+          <p className="text-white text-sm font-medium mb-1">{event.name}</p>
+          <JsonView value={event.data} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Loads an Anchor IDL and generates a form per instruction, so a program can be exercised with
+ * the passkey wallet without writing UI for it.
+ */
+export function ProgramConsole({ account, onPreview, onSend, onBack }: ProgramConsoleProps) {
+  const { manager } = useSubscriptions();
+  const { tracker } = useTransactionTracker();
+  const [program, setProgram] = useState<LoadedProgram | null>(null);
+  const [programIdInput, setProgramIdInput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [instructionName, setInstructionName] = useState('');
+  const [argInputs, setArgInputs] = useState<Record<string, string>>({});
+  const [accountInputs, setAccountInputs] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<'simulate' | 'send' | null>(null);
+  const [result, setResult] = useState<Result | null>(null);
+  const [actionError, setActionError] = useState('');
+  const [accountAddress, setAccountAddress] = useState('');
+  const [decoded, setDecoded] = useState<DecodedAccount | null>(null);
+  const [decodeError, setDecodeError] = useState('');
+
+  const instruction: IdlInstruction | undefined = program?.idl.instructions.find((ix) => ix.name === instructionName);
+
+  const selectProgram = (loaded: LoadedProgram) => {
+    setProgram(loaded);
+    setInstructionName(loaded.idl.instructions[0]?.name ?? '');
+    setArgInputs({});
+    setAccountInputs({});
+    setResult(null);
+    setDecoded(null);
+  };
+
+  const handleFile = async (file: File) => {
+    setLoadError('');
+    try {
+      selectProgram(loadIdl(JSON.parse(await file.text())));
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Could not read the IDL file');
+    }
+  };
+
+  const handleFetch = async () => {
+    setLoadError('');
+    setLoading(true);
+    try {
+      selectProgram(await fetchIdl(manager.connection, new PublicKey(programIdInput.trim())));
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Could not fetch the IDL');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Typed args, resolved accounts and the first problem that keeps the instruction from building
+  const form = useMemo(() => {
+    if (!program || !instruction) return null;
+    const args: Record<string, unknown> = {};
+    const argErrors: Record<string, string> = {};
+    for (const arg of instruction.args) {
+      try {
+        args[arg.name] = parseArg(arg.type, argInputs[arg.name] ?? '', program.idl);
+      } catch (err) {
+        argErrors[arg.name] = err instanceof Error ? err.message : 'Invalid value';
+      }
+    }
+
+    const items = flattenAccounts(instruction.accounts);
+    const accounts: Record<string, PublicKey | undefined> = {};
+    const accountErrors: Record<string, string> = {};
+    for (const item of items) {
+      const input = accountInputs[item.name]?.trim();
+      try {
+        if (input) accounts[item.name] = new PublicKey(input);
+        else if (item.address) accounts[item.name] = new PublicKey(item.address);
+        else if (item.signer) accounts[item.name] = account;
+      } catch {
+        accountErrors[item.name] = 'Invalid address';
+      }
+    }
+    // A PDA can be seeded by another PDA, so derive until nothing new resolves
+    let progress = true;
+    while (progress) {
+      progress = false;
+      for (const item of items) {
+        if (accounts[item.name] || !item.pda) continue;
+        const pda = resolvePda(program, instruction, item, args, accounts);
+        if (pda) {
+          accounts[item.name] = pda;
+          progress = true;
+        }
+      }
+    }
+
+    let built: TransactionInstruction | null = null;
+    let buildError = Object.values(argErrors)[0] ?? Object.values(accountErrors)[0] ?? '';
+    if (!buildError) {
+      try {
+        built = buildAnchorInstruction(program, instruction, args, accounts);
+      } catch (err) {
+        buildError = err instanceof Error ? err.message : 'Could not build the instruction';
+      }
+    }
+    return { items, accounts, argErrors, accountErrors, built, buildError };
+  }, [program, instruction, argInputs, accountInputs, account]);
+
+  const programError = (logs: string[], error: unknown) => {
+    const customCode = error instanceof SimulationFailedError ? error.customCode : undefined;
+    return program ? describeProgramError(program, logs, customCode) : null;
+  };
+
+  const handleSimulate = async () => {
+    if (!program || !form?.built) return;
+    setActionError('');
+    setBusy('simulate');
+    try {
+      const preview = await onPreview([form.built]);
+      setResult({
+        kind: 'simulation',
+        preview,
+        events: decodeEvents(program, preview.logs),
+        programError: preview.error ? programError(preview.logs, null) : null,
+      });
+    } catch (err) {
+      setActionError(toWalletError(err).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!program || !form?.built || !instruction) return;
+    setActionError('');
+    setBusy('send');
+    try {
+      const signature = await onSend([form.built], `${program.idl.metadata.name}.${instruction.name}`);
+      setResult({ kind: 'sent', signature, events: null, programError: null });
+
+      // Events are only in the logs once the transaction has landed
+      tracker
+        .waitFor(signature, 'confirmed')
+        .then(() =>
+          manager.connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 })
+        )
+        .then((transaction) => {
+          const logs = transaction?.meta?.logMessages ?? [];
+          setResult({ kind: 'sent', signature, events: decodeEvents(program, logs), programError: null });
+        })
+        .catch((err) => {
+          const walletError = toWalletError(err);
+          setResult({ kind: 'sent', signature, events: [], programError: programError(walletError.logs, walletError) });
+          setActionError(walletError.message);
+        });
+    } catch (err) {
+      const walletError = toWalletError(err);
+      setActionError(programError(walletError.logs, walletError) ?? walletError.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDecode = async () => {
+    if (!program) return;
+    setDecodeError('');
+    setDecoded(null);
+    try {
+      const info = await manager.connection.getAccountInfo(new PublicKey(accountAddress.trim()));
+      if (!info) throw new Error('Account not found');
+      if (!info.owner.equals(program.programId)) throw new Error(`Account is owned by ${info.owner.toBase58()}`);
+      setDecoded(decodeAccount(program, info.data));
+    } catch (err) {
+      setDecodeError(err instanceof Error ? err.message : 'Could not decode the account');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900 p-4">
+      <div className="max-w-4xl mx-auto py-8">
+        <div className="flex items-center gap-3 mb-8">
+          <button onClick={onBack} className="p-2 hover:bg-white/10 rounded-lg transition-all" title="Back to wallet">
+            <ArrowLeft className="w-5 h-5 text-blue-300" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Program Console</h1>
+            <p className="text-blue-200 text-sm">Call Anchor programs from an IDL with your passkey wallet</p>
+          </div>
+        </div>
+
+        <div className={panelClass}>
+          <h2 className="text-xl font-semibold text-white mb-4">IDL</h2>
+          <div className="flex gap-2 mb-3">
+            <input
+              type="text"
+              value={programIdInput}
+              onChange={(e) => setProgramIdInput(e.target.value)}
+              placeholder="Program ID"
+              className={inputClass}
+            />
+            <button
+              onClick={handleFetch}
+              disabled={!programIdInput.trim() || loading}
+              className="flex items-center gap-2 px-4 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg text-white text-sm border border-white/20 whitespace-nowrap"
+            >
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              Fetch from chain
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-blue-200 text-sm cursor-pointer hover:text-white">
+            <FileJson className="w-4 h-4" />
+            <span>Or upload an IDL file</span>
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {loadError && <p className="text-red-300 text-sm mt-3">{loadError}</p>}
+          {program && (
+            <p className="text-blue-300 text-sm mt-3">
+              {program.idl.metadata.name} v{program.idl.metadata.version} ·{' '}
+              <InspectLink
+                kind="address"
+                value={program.programId.toBase58()}
+                className="font-mono underline hover:text-blue-100"
+              >
+                {program.programId.toBase58()}
+              </InspectLink>
+            </p>
+          )}
+        </div>
+
+        {program && form && instruction && (
+          <div className={panelClass}>
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <h2 className="text-xl font-semibold text-white">Instruction</h2>
+              <select
+                value={instructionName}
+                onChange={(e) => {
+                  setInstructionName(e.target.value);
+                  setArgInputs({});
+                  setAccountInputs({});
+                  setResult(null);
+                }}
+                className="bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {program.idl.instructions.map((ix) => (
+                  <option key={ix.name} value={ix.name} className="bg-slate-900">
+                    {ix.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {instruction.docs && <p className="text-blue-200 text-sm mb-4">{instruction.docs.join(' ')}</p>}
+
+            {instruction.args.length > 0 && (
+              <div className="space-y-3 mb-6">
+                <p className="text-blue-200 text-xs font-medium uppercase tracking-wide">Arguments</p>
+                {instruction.args.map((arg) => (
+                  <div key={arg.name}>
+                    <label className="block text-sm text-white mb-1">
+                      {arg.name} <span className="text-blue-400 font-mono text-xs">{describeType(arg.type)}</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={argInputs[arg.name] ?? ''}
+                      onChange={(e) => setArgInputs({ ...argInputs, [arg.name]: e.target.value })}
+                      placeholder={typeof arg.type === 'string' && arg.type !== 'bytes' ? arg.type : 'JSON'}
+                      className={inputClass}
+                    />
+                    {argInputs[arg.name] !== undefined && form.argErrors[arg.name] && (
+                      <p className="text-red-300 text-xs mt-1">{form.argErrors[arg.name]}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3 mb-6">
+              <p className="text-blue-200 text-xs font-medium uppercase tracking-wide">Accounts</p>
+              {form.items.map((item) => (
+                <div key={item.name}>
+                  <label className="flex items-center gap-2 text-sm text-white mb-1">
+                    {item.name}
+                    {item.writable && <span className="text-[10px] px-1.5 py-0.5 rounded bg-yellow-500/20 text-yellow-200">mut</span>}
+                    {item.signer && <span className="text-[10px] px-1.5 py-0.5 rounded bg-green-500/20 text-green-200">signer</span>}
+                    {item.pda && <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-200">pda</span>}
+                    {item.optional && <span className="text-[10px] px-1.5 py-0.5 rounded bg-white/10 text-blue-200">optional</span>}
+                  </label>
+                  <input
+                    type="text"
+                    value={accountInputs[item.name] ?? ''}
+                    onChange={(e) => setAccountInputs({ ...accountInputs, [item.name]: e.target.value })}
+                    placeholder={form.accounts[item.name]?.toBase58() ?? 'Address'}
+                    className={inputClass}
+                  />
+                  {form.accountErrors[item.name] && <p className="text-red-300 text-xs mt-1">{form.accountErrors[item.name]}</p>}
+                </div>
+              ))}
+            </div>
+
+            {form.buildError && <p className="text-yellow-200 text-sm mb-3">{form.buildError}</p>}
+            {actionError && <p className="text-red-300 text-sm mb-3">{actionError}</p>}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleSimulate}
+                disabled={!form.built || busy !== null}
+                className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20 flex items-center justify-center gap-2"
+              >
+                {busy === 'simulate' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
+                <span>Simulate</span>
+              </button>
+              <button
+                onClick={handleSend}
+                disabled={!form.built || busy !== null}
+                className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+              >
+                {busy === 'send' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+                <span>Sign &amp; Send</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className={panelClass}>
+            <h2 className="text-xl font-semibold text-white mb-4">{result.kind === 'simulation' ? 'Simulation' : 'Transaction'}</h2>
+            {result.programError && <p className="text-red-300 text-sm mb-3">{result.programError}</p>}
+            {result.kind === 'simulation' ? (
+              <div className="space-y-4">
+                <TransactionReview preview={result.preview} />
+                <div>
+                  <p className="text-blue-200 text-xs font-medium uppercase tracking-wide mb-2">Events</p>
+                  <EventList events={result.events} />
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <InspectLink
+                  kind="tx"
+                  value={result.signature}
+                  className="text-blue-300 text-sm font-mono break-all underline hover:text-blue-100"
+                >
+                  {result.signature}
+                </InspectLink>
+                <div>
+                  <p className="text-blue-200 text-xs font-medium uppercase tracking-wide mb-2">Events</p>
+                  {result.events ? (
+                    <EventList events={result.events} />
+                  ) : (
+                    <p className="flex items-center gap-2 text-blue-300 text-sm">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Waiting for confirmation…
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {program && (program.idl.accounts?.length ?? 0) > 0 && (
+          <div className={panelClass}>
+            <h2 className="text-xl font-semibold text-white mb-4">Decode Account</h2>
+            <div className="flex gap-2 mb-3">
+              <input
+                type="text"
+                value={accountAddress}
+                onChange={(e) => setAccountAddress(e.target.value)}
+                placeholder="Account address"
+                className={inputClass}
+              />
+              <button
+                onClick={handleDecode}
+                disabled={!accountAddress.trim()}
+                className="flex items-center gap-2 px-4 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg text-white text-sm border border-white/20"
+              >
+                <Search className="w-4 h-4" />
+                Decode
+              </button>
+            </div>
+            {decodeError && <p className="text-red-300 text-sm">{decodeError}</p>}
+            {decoded && (
+              <div>
+                <p className="text-white text-sm font-medium mb-1">{decoded.name}</p>
+                <JsonView value={decoded.data} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
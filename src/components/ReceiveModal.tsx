@@ -0,0 +1,195 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Copy, Loader2, RefreshCw, ScanSearch } from 'lucide-react';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import QRCode from 'qrcode';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { SOL_DECIMALS, parseUnits } from '../lib/amounts';
+import { encodeTransferRequestURL, findReference } from '../lib/solanaPay';
+import { TokenBalance, getTokenLabel } from '../lib/tokenService';
+import { InspectLink } from './InspectLink';
+
+interface ReceiveModalProps {
+  address: PublicKey;
+  tokens: TokenBalance[];
+  onClose: () => void;
+}
+
+const SOL_ASSET = 'SOL';
+const REFERENCE_POLL_MS = 3000;
+
+/**
+ * Solana Pay transfer request for this wallet, as a URL and QR code. With a reference key the
+ * panel also watches for the payment to land.
+ */
+export function ReceiveModal({ address, tokens, onClose }: ReceiveModalProps) {
+  const { manager } = useSubscriptions();
+  const [asset, setAsset] = useState(SOL_ASSET);
+  const [amount, setAmount] = useState('');
+  const [label, setLabel] = useState('');
+  const [message, setMessage] = useState('');
+  const [memo, setMemo] = useState('');
+  const [reference, setReference] = useState<PublicKey | null>(() => Keypair.generate().publicKey);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [payment, setPayment] = useState<string | null>(null);
+
+  const token = tokens.find((t) => t.mint.toString() === asset);
+
+  const { url, error } = useMemo(() => {
+    try {
+      if (amount) parseUnits(amount, token ? token.decimals : SOL_DECIMALS);
+      const encoded = encodeTransferRequestURL({
+        recipient: address,
+        amount: amount.trim() || undefined,
+        splToken: token?.mint,
+        references: reference ? [reference] : [],
+        label: label.trim() || undefined,
+        message: message.trim() || undefined,
+        memo: memo.trim() || undefined,
+      });
+      return { url: encoded, error: '' };
+    } catch (err) {
+      return { url: null, error: err instanceof Error ? err.message : 'Invalid amount' };
+    }
+  }, [address, amount, token, reference, label, message, memo]);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    QRCode.toDataURL(url, { margin: 1, width: 256, errorCorrectionLevel: 'M' })
+      .then((dataUrl) => {
+        if (!cancelled) setQrCode(dataUrl);
+      })
+      .catch((err) => console.error('QR code error:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  useEffect(() => {
+    setPayment(null);
+    if (!reference) return;
+
+    const timer = setInterval(() => {
+      findReference(manager.connection, reference)
+        .then((signature) => {
+          if (!signature) return;
+          setPayment(signature);
+          clearInterval(timer);
+        })
+        .catch((err) => console.error('Reference lookup error:', err));
+    }, REFERENCE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [manager, reference]);
+
+  const copyUrl = () => {
+    if (!url) return;
+    navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const inputClass =
+    'w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-md w-full border border-white/20 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-2xl font-bold text-white mb-6">Receive</h3>
+
+        <div className="flex justify-center mb-4">
+          <div className="bg-white p-2 rounded-lg w-56 h-56 flex items-center justify-center">
+            {url && qrCode ? (
+              <img src={qrCode} alt="Solana Pay QR code" className="w-full h-full" />
+            ) : (
+              <Loader2 className="w-8 h-8 text-slate-400 animate-spin" />
+            )}
+          </div>
+        </div>
+
+        {payment ? (
+          <div className="mb-4 p-3 bg-green-500/20 border border-green-500/50 rounded-lg flex items-center gap-2">
+            <CheckCircle className="w-5 h-5 text-green-400" />
+            <p className="text-green-200 text-sm flex-1">Payment received</p>
+            <InspectLink kind="tx" value={payment} className="text-green-200 hover:text-green-100" title="Inspect">
+              <ScanSearch className="w-4 h-4" />
+            </InspectLink>
+          </div>
+        ) : (
+          reference && (
+            <p className="mb-4 text-blue-300 text-xs text-center flex items-center justify-center gap-2">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Waiting for a payment with this reference…
+            </p>
+          )
+        )}
+
+        <div className="mb-4 flex items-center gap-2 p-3 bg-white/5 rounded-lg">
+          <code className="flex-1 text-blue-100 text-xs font-mono break-all">{url ?? error}</code>
+          <button
+            onClick={copyUrl}
+            disabled={!url}
+            className="p-2 hover:bg-white/10 rounded-lg transition-all flex-shrink-0 disabled:opacity-50"
+          >
+            {copied ? <CheckCircle className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4 text-blue-300" />}
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Amount (optional)"
+              className={inputClass}
+            />
+            {tokens.length > 0 && (
+              <select value={asset} onChange={(e) => setAsset(e.target.value)} className={`${inputClass} w-32`}>
+                <option value={SOL_ASSET} className="bg-slate-900">SOL</option>
+                {tokens.map((t) => (
+                  <option key={t.tokenAccount.toString()} value={t.mint.toString()} className="bg-slate-900">
+                    {getTokenLabel(t)}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <input type="text" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label (e.g. shop name)" className={inputClass} />
+          <input type="text" value={message} onChange={(e) => setMessage(e.target.value)} placeholder="Message (e.g. order #42)" className={inputClass} />
+          <input type="text" value={memo} onChange={(e) => setMemo(e.target.value)} placeholder="Memo (recorded on chain)" className={inputClass} />
+
+          <div className="flex items-center justify-between text-sm">
+            <label className="flex items-center gap-2 text-blue-200">
+              <input
+                type="checkbox"
+                checked={reference !== null}
+                onChange={(e) => setReference(e.target.checked ? Keypair.generate().publicKey : null)}
+              />
+              Reference key
+            </label>
+            {reference && (
+              <button
+                type="button"
+                onClick={() => setReference(Keypair.generate().publicKey)}
+                className="flex items-center gap-1 text-blue-300 hover:text-white text-xs"
+                title="New reference"
+              >
+                <RefreshCw className="w-3 h-3" />
+                <span className="font-mono">{reference.toBase58().slice(0, 8)}…</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="mt-6 w-full bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 transition-all border border-white/20"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { AlertTriangle, ListChecks, Plus, Trash2 } from 'lucide-react';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { findContact } from '../lib/addressBook';
+import { InspectLink } from './InspectLink';
+import { RecipientInput, ResolvedRecipient } from './RecipientInput';
+
+interface RecipientAllowlistProps {
+  enabled: boolean;
+  addresses: string[];
+  onChange: (enabled: boolean, addresses: string[]) => void;
+}
+
+export function RecipientAllowlist({ enabled, addresses, onChange }: RecipientAllowlistProps) {
+  const addressBook = useAddressBook();
+  const [recipient, setRecipient] = useState('');
+  const [resolved, setResolved] = useState<ResolvedRecipient | null>(null);
+
+  const handleAdd = () => {
+    if (!resolved) return;
+    if (!addresses.includes(resolved.address)) onChange(enabled, [...addresses, resolved.address]);
+    setRecipient('');
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-white">Recipient Allowlist</h2>
+        <label className="flex items-center gap-2 text-blue-200 text-sm">
+          <input type="checkbox" checked={enabled} onChange={(e) => onChange(e.target.checked, addresses)} />
+          Only allow these recipients
+        </label>
+      </div>
+      <p className="text-blue-200 text-sm mb-4">
+        While the allowlist is on, transfers to any other address are blocked. Changes apply right away.
+      </p>
+
+      {enabled && addresses.length === 0 && (
+        <div className="mb-4 p-3 bg-yellow-500/20 border border-yellow-500/50 rounded-lg flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-yellow-300 flex-shrink-0" />
+          <p className="text-yellow-100 text-sm">Every transfer is blocked until you add an address.</p>
+        </div>
+      )}
+
+      {addresses.length === 0 ? (
+        <div className="flex items-center gap-2 text-blue-200 text-sm mb-4">
+          <ListChecks className="w-4 h-4" />
+          <span>No addresses yet.</span>
+        </div>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {addresses.map((address) => (
+            <div key={address} className="flex items-center justify-between gap-3 p-3 bg-white/5 rounded-lg">
+              <div className="min-w-0">
+                <p className="text-white text-sm">{findContact(addressBook.contacts, address)?.label ?? 'Unsaved address'}</p>
+                <InspectLink
+                  kind="address"
+                  value={address}
+                  className="text-blue-300 text-xs font-mono break-all hover:text-blue-100 underline"
+                >
+                  {address}
+                </InspectLink>
+              </div>
+              <button
+                onClick={() => onChange(enabled, addresses.filter((a) => a !== address))}
+                className="p-2 text-blue-300 hover:text-red-300 hover:bg-white/10 rounded-lg transition-all flex-shrink-0"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <RecipientInput value={recipient} onChange={setRecipient} onResolved={setResolved} addressBook={addressBook} />
+      <button
+        onClick={handleAdd}
+        disabled={!resolved}
+        className="mt-3 flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-all border border-white/20 text-sm"
+      >
+        <Plus className="w-4 h-4" />
+        Add to allowlist
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, BookUser, CheckCircle, Clock, Info, Loader2, Save, X } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { findContact, findLookalike, shortenAddress } from '../lib/addressBook';
+import { isSolDomain, resolveSolDomain } from '../lib/nameService';
+
+// Wait for the user to stop typing before looking a name up
+const RESOLVE_DELAY_MS = 400;
+const MAX_SUGGESTIONS = 6;
+
+export interface ResolvedRecipient {
+  address: string;
+  // Set when the address was resolved from a .sol name
+  name?: string;
+}
+
+interface RecipientInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onResolved: (recipient: ResolvedRecipient | null) => void;
+  addressBook: ReturnType<typeof useAddressBook>;
+  disabled?: boolean;
+}
+
+/**
+ * Recipient field with address book suggestions, `.sol` resolution and lookalike-address warnings.
+ */
+export function RecipientInput({ value, onChange, onResolved, addressBook, disabled }: RecipientInputProps) {
+  const { manager } = useSubscriptions();
+  const { contacts, recents, addContact, deleteContact } = addressBook;
+  const [resolved, setResolved] = useState<ResolvedRecipient | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const [error, setError] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [label, setLabel] = useState<string | null>(null);
+
+  useEffect(() => {
+    const input = value.trim();
+    setResolved(null);
+    setError('');
+    setResolving(false);
+    setLabel(null);
+    if (!input) return;
+
+    if (!isSolDomain(input)) {
+      try {
+        setResolved({ address: new PublicKey(input).toString() });
+      } catch {
+        setError('Not a valid Solana address or .sol name');
+      }
+      return;
+    }
+
+    let cancelled = false;
+    setResolving(true);
+    const timer = setTimeout(() => {
+      resolveSolDomain(manager.connection, input)
+        .then((owner) => {
+          if (!cancelled) setResolved({ address: owner.toString(), name: input.toLowerCase() });
+        })
+        .catch((err) => {
+          if (!cancelled) setError(err instanceof Error ? err.message : `Could not resolve ${input}`);
+        })
+        .finally(() => {
+          if (!cancelled) setResolving(false);
+        });
+    }, RESOLVE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value, manager]);
+
+  useEffect(() => {
+    onResolved(resolved);
+  }, [resolved, onResolved]);
+
+  const query = value.trim().toLowerCase();
+  const suggestions = [
+    ...contacts.map((contact) => ({ address: contact.address, label: contact.label, contact: true })),
+    ...recents
+      .filter((recent) => !findContact(contacts, recent.address))
+      .map((recent) => ({ address: recent.address, label: recent.name ?? shortenAddress(recent.address), contact: false })),
+  ]
+    .filter((entry) => !query || entry.label.toLowerCase().includes(query) || entry.address.toLowerCase().includes(query))
+    .filter((entry) => entry.address !== resolved?.address)
+    .slice(0, MAX_SUGGESTIONS);
+
+  const contact = resolved ? findContact(contacts, resolved.address) : undefined;
+  const known = [
+    ...contacts,
+    ...recents.map((recent) => ({ address: recent.address, label: recent.name ?? shortenAddress(recent.address) })),
+  ];
+  const lookalike = resolved && !contact ? findLookalike(resolved.address, known) : undefined;
+  const firstTime = resolved && !contact && !recents.some((recent) => recent.address === resolved.address);
+
+  const handleSave = () => {
+    if (!resolved || !label?.trim()) return;
+    addContact(resolved.address, label);
+    setLabel(null);
+  };
+
+  return (
+    <div>
+      <label htmlFor="recipient" className="block text-sm font-medium text-blue-200 mb-2">
+        Recipient
+      </label>
+      <div className="relative">
+        <input
+          id="recipient"
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          placeholder="Address, .sol name or contact"
+          autoComplete="off"
+          className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+          disabled={disabled}
+          required
+        />
+        {resolving && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-blue-300 animate-spin" />}
+
+        {focused && suggestions.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full bg-slate-800 border border-white/20 rounded-lg shadow-xl overflow-hidden">
+            {suggestions.map((entry) => (
+              <div
+                key={entry.address}
+                // Keep focus on the input so the click lands before the list closes
+                onMouseDown={(e) => e.preventDefault()}
+                className="flex items-center gap-2 px-3 py-2 hover:bg-white/10"
+              >
+                <button type="button" onClick={() => onChange(entry.address)} className="flex-1 flex items-center gap-2 min-w-0 text-left">
+                  {entry.contact ? (
+                    <BookUser className="w-4 h-4 text-blue-300 flex-shrink-0" />
+                  ) : (
+                    <Clock className="w-4 h-4 text-blue-300 flex-shrink-0" />
+                  )}
+                  <span className="text-white text-sm truncate">{entry.label}</span>
+                  <span className="text-blue-400 text-xs font-mono ml-auto">{shortenAddress(entry.address)}</span>
+                </button>
+                {entry.contact && (
+                  <button
+                    type="button"
+                    onClick={() => deleteContact(entry.address)}
+                    className="text-blue-400 hover:text-red-300"
+                    title="Remove from address book"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="mt-1 space-y-1 text-xs">
+        {error && !resolving && <p className="text-red-300">{error}</p>}
+
+        {resolved?.name && (
+          <p className="text-blue-300 font-mono break-all">
+            {resolved.name} → {resolved.address}
+          </p>
+        )}
+
+        {contact && (
+          <p className="flex items-center gap-1 text-green-300">
+            <CheckCircle className="w-3 h-3" />
+            {contact.label}
+          </p>
+        )}
+
+        {lookalike && (
+          <div className="flex items-start gap-2 p-2 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <p>
+              Looks like <span className="font-medium">{lookalike.label}</span> but is a different address. Lookalike
+              addresses are used in poisoning scams; compare every character before sending.
+            </p>
+          </div>
+        )}
+
+        {firstTime && !lookalike && (
+          <p className="flex items-center gap-1 text-blue-300">
+            <Info className="w-3 h-3" />
+            You haven't sent to this address before.
+          </p>
+        )}
+
+        {resolved && !contact &&
+          (label === null ? (
+            <button type="button" onClick={() => setLabel(resolved.name ?? '')} className="flex items-center gap-1 text-blue-200 hover:text-white">
+              <Save className="w-3 h-3" />
+              Save to address book
+            </button>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSave();
+                  }
+                }}
+                placeholder="Label"
+                autoFocus
+                className="flex-1 bg-white/10 border border-white/20 rounded-md px-2 py-1 text-white text-xs placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!label.trim()}
+                className="px-2 py-1 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-md text-white"
+              >
+                Save
+              </button>
+              <button type="button" onClick={() => setLabel(null)} className="text-blue-300 hover:text-white">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
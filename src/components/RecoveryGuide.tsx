@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Loader2, LogIn, QrCode, Search } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { useCluster } from '../context/ClusterContext';
+import { useRegisteredPasskeys } from '../hooks/useRegisteredPasskeys';
+import { shortenAddress } from '../lib/addressBook';
+import { SavedWallet } from '../lib/savedWallets';
+import { toWalletError } from '../lib/walletErrors';
+import { Page } from './Page';
+import { RegisteredPasskeys } from './RegisteredPasskeys';
+
+interface RecoveryGuideProps {
+  // Wallets saved on this device, to look up without pasting an address
+  wallets: SavedWallet[];
+  // Clears this app's stored sign-in and opens the portal
+  onReconnect: () => Promise<void>;
+  onBack: () => void;
+}
+
+const inputClass =
+  'w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm font-mono placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function parseAddress(value: string): PublicKey | null {
+  try {
+    return value.trim() ? new PublicKey(value.trim()) : null;
+  } catch {
+    return null;
+  }
+}
+
+function Step({ number, title, children }: { number: number; title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center gap-3 mb-3">
+        <span className="w-7 h-7 flex items-center justify-center rounded-full bg-gradient-to-br from-blue-500 to-cyan-500 text-white text-sm font-semibold flex-shrink-0">
+          {number}
+        </span>
+        <h2 className="text-xl font-semibold text-white">{title}</h2>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Walks through getting back into a smart wallet when the passkey is not on this device, without
+ * deleting anything that could still sign for it.
+ */
+export function RecoveryGuide({ wallets, onReconnect, onBack }: RecoveryGuideProps) {
+  const { cluster } = useCluster();
+  const [address, setAddress] = useState(wallets[0]?.info.smartWallet ?? '');
+  const smartWallet = useMemo(() => parseAddress(address), [address]);
+  const registered = useRegisteredPasskeys(smartWallet, cluster.name);
+  const [reconnecting, setReconnecting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleReconnect = async () => {
+    setReconnecting(true);
+    setError('');
+    try {
+      await onReconnect();
+    } catch (err) {
+      console.error('Reconnect error:', err);
+      setError(toWalletError(err).message);
+    } finally {
+      setReconnecting(false);
+    }
+  };
+
+  return (
+    <Page title="Recover Your Wallet" subtitle="Lost or replaced the device with your passkey?" onBack={onBack}>
+      <div className="mb-6 p-3 bg-yellow-500/20 border border-yellow-500/50 rounded-lg flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 text-yellow-300 flex-shrink-0 mt-0.5" />
+        <p className="text-yellow-100 text-xs">
+          Do not delete passkeys from your system settings or password manager while recovering. A smart wallet can
+          only be used with a passkey registered for it, and a deleted passkey cannot be brought back.
+        </p>
+      </div>
+
+      <Step number={1} title="Find a copy of your passkey">
+        <div className="space-y-2 text-blue-200 text-sm">
+          <p>Passkeys are often synced, so the one you signed up with may still be on another device:</p>
+          <ul className="list-disc list-inside space-y-1">
+            <li>iCloud Keychain on your other Apple devices signed in to the same Apple ID</li>
+            <li>Google Password Manager in Chrome or Android with the same Google account</li>
+            <li>A password manager such as 1Password or Bitwarden, if you saved the passkey there</li>
+          </ul>
+          <p className="flex items-start gap-2">
+            <QrCode className="w-4 h-4 text-blue-300 flex-shrink-0 mt-0.5" />
+            <span>
+              If the passkey is on your phone, pick &quot;Use a phone or tablet&quot; in the passkey prompt and scan the
+              QR code with it. The phone signs, and nothing has to be copied to this computer.
+            </span>
+          </p>
+        </div>
+      </Step>
+
+      <Step number={2} title="Check which passkeys can sign for your wallet">
+        <p className="text-blue-200 text-sm mb-3">
+          Enter your smart wallet address to see every passkey registered for it on {cluster.label}.
+        </p>
+        {wallets.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {wallets.map((saved) => (
+              <button
+                key={saved.info.smartWallet}
+                onClick={() => setAddress(saved.info.smartWallet)}
+                className="px-3 py-1 bg-white/5 hover:bg-white/10 rounded-lg text-sm text-white transition-all"
+              >
+                {saved.nickname} <span className="text-blue-300 text-xs font-mono">{shortenAddress(saved.info.smartWallet)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="relative mb-4">
+          <Search className="w-4 h-4 text-blue-300 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="Smart wallet address"
+            className={`${inputClass} pl-9`}
+          />
+        </div>
+        {address.trim() && !smartWallet && <p className="text-red-200 text-sm">That is not a valid address.</p>}
+        {smartWallet && (
+          <RegisteredPasskeys
+            passkeys={registered.passkeys}
+            labels={registered.labels}
+            loading={registered.loading}
+            error={registered.error}
+            inspectable={false}
+            onRename={registered.rename}
+            onRefresh={registered.refresh}
+          />
+        )}
+      </Step>
+
+      <Step number={3} title="Sign in again">
+        <p className="text-blue-200 text-sm mb-4">
+          Once a device with one of those passkeys is at hand, sign in through the portal. This first clears the
+          sign-in this app stored in the browser, which is what makes a stale session keep failing. Your passkeys,
+          saved wallets and settings are kept.
+        </p>
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+            <p className="text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+        <button
+          onClick={handleReconnect}
+          disabled={reconnecting}
+          className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {reconnecting ? <Loader2 className="w-5 h-5 animate-spin" /> : <LogIn className="w-5 h-5" />}
+          <span>{reconnecting ? 'Waiting for the portal...' : 'Reset sign-in and connect'}</span>
+        </button>
+      </Step>
+
+      <Step number={4} title="If no device has the passkey">
+        <p className="text-blue-200 text-sm">
+          The LazorKit program this app uses has no way to add a passkey to an existing wallet or to recover it
+          through guardians. Without one of the passkeys listed above, the wallet cannot sign again and what it holds
+          cannot be moved. Connecting with a new passkey creates a new, empty wallet; keep the old address saved in
+          case the passkey turns up in a synced account later.
+        </p>
+      </Step>
+    </Page>
+  );
+}
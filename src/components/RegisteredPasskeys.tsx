@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Fingerprint, Loader2, Pencil, RefreshCw } from 'lucide-react';
+import { shortenAddress } from '../lib/addressBook';
+import { RegisteredPasskey, getPasskeyLabel } from '../lib/recovery';
+import { InspectLink } from './InspectLink';
+
+interface RegisteredPasskeysProps {
+  passkeys: RegisteredPasskey[];
+  labels: Record<string, string>;
+  loading: boolean;
+  error: string | null;
+  // walletDevice account of the passkey this browser signs with, if known
+  currentDevice?: string;
+  // The inspector screens need a connected wallet, so recovery shows plain text instead
+  inspectable?: boolean;
+  onRename: (address: string, label: string) => void;
+  onRefresh: () => void;
+}
+
+function formatCreatedAt(createdAt: number): string {
+  return new Date(createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function RegisteredPasskeys({
+  passkeys,
+  labels,
+  loading,
+  error,
+  currentDevice,
+  inspectable = true,
+  onRename,
+  onRefresh,
+}: RegisteredPasskeysProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+
+  const startEditing = (passkey: RegisteredPasskey, index: number) => {
+    setEditing(passkey.address);
+    setLabel(getPasskeyLabel(labels, passkey, index));
+  };
+
+  const saveLabel = () => {
+    if (editing) onRename(editing, label);
+    setEditing(null);
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-white">Registered Passkeys</h2>
+        <button
+          onClick={onRefresh}
+          disabled={loading}
+          className="p-2 hover:bg-white/10 rounded-lg transition-all disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`w-5 h-5 text-blue-300 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+      <p className="text-blue-200 text-sm mb-4">
+        Each of these passkeys can sign for this wallet on its own. Labels are kept in this browser.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading && passkeys.length === 0 ? (
+        <div className="flex items-center gap-2 text-blue-200 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Loading passkeys...</span>
+        </div>
+      ) : passkeys.length === 0 ? (
+        !error && <p className="text-blue-200 text-sm">No passkeys are registered for this address on this cluster.</p>
+      ) : (
+        <div className="space-y-2">
+          {passkeys.map((passkey, index) => (
+            <div key={passkey.address} className="flex items-start gap-3 p-3 bg-white/5 rounded-lg">
+              <Fingerprint className="w-5 h-5 text-blue-300 flex-shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  {editing === passkey.address ? (
+                    <input
+                      autoFocus
+                      value={label}
+                      onChange={(e) => setLabel(e.target.value)}
+                      onBlur={saveLabel}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveLabel();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      placeholder="e.g. Work laptop"
+                      className="flex-1 min-w-0 px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <p className="text-white text-sm font-medium truncate">{getPasskeyLabel(labels, passkey, index)}</p>
+                  )}
+                  {passkey.address === currentDevice && (
+                    <span className="px-2 py-0.5 bg-green-500/20 text-green-300 rounded text-xs flex-shrink-0">
+                      This browser
+                    </span>
+                  )}
+                </div>
+                <p className="text-blue-300 text-xs mt-1">
+                  Created{' '}
+                  {passkey.createdAt && passkey.createdSignature && inspectable ? (
+                    <InspectLink kind="tx" value={passkey.createdSignature} className="underline hover:text-blue-100">
+                      {formatCreatedAt(passkey.createdAt)}
+                    </InspectLink>
+                  ) : passkey.createdAt ? (
+                    formatCreatedAt(passkey.createdAt)
+                  ) : (
+                    'at an unknown date'
+                  )}
+                  {' · '}
+                  {inspectable ? (
+                    <InspectLink kind="address" value={passkey.address} className="font-mono underline hover:text-blue-100">
+                      {shortenAddress(passkey.address)}
+                    </InspectLink>
+                  ) : (
+                    <span className="font-mono">{shortenAddress(passkey.address)}</span>
+                  )}
+                </p>
+              </div>
+              <button
+                onClick={() => startEditing(passkey, index)}
+                className="p-1 text-blue-300 hover:text-white flex-shrink-0"
+                title="Rename"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
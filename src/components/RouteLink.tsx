@@ -0,0 +1,26 @@
+import { useRouter } from '../context/RouterContext';
+
+export type RouteLinkProps = Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> & { to: string };
+
+/**
+ * An in-app link: a plain click navigates without a reload, while modified clicks (new tab,
+ * copy link) still get a real URL.
+ */
+export function RouteLink({ to, onClick, children, ...props }: RouteLinkProps) {
+  const { navigate } = useRouter();
+
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (event.defaultPrevented || event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+      return;
+    }
+    event.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { SOL_DECIMALS, parseUnits } from '../lib/amounts';
+import { NewScheduledPayment, Recurrence } from '../lib/scheduledPayments';
+import { TokenBalance, getTokenLabel } from '../lib/tokenService';
+import { RecipientInput, ResolvedRecipient } from './RecipientInput';
+
+interface ScheduleModalProps {
+  tokens: TokenBalance[];
+  onSchedule: (payment: NewScheduledPayment) => void;
+  onClose: () => void;
+}
+
+const SOL_ASSET = 'SOL';
+
+const RECURRENCES: { value: Recurrence; label: string }[] = [
+  { value: 'once', label: 'One time' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'monthly', label: 'Every month' },
+];
+
+// `datetime-local` inputs take local time as `YYYY-MM-DDTHH:mm`
+function toLocalInput(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function nextHour(): number {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date.getTime();
+}
+
+export function ScheduleModal({ tokens, onSchedule, onClose }: ScheduleModalProps) {
+  const addressBook = useAddressBook();
+  const [label, setLabel] = useState('');
+  const [asset, setAsset] = useState(SOL_ASSET);
+  const [recipient, setRecipient] = useState('');
+  const [resolvedRecipient, setResolvedRecipient] = useState<ResolvedRecipient | null>(null);
+  const [amount, setAmount] = useState('');
+  const [recurrence, setRecurrence] = useState<Recurrence>('monthly');
+  const [startsAt, setStartsAt] = useState(() => toLocalInput(nextHour()));
+  const [error, setError] = useState('');
+
+  const token = tokens.find((t) => t.mint.toString() === asset);
+  const assetLabel = token ? getTokenLabel(token) : 'SOL';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resolvedRecipient) return;
+    setError('');
+
+    try {
+      if (parseUnits(amount, token?.decimals ?? SOL_DECIMALS) === 0n) {
+        throw new Error('Amount must be greater than zero');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid amount');
+      return;
+    }
+
+    const start = new Date(startsAt).getTime();
+    if (Number.isNaN(start) || start <= Date.now()) {
+      setError('The first payment must be in the future');
+      return;
+    }
+
+    onSchedule({
+      label,
+      recipient: resolvedRecipient.address,
+      amount: amount.trim(),
+      mint: token?.mint.toString(),
+      recurrence,
+      startsAt: start,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-md w-full border border-white/20 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center gap-3 mb-6">
+          <CalendarClock className="w-6 h-6 text-cyan-300" />
+          <h3 className="text-2xl font-bold text-white">Schedule Payment</h3>
+        </div>
+
+        <div className="mb-4 p-3 bg-blue-500/20 border border-blue-500/50 rounded-lg">
+          <p className="text-blue-100 text-xs">
+            💡 Nothing is signed now. When a payment is due you'll be asked to approve it with your passkey.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+              <p className="text-red-200 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="schedule-label" className="block text-sm font-medium text-blue-200 mb-2">
+              Label
+            </label>
+            <input
+              id="schedule-label"
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Rent, payroll, subscription…"
+              maxLength={64}
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {tokens.length > 0 && (
+            <div>
+              <label htmlFor="schedule-asset" className="block text-sm font-medium text-blue-200 mb-2">
+                Asset
+              </label>
+              <select
+                id="schedule-asset"
+                value={asset}
+                onChange={(e) => setAsset(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value={SOL_ASSET} className="bg-slate-900">SOL</option>
+                {tokens.map((t) => (
+                  <option key={t.tokenAccount.toString()} value={t.mint.toString()} className="bg-slate-900">
+                    {getTokenLabel(t)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <RecipientInput
+            value={recipient}
+            onChange={setRecipient}
+            onResolved={setResolvedRecipient}
+            addressBook={addressBook}
+          />
+
+          <div>
+            <label htmlFor="schedule-amount" className="block text-sm font-medium text-blue-200 mb-2">
+              Amount ({assetLabel})
+            </label>
+            <input
+              id="schedule-amount"
+              type="text"
+              inputMode="decimal"
+              pattern="\d*\.?\d*"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="0.0"
+              className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="schedule-recurrence" className="block text-sm font-medium text-blue-200 mb-2">
+                Repeat
+              </label>
+              <select
+                id="schedule-recurrence"
+                value={recurrence}
+                onChange={(e) => setRecurrence(e.target.value as Recurrence)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {RECURRENCES.map((option) => (
+                  <option key={option.value} value={option.value} className="bg-slate-900">
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="schedule-start" className="block text-sm font-medium text-blue-200 mb-2">
+                {recurrence === 'once' ? 'On' : 'Starting'}
+              </label>
+              <input
+                id="schedule-start"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                required
+              />
+            </div>
+          </div>
+          {recurrence === 'monthly' && (
+            <p className="text-blue-400 text-xs">Months without that day pay on their last day instead.</p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 transition-all border border-white/20"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!resolvedRecipient}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              Schedule
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { AlertCircle, CalendarClock, CheckCircle, Loader2, Pause, Play, Plus, SkipForward, Trash2, XCircle } from 'lucide-react';
+import { shortenAddress } from '../lib/addressBook';
+import {
+  DuePayment,
+  PaymentLogEntry,
+  PaymentOutcome,
+  ScheduledPayment,
+  describeRecurrence,
+  formatRunTime,
+  getNextRunTime,
+} from '../lib/scheduledPayments';
+import { TokenBalance, getAssetLabel } from '../lib/tokenService';
+import { InspectLink } from './InspectLink';
+
+interface ScheduledPaymentsProps {
+  payments: ScheduledPayment[];
+  due: DuePayment[];
+  log: PaymentLogEntry[];
+  tokens: TokenBalance[];
+  onNew: () => void;
+  onReviewDue: () => void;
+  onPause: (payment: ScheduledPayment, paused: boolean) => void;
+  onRemove: (id: string) => void;
+  onClearLog: () => void;
+}
+
+const OUTCOME_STYLES: Record<PaymentOutcome, { icon: typeof CheckCircle; label: string; color: string }> = {
+  pending: { icon: Loader2, label: 'Confirming', color: 'text-blue-300' },
+  sent: { icon: CheckCircle, label: 'Sent', color: 'text-green-400' },
+  skipped: { icon: SkipForward, label: 'Skipped', color: 'text-yellow-300' },
+  failed: { icon: XCircle, label: 'Failed', color: 'text-red-400' },
+};
+
+export function ScheduledPayments({
+  payments,
+  due,
+  log,
+  tokens,
+  onNew,
+  onReviewDue,
+  onPause,
+  onRemove,
+  onClearLog,
+}: ScheduledPaymentsProps) {
+  const dueRuns = due.reduce((total, item) => total + item.count, 0);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">Scheduled Payments</h2>
+        <button onClick={onNew} className="flex items-center gap-2 text-sm text-cyan-300 hover:text-white">
+          <Plus className="w-4 h-4" />
+          New
+        </button>
+      </div>
+
+      {dueRuns > 0 && (
+        <div className="mb-4 p-3 bg-yellow-500/20 border border-yellow-500/50 rounded-lg flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-yellow-300 flex-shrink-0" />
+          <p className="text-yellow-100 text-sm flex-1">
+            {dueRuns === 1 ? '1 payment is' : `${dueRuns} payments are`} waiting for your approval
+          </p>
+          <button
+            onClick={onReviewDue}
+            className="px-3 py-1 bg-yellow-500/30 hover:bg-yellow-500/40 text-white rounded-lg text-sm transition-all"
+          >
+            Review
+          </button>
+        </div>
+      )}
+
+      {payments.length === 0 ? (
+        <div className="flex items-center gap-2 text-blue-200 text-sm">
+          <CalendarClock className="w-4 h-4" />
+          <span>No scheduled payments. Each run asks for your passkey when it is due.</span>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {payments.map((payment) => {
+            const nextRun = getNextRunTime(payment);
+            return (
+              <div key={payment.id} className="p-3 bg-white/5 rounded-lg">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm truncate">
+                      {payment.label || 'Payment'} · {payment.amount} {getAssetLabel(payment.mint, tokens)}
+                    </p>
+                    <p className="text-blue-300 text-xs truncate">
+                      to{' '}
+                      <InspectLink
+                        kind="address"
+                        value={payment.recipient}
+                        className="font-mono hover:text-blue-100 underline"
+                      >
+                        {shortenAddress(payment.recipient)}
+                      </InspectLink>{' '}
+                      · {describeRecurrence(payment)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {nextRun !== null && (
+                      <button
+                        onClick={() => onPause(payment, !payment.paused)}
+                        className="p-2 text-blue-200 hover:text-white hover:bg-white/10 rounded-lg transition-all"
+                        title={payment.paused ? 'Resume' : 'Pause'}
+                      >
+                        {payment.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onRemove(payment.id)}
+                      className="p-2 text-blue-300 hover:text-red-300 hover:bg-white/10 rounded-lg transition-all"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs mt-1 text-blue-200">
+                  {nextRun === null
+                    ? 'Completed'
+                    : payment.paused
+                      ? 'Paused'
+                      : `Next run ${formatRunTime(nextRun)}`}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {log.length > 0 && (
+        <details className="mt-4">
+          <summary className="text-blue-200 text-sm cursor-pointer">Execution log ({log.length})</summary>
+          <div className="mt-2 space-y-1 max-h-72 overflow-y-auto pr-1">
+            {log.map((entry) => {
+              const style = OUTCOME_STYLES[entry.outcome];
+              const Icon = style.icon;
+              return (
+                <div key={entry.id} className="flex items-center gap-2 p-2 bg-white/5 rounded-lg text-xs">
+                  <Icon className={`w-4 h-4 flex-shrink-0 ${style.color}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white truncate">
+                      {entry.label || 'Payment'} · {entry.amount} {getAssetLabel(entry.mint, tokens)}
+                    </p>
+                    <p className="text-blue-300 truncate">
+                      Due {formatRunTime(entry.dueAt)} · {style.label} {formatRunTime(entry.loggedAt)}
+                      {entry.reason && ` · ${entry.reason}`}
+                    </p>
+                  </div>
+                  {entry.signature && (
+                    <InspectLink
+                      kind="tx"
+                      value={entry.signature}
+                      className="font-mono text-blue-300 hover:text-blue-100 underline"
+                    >
+                      {shortenAddress(entry.signature)}
+                    </InspectLink>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <button onClick={onClearLog} className="mt-2 text-xs text-blue-300 hover:text-red-300">
+            Clear log
+          </button>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,494 @@
+import { useState } from 'react';
+import { Eye, KeyRound, Loader2, QrCode, Send, Store, X } from 'lucide-react';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { useCluster } from '../context/ClusterContext';
+import { useRouter } from '../context/RouterContext';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { useTransactionTracker } from '../context/TransactionTrackerContext';
+import { useAddressBook } from '../hooks/useAddressBook';
+import { findContact, shortenAddress } from '../lib/addressBook';
+import { formatSol } from '../lib/amounts';
+import { SendPrefill, formatRoute } from '../lib/routes';
+import { TransferPreview } from '../lib/simulationService';
+import { PaymentRequest, fetchMerchantInfo, fetchMerchantTransaction } from '../lib/solanaPay';
+import { TokenBalance, getTokenLabel } from '../lib/tokenService';
+import { SolBalance, TransferRequest } from '../lib/transactionService';
+import { WalletError, toWalletError } from '../lib/walletErrors';
+import { PaymentLinkInput } from './PaymentLinkInput';
+import { RecipientInput, ResolvedRecipient } from './RecipientInput';
+import { RouteLink } from './RouteLink';
+import { TransactionProgress } from './TransactionProgress';
+import { TransactionReview } from './TransactionReview';
+
+interface SendModalProps {
+  // The paying wallet, sent to Solana Pay transaction request endpoints
+  account: PublicKey;
+  balance: SolBalance | null;
+  tokens: TokenBalance[];
+  // From a link such as `/direct/send?to=<address>&amount=0.1`; the form opens filled in, ready to review
+  prefill?: SendPrefill;
+  // Simulates the transfer; runs before anything is signed
+  onPreview: (request: TransferRequest) => Promise<TransferPreview>;
+  // Largest sendable SOL amount in lamports, after rent reserve and fees
+  onMaxAmount: () => Promise<bigint>;
+  // Resolves with the signature once sent; progress is followed through the transaction tracker
+  onSend: (request: TransferRequest) => Promise<string>;
+  // Same pair for instructions built elsewhere, such as by a Solana Pay merchant
+  onPreviewInstructions: (instructions: TransactionInstruction[]) => Promise<TransferPreview>;
+  onSendInstructions: (instructions: TransactionInstruction[], description: string) => Promise<string>;
+  // Whether an open session key signs this transfer instead of the passkey
+  signedBySessionKey?: (request: TransferRequest) => boolean;
+  onClose: () => void;
+}
+
+type Review =
+  | { kind: 'transfer'; request: TransferRequest; recipient: ResolvedRecipient; preview: TransferPreview }
+  | { kind: 'transaction'; instructions: TransactionInstruction[]; merchant: string; message?: string; preview: TransferPreview };
+
+const SOL_ASSET = 'SOL';
+
+function ErrorNotice({ error }: { error: WalletError }) {
+  const { cluster } = useCluster();
+  const { location } = useRouter();
+
+  return (
+    <div className="p-4 bg-red-500/20 border border-red-500/50 rounded-lg space-y-2">
+      <p className="text-red-200 text-sm">{error.message}</p>
+      {error.kind === 'insufficient-funds' && cluster.faucetUrl && (
+        <a href={cluster.faucetUrl} target="_blank" rel="noopener noreferrer" className="text-red-100 text-xs underline">
+          Fund your wallet from the faucet
+        </a>
+      )}
+      {error.kind === 'policy-blocked' && (
+        <RouteLink to={formatRoute(location.integration, { view: 'policies' })} className="text-red-100 text-xs underline">
+          Review your wallet policies
+        </RouteLink>
+      )}
+      {error.logs.length > 0 && (
+        <details>
+          <summary className="text-red-200 text-xs cursor-pointer">Program logs</summary>
+          <pre className="mt-2 text-[11px] text-red-100 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">
+            {error.logs.join('\n')}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export function SendModal({
+  account,
+  balance,
+  tokens,
+  prefill,
+  onPreview,
+  onMaxAmount,
+  onSend,
+  onPreviewInstructions,
+  onSendInstructions,
+  signedBySessionKey,
+  onClose,
+}: SendModalProps) {
+  const { manager } = useSubscriptions();
+  const { tracker, transactions } = useTransactionTracker();
+  const addressBook = useAddressBook();
+  const [asset, setAsset] = useState(prefill?.token ?? SOL_ASSET);
+  const [recipient, setRecipient] = useState(prefill?.to ?? '');
+  const [resolvedRecipient, setResolvedRecipient] = useState<ResolvedRecipient | null>(null);
+  const [amount, setAmount] = useState(prefill?.amount ?? '');
+  const [txHash, setTxHash] = useState<string | null>(null);
+  const [txError, setTxError] = useState<WalletError | null>(null);
+  const [sending, setSending] = useState(false);
+  const [simulating, setSimulating] = useState(false);
+  const [loadingMax, setLoadingMax] = useState(false);
+  const [review, setReview] = useState<Review | null>(null);
+  const [lastRequest, setLastRequest] = useState<TransferRequest | null>(null);
+  const [showPaymentLink, setShowPaymentLink] = useState(false);
+  const [payment, setPayment] = useState<PaymentRequest | null>(null);
+
+  const token = tokens.find((t) => t.mint.toString() === asset);
+  const assetLabel = token ? getTokenLabel(token) : 'SOL';
+  // A linked mint the wallet does not hold, or whose balance has not loaded yet
+  const missingToken = asset !== SOL_ASSET && !token;
+
+  const handleMax = async () => {
+    if (token) {
+      setAmount(token.uiAmount);
+      return;
+    }
+
+    setTxError(null);
+    setLoadingMax(true);
+    try {
+      setAmount(formatSol(await onMaxAmount()));
+    } catch (err) {
+      console.error('Max amount failed:', err);
+      setTxError(toWalletError(err));
+    } finally {
+      setLoadingMax(false);
+    }
+  };
+
+  // A transfer request fills in the form; a transaction request goes straight to review
+  const handlePayment = async (next: PaymentRequest) => {
+    setShowPaymentLink(false);
+    setTxError(null);
+
+    if (next.kind === 'transfer') {
+      const mint = next.splToken?.toBase58();
+      if (mint && !tokens.some((t) => t.mint.toString() === mint)) {
+        setTxError(toWalletError(new Error(`This payment is in a token your wallet does not hold (${mint})`)));
+        return;
+      }
+      setPayment(next);
+      setAsset(mint ?? SOL_ASSET);
+      setRecipient(next.recipient.toBase58());
+      setAmount(next.amount ?? '');
+      return;
+    }
+
+    setPayment(next);
+    setSimulating(true);
+    try {
+      const [info, merchantTransaction] = await Promise.all([
+        fetchMerchantInfo(next.link).catch(() => null),
+        fetchMerchantTransaction(manager.connection, next.link, account),
+      ]);
+      setReview({
+        kind: 'transaction',
+        instructions: merchantTransaction.instructions,
+        merchant: info?.label ?? next.label ?? next.link.host,
+        message: merchantTransaction.message ?? next.message,
+        preview: await onPreviewInstructions(merchantTransaction.instructions),
+      });
+    } catch (err) {
+      console.error('Transaction request failed:', err);
+      setPayment(null);
+      setTxError(toWalletError(err));
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const clearPayment = () => {
+    setPayment(null);
+    setRecipient('');
+    setAmount('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resolvedRecipient || missingToken) return;
+    setTxError(null);
+    setTxHash(null);
+    setSimulating(true);
+
+    try {
+      const request: TransferRequest = { recipient: resolvedRecipient.address, amount, token };
+      if (payment?.kind === 'transfer') {
+        request.memo = payment.memo;
+        request.references = payment.references.map((reference) => reference.toBase58());
+      }
+      setReview({ kind: 'transfer', request, recipient: resolvedRecipient, preview: await onPreview(request) });
+    } catch (err) {
+      console.error('Simulation failed:', err);
+      setTxError(toWalletError(err));
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!review) return;
+    setTxError(null);
+    setSending(true);
+
+    try {
+      if (review.kind === 'transaction') {
+        setTxHash(await onSendInstructions(review.instructions, `Pay ${review.merchant}`));
+        setLastRequest(null);
+        setReview(null);
+        setPayment(null);
+        return;
+      }
+
+      const signature = await onSend(review.request);
+      addressBook.addRecent(review.recipient.address, review.recipient.name);
+      setTxHash(signature);
+      setLastRequest(review.request);
+      setReview(null);
+      setPayment(null);
+      setRecipient('');
+      setAmount('');
+    } catch (err) {
+      console.error('Transaction failed:', err);
+      setTxError(toWalletError(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  // Signs a fresh copy of the same transfer, which picks up a new blockhash
+  const handleResubmit = async () => {
+    if (!txHash || !lastRequest) return;
+    setTxError(null);
+    setSending(true);
+
+    try {
+      const signature = await onSend(lastRequest);
+      tracker.markReplaced(txHash, signature);
+      setTxHash(signature);
+    } catch (err) {
+      console.error('Resubmit failed:', err);
+      setTxError(toWalletError(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const tracked = transactions.find((t) => t.signature === txHash);
+  const sessionSigned = review?.kind === 'transfer' && !!signedBySessionKey?.(review.request);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-md w-full border border-white/20">
+        <h3 className="text-2xl font-bold text-white mb-6">Send {assetLabel}</h3>
+
+        {!txHash && !txError && (
+          <div className="mb-4 p-3 bg-blue-500/20 border border-blue-500/50 rounded-lg">
+            <p className="text-blue-100 text-xs">
+              💡 The transfer is simulated first, then you'll be prompted to sign with your passkey.
+            </p>
+          </div>
+        )}
+
+        {txHash ? (
+          <div className="space-y-4">
+            {tracked && (
+              <TransactionProgress
+                transaction={tracked}
+                resubmitting={sending}
+                onResubmit={lastRequest ? handleResubmit : undefined}
+              />
+            )}
+            {txError && <ErrorNotice error={txError} />}
+            <button
+              onClick={onClose}
+              className="w-full bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 transition-all border border-white/20"
+            >
+              Close
+            </button>
+          </div>
+        ) : review ? (
+          <div className="space-y-4">
+            {review.kind === 'transfer' ? (
+              <div className="p-3 bg-white/5 rounded-lg text-sm">
+                <p className="text-blue-200 text-xs font-medium uppercase tracking-wide mb-1">To</p>
+                <p className="text-white">
+                  {findContact(addressBook.contacts, review.recipient.address)?.label ?? review.recipient.name ?? 'Unsaved address'}
+                </p>
+                <p className="text-blue-300 text-xs font-mono break-all">{review.recipient.address}</p>
+                {review.request.memo && <p className="text-blue-200 text-xs mt-1">Memo: {review.request.memo}</p>}
+                {sessionSigned && (
+                  <p className="flex items-center gap-1 text-cyan-300 text-xs mt-1">
+                    <KeyRound className="w-3 h-3" />
+                    Signed by your session key, sent from its address: no passkey prompt
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="p-3 bg-white/5 rounded-lg text-sm">
+                <p className="text-blue-200 text-xs font-medium uppercase tracking-wide mb-1">Pay</p>
+                <p className="flex items-center gap-2 text-white">
+                  <Store className="w-4 h-4 text-blue-300" />
+                  {review.merchant}
+                </p>
+                {review.message && <p className="text-blue-200 text-xs mt-1">{review.message}</p>}
+                <p className="text-blue-400 text-xs mt-1">
+                  {review.instructions.length} instruction{review.instructions.length === 1 ? '' : 's'} built by the merchant
+                </p>
+              </div>
+            )}
+            <TransactionReview preview={review.preview} />
+            {txError && <ErrorNotice error={txError} />}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => {
+                  // A merchant's transaction has no form to go back to
+                  if (review.kind === 'transaction') setPayment(null);
+                  setReview(null);
+                }}
+                disabled={sending}
+                className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={sending || !!review.preview.error}
+                className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+              >
+                {sending ? (
+                  <>
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    <span>Signing...</span>
+                  </>
+                ) : (
+                  <>
+                    <Send className="w-5 h-5" />
+                    <span>{sessionSigned ? 'Confirm & Send' : 'Confirm & Sign'}</span>
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {txError && <ErrorNotice error={txError} />}
+
+            {showPaymentLink ? (
+              <PaymentLinkInput onPayment={handlePayment} onCancel={() => setShowPaymentLink(false)} />
+            ) : payment?.kind === 'transfer' ? (
+              <div className="p-3 bg-white/5 rounded-lg flex items-start gap-2 text-sm">
+                <QrCode className="w-4 h-4 text-blue-300 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-white">{payment.label ?? 'Solana Pay request'}</p>
+                  {payment.message && <p className="text-blue-200 text-xs">{payment.message}</p>}
+                  {payment.memo && <p className="text-blue-300 text-xs">Memo: {payment.memo}</p>}
+                </div>
+                <button type="button" onClick={clearPayment} className="text-blue-300 hover:text-white" title="Clear payment request">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : payment?.kind === 'transaction' ? (
+              <div className="p-3 bg-white/5 rounded-lg flex items-center gap-2 text-sm text-blue-200">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Fetching the transaction from {payment.link.host}…
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setShowPaymentLink(true)}
+                disabled={simulating}
+                className="flex items-center gap-2 text-blue-200 hover:text-white text-sm"
+              >
+                <QrCode className="w-4 h-4" />
+                Pay a Solana Pay link or QR code
+              </button>
+            )}
+
+            {missingToken && (
+              <p className="text-yellow-300 text-sm">
+                Your wallet does not hold the token this link asks for ({shortenAddress(asset)}).
+              </p>
+            )}
+
+            {tokens.length > 0 && (
+              <div>
+                <label htmlFor="asset" className="block text-sm font-medium text-blue-200 mb-2">
+                  Asset
+                </label>
+                <select
+                  id="asset"
+                  value={asset}
+                  onChange={(e) => setAsset(e.target.value)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={simulating || !!payment}
+                >
+                  <option value={SOL_ASSET} className="bg-slate-900">SOL</option>
+                  {tokens.map((t) => (
+                    <option key={t.tokenAccount.toString()} value={t.mint.toString()} className="bg-slate-900">
+                      {getTokenLabel(t)} ({t.uiAmount})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <RecipientInput
+              value={recipient}
+              onChange={setRecipient}
+              onResolved={setResolvedRecipient}
+              addressBook={addressBook}
+              disabled={simulating || !!payment}
+            />
+
+            <div>
+              <label htmlFor="amount" className="block text-sm font-medium text-blue-200 mb-2">
+                Amount ({assetLabel})
+              </label>
+              <div className="relative">
+                {/* Text rather than number input, so the exact digits typed reach the parser */}
+                <input
+                  id="amount"
+                  type="text"
+                  inputMode="decimal"
+                  pattern="\d*\.?\d*"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="0.0"
+                  className="w-full bg-white/10 border border-white/20 rounded-lg pl-4 pr-20 py-3 text-white placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  disabled={simulating || (payment?.kind === 'transfer' && payment.amount !== undefined)}
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={handleMax}
+                  disabled={simulating || loadingMax || (payment?.kind === 'transfer' && payment.amount !== undefined)}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 px-3 py-1 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-md text-blue-200 text-xs font-medium transition-all"
+                >
+                  {loadingMax ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Max'}
+                </button>
+              </div>
+              {token ? (
+                <div className="text-blue-300 text-sm mt-1">
+                  <p>Available: {token.uiAmount} {assetLabel}</p>
+                  <p className="text-blue-400 text-xs">The recipient's token account is created if it doesn't exist yet.</p>
+                </div>
+              ) : (
+                balance !== null && (
+                  <div className="text-blue-300 text-sm mt-1">
+                    <p>Available: {formatSol(balance.lamports)} SOL</p>
+                    <p className="text-blue-400 text-xs">
+                      {formatSol(balance.rentReserve)} SOL stays in the wallet to keep it rent exempt. Max also leaves room for the network fee.
+                    </p>
+                  </div>
+                )
+              )}
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={simulating}
+                className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={simulating || !resolvedRecipient || missingToken}
+                className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+              >
+                {simulating ? (
+                  <>
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                    <span>Simulating...</span>
+                  </>
+                ) : (
+                  <>
+                    <Eye className="w-5 h-5" />
+                    <span>Review</span>
+                  </>
+                )}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { KeyRound, Loader2, LogOut, Timer } from 'lucide-react';
+import { shortenAddress } from '../lib/addressBook';
+import { formatSol, parseSol } from '../lib/amounts';
+import { NewSessionKey, SessionKey } from '../lib/sessionKeys';
+import { SolBalance } from '../lib/transactionService';
+import { toWalletError } from '../lib/walletErrors';
+import { InspectLink } from './InspectLink';
+
+interface SessionKeyPanelProps {
+  session: SessionKey | null;
+  balance: SolBalance | null;
+  active: boolean;
+  busy: boolean;
+  // From ending the session, which the panel did not necessarily start
+  error: string;
+  // Funds the new key, asking for the passkey once
+  onStart: (options: NewSessionKey) => Promise<void>;
+  onEnd: () => void;
+}
+
+const DURATIONS = [
+  { label: '15 minutes', ms: 15 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '4 hours', ms: 4 * 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+];
+
+const inputClass =
+  'w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export function SessionKeyPanel({ session, balance, active, busy, error, onStart, onEnd }: SessionKeyPanelProps) {
+  const [budget, setBudget] = useState('0.05');
+  const [maxPerTransfer, setMaxPerTransfer] = useState('0.01');
+  const [durationMs, setDurationMs] = useState(DURATIONS[1].ms);
+  const [startError, setStartError] = useState('');
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStartError('');
+    try {
+      const budgetLamports = parseSol(budget);
+      const capLamports = parseSol(maxPerTransfer);
+      if (budgetLamports <= 0n || capLamports <= 0n) {
+        throw new Error('Budget and per-transfer cap must be greater than zero');
+      }
+      if (capLamports > budgetLamports) {
+        throw new Error('The per-transfer cap cannot be more than the budget');
+      }
+      await onStart({ budget, maxPerTransfer, durationMs });
+    } catch (err) {
+      console.error('Session key error:', err);
+      setStartError(toWalletError(err).message);
+    }
+  };
+
+  const spendable = balance && balance.lamports > balance.rentReserve ? balance.lamports - balance.rentReserve : 0n;
+  const displayError = startError || error;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <h2 className="text-xl font-semibold text-white mb-2">Session Key</h2>
+      <p className="text-blue-200 text-sm mb-4">
+        Approve a small SOL budget once with your passkey, and transfers up to the per-transfer cap are signed by a
+        temporary key in this browser until the session ends. They are sent from the session address, not the smart
+        wallet. Tokens and larger transfers still ask for your passkey.
+      </p>
+
+      {displayError && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <p className="text-red-200 text-sm">{displayError}</p>
+        </div>
+      )}
+
+      {session ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-blue-200">Session address</span>
+            <InspectLink
+              kind="address"
+              value={session.publicKey}
+              className="font-mono text-white hover:text-blue-100 underline"
+            >
+              {shortenAddress(session.publicKey)}
+            </InspectLink>
+          </div>
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-blue-200">Left to spend</span>
+            <span className="text-white">{balance ? `${formatSol(spendable, 6)} SOL` : '---'}</span>
+          </div>
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-blue-200">Per transfer</span>
+            <span className="text-white">up to {session.maxPerTransfer} SOL</span>
+          </div>
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-blue-200">{active ? 'Expires' : 'Expired'}</span>
+            <span className="flex items-center gap-1 text-white">
+              <Timer className="w-4 h-4 text-blue-300" />
+              {new Date(session.expiresAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+            </span>
+          </div>
+          <button
+            onClick={onEnd}
+            disabled={busy}
+            className="w-full flex items-center justify-center gap-2 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all border border-white/20"
+          >
+            {busy ? <Loader2 className="w-5 h-5 animate-spin" /> : <LogOut className="w-5 h-5" />}
+            <span>{busy ? 'Returning balance...' : 'End session and return balance'}</span>
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleStart} className="space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label htmlFor="session-budget" className="block text-xs text-blue-200 mb-1">
+                Budget (SOL)
+              </label>
+              <input
+                id="session-budget"
+                type="text"
+                inputMode="decimal"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="session-cap" className="block text-xs text-blue-200 mb-1">
+                Per transfer (SOL)
+              </label>
+              <input
+                id="session-cap"
+                type="text"
+                inputMode="decimal"
+                value={maxPerTransfer}
+                onChange={(e) => setMaxPerTransfer(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="session-duration" className="block text-xs text-blue-200 mb-1">
+                Duration
+              </label>
+              <select
+                id="session-duration"
+                value={durationMs}
+                onChange={(e) => setDurationMs(Number(e.target.value))}
+                className={inputClass}
+              >
+                {DURATIONS.map((duration) => (
+                  <option key={duration.ms} value={duration.ms} className="bg-slate-900">
+                    {duration.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {busy ? <Loader2 className="w-5 h-5 animate-spin" /> : <KeyRound className="w-5 h-5" />}
+            <span>{busy ? 'Funding...' : 'Start session'}</span>
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { CheckCircle, Copy, HelpCircle, Loader2, PenLine, RefreshCw, ShieldCheck, XCircle } from 'lucide-react';
+import { useCluster } from '../context/ClusterContext';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import {
+  MessageSigner,
+  SignedMessage,
+  VerificationCheck,
+  parseSignedMessage,
+  signIn,
+  verifySignedMessage,
+} from '../lib/messageSigning';
+import {
+  SignInFields,
+  buildSignInMessage,
+  chainIdForCluster,
+  createNonce,
+  parseSignInMessage,
+  validateSignInMessage,
+} from '../lib/siws';
+import { toWalletError } from '../lib/walletErrors';
+
+interface SignMessageModalProps {
+  signer: MessageSigner;
+  onClose: () => void;
+}
+
+type Tab = 'message' | 'sign-in' | 'verify';
+
+const TABS: [Tab, string][] = [
+  ['message', 'Message'],
+  ['sign-in', 'Sign-In'],
+  ['verify', 'Verify'],
+];
+const DEFAULT_EXPIRY_MINUTES = '10';
+
+const inputClass =
+  'w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function CheckRow({ check }: { check: VerificationCheck }) {
+  const Icon = check.ok === null ? HelpCircle : check.ok ? CheckCircle : XCircle;
+  const color = check.ok === null ? 'text-yellow-300' : check.ok ? 'text-green-400' : 'text-red-400';
+  return (
+    <div className="flex items-start gap-2 text-sm">
+      <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+      <div>
+        <span className="text-white">{check.label}</span>
+        {check.detail && <p className="text-blue-300 text-xs">{check.detail}</p>}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Signs plain messages and Sign-In With Solana messages, and verifies either kind of signature.
+ * The sign-in tab stands in for a backend: it issues the nonce the verifier then expects.
+ */
+export function SignMessageModal({ signer, onClose }: SignMessageModalProps) {
+  const { cluster } = useCluster();
+  const { manager } = useSubscriptions();
+  const [tab, setTab] = useState<Tab>('message');
+  const [message, setMessage] = useState('');
+  const [statement, setStatement] = useState('Sign in to the LazorKit starter');
+  const [expiryMinutes, setExpiryMinutes] = useState(DEFAULT_EXPIRY_MINUTES);
+  const [nonce, setNonce] = useState(createNonce);
+  const [issuedNonces, setIssuedNonces] = useState<Set<string>>(() => new Set());
+  const [signing, setSigning] = useState(false);
+  const [signed, setSigned] = useState<SignedMessage | null>(null);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [verifyInput, setVerifyInput] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [checks, setChecks] = useState<VerificationCheck[] | null>(null);
+
+  const chainId = chainIdForCluster(cluster.name);
+
+  // Timestamps are taken again when signing, so the preview never goes stale
+  const makeSignInFields = (issuedAt: Date): SignInFields | null => {
+    const minutes = Number(expiryMinutes);
+    if (!Number.isInteger(minutes) || minutes <= 0) return null;
+    return {
+      domain: window.location.host,
+      address: signer.address.toBase58(),
+      statement: statement.trim() || undefined,
+      uri: window.location.origin,
+      version: '1',
+      chainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: new Date(issuedAt.getTime() + minutes * 60_000).toISOString(),
+    };
+  };
+  const signInFields = makeSignInFields(new Date());
+
+  const switchTab = (next: Tab) => {
+    setTab(next);
+    setError('');
+    setSigned(null);
+  };
+
+  const handleSign = async () => {
+    setSigning(true);
+    setError('');
+    setSigned(null);
+    try {
+      if (tab === 'sign-in') {
+        const fields = makeSignInFields(new Date());
+        if (!fields) throw new Error('Expiry must be a whole number of minutes');
+        const result = await signIn(signer, fields);
+        setIssuedNonces((current) => new Set(current).add(nonce));
+        setNonce(createNonce());
+        setSigned(result);
+      } else {
+        setSigned(await signer.signMessage(message));
+      }
+    } catch (err) {
+      const walletError = toWalletError(err);
+      setError(walletError.kind === 'user-rejected' ? 'Signing was cancelled.' : walletError.message);
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  const handleVerify = async (input = verifyInput) => {
+    setVerifying(true);
+    setError('');
+    setChecks(null);
+    try {
+      const value = parseSignedMessage(input);
+      const results = await verifySignedMessage(manager.connection, value);
+
+      // Sign-in messages are also checked the way the backend would check them
+      let fields: SignInFields | null = null;
+      try {
+        fields = parseSignInMessage(value.message);
+      } catch {
+        // A plain message
+      }
+      if (fields) {
+        const problems = validateSignInMessage(fields, {
+          domain: window.location.host,
+          address: value.address,
+          chainId,
+          nonce: fields.nonce && issuedNonces.has(fields.nonce) ? fields.nonce : '',
+        });
+        results.push(
+          problems.length === 0
+            ? { label: 'Sign-in message', ok: true, detail: 'Domain, address, chain, nonce and expiry check out' }
+            : { label: 'Sign-in message', ok: false, detail: problems.join('. ') }
+        );
+      }
+      setChecks(results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const signedJson = signed ? JSON.stringify(signed, null, 2) : '';
+
+  const copySigned = () => {
+    navigator.clipboard.writeText(signedJson);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const verifySigned = () => {
+    setVerifyInput(signedJson);
+    switchTab('verify');
+    handleVerify(signedJson);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-lg w-full border border-white/20 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-2xl font-bold text-white mb-4">Sign Message</h3>
+
+        <div className="flex gap-2 mb-4">
+          {TABS.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => switchTab(value)}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
+                tab === value ? 'bg-blue-500 text-white' : 'bg-white/10 text-blue-200 hover:bg-white/20'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'message' && (
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Message to sign"
+            rows={4}
+            className={`${inputClass} resize-none`}
+          />
+        )}
+
+        {tab === 'sign-in' && (
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={statement}
+              onChange={(e) => setStatement(e.target.value)}
+              placeholder="Statement (optional)"
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <label className="flex-1 text-blue-200 text-xs">
+                Expires after (minutes)
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={expiryMinutes}
+                  onChange={(e) => setExpiryMinutes(e.target.value)}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <div className="flex-1 text-blue-200 text-xs">
+                Nonce
+                <div className="mt-1 flex items-center gap-2 px-3 py-2 bg-white/5 rounded-lg">
+                  <span className="flex-1 text-white text-sm font-mono truncate">{nonce}</span>
+                  <button type="button" onClick={() => setNonce(createNonce())} title="New nonce">
+                    <RefreshCw className="w-3 h-3 text-blue-300 hover:text-white" />
+                  </button>
+                </div>
+              </div>
+            </div>
+            {signInFields && (
+              <pre className="text-[11px] text-blue-100 whitespace-pre-wrap break-all bg-black/30 rounded-lg p-3">
+                {buildSignInMessage(signInFields)}
+              </pre>
+            )}
+            {!signer.signIn && (
+              <p className="text-blue-300 text-xs">This wallet has no sign-in support, so the message above is signed as-is.</p>
+            )}
+          </div>
+        )}
+
+        {tab === 'verify' && (
+          <div className="space-y-3">
+            <textarea
+              value={verifyInput}
+              onChange={(e) => {
+                setVerifyInput(e.target.value);
+                setChecks(null);
+              }}
+              placeholder='Signed message JSON: { "scheme", "address", "message", "signature", "signedPayload" }'
+              rows={8}
+              className={`${inputClass} resize-none font-mono text-xs`}
+            />
+            {checks && (
+              <div className="p-3 bg-white/5 rounded-lg space-y-2">
+                {checks.map((check) => (
+                  <CheckRow key={check.label} check={check} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+            <p className="text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        {tab !== 'verify' && signed && (
+          <div className="mt-4">
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-blue-200 text-sm">
+                Signature <span className="text-blue-300 text-xs">({signed.scheme})</span>
+              </p>
+              <div className="flex items-center gap-1">
+                <button onClick={copySigned} className="p-1 hover:bg-white/10 rounded-lg" title="Copy">
+                  {copied ? <CheckCircle className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4 text-blue-300" />}
+                </button>
+                <button onClick={verifySigned} className="p-1 hover:bg-white/10 rounded-lg" title="Verify">
+                  <ShieldCheck className="w-4 h-4 text-blue-300" />
+                </button>
+              </div>
+            </div>
+            <pre className="text-[11px] text-blue-100 whitespace-pre-wrap break-all max-h-48 overflow-y-auto bg-black/30 rounded-lg p-3">
+              {signedJson}
+            </pre>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-white/10 text-white py-3 px-4 rounded-lg font-medium hover:bg-white/20 transition-all border border-white/20"
+          >
+            Close
+          </button>
+          {tab === 'verify' ? (
+            <button
+              onClick={() => handleVerify()}
+              disabled={verifying || !verifyInput.trim()}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+            >
+              {verifying ? <Loader2 className="w-5 h-5 animate-spin" /> : <ShieldCheck className="w-5 h-5" />}
+              <span>Verify</span>
+            </button>
+          ) : (
+            <button
+              onClick={handleSign}
+              disabled={signing || (tab === 'message' ? !message : !signInFields)}
+              className="flex-1 bg-gradient-to-r from-blue-500 to-cyan-500 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+            >
+              {signing ? <Loader2 className="w-5 h-5 animate-spin" /> : <PenLine className="w-5 h-5" />}
+              <span>{tab === 'sign-in' ? 'Sign In' : 'Sign'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
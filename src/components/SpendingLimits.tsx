@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { Gauge, Plus, Save, Trash2 } from 'lucide-react';
+import { SOL_DECIMALS, formatUnits, parseUnits } from '../lib/amounts';
+import { SpendingEntry, SpendingLimit, getSpentInWindow } from '../lib/policies';
+import { TokenBalance, getAssetLabel } from '../lib/tokenService';
+
+interface SpendingLimitsProps {
+  limits: SpendingLimit[];
+  tokens: TokenBalance[];
+  spending: SpendingEntry[];
+  onSave: (limits: SpendingLimit[]) => void;
+}
+
+// Form rows keep the asset as a select value and empty strings for no limit
+interface LimitRow {
+  asset: string;
+  perTransaction: string;
+  daily: string;
+}
+
+const SOL_ASSET = 'SOL';
+
+const inputClass =
+  'w-full bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-sm placeholder-blue-300/50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function toRows(limits: SpendingLimit[]): LimitRow[] {
+  return limits.map((limit) => ({
+    asset: limit.mint ?? SOL_ASSET,
+    perTransaction: limit.perTransaction ?? '',
+    daily: limit.daily ?? '',
+  }));
+}
+
+export function SpendingLimits({ limits, tokens, spending, onSave }: SpendingLimitsProps) {
+  const [rows, setRows] = useState(() => toRows(limits));
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  // Picks up changes saved from another tab
+  useEffect(() => {
+    setRows(toRows(limits));
+  }, [limits]);
+
+  const getDecimals = (asset: string) =>
+    asset === SOL_ASSET ? SOL_DECIMALS : tokens.find((t) => t.mint.toString() === asset)?.decimals;
+
+  const assets = [SOL_ASSET, ...tokens.map((t) => t.mint.toString())];
+  const unusedAsset = assets.find((asset) => !rows.some((row) => row.asset === asset));
+
+  const updateRow = (index: number, patch: Partial<LimitRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    setError('');
+    const next: SpendingLimit[] = [];
+    for (const row of rows) {
+      const label = getAssetLabel(row.asset === SOL_ASSET ? undefined : row.asset, tokens);
+      const perTransaction = row.perTransaction.trim();
+      const daily = row.daily.trim();
+      if (!perTransaction && !daily) continue;
+
+      const decimals = getDecimals(row.asset);
+      try {
+        // A limit on a token the wallet no longer holds is kept as it was
+        if (decimals !== undefined) {
+          for (const value of [perTransaction, daily]) {
+            if (value) parseUnits(value, decimals);
+          }
+        }
+      } catch (err) {
+        setError(`${label}: ${err instanceof Error ? err.message : 'Invalid amount'}`);
+        return;
+      }
+
+      next.push({
+        mint: row.asset === SOL_ASSET ? undefined : row.asset,
+        perTransaction: perTransaction || undefined,
+        daily: daily || undefined,
+      });
+    }
+    onSave(next);
+    setSaved(true);
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-white">Spending Limits</h2>
+        {unusedAsset && (
+          <button
+            onClick={() => setRows([...rows, { asset: unusedAsset, perTransaction: '', daily: '' }])}
+            className="flex items-center gap-2 text-sm text-cyan-300 hover:text-white"
+          >
+            <Plus className="w-4 h-4" />
+            Add limit
+          </button>
+        )}
+      </div>
+      <p className="text-blue-200 text-sm mb-4">
+        Transfers over a limit are blocked before you're asked to sign. Daily limits cover the last 24 hours of
+        transfers sent from this app.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+          <p className="text-red-200 text-sm">{error}</p>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <div className="flex items-center gap-2 text-blue-200 text-sm">
+          <Gauge className="w-4 h-4" />
+          <span>No limits set.</span>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rows.map((row, index) => {
+            const mint = row.asset === SOL_ASSET ? undefined : row.asset;
+            const label = getAssetLabel(mint, tokens);
+            const decimals = getDecimals(row.asset);
+            return (
+              <div key={row.asset} className="p-3 bg-white/5 rounded-lg">
+                <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+                  <div>
+                    <label className="block text-xs text-blue-200 mb-1">Asset</label>
+                    <select
+                      value={row.asset}
+                      onChange={(e) => updateRow(index, { asset: e.target.value })}
+                      className={inputClass}
+                    >
+                      {/* A limit on a token no longer held keeps its own option */}
+                      {!assets.includes(row.asset) && (
+                        <option value={row.asset} className="bg-slate-900">{label}</option>
+                      )}
+                      {assets
+                        .filter((asset) => asset === row.asset || !rows.some((other) => other.asset === asset))
+                        .map((asset) => (
+                          <option key={asset} value={asset} className="bg-slate-900">
+                            {getAssetLabel(asset === SOL_ASSET ? undefined : asset, tokens)}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-blue-200 mb-1">Per transaction</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={row.perTransaction}
+                      onChange={(e) => updateRow(index, { perTransaction: e.target.value })}
+                      placeholder="No limit"
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-blue-200 mb-1">Per 24 hours</label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={row.daily}
+                      onChange={(e) => updateRow(index, { daily: e.target.value })}
+                      placeholder="No limit"
+                      className={inputClass}
+                    />
+                  </div>
+                  <button
+                    onClick={() => {
+                      setRows(rows.filter((_, i) => i !== index));
+                      setSaved(false);
+                    }}
+                    className="p-2 text-blue-300 hover:text-red-300 hover:bg-white/10 rounded-lg transition-all"
+                    title="Remove limit"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {decimals !== undefined && (
+                  <p className="text-blue-300 text-xs mt-2">
+                    Sent in the last 24 hours: {formatUnits(getSpentInWindow(spending, mint), decimals)} {label}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        className="mt-4 flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 text-white rounded-lg font-medium hover:from-blue-600 hover:to-cyan-600 transition-all text-sm"
+      >
+        <Save className="w-4 h-4" />
+        {saved ? 'Saved' : 'Save limits'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { Loader2, RefreshCw, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { formatSol } from '../lib/amounts';
+import { KoraConfig, PaymasterAllowance } from '../lib/paymasterService';
+
+interface SponsorshipStatusProps {
+  config: KoraConfig | null;
+  allowance: PaymasterAllowance | null;
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-sm">
+      <span className="text-blue-200">{label}</span>
+      <span className="text-white text-right">{value}</span>
+    </div>
+  );
+}
+
+function remaining(left: number | null, limit: number | null, format: (value: number) => string): string {
+  if (left === null || limit === null) return 'No limit';
+  return `${format(left)} of ${format(limit)}`;
+}
+
+export function SponsorshipStatus({ config, allowance, loading, error, onRefresh }: SponsorshipStatusProps) {
+  const policy = config?.sponsorship_policy;
+  const maxFee = policy?.max_fee_lamports ?? config?.validation_config?.max_allowed_lamports ?? null;
+  const priceType = config?.validation_config?.price?.type;
+  const exhausted = allowance?.remaining_transactions === 0 || allowance?.remaining_lamports === 0;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">Fee Sponsorship</h2>
+        <button
+          onClick={onRefresh}
+          disabled={loading}
+          className="p-2 text-blue-200 hover:text-white hover:bg-white/10 rounded-lg transition-all disabled:opacity-50"
+          title="Refresh"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="flex items-center gap-2 text-sm text-red-300">
+          <ShieldAlert className="w-5 h-5 flex-shrink-0" />
+          <span>{error} Transactions may fail until it is back.</span>
+        </div>
+      ) : !config ? (
+        <p className="text-blue-200 text-sm">Checking the paymaster...</p>
+      ) : (
+        <div className="space-y-3">
+          <div className={`flex items-center gap-2 text-sm ${exhausted ? 'text-yellow-300' : 'text-green-300'}`}>
+            {exhausted ? <ShieldAlert className="w-5 h-5 flex-shrink-0" /> : <ShieldCheck className="w-5 h-5 flex-shrink-0" />}
+            <span>
+              {exhausted
+                ? "Today's sponsorship is used up. The paymaster will decline transactions until it resets."
+                : priceType && priceType !== 'free'
+                  ? 'The paymaster fronts network fees and charges them back in a token.'
+                  : 'Network fees are paid by the paymaster.'}
+            </span>
+          </div>
+
+          <Row label="Max fee per transaction" value={maxFee === null ? 'No limit' : `${formatSol(maxFee)} SOL`} />
+          {allowance && (
+            <>
+              <Row
+                label="Transactions left today"
+                value={remaining(allowance.remaining_transactions, policy?.daily_limit_transactions ?? null, String)}
+              />
+              <Row
+                label="Fees left today"
+                value={remaining(
+                  allowance.remaining_lamports,
+                  policy?.daily_limit_lamports ?? null,
+                  (lamports) => `${formatSol(lamports)} SOL`
+                )}
+              />
+              <Row label="Resets" value={new Date(allowance.resets_at).toLocaleString()} />
+            </>
+          )}
+          {policy && (
+            <details className="text-sm">
+              <summary className="text-blue-200 cursor-pointer">
+                Sponsored programs ({policy.allowed_programs.length})
+              </summary>
+              <ul className="mt-2 space-y-1">
+                {policy.allowed_programs.map((program) => (
+                  <li key={program} className="text-blue-300 text-xs font-mono truncate">
+                    {program}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {!allowance && (
+            <p className="text-blue-300 text-xs">This paymaster does not publish per-wallet allowances.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Coins, Loader2 } from 'lucide-react';
+import { TokenBalance, getTokenLabel } from '../lib/tokenService';
+
+interface TokenBalancesProps {
+  tokens: TokenBalance[];
+  loading: boolean;
+  onSend: (token: TokenBalance) => void;
+}
+
+export function TokenBalances({ tokens, loading, onSend }: TokenBalancesProps) {
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-white">Tokens</h2>
+        {loading && <Loader2 className="w-5 h-5 text-blue-300 animate-spin" />}
+      </div>
+
+      {tokens.length === 0 ? (
+        <p className="text-blue-200 text-sm">{loading ? 'Loading token accounts...' : 'No SPL tokens in this wallet yet.'}</p>
+      ) : (
+        <div className="space-y-2">
+          {tokens.map((token) => (
+            <div
+              key={token.tokenAccount.toString()}
+              className="flex items-center gap-3 p-3 bg-white/5 rounded-lg"
+            >
+              <div className="w-10 h-10 bg-gradient-to-br from-emerald-500 to-teal-500 rounded-full flex items-center justify-center flex-shrink-0">
+                <Coins className="w-5 h-5 text-white" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-white font-medium">{getTokenLabel(token)}</p>
+                <p className="text-blue-300 text-xs font-mono truncate">{token.name || token.mint.toString()}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-white font-medium">{token.uiAmount}</p>
+                <button
+                  onClick={() => onSend(token)}
+                  disabled={token.amount === 0n}
+                  className="text-cyan-300 hover:text-cyan-200 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Send
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
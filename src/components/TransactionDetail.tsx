@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { PublicKey } from '@solana/web3.js';
+import { getExplorerUrl } from '../config/clusters';
+import { useCluster } from '../context/ClusterContext';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { useTransactionTracker } from '../context/TransactionTrackerContext';
+import { shortenAddress } from '../lib/addressBook';
+import { formatSol } from '../lib/amounts';
+import { TransactionDetail as Detail, fetchTransactionDetail } from '../lib/historyService';
+import { BalanceChange } from '../lib/inspector';
+import { TokenBalance, getTokenLabel } from '../lib/tokenService';
+import { TransferLine } from './ActivityFeed';
+import { InspectLink } from './InspectLink';
+import { InspectorSearch } from './InspectorSearch';
+import { InstructionCard } from './InstructionCard';
+import { Page } from './Page';
+
+interface TransactionDetailProps {
+  signature: string;
+  // Transfers are described from this wallet's side
+  owner: PublicKey;
+  tokens: TokenBalance[];
+  onBack: () => void;
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start justify-between gap-4 text-sm">
+      <span className="text-blue-200 flex-shrink-0">{label}</span>
+      <span className="text-white text-right min-w-0 break-all">{children}</span>
+    </div>
+  );
+}
+
+function ChangeRow({ change, label, owner }: { change: BalanceChange; label: string; owner: string }) {
+  const holder = change.owner ?? change.address;
+  return (
+    <div className="flex items-center justify-between gap-4 text-xs">
+      <InspectLink kind="address" value={holder} className="font-mono text-blue-100 hover:text-white truncate">
+        {holder === owner ? 'You' : shortenAddress(holder)}
+      </InspectLink>
+      <span className="text-blue-300 whitespace-nowrap">
+        {change.before} → {change.after} {label}
+      </span>
+      <span className={`whitespace-nowrap font-medium ${change.change.startsWith('-') ? 'text-red-300' : 'text-green-400'}`}>
+        {change.change.startsWith('-') ? '' : '+'}
+        {change.change} {label}
+      </span>
+    </div>
+  );
+}
+
+export function TransactionDetail({ signature, owner, tokens, onBack }: TransactionDetailProps) {
+  const { cluster } = useCluster();
+  const { manager } = useSubscriptions();
+  const { transactions } = useTransactionTracker();
+  const [detail, setDetail] = useState<Detail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const tracked = transactions.find((tx) => tx.signature === signature);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDetail(await fetchTransactionDetail(manager.connection, signature, owner));
+      setError('');
+    } catch (err) {
+      console.error('Transaction detail error:', err);
+      setError('Could not load the transaction from the RPC.');
+    } finally {
+      setLoading(false);
+    }
+  }, [manager, signature, owner]);
+
+  useEffect(() => {
+    setDetail(null);
+    refresh();
+  }, [refresh]);
+
+  // A transaction sent from here shows up once it lands
+  const trackedStage = tracked?.stage;
+  useEffect(() => {
+    if (trackedStage === 'confirmed' || trackedStage === 'finalized') refresh();
+  }, [trackedStage, refresh]);
+
+  const ownerAddress = owner.toBase58();
+  const tokenLabel = (mint?: string) => {
+    const token = tokens.find((t) => t.mint.toBase58() === mint);
+    return token ? getTokenLabel(token) : shortenAddress(mint ?? '');
+  };
+
+  return (
+    <Page title="Transaction" subtitle={<span className="font-mono">{signature}</span>} onBack={onBack}>
+      <InspectorSearch />
+
+      <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-white">Summary</h2>
+          <div className="flex items-center gap-2">
+            <a
+              href={getExplorerUrl(cluster, 'tx', signature)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-sm text-blue-300 hover:text-blue-100"
+            >
+              Solana Explorer
+              <ExternalLink className="w-3 h-3" />
+            </a>
+            <button
+              onClick={refresh}
+              disabled={loading}
+              className="p-2 hover:bg-white/10 rounded-lg transition-all disabled:opacity-50"
+            >
+              <RefreshCw className={`w-5 h-5 text-blue-300 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
+            <p className="text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!detail ? (
+          <div className="flex items-center gap-2 text-blue-200 text-sm">
+            {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>
+              {loading
+                ? 'Loading transaction...'
+                : tracked
+                  ? `Not on chain yet (${tracked.stage}).`
+                  : `Not found on ${cluster.label}.`}
+            </span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Row label="Status">
+              <span className={detail.row.status === 'success' ? 'text-green-400' : 'text-red-400'}>
+                {detail.row.status === 'success' ? 'Success' : 'Failed'}
+              </span>
+            </Row>
+            {detail.error && (
+              <Row label="Error">
+                <span className="font-mono text-red-300">{detail.error}</span>
+              </Row>
+            )}
+            <Row label="Time">
+              {detail.row.blockTime ? new Date(detail.row.blockTime * 1000).toLocaleString() : 'Pending'}
+            </Row>
+            <Row label="Slot">{detail.row.slot.toLocaleString()}</Row>
+            <Row label="Version">{detail.version === 'legacy' ? 'Legacy' : `v${detail.version}`}</Row>
+            <Row label="Fee">
+              {formatSol(detail.row.fee)} SOL{' '}
+              {detail.row.sponsored ? `sponsored by ${shortenAddress(detail.row.feePayer)}` : 'paid by you'}
+            </Row>
+            {detail.computeUnits !== null && (
+              <Row label="Compute units">
+                {detail.computeUnits.toLocaleString()} of {detail.computeUnitLimit.toLocaleString()}
+              </Row>
+            )}
+            {detail.row.transfers.length > 0 && (
+              <div className="pt-2 space-y-2">
+                {detail.row.transfers.map((transfer, index) => (
+                  <TransferLine key={index} transfer={transfer} tokens={tokens} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {detail && (detail.solChanges.length > 0 || detail.tokenChanges.length > 0) && (
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Balance Changes</h2>
+          <div className="space-y-2">
+            {detail.solChanges.map((change) => (
+              <ChangeRow key={change.address} change={change} label="SOL" owner={ownerAddress} />
+            ))}
+            {detail.tokenChanges.map((change) => (
+              <ChangeRow key={change.address} change={change} label={tokenLabel(change.mint)} owner={ownerAddress} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {detail && (
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Instructions</h2>
+          <div className="space-y-2">
+            {detail.instructions.map((instruction, index) => (
+              <InstructionCard key={index} instruction={instruction} label={`#${index + 1}`} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {detail && (
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Accounts</h2>
+          <div className="space-y-1">
+            {detail.accounts.map((account) => (
+              <div key={account.address} className="flex items-center gap-2 text-xs">
+                <InspectLink
+                  kind="address"
+                  value={account.address}
+                  className="flex-1 min-w-0 font-mono text-blue-100 hover:text-white truncate"
+                >
+                  {account.address}
+                </InspectLink>
+                {account.signer && <span className="px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300">Signer</span>}
+                {account.writable && <span className="px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-300">Writable</span>}
+                {account.lookup && <span className="px-2 py-0.5 rounded-full bg-white/10 text-blue-200">Lookup table</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {detail && detail.logs.length > 0 && (
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-2xl p-6 border border-white/20 mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Program Logs</h2>
+          <pre className="text-[11px] text-blue-100 whitespace-pre-wrap break-all max-h-96 overflow-y-auto">
+            {detail.logs.join('\n')}
+          </pre>
+        </div>
+      )}
+    </Page>
+  );
+}
@@ -0,0 +1,70 @@
+import { CheckCircle, Circle, Clock, Loader2, RotateCcw, ScanSearch, XCircle } from 'lucide-react';
+import { STAGE_ORDER, TrackedTransaction } from '../lib/transactionTracker';
+import { InspectLink } from './InspectLink';
+
+interface TransactionProgressProps {
+  transaction: TrackedTransaction;
+  resubmitting?: boolean;
+  onResubmit?: () => void;
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  sent: 'Sent',
+  processed: 'Processed',
+  confirmed: 'Confirmed',
+  finalized: 'Finalized',
+};
+
+export function TransactionProgress({ transaction, resubmitting, onResubmit }: TransactionProgressProps) {
+  const { stage, signature } = transaction;
+  const reached = STAGE_ORDER.indexOf(stage);
+
+  if (stage === 'failed' || stage === 'expired') {
+    return (
+      <div className="p-4 bg-red-500/20 border border-red-500/50 rounded-lg space-y-3">
+        <div className="flex items-center gap-3">
+          {stage === 'expired' ? <Clock className="w-6 h-6 text-red-300" /> : <XCircle className="w-6 h-6 text-red-400" />}
+          <p className="text-red-200 font-medium">{stage === 'expired' ? 'Transaction expired' : 'Transaction failed'}</p>
+        </div>
+        {transaction.error && <p className="text-red-200 text-xs break-all">{transaction.error}</p>}
+        {stage === 'expired' && onResubmit && !transaction.replacedBy && (
+          <button
+            onClick={onResubmit}
+            disabled={resubmitting}
+            className="w-full bg-white/10 text-white py-2 px-4 rounded-lg text-sm font-medium hover:bg-white/20 disabled:opacity-50 transition-all border border-white/20 flex items-center justify-center gap-2"
+          >
+            {resubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+            <span>Rebuild &amp; resubmit</span>
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-green-500/20 border border-green-500/50 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        {STAGE_ORDER.map((step, index) => (
+          <div key={step} className="flex flex-col items-center gap-1 flex-1">
+            {index <= reached ? (
+              <CheckCircle className="w-5 h-5 text-green-400" />
+            ) : index === reached + 1 ? (
+              <Loader2 className="w-5 h-5 text-blue-300 animate-spin" />
+            ) : (
+              <Circle className="w-5 h-5 text-blue-400/50" />
+            )}
+            <span className={`text-xs ${index <= reached ? 'text-green-200' : 'text-blue-300'}`}>{STAGE_LABELS[step]}</span>
+          </div>
+        ))}
+      </div>
+      <InspectLink
+        kind="tx"
+        value={signature}
+        className="flex items-center gap-2 text-green-300 hover:text-green-200 text-sm"
+      >
+        <span className="break-all">{signature.slice(0, 20)}...</span>
+        <ScanSearch className="w-4 h-4 flex-shrink-0" />
+      </InspectLink>
+    </div>
+  );
+}
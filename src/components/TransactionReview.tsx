@@ -0,0 +1,104 @@
+import { AlertTriangle, CheckCircle, Cpu, Fuel, ShieldCheck, ShieldQuestion, ShieldX } from 'lucide-react';
+import { formatSol, formatUnits } from '../lib/amounts';
+import { PaymasterCoverageStatus } from '../lib/paymasterService';
+import { TransferPreview } from '../lib/simulationService';
+
+const PAYMASTER_STYLES: Record<PaymasterCoverageStatus, { icon: typeof ShieldCheck; color: string; label: string }> = {
+  covered: { icon: ShieldCheck, color: 'text-green-400', label: 'Sponsored' },
+  charged: { icon: ShieldCheck, color: 'text-yellow-300', label: 'Paid in token' },
+  'not-covered': { icon: ShieldX, color: 'text-red-400', label: 'Not covered' },
+  unknown: { icon: ShieldQuestion, color: 'text-yellow-300', label: 'Unknown' },
+  none: { icon: ShieldX, color: 'text-blue-300', label: 'You pay' },
+};
+
+function shorten(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+/**
+ * Result of the pre-flight simulation, shown before the passkey prompt.
+ */
+export function TransactionReview({ preview }: { preview: TransferPreview }) {
+  const paymaster = PAYMASTER_STYLES[preview.paymaster.status];
+  const PaymasterIcon = paymaster.icon;
+  const changes = preview.balanceChanges.filter((change) => change.after !== change.before);
+
+  return (
+    <div className="space-y-3">
+      {preview.error ? (
+        <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg flex items-start gap-2">
+          <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-red-200 text-sm font-medium">Simulation failed</p>
+            <p className="text-red-200 text-xs break-all">{preview.error}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="p-3 bg-green-500/20 border border-green-500/50 rounded-lg flex items-center gap-2">
+          <CheckCircle className="w-5 h-5 text-green-400" />
+          <p className="text-green-200 text-sm">Simulation succeeded</p>
+        </div>
+      )}
+
+      {!preview.error && (
+        <div className="p-3 bg-white/5 rounded-lg space-y-2">
+          <p className="text-blue-200 text-xs font-medium uppercase tracking-wide">Balance changes</p>
+          {changes.length === 0 ? (
+            <p className="text-blue-300 text-sm">No balance changes</p>
+          ) : (
+            changes.map((change, index) => {
+              const delta = change.after - change.before;
+              return (
+                <div key={index} className="flex items-center justify-between text-sm">
+                  <span className="text-white">
+                    {change.label} <span className="text-blue-400 font-mono text-xs">{shorten(change.address)}</span>
+                  </span>
+                  <span className={delta > 0n ? 'text-green-400' : 'text-red-300'}>
+                    {delta > 0n ? '+' : ''}{formatUnits(delta, change.decimals)} {change.asset}
+                  </span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      <div className="p-3 bg-white/5 rounded-lg space-y-2 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2 text-blue-200">
+            <Cpu className="w-4 h-4" />
+            Compute units
+          </span>
+          <span className="text-white">
+            {preview.unitsConsumed?.toLocaleString() ?? '—'}
+            {preview.computeUnitLimit && ` / ${preview.computeUnitLimit.toLocaleString()}`}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2 text-blue-200">
+            <Fuel className="w-4 h-4" />
+            Network fee
+          </span>
+          <span className="text-white">{preview.fee !== null ? `${formatSol(preview.fee)} SOL` : '—'}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-2 text-blue-200">
+            <PaymasterIcon className={`w-4 h-4 ${paymaster.color}`} />
+            Paymaster
+          </span>
+          <span className={paymaster.color} title={preview.paymaster.detail}>{paymaster.label}</span>
+        </div>
+        <p className="text-blue-400 text-xs">{preview.paymaster.detail}</p>
+      </div>
+
+      {preview.logs.length > 0 && (
+        <details open={!!preview.error} className="p-3 bg-black/30 rounded-lg">
+          <summary className="text-blue-200 text-xs cursor-pointer">Program logs ({preview.logs.length})</summary>
+          <pre className="mt-2 text-[11px] text-blue-100 whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+            {preview.logs.join('\n')}
+          </pre>
+        </details>
+      )}
+    </div>
+  );
+}
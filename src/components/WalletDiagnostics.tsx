@@ -0,0 +1,88 @@
+import { CheckCircle, X, XCircle } from 'lucide-react';
+import { DiscoveredWallet, RegistrationResult } from '../lib/walletDiscovery';
+import { CapabilityBadges } from './CapabilityBadges';
+
+interface WalletDiagnosticsProps {
+  wallets: DiscoveredWallet[];
+  registrations: RegistrationResult[];
+  // Name of the connected wallet, if any
+  connectedWallet: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Everything Wallet Standard discovery sees in this page, for working out why a wallet is
+ * missing from the list or lacks a feature.
+ */
+export function WalletDiagnostics({ wallets, registrations, connectedWallet, onClose }: WalletDiagnosticsProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-900 rounded-2xl shadow-2xl p-6 max-w-2xl w-full border border-white/20 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-2xl font-bold text-white">Wallet Diagnostics</h3>
+          <button onClick={onClose} className="p-2 text-blue-200 hover:text-white hover:bg-white/10 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <h4 className="text-white font-semibold mb-2">Registrations by this app</h4>
+        {registrations.length === 0 ? (
+          <p className="text-blue-200 text-sm mb-6">No wallet has been registered yet.</p>
+        ) : (
+          <div className="space-y-2 mb-6">
+            {registrations.map((registration) => (
+              <div key={`${registration.wallet}-${registration.at}`} className="flex items-start gap-2 p-3 bg-white/5 rounded-lg text-sm">
+                {registration.status === 'registered' ? (
+                  <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                )}
+                <div className="min-w-0">
+                  <p className="text-white">
+                    {registration.wallet}: {registration.status}
+                    <span className="text-blue-300 text-xs ml-2">{new Date(registration.at).toLocaleTimeString()}</span>
+                  </p>
+                  <p className="text-blue-200 text-xs break-words">{registration.detail}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <h4 className="text-white font-semibold mb-2">Registered wallets ({wallets.length})</h4>
+        {wallets.length === 0 ? (
+          <p className="text-blue-200 text-sm">No Standard Wallets have registered in this page.</p>
+        ) : (
+          <div className="space-y-3">
+            {wallets.map((wallet) => (
+              <div key={wallet.name} className="p-4 bg-white/5 rounded-lg space-y-2">
+                <div className="flex items-center gap-3">
+                  <img src={wallet.icon} alt="" className="w-8 h-8 rounded-lg" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium">
+                      {wallet.name}
+                      {wallet.name === connectedWallet && <span className="text-green-300 text-xs ml-2">connected</span>}
+                      {!wallet.isSolana && <span className="text-yellow-300 text-xs ml-2">no Solana chains</span>}
+                    </p>
+                    <p className="text-blue-300 text-xs">
+                      Standard v{wallet.version} · {wallet.accounts} account{wallet.accounts === 1 ? '' : 's'} authorized
+                    </p>
+                  </div>
+                </div>
+                <CapabilityBadges capabilities={wallet.capabilities} />
+                <div className="text-xs">
+                  <p className="text-blue-200">Chains</p>
+                  <p className="text-blue-300 font-mono break-words">{wallet.chains.join(', ') || 'none'}</p>
+                </div>
+                <div className="text-xs">
+                  <p className="text-blue-200">Features</p>
+                  <p className="text-blue-300 font-mono break-words">{wallet.features.join(', ')}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { Download, Loader2 } from 'lucide-react';
+import { DiscoveredWallet, SUGGESTED_WALLETS } from '../lib/walletDiscovery';
+import { CapabilityBadges } from './CapabilityBadges';
+
+interface WalletPickerProps {
+  wallets: DiscoveredWallet[];
+  // Wallet being connected, if any
+  connecting: string | null;
+  onSelect: (name: string) => void;
+}
+
+/**
+ * The Solana Standard Wallets found in this browser, side by side with what each can do, plus
+ * install links for well-known wallets that were not found.
+ */
+export function WalletPicker({ wallets, connecting, onSelect }: WalletPickerProps) {
+  const solanaWallets = wallets.filter((wallet) => wallet.isSolana);
+  const missing = SUGGESTED_WALLETS.filter(
+    (suggested) => !solanaWallets.some((wallet) => wallet.name.toLowerCase().startsWith(suggested.name.toLowerCase()))
+  );
+
+  return (
+    <div className="w-full space-y-2">
+      {solanaWallets.map((wallet) => (
+        <button
+          key={wallet.name}
+          onClick={() => onSelect(wallet.name)}
+          disabled={connecting !== null}
+          className="w-full flex items-start gap-3 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <img src={wallet.icon} alt="" className="w-8 h-8 rounded-lg flex-shrink-0" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-white font-medium truncate">{wallet.name}</span>
+              {connecting === wallet.name && <Loader2 className="w-4 h-4 text-blue-300 animate-spin" />}
+            </div>
+            <CapabilityBadges capabilities={wallet.capabilities} />
+          </div>
+        </button>
+      ))}
+
+      {missing.map((suggested) => (
+        <a
+          key={suggested.name}
+          href={suggested.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="w-full flex items-center justify-between gap-3 p-3 bg-white/5 hover:bg-white/10 rounded-lg transition-all"
+        >
+          <span className="text-blue-200">{suggested.name}</span>
+          <span className="flex items-center gap-1 text-blue-300 text-xs">
+            <Download className="w-3 h-3" />
+            Not detected, install
+          </span>
+        </a>
+      ))}
+    </div>
+  );
+}
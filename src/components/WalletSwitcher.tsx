@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Lock, LogOut, Pencil, Plus, Trash2, Wallet } from 'lucide-react';
+import { shortenAddress } from '../lib/addressBook';
+import { formatSol } from '../lib/amounts';
+import { SavedWallet } from '../lib/savedWallets';
+
+interface WalletSwitcherProps {
+  wallets: SavedWallet[];
+  balances: Record<string, bigint>;
+  activeWallet: string;
+  onOpen: () => void;
+  onSwitch: (smartWallet: string) => void;
+  onRename: (smartWallet: string, nickname: string) => void;
+  onForget: (smartWallet: string) => void;
+  onAddWallet: () => void;
+  onLock: () => void;
+  onDisconnect: () => void;
+}
+
+export function WalletSwitcher({
+  wallets,
+  balances,
+  activeWallet,
+  onOpen,
+  onSwitch,
+  onRename,
+  onForget,
+  onAddWallet,
+  onLock,
+  onDisconnect,
+}: WalletSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [nickname, setNickname] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const active = wallets.find((wallet) => wallet.info.smartWallet === activeWallet);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) onOpen();
+    setOpen(!open);
+    setEditing(null);
+  };
+
+  const startEditing = (wallet: SavedWallet) => {
+    setEditing(wallet.info.smartWallet);
+    setNickname(wallet.nickname);
+  };
+
+  const saveNickname = () => {
+    if (editing) onRename(editing, nickname);
+    setEditing(null);
+  };
+
+  const choose = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={toggle}
+        className="flex items-center gap-2 px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-all border border-white/20"
+      >
+        <Wallet className="w-4 h-4" />
+        <span>{active?.nickname ?? shortenAddress(activeWallet)}</span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-slate-900 border border-white/20 rounded-xl shadow-2xl z-40 p-2">
+          <p className="text-blue-300 text-xs px-2 py-1">Smart wallets on this device</p>
+          <div className="space-y-1 max-h-80 overflow-y-auto">
+            {wallets.map((wallet) => {
+              const address = wallet.info.smartWallet;
+              const isActive = address === activeWallet;
+              const balance = balances[address];
+              return (
+                <div
+                  key={address}
+                  className={`flex items-center gap-2 p-2 rounded-lg ${isActive ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                >
+                  {editing === address ? (
+                    <input
+                      autoFocus
+                      value={nickname}
+                      onChange={(e) => setNickname(e.target.value)}
+                      onBlur={saveNickname}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveNickname();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => choose(() => !isActive && onSwitch(address))}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-white text-sm font-medium truncate">{wallet.nickname}</p>
+                      <p className="text-blue-300 text-xs font-mono">
+                        {shortenAddress(address)}
+                        {balance !== undefined && ` · ${formatSol(balance, 4)} SOL`}
+                      </p>
+                    </button>
+                  )}
+                  {isActive && <Check className="w-4 h-4 text-green-400 flex-shrink-0" />}
+                  <button
+                    onClick={() => startEditing(wallet)}
+                    className="p-1 text-blue-300 hover:text-white flex-shrink-0"
+                    title="Rename"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  {!isActive && (
+                    <button
+                      onClick={() => onForget(address)}
+                      className="p-1 text-blue-300 hover:text-red-300 flex-shrink-0"
+                      title="Forget on this device"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="border-t border-white/10 mt-2 pt-2 space-y-1">
+            <button
+              onClick={() => choose(onAddWallet)}
+              className="w-full flex items-center gap-2 p-2 text-sm text-cyan-300 hover:bg-white/5 rounded-lg"
+            >
+              <Plus className="w-4 h-4" />
+              Add another wallet
+            </button>
+            <button
+              onClick={() => choose(onLock)}
+              className="w-full flex items-center gap-2 p-2 text-sm text-blue-200 hover:bg-white/5 rounded-lg"
+            >
+              <Lock className="w-4 h-4" />
+              Lock
+            </button>
+            <button
+              onClick={() => choose(onDisconnect)}
+              className="w-full flex items-center gap-2 p-2 text-sm text-blue-200 hover:bg-white/5 rounded-lg"
+            >
+              <LogOut className="w-4 h-4" />
+              Disconnect
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
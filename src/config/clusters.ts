@@ -0,0 +1,80 @@
+export type ClusterName = 'devnet' | 'testnet' | 'mainnet-beta' | 'localnet';
+
+export interface ClusterProfile {
+  readonly name: ClusterName;
+  readonly label: string;
+  readonly rpcUrl: string;
+  readonly portalUrl: string;
+  // When unset, the LazorKit SDK falls back to its own default paymaster
+  readonly paymasterUrl?: string;
+  // LazorKit's portal only simulates against devnet or mainnet
+  readonly clusterSimulation: 'devnet' | 'mainnet';
+  readonly faucetUrl?: string;
+}
+
+export const CLUSTER_NAMES: readonly ClusterName[] = ['devnet', 'testnet', 'mainnet-beta', 'localnet'];
+
+const DEFAULT_PORTAL_URL = 'https://portal.lazor.sh';
+
+const env = import.meta.env;
+
+// Each profile can be overridden at build time, e.g. VITE_LOCALNET_RPC_URL=http://127.0.0.1:8899
+export const CLUSTER_PROFILES: Record<ClusterName, ClusterProfile> = {
+  devnet: {
+    name: 'devnet',
+    label: 'Devnet',
+    rpcUrl: env.VITE_DEVNET_RPC_URL || 'https://api.devnet.solana.com',
+    portalUrl: env.VITE_DEVNET_PORTAL_URL || DEFAULT_PORTAL_URL,
+    paymasterUrl: env.VITE_DEVNET_PAYMASTER_URL || 'https://kora.devnet.lazorkit.com',
+    clusterSimulation: 'devnet',
+    faucetUrl: 'https://faucet.solana.com',
+  },
+  testnet: {
+    name: 'testnet',
+    label: 'Testnet',
+    rpcUrl: env.VITE_TESTNET_RPC_URL || 'https://api.testnet.solana.com',
+    portalUrl: env.VITE_TESTNET_PORTAL_URL || DEFAULT_PORTAL_URL,
+    paymasterUrl: env.VITE_TESTNET_PAYMASTER_URL,
+    clusterSimulation: 'devnet',
+    faucetUrl: 'https://faucet.solana.com',
+  },
+  'mainnet-beta': {
+    name: 'mainnet-beta',
+    label: 'Mainnet Beta',
+    rpcUrl: env.VITE_MAINNET_RPC_URL || 'https://api.mainnet-beta.solana.com',
+    portalUrl: env.VITE_MAINNET_PORTAL_URL || DEFAULT_PORTAL_URL,
+    paymasterUrl: env.VITE_MAINNET_PAYMASTER_URL,
+    clusterSimulation: 'mainnet',
+  },
+  localnet: {
+    name: 'localnet',
+    label: 'Localnet',
+    rpcUrl: env.VITE_LOCALNET_RPC_URL || 'http://127.0.0.1:8899',
+    portalUrl: env.VITE_LOCALNET_PORTAL_URL || DEFAULT_PORTAL_URL,
+    paymasterUrl: env.VITE_LOCALNET_PAYMASTER_URL,
+    clusterSimulation: 'devnet',
+  },
+};
+
+export function isClusterName(value: unknown): value is ClusterName {
+  return typeof value === 'string' && (CLUSTER_NAMES as readonly string[]).includes(value);
+}
+
+export const DEFAULT_CLUSTER: ClusterName = isClusterName(env.VITE_DEFAULT_CLUSTER)
+  ? env.VITE_DEFAULT_CLUSTER
+  : 'devnet';
+
+export function getPaymasterConfig(cluster: ClusterProfile) {
+  return cluster.paymasterUrl ? { paymasterUrl: cluster.paymasterUrl } : undefined;
+}
+
+export function getExplorerUrl(cluster: ClusterProfile, path: 'tx' | 'address', value: string): string {
+  const url = new URL(`https://explorer.solana.com/${path}/${value}`);
+  if (cluster.name === 'localnet') {
+    url.searchParams.set('cluster', 'custom');
+    url.searchParams.set('customUrl', cluster.rpcUrl);
+  } else if (cluster.name !== 'mainnet-beta') {
+    url.searchParams.set('cluster', cluster.name);
+  }
+  return url.toString();
+}
@@ -0,0 +1,9 @@
+const env = import.meta.env;
+
+// VITE_MOCK_WALLET=true replaces LazorKit's portal and passkeys with a local keypair in both
+// integrations, so the app runs against a local validator without network access
+export const MOCK_WALLET_ENABLED = env.VITE_MOCK_WALLET === 'true';
+
+// Secret key as a JSON byte array (the format `solana-keygen new` writes), for a fixed address.
+// Without it a keypair is generated once and kept in localStorage.
+export const MOCK_WALLET_SECRET = env.VITE_MOCK_WALLET_SECRET;
@@ -0,0 +1,7 @@
+const env = import.meta.env;
+
+const DEFAULT_IDLE_MINUTES = 15;
+
+// Minutes without interaction before the Direct example locks the wallet and asks for the passkey
+// again. 0 turns the idle lock off.
+export const SESSION_IDLE_MINUTES = Number(env.VITE_SESSION_IDLE_MINUTES ?? DEFAULT_IDLE_MINUTES);
@@ -0,0 +1,16 @@
+import { createContext, useContext } from 'react';
+import { CLUSTER_PROFILES, ClusterName, ClusterProfile, DEFAULT_CLUSTER } from '../config/clusters';
+
+export interface ClusterContextState {
+  cluster: ClusterProfile;
+  setCluster: (name: ClusterName) => void;
+}
+
+export const ClusterContext = createContext<ClusterContextState>({
+  cluster: CLUSTER_PROFILES[DEFAULT_CLUSTER],
+  setCluster: () => {},
+});
+
+export function useCluster(): ClusterContextState {
+  return useContext(ClusterContext);
+}
@@ -0,0 +1,23 @@
+import { useCallback, useMemo, useState } from 'react';
+import { CLUSTER_PROFILES, ClusterName, DEFAULT_CLUSTER, isClusterName } from '../config/clusters';
+import { ClusterContext } from './ClusterContext';
+
+const STORAGE_KEY = 'lazorkit-starter-cluster';
+
+function loadCluster(): ClusterName {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isClusterName(stored) ? stored : DEFAULT_CLUSTER;
+}
+
+export function ClusterProvider({ children }: { children: React.ReactNode }) {
+  const [name, setName] = useState<ClusterName>(loadCluster);
+
+  const setCluster = useCallback((next: ClusterName) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setName(next);
+  }, []);
+
+  const value = useMemo(() => ({ cluster: CLUSTER_PROFILES[name], setCluster }), [name, setCluster]);
+
+  return <ClusterContext.Provider value={value}>{children}</ClusterContext.Provider>;
+}
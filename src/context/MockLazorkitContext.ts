@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+import type { WalletHookInterface } from '@lazorkit/wallet';
+
+export const MockLazorkitContext = createContext<WalletHookInterface | null>(null);
+
+/**
+ * Drop-in for LazorKit's `useWallet` under a `MockLazorkitProvider`.
+ */
+export function useMockWallet(): WalletHookInterface {
+  const context = useContext(MockLazorkitContext);
+  if (!context) {
+    throw new Error('useMockWallet must be used within a MockLazorkitProvider');
+  }
+  return context;
+}
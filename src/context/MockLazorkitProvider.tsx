@@ -0,0 +1,123 @@
+import { ComponentProps, useCallback, useMemo, useState } from 'react';
+import { Connection } from '@solana/web3.js';
+import type { LazorkitProvider, WalletHookInterface, WalletInfo } from '@lazorkit/wallet';
+import { MOCK_WALLET_SECRET } from '../config/mockWallet';
+import { fundMockWallet, loadMockKeypair, sendWithKeypair, signBytes, verifyBytes } from '../lib/mockWallet';
+import { MockLazorkitContext } from './MockLazorkitContext';
+
+const CONNECTED_KEY = 'lazorkit-starter-mock-connected';
+
+/**
+ * Stands in for `LazorkitProvider` with a local keypair as the "smart wallet": no portal, no
+ * passkey prompt and no paymaster. Takes the same props; only `rpcUrl` is used.
+ */
+export function MockLazorkitProvider({ rpcUrl, children }: ComponentProps<typeof LazorkitProvider>) {
+  const keypair = useMemo(() => loadMockKeypair(MOCK_WALLET_SECRET), []);
+  const connection = useMemo(() => new Connection(rpcUrl ?? 'http://127.0.0.1:8899', 'confirmed'), [rpcUrl]);
+  // Survives a reload, like LazorKit's own stored session
+  const [isConnected, setIsConnected] = useState(() => localStorage.getItem(CONNECTED_KEY) === 'true');
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const wallet = useMemo(
+    (): WalletInfo => ({
+      credentialId: 'mock',
+      passkeyPubkey: [],
+      expo: '',
+      platform: 'web',
+      smartWallet: keypair.publicKey.toBase58(),
+      walletDevice: keypair.publicKey.toBase58(),
+      accountName: 'Mock Wallet',
+    }),
+    [keypair]
+  );
+
+  // Tracks signing state and the last error the way the SDK's hook does
+  const withSigning = useCallback(async <T,>(action: () => Promise<T>): Promise<T> => {
+    setIsSigning(true);
+    setError(null);
+    try {
+      return await action();
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+      throw err;
+    } finally {
+      setIsSigning(false);
+    }
+  }, []);
+
+  const connect = useCallback(async () => {
+    setIsConnecting(true);
+    try {
+      await fundMockWallet(connection, keypair.publicKey);
+      localStorage.setItem(CONNECTED_KEY, 'true');
+      setIsConnected(true);
+      return wallet;
+    } finally {
+      setIsConnecting(false);
+    }
+  }, [connection, keypair, wallet]);
+
+  const disconnect = useCallback(async () => {
+    localStorage.removeItem(CONNECTED_KEY);
+    setIsConnected(false);
+  }, []);
+
+  const signAndSendTransaction = useCallback<WalletHookInterface['signAndSendTransaction']>(
+    ({ instructions, transactionOptions }) =>
+      withSigning(() => sendWithKeypair(connection, keypair, instructions, transactionOptions)),
+    [connection, keypair, withSigning]
+  );
+
+  // Ed25519 over the message itself; the passkey verifier will not accept these
+  const signMessage = useCallback<WalletHookInterface['signMessage']>(
+    (message) =>
+      withSigning(async () => {
+        const payload = new TextEncoder().encode(message);
+        const signature = await signBytes(keypair, payload);
+        return {
+          signature: Buffer.from(signature).toString('base64'),
+          signedPayload: Buffer.from(payload).toString('base64'),
+        };
+      }),
+    [keypair, withSigning]
+  );
+
+  const verifyMessage = useCallback<WalletHookInterface['verifyMessage']>(
+    ({ signedPayload, signature, publicKey }) => verifyBytes(publicKey, signature, signedPayload),
+    []
+  );
+
+  const value = useMemo(
+    (): WalletHookInterface => ({
+      smartWalletPubkey: isConnected ? keypair.publicKey : null,
+      isConnected,
+      isLoading: isConnecting || isSigning,
+      isConnecting,
+      isSigning,
+      error,
+      wallet: isConnected ? wallet : null,
+      connect,
+      disconnect,
+      signAndSendTransaction,
+      signMessage,
+      verifyMessage,
+    }),
+    [
+      keypair,
+      isConnected,
+      isConnecting,
+      isSigning,
+      error,
+      wallet,
+      connect,
+      disconnect,
+      signAndSendTransaction,
+      signMessage,
+      verifyMessage,
+    ]
+  );
+
+  return <MockLazorkitContext.Provider value={value}>{children}</MockLazorkitContext.Provider>;
+}
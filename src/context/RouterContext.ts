@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { AppLocation } from '../lib/routes';
+
+export interface NavigateOptions {
+  // Swap the current history entry instead of adding one
+  replace?: boolean;
+}
+
+export interface RouterContextState {
+  location: AppLocation;
+  navigate: (path: string, options?: NavigateOptions) => void;
+  // Goes back when the previous entry belongs to this app, otherwise replaces the current one with
+  // `fallback`, so closing a deep-linked screen does not leave the site
+  back: (fallback: string) => void;
+}
+
+export const RouterContext = createContext<RouterContextState | null>(null);
+
+export function useRouter(): RouterContextState {
+  const context = useContext(RouterContext);
+  if (!context) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+}
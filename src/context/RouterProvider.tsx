@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { parseLocation } from '../lib/routes';
+import { NavigateOptions, RouterContext } from './RouterContext';
+
+// Stored in each history entry this app creates; 0 for the entry the app was opened on
+interface HistoryState {
+  depth: number;
+}
+
+function currentDepth(): number {
+  return (window.history.state as HistoryState | null)?.depth ?? 0;
+}
+
+function readLocation() {
+  return parseLocation(window.location.pathname, window.location.search);
+}
+
+export function RouterProvider({ children }: { children: React.ReactNode }) {
+  const [location, setLocation] = useState(readLocation);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(readLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((path: string, options?: NavigateOptions) => {
+    if (path === window.location.pathname + window.location.search) return;
+    const depth = currentDepth();
+    if (options?.replace) {
+      window.history.replaceState({ depth } satisfies HistoryState, '', path);
+    } else {
+      window.history.pushState({ depth: depth + 1 } satisfies HistoryState, '', path);
+    }
+    setLocation(readLocation());
+  }, []);
+
+  const back = useCallback(
+    (fallback: string) => {
+      if (currentDepth() > 0) {
+        window.history.back();
+      } else {
+        navigate(fallback, { replace: true });
+      }
+    },
+    [navigate]
+  );
+
+  const value = useMemo(() => ({ location, navigate, back }), [location, navigate, back]);
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+}
@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import type { ConnectionHealth, SubscriptionManager } from '../lib/subscriptionManager';
+
+export interface SubscriptionContextState {
+  manager: SubscriptionManager;
+  health: ConnectionHealth;
+}
+
+export const SubscriptionContext = createContext<SubscriptionContextState | null>(null);
+
+export function useSubscriptions(): SubscriptionContextState {
+  const context = useContext(SubscriptionContext);
+  if (!context) {
+    throw new Error('useSubscriptions must be used within a SubscriptionProvider');
+  }
+  return context;
+}
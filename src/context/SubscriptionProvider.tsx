@@ -0,0 +1,22 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Connection } from '@solana/web3.js';
+import { ConnectionHealth, createSubscriptionManager } from '../lib/subscriptionManager';
+import { SubscriptionContext } from './SubscriptionContext';
+
+export function SubscriptionProvider({ connection, children }: { connection: Connection; children: React.ReactNode }) {
+  const manager = useMemo(() => createSubscriptionManager(connection), [connection]);
+  const [health, setHealth] = useState<ConnectionHealth>(manager.getHealth());
+
+  useEffect(() => {
+    setHealth(manager.getHealth());
+    const unsubscribe = manager.onHealthChange(setHealth);
+    return () => {
+      unsubscribe();
+      manager.destroy();
+    };
+  }, [manager]);
+
+  const value = useMemo(() => ({ manager, health }), [manager, health]);
+
+  return <SubscriptionContext.Provider value={value}>{children}</SubscriptionContext.Provider>;
+}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import type { TrackedTransaction, TransactionTracker } from '../lib/transactionTracker';
+
+export interface TransactionTrackerContextState {
+  tracker: TransactionTracker;
+  // Records for the current cluster, newest first
+  transactions: TrackedTransaction[];
+}
+
+export const TransactionTrackerContext = createContext<TransactionTrackerContextState | null>(null);
+
+export function useTransactionTracker(): TransactionTrackerContextState {
+  const context = useContext(TransactionTrackerContext);
+  if (!context) {
+    throw new Error('useTransactionTracker must be used within a TransactionTrackerProvider');
+  }
+  return context;
+}
@@ -0,0 +1,28 @@
+import { useEffect, useMemo, useState } from 'react';
+import { TrackedTransaction, createTransactionTracker } from '../lib/transactionTracker';
+import { useCluster } from './ClusterContext';
+import { useSubscriptions } from './SubscriptionContext';
+import { TransactionTrackerContext } from './TransactionTrackerContext';
+
+export function TransactionTrackerProvider({ children }: { children: React.ReactNode }) {
+  const { manager } = useSubscriptions();
+  const { cluster } = useCluster();
+  const tracker = useMemo(() => createTransactionTracker(manager, cluster.name), [manager, cluster.name]);
+  const [records, setRecords] = useState<TrackedTransaction[]>(tracker.getTransactions());
+
+  useEffect(() => {
+    setRecords(tracker.getTransactions());
+    const unsubscribe = tracker.subscribe(setRecords);
+    return () => {
+      unsubscribe();
+      tracker.destroy();
+    };
+  }, [tracker]);
+
+  const value = useMemo(
+    () => ({ tracker, transactions: records.filter((record) => record.cluster === cluster.name) }),
+    [tracker, records, cluster.name]
+  );
+
+  return <TransactionTrackerContext.Provider value={value}>{children}</TransactionTrackerContext.Provider>;
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { getActivityCacheKey, readActivityCache, writeActivityCache } from '../lib/activityCache';
+import { ActivityPage, ActivityRow, fetchActivityPage } from '../lib/historyService';
+
+/**
+ * Puts a freshly fetched first page in front of the cached rows. If the fresh page does not
+ * overlap the cache there may be a gap, so the cache is dropped.
+ */
+function mergeLatest(latest: ActivityPage, cached: ActivityPage | null): ActivityPage {
+  if (!cached || latest.rows.length === 0) return latest;
+
+  const oldest = latest.rows[latest.rows.length - 1].signature;
+  const overlap = cached.rows.findIndex((row) => row.signature === oldest);
+  if (overlap === -1) return latest;
+
+  return { rows: [...latest.rows, ...cached.rows.slice(overlap + 1)], hasMore: cached.hasMore };
+}
+
+export function useActivity(connection: Connection, address: PublicKey | null, cluster: string) {
+  const [rows, setRows] = useState<ActivityRow[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const pageRef = useRef<ActivityPage | null>(null);
+
+  const cacheKey = address ? getActivityCacheKey(cluster, address.toString()) : null;
+
+  const apply = useCallback(
+    (page: ActivityPage) => {
+      pageRef.current = page;
+      setRows(page.rows);
+      setHasMore(page.hasMore);
+      if (cacheKey) writeActivityCache(cacheKey, page);
+    },
+    [cacheKey]
+  );
+
+  const refreshActivity = useCallback(async () => {
+    if (!address) return;
+    setLoading(true);
+    setError('');
+    try {
+      apply(mergeLatest(await fetchActivityPage(connection, address), pageRef.current));
+    } catch (err) {
+      console.error('Activity refresh error:', err);
+      setError('Could not load activity from the RPC.');
+    } finally {
+      setLoading(false);
+    }
+  }, [address, connection, apply]);
+
+  const loadMore = useCallback(async () => {
+    const current = pageRef.current;
+    if (!address || !current || current.rows.length === 0) return;
+    setLoading(true);
+    setError('');
+    try {
+      const before = current.rows[current.rows.length - 1].signature;
+      const next = await fetchActivityPage(connection, address, before);
+      apply({ rows: [...current.rows, ...next.rows], hasMore: next.hasMore });
+    } catch (err) {
+      console.error('Activity load error:', err);
+      setError('Could not load more activity from the RPC.');
+    } finally {
+      setLoading(false);
+    }
+  }, [address, connection, apply]);
+
+  // Show cached rows instantly, then fetch the latest page
+  useEffect(() => {
+    let cancelled = false;
+    pageRef.current = null;
+    setRows([]);
+    setHasMore(false);
+
+    if (!cacheKey) return;
+
+    readActivityCache(cacheKey).then((cached) => {
+      if (cancelled) return;
+      if (cached) {
+        pageRef.current = cached;
+        setRows(cached.rows);
+        setHasMore(cached.hasMore);
+      }
+      refreshActivity();
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheKey, refreshActivity]);
+
+  return { rows, hasMore, loading, error, refreshActivity, loadMore };
+}
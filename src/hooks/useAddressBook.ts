@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AddressBookState,
+  isAddressBookKey,
+  loadAddressBook,
+  recordRecipient,
+  removeContact,
+  saveContact,
+} from '../lib/addressBook';
+
+/**
+ * Saved contacts and recent recipients, kept in sync with other tabs.
+ */
+export function useAddressBook() {
+  const [book, setBook] = useState<AddressBookState>(loadAddressBook);
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (isAddressBookKey(event.key)) setBook(loadAddressBook());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const addContact = useCallback((address: string, label: string) => {
+    setBook((current) => ({ ...current, contacts: saveContact(address, label) }));
+  }, []);
+
+  const deleteContact = useCallback((address: string) => {
+    setBook((current) => ({ ...current, contacts: removeContact(address) }));
+  }, []);
+
+  const addRecent = useCallback((address: string, name?: string) => {
+    setBook((current) => ({ ...current, recents: recordRecipient(address, name) }));
+  }, []);
+
+  return { ...book, addContact, deleteContact, addRecent };
+}
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { useRouter } from '../context/RouterContext';
+import { AppRoute, DASHBOARD, Integration, formatRoute } from '../lib/routes';
+
+/**
+ * The screen an integration's dashboard shows, taken from the URL. `open` adds a history entry, so
+ * the browser's back button closes what it opened. `close` does the same, or returns to the dashboard
+ * when the screen was opened from a link.
+ */
+export function useAppRoute(integration: Integration) {
+  const { location, navigate, back } = useRouter();
+  const route = location.integration === integration ? location.route : DASHBOARD;
+
+  const open = useCallback((next: AppRoute) => navigate(formatRoute(integration, next)), [integration, navigate]);
+
+  const close = useCallback(() => back(formatRoute(integration)), [integration, back]);
+
+  const pathTo = useCallback((next: AppRoute) => formatRoute(integration, next), [integration]);
+
+  return { route, open, close, pathTo };
+}
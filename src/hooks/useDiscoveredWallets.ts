@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { DiscoveredWallet, watchWallets } from '../lib/walletDiscovery';
+
+/**
+ * Standard Wallets registered in the page, Solana or not, kept up to date as wallets register.
+ */
+export function useDiscoveredWallets() {
+  const [wallets, setWallets] = useState<DiscoveredWallet[]>([]);
+
+  useEffect(() => watchWallets(setWallets), []);
+
+  return wallets;
+}
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { SolBalance, fetchBalance, getRentReserve } from '../lib/transactionService';
+
+/**
+ * SOL balance of the address in lamports, pushed by the subscription manager instead of polled.
+ */
+export function useLiveBalance(address: PublicKey | null) {
+  const { manager } = useSubscriptions();
+  const [balance, setBalance] = useState<SolBalance | null>(null);
+
+  useEffect(() => {
+    setBalance(null);
+    if (!address) return;
+
+    let latest = 0;
+    return manager.watchAccount(address, (account) => {
+      const update = ++latest;
+      getRentReserve(manager.connection, account?.data.length ?? 0)
+        .then((rentReserve) => {
+          // A newer notification may have resolved first
+          if (update === latest) setBalance({ lamports: BigInt(account?.lamports ?? 0), rentReserve });
+        })
+        .catch((error) => console.error('Rent lookup error:', error));
+    });
+  }, [manager, address]);
+
+  const refreshBalance = useCallback(async () => {
+    if (!address) return;
+    try {
+      setBalance(await fetchBalance(manager.connection, address));
+    } catch (error) {
+      console.error('Balance refresh error:', error);
+    }
+  }, [manager, address]);
+
+  return { balance, refreshBalance };
+}
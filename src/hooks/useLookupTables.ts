@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import {
+  LookupTableInfo,
+  closeLookupTable,
+  createLookupTable,
+  deactivateLookupTable,
+  discoverLookupTables,
+  extendLookupTable,
+  fetchLookupTables,
+  forgetTable,
+  loadKnownTables,
+  rememberTables,
+} from '../lib/lookupTables';
+import { ConfirmFn, TransactionSigner } from '../lib/transactionService';
+
+/**
+ * The lookup tables `owner` controls on the current cluster. `activeTables` are the ones signers
+ * can pick from when a transaction would be too large.
+ */
+export function useLookupTables(owner: PublicKey | null, cluster: string) {
+  const { manager } = useSubscriptions();
+  const { connection } = manager;
+  const [tables, setTables] = useState<LookupTableInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshTables = useCallback(async () => {
+    if (!owner) return;
+    setLoading(true);
+    try {
+      setTables(await fetchLookupTables(connection, owner, loadKnownTables(cluster, owner)));
+      setError(null);
+    } catch (err) {
+      console.error('Lookup table refresh error:', err);
+      setError('Could not load lookup tables from the RPC.');
+    } finally {
+      setLoading(false);
+    }
+  }, [connection, owner, cluster]);
+
+  useEffect(() => {
+    setTables([]);
+    setError(null);
+    refreshTables();
+  }, [refreshTables]);
+
+  const discover = useCallback(async () => {
+    if (!owner) return;
+    try {
+      rememberTables(cluster, owner, await discoverLookupTables(connection, owner));
+    } catch (err) {
+      console.error('Lookup table discovery error:', err);
+      setError('This RPC does not allow scanning for lookup tables. Import them by address instead.');
+      return;
+    }
+    await refreshTables();
+  }, [connection, owner, cluster, refreshTables]);
+
+  const importTable = useCallback(
+    async (address: PublicKey) => {
+      if (!owner) return;
+      const [found] = await fetchLookupTables(connection, owner, [address]);
+      if (!found) {
+        throw new Error('No lookup table owned by this wallet at that address');
+      }
+      rememberTables(cluster, owner, [address]);
+      await refreshTables();
+    },
+    [connection, owner, cluster, refreshTables]
+  );
+
+  const forget = useCallback(
+    (table: PublicKey) => {
+      if (!owner) return;
+      forgetTable(cluster, owner, table);
+      setTables((current) => current.filter((info) => !info.account.key.equals(table)));
+    },
+    [owner, cluster]
+  );
+
+  const create = useCallback(
+    async (signer: TransactionSigner, addresses: PublicKey[], confirm: ConfirmFn) => {
+      const table = await createLookupTable(connection, signer, addresses, confirm);
+      rememberTables(cluster, signer.publicKey, [table]);
+      await refreshTables();
+    },
+    [connection, cluster, refreshTables]
+  );
+
+  const extend = useCallback(
+    async (signer: TransactionSigner, table: LookupTableInfo, addresses: PublicKey[], confirm: ConfirmFn) => {
+      await extendLookupTable(signer, table.account, addresses, confirm);
+      await refreshTables();
+    },
+    [refreshTables]
+  );
+
+  const deactivate = useCallback(
+    async (signer: TransactionSigner, table: LookupTableInfo, confirm: ConfirmFn) => {
+      await deactivateLookupTable(signer, table.account.key, confirm);
+      await refreshTables();
+    },
+    [refreshTables]
+  );
+
+  const close = useCallback(
+    async (signer: TransactionSigner, table: LookupTableInfo, confirm: ConfirmFn) => {
+      await closeLookupTable(signer, table.account.key, confirm);
+      forget(table.account.key);
+    },
+    [forget]
+  );
+
+  const activeTables = useMemo(
+    () => tables.filter((info) => info.status === 'active').map((info) => info.account),
+    [tables]
+  );
+
+  return {
+    tables,
+    activeTables,
+    loading,
+    error,
+    refreshTables,
+    discover,
+    importTable,
+    forget,
+    create,
+    extend,
+    deactivate,
+    close,
+  };
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { useTransactionTracker } from '../context/TransactionTrackerContext';
+import {
+  KoraConfig,
+  PaymasterAllowance,
+  fetchPaymasterAllowance,
+  fetchPaymasterConfig,
+} from '../lib/paymasterService';
+
+/**
+ * The paymaster's published policy and the wallet's remaining allowance. Re-read after each
+ * confirmed transaction, since that is when the allowance changes.
+ */
+export function usePaymasterStatus(paymasterUrl: string | undefined, wallet: PublicKey | null) {
+  const { transactions } = useTransactionTracker();
+  const [config, setConfig] = useState<KoraConfig | null>(null);
+  const [allowance, setAllowance] = useState<PaymasterAllowance | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    if (!paymasterUrl || !wallet) return;
+    setLoading(true);
+    try {
+      const [nextConfig, nextAllowance] = await Promise.all([
+        fetchPaymasterConfig(paymasterUrl),
+        fetchPaymasterAllowance(paymasterUrl, wallet),
+      ]);
+      setConfig(nextConfig);
+      setAllowance(nextAllowance);
+      setError(null);
+    } catch (err) {
+      console.error('Paymaster status error:', err);
+      setError('Could not reach the paymaster.');
+    } finally {
+      setLoading(false);
+    }
+  }, [paymasterUrl, wallet]);
+
+  const confirmed = useMemo(
+    () =>
+      transactions
+        .filter((tx) => tx.stage === 'confirmed' || tx.stage === 'finalized')
+        .map((tx) => tx.signature)
+        .join(','),
+    [transactions]
+  );
+
+  useEffect(() => {
+    setConfig(null);
+    setAllowance(null);
+    setError(null);
+  }, [paymasterUrl, wallet]);
+
+  useEffect(() => {
+    refreshStatus();
+  }, [refreshStatus, confirmed]);
+
+  return { config, allowance, loading, error, refreshStatus };
+}
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { BatchRow } from '../lib/batchService';
+import {
+  EMPTY_POLICY,
+  PolicyRule,
+  PolicyTransfer,
+  SpendingEntry,
+  WalletPolicy,
+  checkTransfers,
+  fromBatchRow,
+  fromInstructions,
+  isPolicyActive,
+  isPolicyKey,
+  loadPolicy,
+  loadSpending,
+  recordSpending,
+  savePolicy,
+  toPolicyTransfer,
+  withoutRules,
+} from '../lib/policies';
+import { TokenBalance } from '../lib/tokenService';
+import { TransferRequest } from '../lib/transactionService';
+import { PolicyBlockedError } from '../lib/walletErrors';
+
+/**
+ * Wallet policy of `owner` on the current cluster and what it has spent in the last day. The
+ * dashboards run every transfer through `enforce` before signing, and `record` it once sent so it
+ * counts towards the daily limits.
+ */
+export function usePolicies(owner: PublicKey | null, cluster: string) {
+  const [policy, setPolicy] = useState<WalletPolicy>(EMPTY_POLICY);
+  const [spending, setSpending] = useState<SpendingEntry[]>([]);
+
+  const reload = useCallback(() => {
+    setPolicy(owner ? loadPolicy(cluster, owner) : EMPTY_POLICY);
+    setSpending(owner ? loadSpending(cluster, owner) : []);
+  }, [owner, cluster]);
+
+  useEffect(() => {
+    reload();
+    const handleStorage = (event: StorageEvent) => {
+      if (isPolicyKey(event.key)) reload();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [reload]);
+
+  const save = useCallback(
+    (next: WalletPolicy) => {
+      if (!owner) return;
+      setPolicy(savePolicy(cluster, owner, next));
+    },
+    [owner, cluster]
+  );
+
+  // Reads storage rather than state, so a transfer sent from another tab a moment ago counts
+  const check = useCallback(
+    (transfers: PolicyTransfer[], skip: PolicyRule[] = []) =>
+      owner
+        ? checkTransfers(withoutRules(loadPolicy(cluster, owner), skip), loadSpending(cluster, owner), transfers)
+        : null,
+    [owner, cluster]
+  );
+
+  /**
+   * Throws a `PolicyBlockedError` when the policy does not allow `request`. A transfer signed by
+   * the session key spends what its funding already counted, so only the daily limit is left out.
+   */
+  const enforce = useCallback(
+    (request: TransferRequest, fromSessionKey = false) => {
+      const transfer = toPolicyTransfer(request);
+      const violation = transfer && check([transfer], fromSessionKey ? ['daily'] : []);
+      if (violation) throw new PolicyBlockedError(violation);
+    },
+    [check]
+  );
+
+  /**
+   * Checks instructions built outside the send form and returns their transfers, to `recordTransfers`
+   * once sent. While a policy is on, instructions whose spending cannot be read are blocked. Funding
+   * the wallet's own session key is exempt from the allowlist.
+   */
+  const enforceInstructions = useCallback(
+    (instructions: TransactionInstruction[], tokens: TokenBalance[], toSessionKey = false): PolicyTransfer[] => {
+      if (!owner) return [];
+      const transfers = fromInstructions(instructions, owner, tokens);
+      if (!transfers) {
+        if (!isPolicyActive(loadPolicy(cluster, owner))) return [];
+        throw new PolicyBlockedError({
+          rule: 'uninspectable',
+          message:
+            'Blocked by your wallet policy: this transaction uses your wallet in instructions whose spending cannot be checked. Turn off your wallet policies to send it.',
+        });
+      }
+      const violation = check(transfers, toSessionKey ? ['allowlist'] : []);
+      if (violation) throw new PolicyBlockedError(violation);
+      return transfers;
+    },
+    [owner, cluster, check]
+  );
+
+  const recordTransfers = useCallback(
+    (transfers: PolicyTransfer[], signature: string) => {
+      if (!owner || transfers.length === 0) return;
+      setSpending(recordSpending(cluster, owner, transfers, signature));
+    },
+    [owner, cluster]
+  );
+
+  const record = useCallback(
+    (request: TransferRequest, signature: string) => {
+      const transfer = toPolicyTransfer(request);
+      if (!owner || !transfer) return;
+      setSpending(recordSpending(cluster, owner, [transfer], signature));
+    },
+    [owner, cluster]
+  );
+
+  /**
+   * Checks the rows a batch send is about to send as one. Returns the rows with the first blocked
+   * one failed, in which case nothing should be sent, or null when the whole batch is allowed.
+   */
+  const enforceBatch = useCallback(
+    (rows: BatchRow[]): BatchRow[] | null => {
+      const pending = rows.filter((row) => row.status === 'ready' || row.status === 'failed');
+      const transfers = pending.map(fromBatchRow);
+      const violation = check(transfers.filter((transfer): transfer is PolicyTransfer => transfer !== null));
+      if (!violation) return null;
+
+      const blocked = pending.filter((_, i) => transfers[i] !== null)[violation.index];
+      return rows.map((row) => (row === blocked ? { ...row, status: 'failed' as const, error: violation.message } : row));
+    },
+    [check]
+  );
+
+  /**
+   * Records the rows that `result` sent and `before` had not.
+   */
+  const recordBatch = useCallback(
+    (before: BatchRow[], result: BatchRow[]) => {
+      if (!owner) return;
+      for (const row of result) {
+        const transfer = fromBatchRow(row);
+        const wasSent = before.some((previous) => previous.line === row.line && previous.status === 'success');
+        if (row.status === 'success' && row.signature && transfer && !wasSent) {
+          setSpending(recordSpending(cluster, owner, [transfer], row.signature));
+        }
+      }
+    },
+    [owner, cluster]
+  );
+
+  return { policy, spending, save, enforce, record, enforceInstructions, recordTransfers, enforceBatch, recordBatch };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import {
+  RegisteredPasskey,
+  fetchRegisteredPasskeys,
+  isPasskeyLabelKey,
+  loadPasskeyLabels,
+  savePasskeyLabel,
+} from '../lib/recovery';
+
+/**
+ * The passkeys registered on chain for `smartWallet` on the current cluster, with the labels given
+ * to them in this browser.
+ */
+export function useRegisteredPasskeys(smartWallet: PublicKey | null, cluster: string) {
+  const { manager } = useSubscriptions();
+  const { connection } = manager;
+  const [passkeys, setPasskeys] = useState<RegisteredPasskey[]>([]);
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!smartWallet) return;
+    setLoading(true);
+    try {
+      setPasskeys(await fetchRegisteredPasskeys(connection, smartWallet));
+      setError(null);
+    } catch (err) {
+      console.error('Passkey lookup error:', err);
+      setError('Could not load the registered passkeys. This RPC may not allow scanning program accounts.');
+    } finally {
+      setLoading(false);
+    }
+  }, [connection, smartWallet]);
+
+  useEffect(() => {
+    setPasskeys([]);
+    setError(null);
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const reload = () => setLabels(smartWallet ? loadPasskeyLabels(cluster, smartWallet) : {});
+    reload();
+    const handleStorage = (event: StorageEvent) => {
+      if (isPasskeyLabelKey(event.key)) reload();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [smartWallet, cluster]);
+
+  const rename = useCallback(
+    (address: string, label: string) => {
+      if (!smartWallet) return;
+      setLabels(savePasskeyLabel(cluster, smartWallet, address, label));
+    },
+    [smartWallet, cluster]
+  );
+
+  return { passkeys, labels, loading, error, refresh, rename };
+}
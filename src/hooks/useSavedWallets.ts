@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { WalletInfo } from '@lazorkit/wallet';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import {
+  SavedWallet,
+  activateWallet,
+  deactivateWallet,
+  fetchSavedWalletBalances,
+  forgetWallet,
+  isSavedWalletsKey,
+  loadSavedWallets,
+  renameWallet,
+  rememberWallet,
+} from '../lib/savedWallets';
+
+/**
+ * The smart wallets this browser knows, kept in sync with other tabs. Whatever wallet the SDK
+ * reports as connected is added to the list.
+ */
+export function useSavedWallets(activeWallet: WalletInfo | null) {
+  const { manager } = useSubscriptions();
+  const [wallets, setWallets] = useState<SavedWallet[]>(loadSavedWallets);
+  const [balances, setBalances] = useState<Record<string, bigint>>({});
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (isSavedWalletsKey(event.key)) setWallets(loadSavedWallets());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  useEffect(() => {
+    if (activeWallet) setWallets(rememberWallet(activeWallet));
+  }, [activeWallet]);
+
+  const refreshBalances = useCallback(async () => {
+    try {
+      setBalances(await fetchSavedWalletBalances(manager.connection, loadSavedWallets()));
+    } catch (error) {
+      console.error('Saved wallet balance error:', error);
+    }
+  }, [manager]);
+
+  const switchTo = useCallback(async (smartWallet: string) => {
+    const saved = loadSavedWallets().find((wallet) => wallet.info.smartWallet === smartWallet);
+    if (saved) await activateWallet(saved.info);
+  }, []);
+
+  const rename = useCallback((smartWallet: string, nickname: string) => {
+    setWallets(renameWallet(smartWallet, nickname));
+  }, []);
+
+  const forget = useCallback((smartWallet: string) => {
+    setWallets(forgetWallet(smartWallet));
+  }, []);
+
+  return { wallets, balances, refreshBalances, switchTo, rename, forget, deactivate: deactivateWallet };
+}
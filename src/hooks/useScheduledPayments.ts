@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { PublicKey, TransactionSignature } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { useTransactionTracker } from '../context/TransactionTrackerContext';
+import {
+  DuePayment,
+  NewScheduledPayment,
+  PaymentLogEntry,
+  ScheduledPayment,
+  addScheduledPayment,
+  advancePayment,
+  appendPaymentLog,
+  clearPaymentLog,
+  countDueRuns,
+  getDuePayments,
+  getNextRunTime,
+  isScheduleKey,
+  loadPaymentLog,
+  loadScheduledPayments,
+  removeScheduledPayment,
+  setPaymentPaused,
+  updatePaymentLog,
+} from '../lib/scheduledPayments';
+import { isSettled, lookupTransaction } from '../lib/transactionTracker';
+import { toWalletError } from '../lib/walletErrors';
+
+// How often a running app looks for payments that just became due
+const DUE_CHECK_INTERVAL_MS = 30_000;
+
+/**
+ * Scheduled payments of `owner` on the current cluster, the runs waiting for approval and the
+ * execution log. Runs missed while the app was closed are due as soon as it opens; `promptOpen`
+ * turns on whenever a new run becomes due.
+ */
+export function useScheduledPayments(owner: PublicKey | null, cluster: string) {
+  const { manager } = useSubscriptions();
+  const { tracker } = useTransactionTracker();
+  const [payments, setPayments] = useState<ScheduledPayment[]>([]);
+  const [log, setLog] = useState<PaymentLogEntry[]>([]);
+  const [now, setNow] = useState(Date.now);
+  const [running, setRunning] = useState<string | null>(null);
+  const [promptOpen, setPromptOpen] = useState(false);
+  // Runs the prompt already opened for, as `id:dueAt`
+  const prompted = useRef(new Set<string>());
+  // Signatures of pending runs this tab is already following
+  const settling = useRef(new Set<string>());
+
+  const reload = useCallback(() => {
+    setPayments(owner ? loadScheduledPayments(cluster, owner) : []);
+    setLog(owner ? loadPaymentLog(cluster, owner) : []);
+  }, [owner, cluster]);
+
+  useEffect(() => {
+    reload();
+    const handleStorage = (event: StorageEvent) => {
+      if (isScheduleKey(event.key)) reload();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [reload]);
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now());
+    const interval = setInterval(tick, DUE_CHECK_INTERVAL_MS);
+    // Timers are throttled in background tabs, so check again when the tab comes back
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, []);
+
+  // A run whose transaction is still confirming is not due again
+  const due = useMemo(() => {
+    const pending = new Set(
+      log.filter((entry) => entry.outcome === 'pending').map((entry) => `${entry.paymentId}:${entry.dueAt}`)
+    );
+    return getDuePayments(payments, now).filter((item) => !pending.has(`${item.payment.id}:${item.dueAt}`));
+  }, [payments, log, now]);
+
+  useEffect(() => {
+    const fresh = due.filter((item) => !prompted.current.has(`${item.payment.id}:${item.dueAt}`));
+    if (fresh.length === 0) return;
+    fresh.forEach((item) => prompted.current.add(`${item.payment.id}:${item.dueAt}`));
+    setPromptOpen(true);
+  }, [due]);
+
+  const add = useCallback(
+    (payment: NewScheduledPayment) => {
+      if (!owner) return;
+      setPayments(addScheduledPayment(cluster, owner, payment));
+    },
+    [owner, cluster]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      if (!owner) return;
+      setPayments(removeScheduledPayment(cluster, owner, id));
+    },
+    [owner, cluster]
+  );
+
+  // Returns the log, newest entry first
+  const record = useCallback(
+    (
+      payment: ScheduledPayment,
+      entry: Pick<PaymentLogEntry, 'dueAt' | 'outcome' | 'signature' | 'lastValidBlockHeight' | 'reason'>
+    ) => {
+      if (!owner) return [];
+      const { id: paymentId, label, recipient, amount, mint } = payment;
+      const entries = appendPaymentLog(cluster, owner, { ...entry, paymentId, label, recipient, amount, mint });
+      setLog(entries);
+      return entries;
+    },
+    [owner, cluster]
+  );
+
+  /**
+   * Follows a pending run to the tracker's final state. A confirmed run is logged as sent and the
+   * schedule moves past it; a failed one stays due. The tracker keeps only its latest records, so a
+   * run it no longer holds is looked up in the cluster's history, and only counts as failed once it
+   * failed there or its blockhash expired. Anything undecided, e.g. when the tracker stops on a
+   * cluster switch, stays pending for the next mount to pick up.
+   */
+  const settle = useCallback(
+    async (entry: PaymentLogEntry) => {
+      const { signature } = entry;
+      if (!owner || !signature) return;
+      const markSent = () => {
+        setLog(updatePaymentLog(cluster, owner, entry.id, { outcome: 'sent' }));
+        // Another tab following the same run may have moved the schedule on already
+        const payment = loadScheduledPayments(cluster, owner).find((p) => p.id === entry.paymentId);
+        if (payment && getNextRunTime(payment) === entry.dueAt) {
+          setPayments(advancePayment(cluster, owner, entry.paymentId));
+        }
+      };
+
+      settling.current.add(signature);
+      try {
+        await tracker.waitFor(signature, 'confirmed');
+        markSent();
+      } catch (err) {
+        const tracked = tracker.getTransactions().find((t) => t.signature === signature);
+        if (tracked && !isSettled(tracked.stage)) throw err;
+        // Failed or expired in the tracker, or no longer in it
+        const { loggedAt, lastValidBlockHeight } = entry;
+        const found = tracked
+          ? { stage: tracked.stage, error: tracked.error }
+          : await lookupTransaction(manager.connection, signature, loggedAt, lastValidBlockHeight).catch(() => null);
+        if (found?.stage === 'confirmed' || found?.stage === 'finalized') {
+          markSent();
+          return;
+        }
+        if (found?.stage === 'failed' || found?.stage === 'expired') {
+          const reason = found.error ?? toWalletError(err).message;
+          setLog(updatePaymentLog(cluster, owner, entry.id, { outcome: 'failed', reason }));
+        }
+        throw err;
+      } finally {
+        settling.current.delete(signature);
+      }
+    },
+    [manager, owner, cluster, tracker]
+  );
+
+  // Runs still confirming when the app closed, or approved in another tab
+  useEffect(() => {
+    log
+      .filter((entry) => entry.outcome === 'pending' && entry.signature && !settling.current.has(entry.signature))
+      .forEach((entry) => settle(entry).catch(() => {}));
+  }, [log, settle]);
+
+  /**
+   * Pausing stops runs from coming due. Runs that fell due while paused are skipped on resume
+   * rather than caught up.
+   */
+  const setPaused = useCallback(
+    (payment: ScheduledPayment, paused: boolean) => {
+      if (!owner) return;
+      const missed = paused ? 0 : countDueRuns(payment, Date.now());
+      const firstMissed = getNextRunTime(payment);
+      if (missed > 0 && firstMissed !== null) {
+        const reason = missed === 1 ? 'Missed while paused' : `${missed} runs missed while paused`;
+        record(payment, { dueAt: firstMissed, outcome: 'skipped', reason });
+        advancePayment(cluster, owner, payment.id, missed);
+      }
+      setPayments(setPaymentPaused(cluster, owner, payment.id, paused));
+    },
+    [owner, cluster, record]
+  );
+
+  /**
+   * Sends the oldest due run of a payment and resolves once it is confirmed. A failed run stays
+   * due, so it can be retried or skipped.
+   */
+  const approve = useCallback(
+    async ({ payment, dueAt }: DuePayment, send: (payment: ScheduledPayment) => Promise<TransactionSignature>) => {
+      if (!owner) return;
+      setRunning(payment.id);
+      try {
+        let signature: TransactionSignature;
+        try {
+          signature = await send(payment);
+        } catch (err) {
+          record(payment, { dueAt, outcome: 'failed', reason: toWalletError(err).message });
+          throw err;
+        }
+        // Read after sending, so it can only be later than the real one: expiry is never seen early
+        const lastValidBlockHeight = await manager.connection.getLatestBlockhash('confirmed').then(
+          (blockhash) => blockhash.lastValidBlockHeight,
+          () => undefined
+        );
+        const [entry] = record(payment, { dueAt, outcome: 'pending', signature, lastValidBlockHeight });
+        await settle(entry);
+      } finally {
+        setRunning(null);
+      }
+    },
+    [manager, owner, record, settle]
+  );
+
+  const skip = useCallback(
+    ({ payment, dueAt }: DuePayment) => {
+      if (!owner) return;
+      record(payment, { dueAt, outcome: 'skipped', reason: 'Skipped' });
+      setPayments(advancePayment(cluster, owner, payment.id));
+    },
+    [owner, cluster, record]
+  );
+
+  const clearLog = useCallback(() => {
+    if (!owner) return;
+    setLog(clearPaymentLog(cluster, owner));
+  }, [owner, cluster]);
+
+  const openPrompt = useCallback(() => setPromptOpen(true), []);
+  const dismissPrompt = useCallback(() => setPromptOpen(false), []);
+
+  return {
+    payments,
+    due,
+    log,
+    running,
+    promptOpen,
+    openPrompt,
+    dismissPrompt,
+    add,
+    remove,
+    setPaused,
+    approve,
+    skip,
+    clearLog,
+  };
+}
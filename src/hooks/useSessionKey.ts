@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { PublicKey, TransactionInstruction, TransactionSignature } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import {
+  NewSessionKey,
+  SESSION_FEE_LAMPORTS,
+  SessionKey,
+  buildSessionFunding,
+  canSessionSign,
+  createSessionKey,
+  createSessionSigner,
+  expireSessionKey,
+  isSessionKeyStorageKey,
+  loadSessionKey,
+  removeSessionKey,
+  sweepSessionKey,
+} from '../lib/sessionKeys';
+import { TransferRequest, getRentReserve } from '../lib/transactionService';
+import { toWalletError } from '../lib/walletErrors';
+import { useLiveBalance } from './useLiveBalance';
+
+type FundFn = (instructions: TransactionInstruction[], description: string) => Promise<TransactionSignature>;
+
+/**
+ * The session key of `owner` on the current cluster, if one is open, and its live balance.
+ * An expired session is ended, and its balance returned, as soon as the app notices.
+ */
+export function useSessionKey(owner: PublicKey | null, cluster: string) {
+  const { manager } = useSubscriptions();
+  const [session, setSession] = useState<SessionKey | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(Date.now);
+
+  const sessionPubkey = useMemo(() => (session ? new PublicKey(session.publicKey) : null), [session]);
+  const { balance, refreshBalance } = useLiveBalance(sessionPubkey);
+  const active = session !== null && now < session.expiresAt;
+
+  useEffect(() => {
+    const reload = () => setSession(owner ? loadSessionKey(cluster, owner) : null);
+    reload();
+    const handleStorage = (event: StorageEvent) => {
+      if (isSessionKeyStorageKey(event.key)) reload();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [owner, cluster]);
+
+  const end = useCallback(async () => {
+    if (!owner || !session) return;
+    setBusy(true);
+    setError('');
+    try {
+      await sweepSessionKey(manager.connection, session, owner);
+      removeSessionKey(cluster, owner);
+      setSession(null);
+    } catch (err) {
+      console.error('Session key sweep error:', err);
+      setError(`Could not return the session balance: ${toWalletError(err).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }, [manager, owner, cluster, session]);
+
+  // Ticks once at expiry, which also covers a session that expired while the app was closed
+  useEffect(() => {
+    if (!session) return;
+    const timeout = setTimeout(() => setNow(Date.now()), Math.max(session.expiresAt - Date.now(), 0));
+    return () => clearTimeout(timeout);
+  }, [session]);
+
+  useEffect(() => {
+    if (session && !active && !busy && !error) end();
+  }, [session, active, busy, error, end]);
+
+  /**
+   * Opens a session: the wallet funds the new key through `fund`, which asks for the passkey once.
+   * Funding can land even though `fund` failed, e.g. on a timeout, so a key whose funding failed is
+   * kept and ended at once. The sweep waits until that funding can no longer land before returning
+   * whatever arrived and dropping the key.
+   */
+  const start = useCallback(
+    async (options: NewSessionKey, fund: FundFn) => {
+      if (!owner) return;
+      setBusy(true);
+      setError('');
+      const created = createSessionKey(cluster, owner, options);
+      try {
+        const rentReserve = await getRentReserve(manager.connection, 0);
+        await fund(buildSessionFunding(owner, created, rentReserve), 'Fund session key');
+        setNow(Date.now());
+        setSession(created);
+      } catch (err) {
+        const lastValidBlockHeight = await manager.connection.getLatestBlockhash('confirmed').then(
+          (blockhash) => blockhash.lastValidBlockHeight,
+          () => undefined
+        );
+        setNow(Date.now());
+        setSession(expireSessionKey(cluster, owner, { sentAt: Date.now(), lastValidBlockHeight }));
+        throw err;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [manager, owner, cluster]
+  );
+
+  /**
+   * The signer for `request` when the session key covers it, with the balance to validate it
+   * against less the fee the key pays itself. Null sends it through the passkey as usual.
+   */
+  const signerFor = useCallback(
+    (request: TransferRequest) => {
+      if (!session || !balance || !canSessionSign(session, balance, request)) return null;
+      return {
+        signer: createSessionSigner(manager.connection, session),
+        balance: { ...balance, lamports: balance.lamports - SESSION_FEE_LAMPORTS },
+      };
+    },
+    [manager, session, balance]
+  );
+
+  return { session, balance, active, busy, error, start, end, signerFor, refreshBalance };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { TokenBalance, fetchTokenBalances } from '../lib/tokenService';
+
+export function useTokenBalances(owner: PublicKey | null) {
+  const { manager } = useSubscriptions();
+  const [tokens, setTokens] = useState<TokenBalance[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refreshTokens = useCallback(async () => {
+    if (!owner) return;
+    setLoading(true);
+    try {
+      setTokens(await fetchTokenBalances(manager.connection, owner));
+    } catch (error) {
+      console.error('Token balance refresh error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [manager, owner]);
+
+  useEffect(() => {
+    setTokens([]);
+    refreshTokens();
+  }, [refreshTokens]);
+
+  // Re-read balances whenever one of the token accounts changes on chain
+  const tokenAccounts = useMemo(() => tokens.map((token) => token.tokenAccount.toString()).join(','), [tokens]);
+
+  useEffect(() => {
+    if (!tokenAccounts) return;
+    const unsubscribes = tokenAccounts.split(',').map((address) => {
+      let initial = true;
+      return manager.watchAccount(new PublicKey(address), () => {
+        if (initial) {
+          initial = false;
+          return;
+        }
+        refreshTokens();
+      });
+    });
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [manager, tokenAccounts, refreshTokens]);
+
+  return { tokens, loading, refreshTokens };
+}
@@ -0,0 +1,142 @@
+import { TransactionInstruction } from '@solana/web3.js';
+import { useSubscriptions } from '../context/SubscriptionContext';
+import { useTransactionTracker } from '../context/TransactionTrackerContext';
+import { BatchRow, sendBatch } from '../lib/batchService';
+import { DuePayment, ScheduledPayment } from '../lib/scheduledPayments';
+import { NewSessionKey } from '../lib/sessionKeys';
+import { getWalletAccounts, previewInstructions, previewTransfer } from '../lib/simulationService';
+import { TokenBalance } from '../lib/tokenService';
+import { ConfirmFn, SolBalance, TransactionSigner, TransferRequest, getMaxSendable, sendTransfer } from '../lib/transactionService';
+import { ResubmitRequest, TrackedTransaction, getTransferDetails } from '../lib/transactionTracker';
+import { usePolicies } from './usePolicies';
+import { useSessionKey } from './useSessionKey';
+
+interface WalletActionsOptions {
+  // Throws when the wallet cannot sign right now
+  getSigner: () => TransactionSigner;
+  paymasterUrl?: string;
+  balance: SolBalance | null;
+  tokens: TokenBalance[];
+  policies: ReturnType<typeof usePolicies>;
+  sessionKey: ReturnType<typeof useSessionKey>;
+  // Reloads balances and activity once a transaction confirms
+  onConfirmed: () => Promise<unknown>;
+}
+
+/**
+ * What both dashboards do with a signer: preview and send transfers, instructions and batches,
+ * resubmit expired transfers and run scheduled payments. Every send is checked against the wallet
+ * policy and followed by the transaction tracker; small SOL transfers go through an open session key.
+ */
+export function useWalletActions({
+  getSigner,
+  paymasterUrl,
+  balance,
+  tokens,
+  policies,
+  sessionKey,
+  onConfirmed,
+}: WalletActionsOptions) {
+  const { manager } = useSubscriptions();
+  const { connection } = manager;
+  const { tracker } = useTransactionTracker();
+
+  const refreshOnConfirm = (signature: string, refresh: () => Promise<unknown>) => {
+    tracker
+      .waitFor(signature, 'confirmed')
+      .then(refresh)
+      .catch(() => {});
+  };
+
+  const trackAs = (description: string): ConfirmFn => (sig) => {
+    tracker.track(sig, { description });
+    return tracker.waitFor(sig, 'confirmed');
+  };
+
+  // Blocked transfers fail here already, so the send form shows why before anything is signed
+  const preview = async (request: TransferRequest) => {
+    const session = sessionKey.signerFor(request);
+    policies.enforce(request, session !== null);
+    if (session) return previewTransfer(connection, session.signer, request, session.balance);
+    return previewTransfer(connection, getSigner(), request, balance, paymasterUrl);
+  };
+
+  const getMaxAmount = async () => {
+    if (!balance) return 0n;
+    return getMaxSendable(connection, getSigner().publicKey, balance, paymasterUrl);
+  };
+
+  // Returns once sent; the send modal follows the rest through the tracker. Session key sends
+  // spend what the session funding already counted towards the daily limits
+  const send = async (request: TransferRequest) => {
+    const session = sessionKey.signerFor(request);
+    policies.enforce(request, session !== null);
+    const signer = session?.signer ?? getSigner();
+    const signature = await sendTransfer(connection, signer, request, session?.balance ?? balance, async (sig) => {
+      tracker.track(sig, getTransferDetails(request));
+    });
+    if (!session) policies.record(request, signature);
+    refreshOnConfirm(signature, () => Promise.all([onConfirmed(), sessionKey.refreshBalance()]));
+    return signature;
+  };
+
+  const previewWalletInstructions = async (instructions: TransactionInstruction[]) => {
+    const signer = getSigner();
+    policies.enforceInstructions(instructions, tokens);
+    return previewInstructions(connection, signer, instructions, getWalletAccounts(signer.publicKey, tokens), paymasterUrl);
+  };
+
+  // Merchant transactions, console calls and session funding go through the wallet policy too
+  const sendInstructions = async (instructions: TransactionInstruction[], description: string, toSessionKey = false) => {
+    const transfers = policies.enforceInstructions(instructions, tokens, toSessionKey);
+    const signature = await getSigner().signAndSend(instructions);
+    policies.recordTransfers(transfers, signature);
+    tracker.track(signature, { description });
+    refreshOnConfirm(signature, onConfirmed);
+    return signature;
+  };
+
+  const startSession = (options: NewSessionKey) =>
+    sessionKey.start(options, (instructions, description) => sendInstructions(instructions, description, true));
+
+  // A transfer stored by mint, as kept by the tracker and the payment schedule
+  const toTransferRequest = ({ mint, ...request }: ResubmitRequest): TransferRequest => {
+    const token = mint ? tokens.find((t) => t.mint.toString() === mint) : undefined;
+    if (mint && !token) throw new Error('This token is no longer in your wallet');
+    return { ...request, token };
+  };
+
+  const resubmit = async (transaction: TrackedTransaction) => {
+    if (!transaction.request) throw new Error('This transaction cannot be rebuilt');
+    return send(toTransferRequest(transaction.request));
+  };
+
+  const previewScheduled = async ({ payment: { recipient, amount, mint } }: DuePayment) =>
+    preview(toTransferRequest({ recipient, amount, mint }));
+
+  const sendScheduled = async ({ recipient, amount, mint }: ScheduledPayment) =>
+    send(toTransferRequest({ recipient, amount, mint }));
+
+  const sendWalletBatch = async (rows: BatchRow[], onUpdate: (rows: BatchRow[]) => void) => {
+    const blocked = policies.enforceBatch(rows);
+    if (blocked) return blocked;
+    const result = await sendBatch(connection, getSigner(), rows, onUpdate, undefined, trackAs('Batch transfer'));
+    policies.recordBatch(rows, result);
+    await onConfirmed();
+    return result;
+  };
+
+  return {
+    trackAs,
+    preview,
+    getMaxAmount,
+    send,
+    previewInstructions: previewWalletInstructions,
+    sendInstructions,
+    startSession,
+    resubmit,
+    previewScheduled,
+    sendScheduled,
+    sendBatch: sendWalletBatch,
+  };
+}
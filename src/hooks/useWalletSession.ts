@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { WalletInfo } from '@lazorkit/wallet';
+import {
+  endSession,
+  isSessionIdle,
+  isSessionKey,
+  loadSession,
+  lockSession,
+  restoreSession,
+  startSession,
+  touchSession,
+} from '../lib/walletSession';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+// Activity is written to localStorage at most this often
+const TOUCH_INTERVAL_MS = 30_000;
+const IDLE_CHECK_INTERVAL_MS = 15_000;
+
+interface WalletSessionOptions {
+  // Off for the mock wallet, which keeps its own session
+  enabled: boolean;
+  idleMinutes: number;
+  wallet: WalletInfo | null;
+  isSigning: boolean;
+  connect: () => Promise<unknown>;
+  disconnect: () => Promise<void>;
+}
+
+/**
+ * Session restore and idle lock for the Direct example. `restoring` is true until the stored
+ * session has been checked, so the welcome screen does not flash on reload.
+ */
+export function useWalletSession({ enabled, idleMinutes, wallet, isSigning, connect, disconnect }: WalletSessionOptions) {
+  const [restoring, setRestoring] = useState(enabled);
+  const [lockedWallet, setLockedWallet] = useState<string | null>(null);
+  const lastTouch = useRef(0);
+  const idleMs = idleMinutes * 60_000;
+  const smartWallet = wallet?.smartWallet ?? null;
+
+  useEffect(() => {
+    if (!enabled) return;
+    restoreSession(idleMs)
+      .then((result) => setLockedWallet(result.status === 'locked' ? result.smartWallet : null))
+      .catch((error) => console.error('Session restore error:', error))
+      .finally(() => setRestoring(false));
+  }, [enabled, idleMs]);
+
+  // A connect, unlock or wallet switch starts a new session
+  useEffect(() => {
+    if (!enabled || restoring || !smartWallet) return;
+    const session = loadSession();
+    if (session?.smartWallet !== smartWallet || session.locked) startSession(smartWallet);
+    setLockedWallet(null);
+  }, [enabled, restoring, smartWallet]);
+
+  const lock = useCallback(async () => {
+    if (!smartWallet) return;
+    await lockSession(smartWallet);
+    setLockedWallet(smartWallet);
+  }, [smartWallet]);
+
+  useEffect(() => {
+    if (!enabled || restoring || !smartWallet) return;
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastTouch.current < TOUCH_INTERVAL_MS) return;
+      lastTouch.current = now;
+      touchSession(smartWallet);
+    };
+    // Another tab locking or ending the session applies here too
+    const handleStorage = (event: StorageEvent) => {
+      if (!isSessionKey(event.key)) return;
+      const session = loadSession();
+      if (!session) {
+        endSession().catch((error) => console.error('Session end error:', error));
+      } else if (session.locked) {
+        lock().catch((error) => console.error('Session lock error:', error));
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [enabled, restoring, smartWallet, lock]);
+
+  useEffect(() => {
+    if (!enabled || restoring || !smartWallet || idleMs <= 0 || isSigning) return;
+    const interval = setInterval(() => {
+      const session = loadSession();
+      if (session && isSessionIdle(session, idleMs)) {
+        lock().catch((error) => console.error('Session lock error:', error));
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, restoring, smartWallet, idleMs, isSigning, lock]);
+
+  const unlock = useCallback(async () => {
+    await connect();
+  }, [connect]);
+
+  const endAndDisconnect = useCallback(async () => {
+    await disconnect();
+    if (enabled) await endSession();
+    setLockedWallet(null);
+  }, [enabled, disconnect]);
+
+  return { restoring, lockedWallet, lock, unlock, disconnect: endAndDisconnect };
+}
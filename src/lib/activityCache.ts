@@ -0,0 +1,62 @@
+import type { ActivityPage } from './historyService';
+
+const DB_NAME = 'lazorkit-starter';
+const DB_VERSION = 1;
+const STORE = 'activity';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+// Activity differs per cluster for the same address
+export function getActivityCacheKey(cluster: string, address: string): string {
+  return `${cluster}:${address}`;
+}
+
+/**
+ * Returns every row loaded so far for the key, or null when nothing is cached.
+ */
+export async function readActivityCache(key: string): Promise<ActivityPage | null> {
+  try {
+    return (await run<ActivityPage | undefined>('readonly', (store) => store.get(key))) ?? null;
+  } catch (error) {
+    console.error('Activity cache read error:', error);
+    return null;
+  }
+}
+
+export async function writeActivityCache(key: string, page: ActivityPage): Promise<void> {
+  try {
+    await run('readwrite', (store) => store.put(page, key));
+  } catch (error) {
+    console.error('Activity cache write error:', error);
+  }
+}
@@ -0,0 +1,90 @@
+const CONTACTS_KEY = 'lazorkit-starter-address-book';
+const RECENTS_KEY = 'lazorkit-starter-recent-recipients';
+const MAX_RECENTS = 10;
+// Poisoning addresses are ground to match what wallets and explorers show: the ends
+const LOOKALIKE_CHARS = 4;
+
+export interface Contact {
+  address: string;
+  label: string;
+  createdAt: number;
+}
+
+export interface RecentRecipient {
+  address: string;
+  // The .sol name it was resolved from, when there was one
+  name?: string;
+  lastSentAt: number;
+}
+
+export interface AddressBookState {
+  contacts: Contact[];
+  recents: RecentRecipient[];
+}
+
+function load<T>(key: string): T[] {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function loadAddressBook(): AddressBookState {
+  return { contacts: load<Contact>(CONTACTS_KEY), recents: load<RecentRecipient>(RECENTS_KEY) };
+}
+
+export function isAddressBookKey(key: string | null): boolean {
+  return key === CONTACTS_KEY || key === RECENTS_KEY;
+}
+
+/**
+ * Adds a contact, or renames it when the address is already saved.
+ */
+export function saveContact(address: string, label: string): Contact[] {
+  const contacts = load<Contact>(CONTACTS_KEY).filter((contact) => contact.address !== address);
+  const next = [...contacts, { address, label: label.trim(), createdAt: Date.now() }].sort((a, b) =>
+    a.label.localeCompare(b.label)
+  );
+  localStorage.setItem(CONTACTS_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function removeContact(address: string): Contact[] {
+  const next = load<Contact>(CONTACTS_KEY).filter((contact) => contact.address !== address);
+  localStorage.setItem(CONTACTS_KEY, JSON.stringify(next));
+  return next;
+}
+
+/**
+ * Moves the address to the top of the recent recipients after a send.
+ */
+export function recordRecipient(address: string, name?: string): RecentRecipient[] {
+  const recents = load<RecentRecipient>(RECENTS_KEY).filter((recent) => recent.address !== address);
+  const next = [{ address, name, lastSentAt: Date.now() }, ...recents].slice(0, MAX_RECENTS);
+  localStorage.setItem(RECENTS_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function findContact(contacts: Contact[], address: string): Contact | undefined {
+  return contacts.find((contact) => contact.address === address);
+}
+
+/**
+ * A known address that shares the first and last characters with `address` without being it.
+ * Address-poisoning attacks rely on exactly this: a dust transfer from a vanity address that
+ * looks like a real counterparty in the history, waiting to be copied.
+ */
+export function findLookalike(address: string, known: { address: string; label: string }[]) {
+  const prefix = address.slice(0, LOOKALIKE_CHARS);
+  const suffix = address.slice(-LOOKALIKE_CHARS);
+  return known.find(
+    (entry) =>
+      entry.address !== address && entry.address.startsWith(prefix) && entry.address.endsWith(suffix)
+  );
+}
+
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, LOOKALIKE_CHARS)}…${address.slice(-LOOKALIKE_CHARS)}`;
+}
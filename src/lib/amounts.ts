@@ -0,0 +1,46 @@
+/**
+ * Decimal strings ↔ integer base units (lamports, token units). Amounts never pass through floats.
+ */
+
+export const SOL_DECIMALS = 9;
+
+/**
+ * Parses a decimal string like `0.1234` into base units. Throws on anything that is not a plain
+ * non-negative decimal or that has more fractional digits than the asset supports.
+ */
+export function parseUnits(value: string, decimals: number): bigint {
+  const trimmed = value.trim();
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === '' || trimmed === '.') {
+    throw new Error('Invalid amount');
+  }
+
+  const [whole, fraction = ''] = trimmed.split('.');
+  if (fraction.length > decimals) {
+    throw new Error(`Amount has more than ${decimals} decimal places`);
+  }
+
+  return BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
+
+/**
+ * Inverse of `parseUnits`, without trailing zeros. Negative amounts keep their sign.
+ * `maxFractionDigits` truncates (never rounds up) for compact display.
+ */
+export function formatUnits(amount: bigint, decimals: number, maxFractionDigits = decimals): string {
+  const sign = amount < 0n ? '-' : '';
+  const digits = (amount < 0n ? -amount : amount).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits
+    .slice(digits.length - decimals)
+    .slice(0, maxFractionDigits)
+    .replace(/0+$/, '');
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+export function parseSol(value: string): bigint {
+  return parseUnits(value, SOL_DECIMALS);
+}
+
+export function formatSol(lamports: bigint | number, maxFractionDigits = SOL_DECIMALS): string {
+  return formatUnits(BigInt(lamports), SOL_DECIMALS, maxFractionDigits);
+}
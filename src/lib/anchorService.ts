@@ -0,0 +1,262 @@
+import { AnchorError, BN, BorshCoder, EventParser, Idl, Program } from '@coral-xyz/anchor';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+
+// Anchor only exports the top-level Idl type from its entry point
+export type IdlInstruction = Idl['instructions'][number];
+type IdlInstructionAccountItem = IdlInstruction['accounts'][number];
+export type IdlInstructionAccount = Exclude<IdlInstructionAccountItem, { accounts: unknown }>;
+type IdlField = IdlInstruction['args'][number];
+export type IdlType = IdlField['type'];
+type IdlDefinedFields = NonNullable<Extract<NonNullable<Idl['types']>[number]['type'], { kind: 'struct' }>['fields']>;
+type IdlSeed = NonNullable<IdlInstructionAccount['pda']>['seeds'][number];
+
+export interface LoadedProgram {
+  idl: Idl;
+  programId: PublicKey;
+  coder: BorshCoder;
+}
+
+export interface DecodedEvent {
+  name: string;
+  data: unknown;
+}
+
+export interface DecodedAccount {
+  name: string;
+  data: unknown;
+}
+
+/**
+ * Checks that `json` is an Anchor 0.30+ IDL, the only format the 0.31 coder reads.
+ */
+export function loadIdl(json: unknown): LoadedProgram {
+  const idl = json as Partial<Idl>;
+  if (!idl || typeof idl !== 'object' || !Array.isArray(idl.instructions)) {
+    throw new Error('Not an Anchor IDL');
+  }
+  if (!idl.address || !idl.metadata?.spec) {
+    throw new Error('Legacy IDL (before Anchor 0.30). Convert it with `anchor idl convert` first');
+  }
+  const full = idl as Idl;
+  return { idl: full, programId: new PublicKey(full.address), coder: new BorshCoder(full) };
+}
+
+/**
+ * Reads the IDL a program published with `anchor idl init`.
+ */
+export async function fetchIdl(connection: Connection, programId: PublicKey): Promise<LoadedProgram> {
+  const idl = await Program.fetchIdl(programId, { connection });
+  if (!idl) {
+    throw new Error(`No IDL account found for ${programId.toBase58()}`);
+  }
+  // Older uploads can carry a stale address; the account it was read from is authoritative
+  return loadIdl({ ...idl, address: programId.toBase58() });
+}
+
+/**
+ * Instruction accounts with composite groups flattened, named `group.account` as Anchor does.
+ */
+export function flattenAccounts(items: IdlInstructionAccountItem[], prefix = ''): IdlInstructionAccount[] {
+  return items.flatMap((item) =>
+    'accounts' in item
+      ? flattenAccounts(item.accounts, `${prefix}${item.name}.`)
+      : [{ ...item, name: `${prefix}${item.name}` }]
+  );
+}
+
+/**
+ * Short type description for form labels, e.g. `Option<u64>` or `Vec<pubkey>`.
+ */
+export function describeType(type: IdlType): string {
+  if (typeof type === 'string') return type;
+  if ('option' in type) return `Option<${describeType(type.option)}>`;
+  if ('coption' in type) return `COption<${describeType(type.coption)}>`;
+  if ('vec' in type) return `Vec<${describeType(type.vec)}>`;
+  if ('array' in type) return `[${describeType(type.array[0])}; ${JSON.stringify(type.array[1])}]`;
+  if ('defined' in type) return type.defined.name;
+  return type.generic;
+}
+
+const BIG_INTEGERS = new Set(['u64', 'i64', 'u128', 'i128', 'u256', 'i256']);
+const NUMBERS = new Set(['u8', 'i8', 'u16', 'i16', 'u32', 'i32', 'f32', 'f64']);
+
+/**
+ * Converts a JSON value into what the Borsh coder expects for `type`: BN for 64-bit and wider
+ * integers, PublicKey for `pubkey`, Buffer for `bytes`. Defined structs and enums recurse through the IDL.
+ */
+function fromJson(type: IdlType, value: unknown, idl: Idl): unknown {
+  if (typeof type === 'string') {
+    if (BIG_INTEGERS.has(type) || NUMBERS.has(type)) {
+      const text = String(value).trim();
+      const valid = BIG_INTEGERS.has(type) ? /^-?\d+$/.test(text) : text !== '' && !Number.isNaN(Number(text));
+      if (!valid) throw new Error(`Expected ${type}, got ${JSON.stringify(value)}`);
+      return BIG_INTEGERS.has(type) ? new BN(text) : Number(text);
+    }
+    if (type === 'bool') return value === true || value === 'true';
+    if (type === 'pubkey') return new PublicKey(String(value));
+    if (type === 'bytes') return Buffer.from(value as number[]);
+    return String(value);
+  }
+  if ('option' in type) return value === null || value === '' ? null : fromJson(type.option, value, idl);
+  if ('coption' in type) return value === null || value === '' ? null : fromJson(type.coption, value, idl);
+  if ('vec' in type) return (value as unknown[]).map((item) => fromJson(type.vec, item, idl));
+  if ('array' in type) return (value as unknown[]).map((item) => fromJson(type.array[0], item, idl));
+  if ('generic' in type) return value;
+
+  const definition = idl.types?.find((t) => t.name === type.defined.name);
+  if (!definition) throw new Error(`Type ${type.defined.name} is not in the IDL`);
+  const ty = definition.type;
+  if (ty.kind === 'type') return fromJson(ty.alias, value, idl);
+
+  if (ty.kind === 'struct') return ty.fields ? fieldsFromJson(ty.fields, value, idl) : {};
+
+  // Enums are `{ "variant": { ...fields } }`, or just the variant name when it has no fields
+  const [variantName, fields] = typeof value === 'string' ? [value, {}] : Object.entries(value as object)[0] ?? [];
+  const variant = ty.variants.find((v) => v.name === variantName);
+  if (!variant) throw new Error(`Unknown ${type.defined.name} variant ${JSON.stringify(variantName)}`);
+  return { [variant.name]: variant.fields ? fieldsFromJson(variant.fields, fields, idl) : {} };
+}
+
+// Named fields are objects keyed by field name, tuple fields are arrays
+function fieldsFromJson(fields: IdlDefinedFields, json: unknown, idl: Idl): unknown {
+  const named = fields.length > 0 && typeof fields[0] === 'object' && 'name' in fields[0];
+  if (named) {
+    const record = json as Record<string, unknown>;
+    return Object.fromEntries(
+      (fields as IdlField[]).map((field) => [field.name, fromJson(field.type, record[field.name], idl)])
+    );
+  }
+  return (fields as IdlType[]).map((fieldType, index) => fromJson(fieldType, (json as unknown[])[index], idl));
+}
+
+/**
+ * Parses one form field: scalars are typed as-is, everything else as JSON.
+ */
+export function parseArg(type: IdlType, input: string, idl: Idl): unknown {
+  const text = input.trim();
+  if (typeof type === 'string' && type !== 'bytes') return fromJson(type, text, idl);
+  if (typeof type === 'object' && ('option' in type || 'coption' in type)) {
+    return text === '' ? null : parseArg('option' in type ? type.option : type.coption, text, idl);
+  }
+  return fromJson(type, JSON.parse(text), idl);
+}
+
+function seedBytes(
+  seed: IdlSeed,
+  instruction: IdlInstruction,
+  args: Record<string, unknown>,
+  accounts: Record<string, PublicKey | undefined>
+): Buffer | null {
+  if (seed.kind === 'const') return Buffer.from(seed.value);
+  if (seed.kind === 'account') {
+    // Seeds read from a field inside another account need that account's data
+    if (seed.path.includes('.')) return null;
+    return accounts[seed.path]?.toBuffer() ?? null;
+  }
+
+  const arg = instruction.args.find((a) => a.name === seed.path);
+  const value = args[seed.path];
+  if (!arg || value === undefined) return null;
+  if (arg.type === 'pubkey') return (value as PublicKey).toBuffer();
+  if (arg.type === 'string') return Buffer.from(value as string, 'utf8');
+  if (arg.type === 'u8') return Buffer.from([value as number]);
+  if (arg.type === 'u16' || arg.type === 'u32' || arg.type === 'u64') {
+    const size = { u16: 2, u32: 4, u64: 8 }[arg.type];
+    return new BN(String(value)).toArrayLike(Buffer, 'le', size);
+  }
+  return null;
+}
+
+/**
+ * Derives a PDA account from the IDL's seeds, when all of them are known yet.
+ */
+export function resolvePda(
+  program: LoadedProgram,
+  instruction: IdlInstruction,
+  account: IdlInstructionAccount,
+  args: Record<string, unknown>,
+  accounts: Record<string, PublicKey | undefined>
+): PublicKey | null {
+  if (!account.pda) return null;
+  const seeds = account.pda.seeds.map((seed) => seedBytes(seed, instruction, args, accounts));
+  if (seeds.some((seed) => seed === null)) return null;
+
+  let programId = program.programId;
+  if (account.pda.program) {
+    const bytes = seedBytes(account.pda.program, instruction, args, accounts);
+    if (!bytes) return null;
+    programId = new PublicKey(bytes);
+  }
+  return PublicKey.findProgramAddressSync(seeds as Buffer[], programId)[0];
+}
+
+/**
+ * Encodes the instruction with Anchor's coder. Missing optional accounts are passed as the
+ * program ID, which is how Anchor marks them absent.
+ */
+export function buildAnchorInstruction(
+  program: LoadedProgram,
+  instruction: IdlInstruction,
+  args: Record<string, unknown>,
+  accounts: Record<string, PublicKey | undefined>
+): TransactionInstruction {
+  const keys = flattenAccounts(instruction.accounts).map((account) => {
+    const pubkey = accounts[account.name];
+    if (!pubkey && !account.optional) {
+      throw new Error(`Account ${account.name} is required`);
+    }
+    return {
+      pubkey: pubkey ?? program.programId,
+      isSigner: !!pubkey && !!account.signer,
+      isWritable: !!pubkey && !!account.writable,
+    };
+  });
+
+  return new TransactionInstruction({
+    programId: program.programId,
+    keys,
+    data: program.coder.instruction.encode(instruction.name, args),
+  });
+}
+
+export function decodeEvents(program: LoadedProgram, logs: string[]): DecodedEvent[] {
+  const parser = new EventParser(program.programId, program.coder);
+  return Array.from(parser.parseLogs(logs), (event) => ({ name: event.name, data: event.data }));
+}
+
+/**
+ * Decodes an account owned by the program, picking its type by discriminator.
+ */
+export function decodeAccount(program: LoadedProgram, data: Buffer): DecodedAccount {
+  const account = program.idl.accounts?.find((a) =>
+    data.subarray(0, a.discriminator.length).equals(Buffer.from(a.discriminator))
+  );
+  if (!account) {
+    throw new Error('Account data does not match any account type in the IDL');
+  }
+  return { name: account.name, data: program.coder.accounts.decode(account.name, data) };
+}
+
+/**
+ * The program's own error for a failed instruction, from Anchor's log line or the IDL error table.
+ */
+export function describeProgramError(program: LoadedProgram, logs: string[], customCode?: number): string | null {
+  const anchorError = AnchorError.parse(logs);
+  if (anchorError) return anchorError.message;
+  const error = program.idl.errors?.find((e) => e.code === customCode);
+  return error ? `${error.name}: ${error.msg ?? `error ${error.code}`}` : null;
+}
+
+/**
+ * JSON-friendly copy of decoded data: BN as decimal strings, public keys as base58, bytes as arrays.
+ */
+export function toDisplayValue(value: unknown): unknown {
+  if (BN.isBN(value)) return (value as BN).toString();
+  if (value instanceof PublicKey) return value.toBase58();
+  if (value instanceof Uint8Array) return Array.from(value);
+  if (Array.isArray(value)) return value.map(toDisplayValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toDisplayValue(item)]));
+  }
+  return value;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Connection, Keypair, PACKET_DATA_SIZE, PublicKey } from '@solana/web3.js';
+import { BatchRow, parseBatchCsv, parseCsvLine, sendBatch } from './batchService';
+import { TransactionSigner } from './transactionService';
+import { compileV0Message, getTransactionSize, withComputeUnitLimit } from './versionedTransactions';
+
+const wallet = Keypair.generate().publicKey;
+
+function createSigner(maxTransactionSize?: number) {
+  const signAndSend = vi.fn<TransactionSigner['signAndSend']>().mockResolvedValue('signature');
+  const signer: TransactionSigner = { publicKey: wallet, maxTransactionSize, signAndSend };
+  return { signer, signAndSend };
+}
+
+function solRows(count: number): BatchRow[] {
+  const csv = Array.from({ length: count }, () => `${Keypair.generate().publicKey.toBase58()},0.001`).join('\n');
+  return parseBatchCsv(csv, []);
+}
+
+describe('parseCsvLine', () => {
+  it('splits and trims plain cells', () => {
+    expect(parseCsvLine(' a , b,c ')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps commas and escaped quotes inside quoted cells', () => {
+    expect(parseCsvLine('"a,b", "say ""hi""",c')).toEqual(['a,b', 'say "hi"', 'c']);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsvLine('a,,c,')).toEqual(['a', '', 'c', '']);
+  });
+});
+
+describe('parseBatchCsv', () => {
+  const address = Keypair.generate().publicKey.toBase58();
+
+  it('skips the header, blank lines and comments', () => {
+    const rows = parseBatchCsv(`address,amount\n\n# payroll\n${address},1.5`, []);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ line: 4, address, amount: '1.5', status: 'ready', units: 1_500_000_000n });
+  });
+
+  it('reads quoted cells', () => {
+    const [row] = parseBatchCsv(`"${address}","1,5"`, []);
+    expect(row.address).toBe(address);
+    expect(row).toMatchObject({ status: 'invalid', error: 'Invalid amount' });
+  });
+
+  it('flags invalid addresses', () => {
+    expect(parseBatchCsv('not-an-address,1', [])[0]).toMatchObject({ status: 'invalid', error: 'Invalid address' });
+  });
+
+  it('flags unknown tokens', () => {
+    expect(parseBatchCsv(`${address},1,BONK`, [])[0]).toMatchObject({ status: 'invalid', error: 'Unknown token "BONK"' });
+  });
+});
+
+describe('sendBatch', () => {
+  const connection = {} as Connection;
+
+  it('packs against the signer transaction size', async () => {
+    const rows = solRows(30);
+    const smartWallet = createSigner();
+    const adapter = createSigner(PACKET_DATA_SIZE);
+
+    await sendBatch(connection, smartWallet.signer, rows, () => {}, undefined, async () => {});
+    await sendBatch(connection, adapter.signer, rows, () => {}, undefined, async () => {});
+
+    expect(adapter.signAndSend.mock.calls.length).toBeLessThan(smartWallet.signAndSend.mock.calls.length);
+    const sent = adapter.signAndSend.mock.calls.reduce((total, [instructions]) => total + instructions.length, 0);
+    expect(sent).toBe(30);
+    for (const [instructions, options] of adapter.signAndSend.mock.calls) {
+      const signed = withComputeUnitLimit(instructions, options?.computeUnitLimit);
+      const size = getTransactionSize(compileV0Message(wallet, signed, PublicKey.default.toBase58()));
+      expect(size).toBeLessThanOrEqual(PACKET_DATA_SIZE);
+    }
+  });
+
+  it('fails every row of a pack whose transaction fails', async () => {
+    const { signer, signAndSend } = createSigner(PACKET_DATA_SIZE);
+    signAndSend.mockRejectedValueOnce(new Error('User rejected the request'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await sendBatch(connection, signer, solRows(3), () => {}, undefined, async () => {});
+    expect(result.map((row) => row.status)).toEqual(['failed', 'failed', 'failed']);
+    expect(result[0].error).toBe('Transaction was cancelled.');
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { SOL_DECIMALS, parseUnits } from './amounts';
+import { TokenBalance, buildTokenTransferInstructions, getTokenLabel } from './tokenService';
+import { ConfirmFn, SignOptions, SolBalance, TransactionSigner, confirmSignature } from './transactionService';
+import { SMART_WALLET_OVERHEAD, selectLookupTables, withComputeUnitLimit } from './versionedTransactions';
+import { toWalletError } from './walletErrors';
+
+// For signers that do not say how large a transaction they can send
+export const MAX_PACKED_TX_SIZE = PACKET_DATA_SIZE - SMART_WALLET_OVERHEAD;
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+const BASE_COMPUTE_UNITS = 200_000;
+// Covers an associated token account creation plus the transfer itself
+const COMPUTE_UNITS_PER_TRANSFER = 30_000;
+const MAX_TRANSFERS_PER_TX = Math.floor((MAX_COMPUTE_UNITS - BASE_COMPUTE_UNITS) / COMPUTE_UNITS_PER_TRANSFER);
+
+export type BatchRowStatus = 'invalid' | 'ready' | 'sending' | 'success' | 'failed';
+
+export interface BatchRow {
+  // 1-based line in the CSV, for error messages
+  line: number;
+  address: string;
+  amount: string;
+  // Mint address or symbol as written in the CSV; empty for SOL
+  asset: string;
+  status: BatchRowStatus;
+  error?: string;
+  signature?: string;
+  recipient?: PublicKey;
+  token?: TokenBalance;
+  // Base units (lamports for SOL)
+  units?: bigint;
+}
+
+function resolveToken(asset: string, tokens: TokenBalance[]): TokenBalance | undefined {
+  const needle = asset.trim();
+  return tokens.find((token) => token.mint.toString() === needle) ??
+    tokens.find((token) => token.symbol?.toLowerCase() === needle.toLowerCase());
+}
+
+function parseAddress(address: string): PublicKey | null {
+  try {
+    return new PublicKey(address);
+  } catch {
+    return null;
+  }
+}
+
+function validateRow(row: BatchRow, tokens: TokenBalance[]): BatchRow {
+  const recipient = parseAddress(row.address);
+  if (!recipient) {
+    return { ...row, status: 'invalid', error: 'Invalid address' };
+  }
+
+  try {
+    let token: TokenBalance | undefined;
+
+    if (row.asset && row.asset.toUpperCase() !== 'SOL') {
+      token = resolveToken(row.asset, tokens);
+      if (!token) {
+        throw new Error(`Unknown token "${row.asset}"`);
+      }
+    }
+
+    const units = parseUnits(row.amount, token ? token.decimals : SOL_DECIMALS);
+    if (units <= 0n) {
+      throw new Error('Invalid amount');
+    }
+
+    return { ...row, recipient, token, units, status: 'ready', error: undefined };
+  } catch (err) {
+    return { ...row, status: 'invalid', error: err instanceof Error ? err.message : 'Invalid row' };
+  }
+}
+
+/**
+ * Splits one CSV line into trimmed cells. Quoted cells may contain commas, and `""` inside them is
+ * a literal quote.
+ */
+export function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      cell = '';
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parses `address,amount[,token]` lines. A header line, blank lines and `#` comments are skipped.
+ */
+export function parseBatchCsv(text: string, tokens: TokenBalance[]): BatchRow[] {
+  return text
+    .split(/\r?\n/)
+    .map((raw, index) => ({ raw: raw.trim(), line: index + 1 }))
+    .filter(({ raw }) => raw && !raw.startsWith('#'))
+    .map(({ raw, line }) => ({ cells: parseCsvLine(raw), line }))
+    .filter(({ cells, line }) => !(line === 1 && /^address$/i.test(cells[0])))
+    .map(({ cells, line }) => {
+      const [address = '', amount = '', asset = ''] = cells;
+      return validateRow({ line, address, amount, asset, status: 'ready' }, tokens);
+    });
+}
+
+/**
+ * Flags rows whose asset total exceeds what the wallet holds, keeping the SOL rent reserve.
+ */
+export function checkBatchTotals(rows: BatchRow[], balance: SolBalance | null): BatchRow[] {
+  const totals = new Map<string, bigint>();
+  const available = new Map<string, bigint>();
+
+  if (balance) {
+    const spendable = balance.lamports - balance.rentReserve;
+    available.set('SOL', spendable > 0n ? spendable : 0n);
+  }
+
+  for (const row of rows) {
+    if (row.status === 'invalid' || row.units === undefined) continue;
+    const key = row.token ? row.token.mint.toString() : 'SOL';
+    if (row.token) available.set(key, row.token.amount);
+    totals.set(key, (totals.get(key) ?? 0n) + row.units);
+  }
+
+  return rows.map((row) => {
+    if (row.status === 'invalid' || row.units === undefined) return row;
+    const key = row.token ? row.token.mint.toString() : 'SOL';
+    const limit = available.get(key);
+    if (limit !== undefined && (totals.get(key) ?? 0n) > limit) {
+      const label = row.token ? getTokenLabel(row.token) : 'SOL';
+      return { ...row, status: 'invalid', error: `Batch total exceeds your ${label} balance` };
+    }
+    return row;
+  });
+}
+
+async function buildRowInstructions(connection: Connection, owner: PublicKey, row: BatchRow) {
+  if (!row.recipient || row.units === undefined) {
+    throw new Error(`Row ${row.line} is not valid`);
+  }
+  if (row.token) {
+    return buildTokenTransferInstructions(connection, owner, row.recipient, row.token, row.units);
+  }
+  return [SystemProgram.transfer({ fromPubkey: owner, toPubkey: row.recipient, lamports: row.units })];
+}
+
+function getComputeUnitLimit(transfers: number): number {
+  return Math.min(MAX_COMPUTE_UNITS, BASE_COMPUTE_UNITS + transfers * COMPUTE_UNITS_PER_TRANSFER);
+}
+
+/**
+ * Greedily packs instruction groups into as few transactions as fit, counting on the lookup tables
+ * that would be picked for each and the compute unit limit `sendBatch` adds. Returns group indexes
+ * per transaction.
+ */
+export function packInstructionGroups(
+  payer: PublicKey,
+  groups: TransactionInstruction[][],
+  lookupTables: AddressLookupTableAccount[] = [],
+  maxSize = MAX_PACKED_TX_SIZE
+): number[][] {
+  const packs: number[][] = [];
+  let current: number[] = [];
+
+  const fits = (indexes: number[]) => {
+    if (indexes.length > MAX_TRANSFERS_PER_TX) return false;
+    const instructions = withComputeUnitLimit(indexes.flatMap((i) => groups[i]), getComputeUnitLimit(indexes.length));
+    return selectLookupTables(payer, instructions, lookupTables, maxSize).fits;
+  };
+
+  groups.forEach((_, index) => {
+    if (current.length > 0 && !fits([...current, index])) {
+      packs.push(current);
+      current = [];
+    }
+    current.push(index);
+  });
+
+  if (current.length > 0) packs.push(current);
+  return packs;
+}
+
+/**
+ * Sends every `ready` or `failed` row, as many per transaction as fit, reporting progress through `onUpdate`.
+ * Rows in a pack succeed or fail together.
+ */
+export async function sendBatch(
+  connection: Connection,
+  signer: TransactionSigner,
+  rows: BatchRow[],
+  onUpdate: (rows: BatchRow[]) => void,
+  options?: SignOptions,
+  confirm: ConfirmFn = (signature) => confirmSignature(connection, signature)
+): Promise<BatchRow[]> {
+  let state = rows.map((row) => (row.status === 'failed' ? { ...row, status: 'ready' as const, error: undefined } : row));
+  const update = (indexes: number[], patch: Partial<BatchRow>) => {
+    state = state.map((row, i) => (indexes.includes(i) ? { ...row, ...patch } : row));
+    onUpdate(state);
+  };
+
+  const pending = state.map((row, i) => (row.status === 'ready' ? i : -1)).filter((i) => i !== -1);
+  const groups: TransactionInstruction[][] = [];
+  const groupRows: number[] = [];
+
+  for (const index of pending) {
+    try {
+      groups.push(await buildRowInstructions(connection, signer.publicKey, state[index]));
+      groupRows.push(index);
+    } catch (err) {
+      update([index], { status: 'failed', error: toWalletError(err).message });
+    }
+  }
+
+  const lookupTables = options?.addressLookupTableAccounts ?? signer.lookupTables;
+  const maxSize = signer.maxTransactionSize ?? MAX_PACKED_TX_SIZE;
+  for (const pack of packInstructionGroups(signer.publicKey, groups, lookupTables, maxSize)) {
+    const indexes = pack.map((g) => groupRows[g]);
+    update(indexes, { status: 'sending' });
+
+    try {
+      const signature = await signer.signAndSend(pack.flatMap((g) => groups[g]), {
+        ...options,
+        computeUnitLimit: getComputeUnitLimit(pack.length),
+      });
+      await confirm(signature);
+      update(indexes, { status: 'success', signature });
+    } catch (err) {
+      console.error('Batch transaction failed:', err);
+      update(indexes, { status: 'failed', error: toWalletError(err).message });
+    }
+  }
+
+  return state;
+}
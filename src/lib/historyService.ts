@@ -0,0 +1,250 @@
+import {
+  Connection,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+  TokenBalance as RpcTokenBalance,
+} from '@solana/web3.js';
+import { formatSol, formatUnits } from './amounts';
+import {
+  BalanceChange,
+  DecodedInstruction,
+  decodeTransactionInstructions,
+  getBalanceChanges,
+  getComputeUnitLimit,
+  getKnownPrograms,
+} from './inspector';
+
+export const ACTIVITY_PAGE_SIZE = 20;
+
+export type TransferDirection = 'in' | 'out' | 'self';
+
+export interface ActivityTransfer {
+  direction: TransferDirection;
+  counterparty: string | null;
+  // Decimal string in UI units
+  amount: string;
+  // Undefined for native SOL
+  mint?: string;
+}
+
+/**
+ * One row of the activity feed. Only plain values so it can be stored in IndexedDB as is.
+ */
+export interface ActivityRow {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  status: 'success' | 'failed';
+  // In lamports
+  fee: number;
+  feePayer: string;
+  // True when someone other than the wallet paid the fee (e.g. the paymaster)
+  sponsored: boolean;
+  transfers: ActivityTransfer[];
+}
+
+export interface ActivityPage {
+  rows: ActivityRow[];
+  hasMore: boolean;
+}
+
+export interface TransactionAccount {
+  address: string;
+  signer: boolean;
+  writable: boolean;
+  // Loaded from an address lookup table rather than listed in the message
+  lookup: boolean;
+}
+
+/**
+ * A single transaction as the detail screen shows it: the feed row seen from `address`, plus its
+ * decoded instructions, balance changes, accounts and program logs.
+ */
+export interface TransactionDetail {
+  row: ActivityRow;
+  // Null when the transaction succeeded
+  error: string | null;
+  version: 'legacy' | 0;
+  instructions: DecodedInstruction[];
+  solChanges: BalanceChange[];
+  tokenChanges: BalanceChange[];
+  accounts: TransactionAccount[];
+  logs: string[];
+  computeUnits: number | null;
+  computeUnitLimit: number;
+}
+
+type AnyInstruction = ParsedInstruction | PartiallyDecodedInstruction;
+
+function isParsed(instruction: AnyInstruction): instruction is ParsedInstruction {
+  return 'parsed' in instruction;
+}
+
+function getDirection(address: string, source: string | undefined, destination: string | undefined): TransferDirection | null {
+  if (source === address && destination === address) return 'self';
+  if (source === address) return 'out';
+  if (destination === address) return 'in';
+  return null;
+}
+
+/**
+ * Maps token accounts to their owner, mint and decimals using the balances the RPC attaches to the transaction.
+ */
+function indexTokenAccounts(tx: ParsedTransactionWithMeta) {
+  const accounts = new Map<string, { owner?: string; mint: string; decimals: number }>();
+  const balances: RpcTokenBalance[] = [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])];
+
+  for (const balance of balances) {
+    const key = tx.transaction.message.accountKeys[balance.accountIndex]?.pubkey.toString();
+    if (key) {
+      accounts.set(key, { owner: balance.owner, mint: balance.mint, decimals: balance.uiTokenAmount.decimals });
+    }
+  }
+
+  return accounts;
+}
+
+function decodeTransfer(
+  instruction: ParsedInstruction,
+  address: string,
+  tokenAccounts: ReturnType<typeof indexTokenAccounts>
+): ActivityTransfer | null {
+  const { type, info } = instruction.parsed ?? {};
+
+  if (instruction.program === 'system' && (type === 'transfer' || type === 'transferWithSeed')) {
+    const direction = getDirection(address, info.source, info.destination);
+    if (!direction) return null;
+    return {
+      direction,
+      counterparty: direction === 'in' ? info.source : info.destination,
+      amount: formatSol(info.lamports),
+    };
+  }
+
+  if (
+    (instruction.program === 'spl-token' || instruction.program === 'spl-token-2022') &&
+    (type === 'transfer' || type === 'transferChecked')
+  ) {
+    const source = tokenAccounts.get(info.source);
+    const destination = tokenAccounts.get(info.destination);
+    const sourceOwner = source?.owner ?? info.authority ?? info.multisigAuthority;
+    const direction = getDirection(address, sourceOwner, destination?.owner);
+    if (!direction) return null;
+
+    const mint: string | undefined = info.mint ?? source?.mint ?? destination?.mint;
+    const decimals = source?.decimals ?? destination?.decimals ?? 0;
+    const amount = formatUnits(BigInt(info.tokenAmount?.amount ?? info.amount), decimals);
+
+    return {
+      direction,
+      counterparty: (direction === 'in' ? sourceOwner : destination?.owner ?? info.destination) ?? null,
+      amount,
+      mint,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Turns a parsed transaction into a feed row, decoding SOL and SPL transfers from both
+ * top-level and inner instructions (smart-wallet transfers are executed via CPI).
+ */
+export function decodeActivity(tx: ParsedTransactionWithMeta, signature: string, address: PublicKey): ActivityRow {
+  const owner = address.toString();
+  const tokenAccounts = indexTokenAccounts(tx);
+  const instructions: AnyInstruction[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+
+  const transfers = instructions
+    .filter(isParsed)
+    .map((instruction) => decodeTransfer(instruction, owner, tokenAccounts))
+    .filter((transfer): transfer is ActivityTransfer => transfer !== null);
+
+  const feePayer = tx.transaction.message.accountKeys[0].pubkey.toString();
+
+  return {
+    signature,
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+    status: tx.meta?.err ? 'failed' : 'success',
+    fee: tx.meta?.fee ?? 0,
+    feePayer,
+    sponsored: feePayer !== owner,
+    transfers,
+  };
+}
+
+/**
+ * Fetches one page of activity, newest first. Pass the last signature of the previous page as `before`.
+ */
+export async function fetchActivityPage(
+  connection: Connection,
+  address: PublicKey,
+  before?: string,
+  limit = ACTIVITY_PAGE_SIZE
+): Promise<ActivityPage> {
+  const signatures = await connection.getSignaturesForAddress(address, { before, limit });
+  const transactions = await connection.getParsedTransactions(
+    signatures.map(({ signature }) => signature),
+    { maxSupportedTransactionVersion: 0 }
+  );
+
+  const rows = signatures.map(({ signature, slot, blockTime, err }, index): ActivityRow => {
+    const tx = transactions[index];
+    if (tx) {
+      return decodeActivity(tx, signature, address);
+    }
+    // Transaction details can lag behind the signature list; show what we know
+    return {
+      signature,
+      slot,
+      blockTime: blockTime ?? null,
+      status: err ? 'failed' : 'success',
+      fee: 0,
+      feePayer: '',
+      sponsored: false,
+      transfers: [],
+    };
+  });
+
+  return { rows, hasMore: signatures.length === limit };
+}
+
+/**
+ * Loads one transaction for the detail screen. Resolves to null while the RPC does not know it,
+ * e.g. right after sending or on the wrong cluster.
+ */
+export async function fetchTransactionDetail(
+  connection: Connection,
+  signature: string,
+  address: PublicKey
+): Promise<TransactionDetail | null> {
+  const tx = await connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  if (!tx) return null;
+
+  const instructions = decodeTransactionInstructions(tx, getKnownPrograms(connection));
+  const { sol, tokens } = getBalanceChanges(tx);
+
+  return {
+    row: decodeActivity(tx, signature, address),
+    error: tx.meta?.err ? JSON.stringify(tx.meta.err) : null,
+    version: tx.version ?? 'legacy',
+    instructions,
+    solChanges: sol,
+    tokenChanges: tokens,
+    accounts: tx.transaction.message.accountKeys.map((key) => ({
+      address: key.pubkey.toString(),
+      signer: key.signer,
+      writable: key.writable,
+      lookup: key.source === 'lookupTable',
+    })),
+    logs: tx.meta?.logMessages ?? [],
+    computeUnits: tx.meta?.computeUnitsConsumed ?? null,
+    computeUnitLimit: getComputeUnitLimit(instructions),
+  };
+}
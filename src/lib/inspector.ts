@@ -0,0 +1,364 @@
+import { LazorkitClient } from '@lazorkit/wallet';
+import { utils } from '@coral-xyz/anchor';
+import {
+  AccountInfo,
+  AddressLookupTableProgram,
+  ComputeBudgetProgram,
+  Connection,
+  ParsedAccountData,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+  SystemProgram,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { formatSol, formatUnits } from './amounts';
+import { LoadedProgram, decodeAccount, flattenAccounts, loadIdl, toDisplayValue } from './anchorService';
+
+const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+const SECP256R1_PROGRAM_ID = 'Secp256r1SigVerify1111111111111111111111111';
+const ED25519_PROGRAM_ID = 'Ed25519SigVerify111111111111111111111111111';
+
+const PROGRAM_NAMES: Record<string, string> = {
+  [SystemProgram.programId.toBase58()]: 'System Program',
+  [TOKEN_PROGRAM_ID.toBase58()]: 'Token Program',
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: 'Token-2022 Program',
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: 'Associated Token Program',
+  [ComputeBudgetProgram.programId.toBase58()]: 'Compute Budget Program',
+  [AddressLookupTableProgram.programId.toBase58()]: 'Address Lookup Table Program',
+  [MEMO_PROGRAM_ID]: 'Memo Program',
+  [SECP256R1_PROGRAM_ID]: 'Secp256r1 Signature Verification',
+  [ED25519_PROGRAM_ID]: 'Ed25519 Signature Verification',
+};
+
+// Labels for the SDK's Anchor programs, keyed by IDL name
+const IDL_PROGRAM_NAMES: Record<string, string> = {
+  lazorkit: 'LazorKit Smart Wallet',
+  default_policy: 'LazorKit Default Policy',
+};
+
+// Solana's defaults when a transaction sets no compute unit limit
+const DEFAULT_INSTRUCTION_UNITS = 200_000;
+const MAX_TRANSACTION_UNITS = 1_400_000;
+
+const ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export interface DecodedField {
+  name: string;
+  value: string;
+  // Rendered as a link to the address screen
+  address: boolean;
+}
+
+export interface DecodedInstruction {
+  programId: string;
+  program: string;
+  // Null when no decoder knows the instruction; `accounts` and `data` then hold it raw
+  name: string | null;
+  fields: DecodedField[];
+  accounts: string[];
+  // Base58
+  data: string | null;
+  // Compute units a top-level instruction used, read from the program logs
+  computeUnits: number | null;
+  inner: DecodedInstruction[];
+}
+
+export interface BalanceChange {
+  address: string;
+  // Token balances only
+  mint?: string;
+  owner?: string;
+  // Decimal strings in UI units
+  before: string;
+  after: string;
+  change: string;
+}
+
+export interface InspectedAccount {
+  lamports: number;
+  owner: string;
+  ownerName: string;
+  executable: boolean;
+  space: number;
+  // What the data decodes to, e.g. `spl-token: account` or `lazorkit: walletState`
+  kind: string | null;
+  fields: DecodedField[];
+}
+
+type AnyInstruction = ParsedInstruction | PartiallyDecodedInstruction;
+
+// The IDLs ship with the SDK and do not depend on the connection, so they are loaded once
+let knownPrograms: LoadedProgram[] | null = null;
+
+/**
+ * Anchor programs decoded from their IDL: the LazorKit smart-wallet program and its default policy.
+ */
+export function getKnownPrograms(connection: Connection): LoadedProgram[] {
+  if (!knownPrograms) {
+    const client = new LazorkitClient(connection);
+    knownPrograms = [client.program.rawIdl, client.defaultPolicyProgram.program.rawIdl].map((idl) => loadIdl(idl));
+  }
+  return knownPrograms;
+}
+
+export function getProgramName(programId: string, programs: LoadedProgram[] = []): string {
+  const program = programs.find((p) => p.programId.toBase58() === programId);
+  if (PROGRAM_NAMES[programId]) return PROGRAM_NAMES[programId];
+  if (!program) return 'Unknown Program';
+  return IDL_PROGRAM_NAMES[program.idl.metadata.name] ?? program.idl.metadata.name;
+}
+
+function isAddressLike(value: string): boolean {
+  return ADDRESS_PATTERN.test(value);
+}
+
+function formatValue(value: unknown): string {
+  const display = toDisplayValue(value);
+  return typeof display === 'string' ? display : JSON.stringify(display);
+}
+
+/**
+ * Flattens the RPC's `info` object into fields, naming nested values `parent.child`.
+ */
+function toFields(value: unknown, prefix = ''): DecodedField[] {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([key, item]) => toFields(item, prefix ? `${prefix}.${key}` : key));
+  }
+  const text = Array.isArray(value) ? value.join(', ') : String(value);
+  return [{ name: prefix || 'value', value: text, address: typeof value === 'string' && isAddressLike(value) }];
+}
+
+function decodeComputeBudget(data: Buffer): { name: string; fields: DecodedField[] } | null {
+  const field = (name: string, value: bigint | number) => [{ name, value: value.toString(), address: false }];
+  switch (data[0]) {
+    case 1:
+      return { name: 'requestHeapFrame', fields: field('bytes', data.readUInt32LE(1)) };
+    case 2:
+      return { name: 'setComputeUnitLimit', fields: field('units', data.readUInt32LE(1)) };
+    case 3:
+      return { name: 'setComputeUnitPrice', fields: field('microLamports', data.readBigUInt64LE(1)) };
+    case 4:
+      return { name: 'setLoadedAccountsDataSizeLimit', fields: field('bytes', data.readUInt32LE(1)) };
+    default:
+      return null;
+  }
+}
+
+function decodeAnchor(
+  program: LoadedProgram,
+  instruction: PartiallyDecodedInstruction
+): { name: string; fields: DecodedField[] } | null {
+  const decoded = program.coder.instruction.decode(instruction.data, 'base58');
+  if (!decoded) return null;
+
+  const definition = program.idl.instructions.find((ix) => ix.name === decoded.name);
+  const names = definition ? flattenAccounts(definition.accounts).map((account) => account.name) : [];
+  const accounts = instruction.accounts.map((account, index) => ({
+    name: names[index] ?? `remaining[${index - names.length}]`,
+    value: account.toBase58(),
+    address: true,
+  }));
+  const args = Object.entries(decoded.data as Record<string, unknown>).map(([name, value]) => ({
+    name,
+    value: formatValue(value),
+    address: value instanceof PublicKey,
+  }));
+  return { name: decoded.name, fields: [...accounts, ...args] };
+}
+
+/**
+ * Names an instruction and its arguments. The RPC decodes the programs it knows (System, SPL Token,
+ * Associated Token, Memo, Address Lookup Table); Compute Budget and the Anchor programs in
+ * `programs` are decoded here. Anything else is shown raw.
+ */
+export function decodeInstruction(instruction: AnyInstruction, programs: LoadedProgram[]): DecodedInstruction {
+  const programId = instruction.programId.toBase58();
+  const base = { programId, program: getProgramName(programId, programs), computeUnits: null, inner: [] };
+
+  if ('parsed' in instruction) {
+    const parsed = instruction.parsed;
+    const isTyped = parsed && typeof parsed === 'object' && 'type' in parsed;
+    return {
+      ...base,
+      name: isTyped ? parsed.type : instruction.program,
+      fields: toFields(isTyped ? parsed.info : parsed),
+      accounts: [],
+      data: null,
+    };
+  }
+
+  let decoded: { name: string; fields: DecodedField[] } | null = null;
+  try {
+    if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+      decoded = decodeComputeBudget(Buffer.from(utils.bytes.bs58.decode(instruction.data)));
+    } else {
+      const program = programs.find((p) => p.programId.equals(instruction.programId));
+      decoded = program ? decodeAnchor(program, instruction) : null;
+    }
+  } catch (err) {
+    console.error('Instruction decode error:', err);
+  }
+
+  return {
+    ...base,
+    name: decoded?.name ?? null,
+    fields: decoded?.fields ?? [],
+    accounts: instruction.accounts.map((account) => account.toBase58()),
+    data: instruction.data || null,
+  };
+}
+
+/**
+ * Compute units each top-level instruction used. Instructions are matched to the depth-1
+ * `invoke` lines by program, since precompiles such as Secp256r1 log nothing.
+ */
+function unitsPerInstruction(logs: string[], programIds: string[]): (number | null)[] {
+  const units: (number | null)[] = programIds.map(() => null);
+  const stack: string[] = [];
+  let current = -1;
+
+  for (const line of logs) {
+    const invoke = /^Program (\w+) invoke \[(\d+)\]$/.exec(line);
+    if (invoke) {
+      stack.push(invoke[1]);
+      if (invoke[2] === '1') {
+        const index = programIds.indexOf(invoke[1], current + 1);
+        current = index === -1 ? current : index;
+      }
+      continue;
+    }
+    const consumed = /^Program (\w+) consumed (\d+) of \d+ compute units$/.exec(line);
+    if (consumed && stack.length === 1 && current !== -1 && programIds[current] === consumed[1]) {
+      units[current] = Number(consumed[2]);
+      continue;
+    }
+    if (/^Program \w+ (success|failed)/.test(line)) {
+      stack.pop();
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Every instruction in the transaction, with the inner instructions it invoked nested under it.
+ */
+export function decodeTransactionInstructions(
+  tx: ParsedTransactionWithMeta,
+  programs: LoadedProgram[]
+): DecodedInstruction[] {
+  const topLevel = tx.transaction.message.instructions;
+  const units = unitsPerInstruction(
+    tx.meta?.logMessages ?? [],
+    topLevel.map((instruction) => instruction.programId.toBase58())
+  );
+
+  return topLevel.map((instruction, index) => {
+    const inner = tx.meta?.innerInstructions?.find((group) => group.index === index)?.instructions ?? [];
+    return {
+      ...decodeInstruction(instruction, programs),
+      computeUnits: units[index],
+      inner: inner.map((ix) => decodeInstruction(ix, programs)),
+    };
+  });
+}
+
+/**
+ * The compute unit limit the transaction ran with: its SetComputeUnitLimit, or the runtime default.
+ */
+export function getComputeUnitLimit(instructions: DecodedInstruction[]): number {
+  const limit = instructions.find((ix) => ix.name === 'setComputeUnitLimit')?.fields[0]?.value;
+  if (limit) return Number(limit);
+  const budgeted = instructions.filter((ix) => ix.programId !== ComputeBudgetProgram.programId.toBase58()).length;
+  return Math.min(budgeted * DEFAULT_INSTRUCTION_UNITS, MAX_TRANSACTION_UNITS);
+}
+
+/**
+ * SOL and token balances the transaction changed, before and after.
+ */
+export function getBalanceChanges(tx: ParsedTransactionWithMeta): { sol: BalanceChange[]; tokens: BalanceChange[] } {
+  const keys = tx.transaction.message.accountKeys.map((key) => key.pubkey.toBase58());
+  const pre = tx.meta?.preBalances ?? [];
+  const post = tx.meta?.postBalances ?? [];
+
+  const sol = keys.flatMap((address, index): BalanceChange[] => {
+    const before = BigInt(pre[index] ?? 0);
+    const after = BigInt(post[index] ?? 0);
+    if (before === after) return [];
+    return [{ address, before: formatSol(before), after: formatSol(after), change: formatSol(after - before) }];
+  });
+
+  const preTokens = tx.meta?.preTokenBalances ?? [];
+  const postTokens = tx.meta?.postTokenBalances ?? [];
+  const indexes = [...new Set([...preTokens, ...postTokens].map((balance) => balance.accountIndex))];
+  const tokens = indexes.flatMap((index): BalanceChange[] => {
+    const before = preTokens.find((balance) => balance.accountIndex === index);
+    const after = postTokens.find((balance) => balance.accountIndex === index);
+    const info = (after ?? before)!;
+    const decimals = info.uiTokenAmount.decimals;
+    const beforeAmount = BigInt(before?.uiTokenAmount.amount ?? 0);
+    const afterAmount = BigInt(after?.uiTokenAmount.amount ?? 0);
+    if (beforeAmount === afterAmount) return [];
+    return [
+      {
+        address: keys[index],
+        mint: info.mint,
+        owner: info.owner,
+        before: formatUnits(beforeAmount, decimals),
+        after: formatUnits(afterAmount, decimals),
+        change: formatUnits(afterAmount - beforeAmount, decimals),
+      },
+    ];
+  });
+
+  return { sol, tokens };
+}
+
+function decodeAccountData(
+  account: AccountInfo<Buffer | ParsedAccountData>,
+  programs: LoadedProgram[]
+): Pick<InspectedAccount, 'kind' | 'fields'> {
+  const { data } = account;
+  if (!Buffer.isBuffer(data)) {
+    const parsed = data.parsed as { type?: string; info?: unknown } | string;
+    if (typeof parsed === 'object' && parsed.type) {
+      return { kind: `${data.program}: ${parsed.type}`, fields: toFields(parsed.info ?? {}) };
+    }
+    return { kind: data.program, fields: toFields(parsed) };
+  }
+
+  const program = programs.find((p) => p.programId.equals(account.owner));
+  if (!program || data.length === 0) return { kind: null, fields: [] };
+  try {
+    const decoded = decodeAccount(program, data);
+    const fields = Object.entries(decoded.data as Record<string, unknown>).map(([name, value]) => ({
+      name,
+      value: formatValue(value),
+      address: value instanceof PublicKey,
+    }));
+    return { kind: `${program.idl.metadata.name}: ${decoded.name}`, fields };
+  } catch {
+    return { kind: null, fields: [] };
+  }
+}
+
+/**
+ * Loads an account for the address screen. Resolves to null when it does not exist on the cluster.
+ */
+export async function inspectAccount(connection: Connection, address: PublicKey): Promise<InspectedAccount | null> {
+  const { value: account } = await connection.getParsedAccountInfo(address);
+  if (!account) return null;
+
+  const programs = getKnownPrograms(connection);
+  const owner = account.owner.toBase58();
+  return {
+    lamports: account.lamports,
+    owner,
+    ownerName: getProgramName(owner, programs),
+    executable: account.executable,
+    space: Buffer.isBuffer(account.data) ? account.data.length : account.data.space,
+    ...decodeAccountData(account, programs),
+  };
+}
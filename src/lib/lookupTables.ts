@@ -0,0 +1,219 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionSignature,
+} from '@solana/web3.js';
+import { ConfirmFn, TransactionSigner } from './transactionService';
+
+const LOOKUP_TABLES_KEY = 'lazorkit-starter-lookup-tables';
+// Addresses per extend instruction. Each costs 32 bytes, and the smart wallet's execute wrapper
+// has to fit around them
+const EXTEND_BATCH_SIZE = 20;
+export const MAX_TABLE_ADDRESSES = 256;
+// A deactivated table can only be closed once its deactivation slot has left the SlotHashes sysvar
+const DEACTIVATION_COOLDOWN_SLOTS = 513;
+// Table account data: type (4), deactivation slot (8), last extended slot (8), its start index (1),
+// then the authority as an Option<Pubkey>
+const AUTHORITY_OFFSET = 22;
+const U64_MAX = BigInt('0xffffffffffffffff');
+
+export type LookupTableStatus = 'active' | 'deactivating' | 'closable';
+
+export interface LookupTableInfo {
+  account: AddressLookupTableAccount;
+  status: LookupTableStatus;
+}
+
+// Tables differ per cluster for the same owner
+function getOwnerKey(cluster: string, owner: PublicKey): string {
+  return `${cluster}:${owner.toBase58()}`;
+}
+
+function loadAll(): Record<string, string[]> {
+  try {
+    const stored = localStorage.getItem(LOOKUP_TABLES_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, string[]>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Table addresses this browser has created, imported or discovered for the owner.
+ */
+export function loadKnownTables(cluster: string, owner: PublicKey): PublicKey[] {
+  return (loadAll()[getOwnerKey(cluster, owner)] ?? []).map((address) => new PublicKey(address));
+}
+
+function storeKnownTables(cluster: string, owner: PublicKey, tables: PublicKey[]): PublicKey[] {
+  const unique = [...new Set(tables.map((table) => table.toBase58()))];
+  localStorage.setItem(LOOKUP_TABLES_KEY, JSON.stringify({ ...loadAll(), [getOwnerKey(cluster, owner)]: unique }));
+  return unique.map((address) => new PublicKey(address));
+}
+
+export function rememberTables(cluster: string, owner: PublicKey, tables: PublicKey[]): PublicKey[] {
+  return storeKnownTables(cluster, owner, [...loadKnownTables(cluster, owner), ...tables]);
+}
+
+export function forgetTable(cluster: string, owner: PublicKey, table: PublicKey): PublicKey[] {
+  return storeKnownTables(
+    cluster,
+    owner,
+    loadKnownTables(cluster, owner).filter((known) => !known.equals(table))
+  );
+}
+
+/**
+ * Every table on chain whose authority is `owner`. This scans the lookup table program, which some
+ * RPC providers refuse, so it only runs when asked for.
+ */
+export async function discoverLookupTables(connection: Connection, owner: PublicKey): Promise<PublicKey[]> {
+  const accounts = await connection.getProgramAccounts(AddressLookupTableProgram.programId, {
+    dataSlice: { offset: 0, length: 0 },
+    filters: [{ memcmp: { offset: AUTHORITY_OFFSET, bytes: owner.toBase58() } }],
+  });
+  return accounts.map((account) => account.pubkey);
+}
+
+function getStatus(account: AddressLookupTableAccount, slot: number): LookupTableStatus {
+  const { deactivationSlot } = account.state;
+  if (deactivationSlot === U64_MAX) return 'active';
+  return BigInt(slot) - deactivationSlot > BigInt(DEACTIVATION_COOLDOWN_SLOTS) ? 'closable' : 'deactivating';
+}
+
+/**
+ * Loads the tables at `addresses`, skipping closed ones and any `owner` no longer controls.
+ */
+export async function fetchLookupTables(
+  connection: Connection,
+  owner: PublicKey,
+  addresses: PublicKey[]
+): Promise<LookupTableInfo[]> {
+  if (addresses.length === 0) return [];
+  const [accounts, slot] = await Promise.all([connection.getMultipleAccountsInfo(addresses), connection.getSlot()]);
+
+  return accounts.flatMap((info, index) => {
+    if (!info || !info.owner.equals(AddressLookupTableProgram.programId)) return [];
+    const account = new AddressLookupTableAccount({
+      key: addresses[index],
+      state: AddressLookupTableAccount.deserialize(info.data),
+    });
+    if (!account.state.authority?.equals(owner)) return [];
+    return [{ account, status: getStatus(account, slot) }];
+  });
+}
+
+function extendInstructions(owner: PublicKey, table: PublicKey, addresses: PublicKey[]) {
+  const instructions = [];
+  for (let start = 0; start < addresses.length; start += EXTEND_BATCH_SIZE) {
+    instructions.push(
+      AddressLookupTableProgram.extendLookupTable({
+        lookupTable: table,
+        authority: owner,
+        payer: owner,
+        addresses: addresses.slice(start, start + EXTEND_BATCH_SIZE),
+      })
+    );
+  }
+  return instructions;
+}
+
+async function sendEach(
+  signer: TransactionSigner,
+  instructions: TransactionInstruction[][],
+  confirm: ConfirmFn
+): Promise<TransactionSignature[]> {
+  const signatures: TransactionSignature[] = [];
+  for (const batch of instructions) {
+    const signature = await signer.signAndSend(batch);
+    await confirm(signature);
+    signatures.push(signature);
+  }
+  return signatures;
+}
+
+function uniqueAddresses(addresses: PublicKey[], existing: PublicKey[] = []): PublicKey[] {
+  const seen = new Set(existing.map((address) => address.toBase58()));
+  const unique = [...new Set(addresses.map((address) => address.toBase58()))].filter((address) => !seen.has(address));
+  if (seen.size + unique.length > MAX_TABLE_ADDRESSES) {
+    throw new Error(`A lookup table holds at most ${MAX_TABLE_ADDRESSES} addresses`);
+  }
+  return unique.map((address) => new PublicKey(address));
+}
+
+/**
+ * Creates a table with the signer as authority and rent payer, filled with the first batch of
+ * `addresses` in the same transaction and the rest afterwards, one transaction per batch.
+ */
+export async function createLookupTable(
+  connection: Connection,
+  signer: TransactionSigner,
+  addresses: PublicKey[],
+  confirm: ConfirmFn
+): Promise<PublicKey> {
+  const owner = signer.publicKey;
+  // The table address is derived from a recent slot, which must still be in SlotHashes when the
+  // transaction lands; the passkey prompt can take a while, so use the newest one
+  const recentSlot = await connection.getSlot('confirmed');
+  const [create, table] = AddressLookupTableProgram.createLookupTable({ authority: owner, payer: owner, recentSlot });
+  const [first, ...rest] = extendInstructions(owner, table, uniqueAddresses(addresses));
+
+  await sendEach(signer, [first ? [create, first] : [create], ...rest.map((instruction) => [instruction])], confirm);
+  return table;
+}
+
+/**
+ * Adds addresses to a table the signer owns, one transaction per batch. Addresses already in the
+ * table are left out.
+ */
+export function extendLookupTable(
+  signer: TransactionSigner,
+  table: AddressLookupTableAccount,
+  addresses: PublicKey[],
+  confirm: ConfirmFn
+): Promise<TransactionSignature[]> {
+  const added = uniqueAddresses(addresses, table.state.addresses);
+  return sendEach(
+    signer,
+    extendInstructions(signer.publicKey, table.key, added).map((instruction) => [instruction]),
+    confirm
+  );
+}
+
+/**
+ * Starts the cooldown after which the table can be closed. A deactivated table can no longer be
+ * used or extended.
+ */
+export async function deactivateLookupTable(
+  signer: TransactionSigner,
+  table: PublicKey,
+  confirm: ConfirmFn
+): Promise<TransactionSignature> {
+  const signature = await signer.signAndSend([
+    AddressLookupTableProgram.deactivateLookupTable({ lookupTable: table, authority: signer.publicKey }),
+  ]);
+  await confirm(signature);
+  return signature;
+}
+
+/**
+ * Closes a table whose cooldown has passed and returns its rent to the signer.
+ */
+export async function closeLookupTable(
+  signer: TransactionSigner,
+  table: PublicKey,
+  confirm: ConfirmFn
+): Promise<TransactionSignature> {
+  const signature = await signer.signAndSend([
+    AddressLookupTableProgram.closeLookupTable({
+      lookupTable: table,
+      authority: signer.publicKey,
+      recipient: signer.publicKey,
+    }),
+  ]);
+  await confirm(signature);
+  return signature;
+}
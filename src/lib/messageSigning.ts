@@ -0,0 +1,252 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import type { WalletHookInterface } from '@lazorkit/wallet';
+import type { WalletContextState } from '@solana/wallet-adapter-react';
+import { fetchWalletDevices } from './recovery';
+import { SignInFields, buildSignInMessage } from './siws';
+
+/**
+ * `passkey`: a LazorKit smart wallet, signed by one of its passkeys (P-256 over WebAuthn data).
+ * `ed25519`: a regular Solana keypair signing the message bytes directly.
+ */
+export type SignatureScheme = 'passkey' | 'ed25519';
+
+/**
+ * A signed message in a form that can be copied to a backend as JSON. Binary values are base64.
+ */
+export interface SignedMessage {
+  scheme: SignatureScheme;
+  // The smart wallet for passkey signatures, the signing key otherwise
+  address: string;
+  message: string;
+  signature: string;
+  // Passkey only: the WebAuthn data (authenticator data and client data hash) the passkey signed
+  signedPayload?: string;
+}
+
+/**
+ * Common interface over LazorKit's `signMessage` and wallet-adapter's `signMessage` / `signIn`.
+ */
+export interface MessageSigner {
+  readonly address: PublicKey;
+  signMessage(message: string): Promise<SignedMessage>;
+  // Only wallets implementing `solana:signIn`, which compose the sign-in message themselves
+  signIn?(fields: SignInFields): Promise<SignedMessage>;
+}
+
+export interface VerificationCheck {
+  label: string;
+  // null when this check cannot be made for the signature
+  ok: boolean | null;
+  detail?: string;
+}
+
+const ED25519_SIGNATURE_LENGTH = 64;
+
+// Compressed secp256r1 public key, as stored in walletDevice accounts
+const PASSKEY_PUBLIC_KEY_LENGTH = 33;
+
+// P-256 field prime and curve constant b, for decompressing passkey public keys
+const P256_P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn;
+const P256_B = 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn;
+
+/**
+ * Wraps LazorKit's `signMessage`, which opens the portal for a passkey signature.
+ */
+export function createLazorkitMessageSigner(
+  smartWallet: PublicKey,
+  signMessage: WalletHookInterface['signMessage']
+): MessageSigner {
+  return {
+    address: smartWallet,
+    signMessage: async (message) => {
+      const { signature, signedPayload } = await signMessage(message);
+      return { scheme: 'passkey', address: smartWallet.toBase58(), message, signature, signedPayload };
+    },
+  };
+}
+
+/**
+ * Wraps wallet-adapter's `signMessage`, and `signIn` when the wallet has it.
+ */
+export function createWalletAdapterMessageSigner(
+  publicKey: PublicKey,
+  signMessage: NonNullable<WalletContextState['signMessage']>,
+  signIn?: WalletContextState['signIn']
+): MessageSigner {
+  const address = publicKey.toBase58();
+  return {
+    address: publicKey,
+    signMessage: async (message) =>
+      fromAdapterSignature(address, message, await signMessage(new TextEncoder().encode(message))),
+    signIn: signIn
+      ? async (fields) => {
+          const output = await signIn(fields);
+          return fromAdapterSignature(address, new TextDecoder().decode(output.signedMessage), output.signature);
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Wallet-adapter returns raw signature bytes. LazorKit's adapter returns the UTF-8 JSON of its
+ * `{ signature, signedPayload }` pair instead, since a passkey signature is not over the message itself.
+ */
+function fromAdapterSignature(address: string, message: string, bytes: Uint8Array): SignedMessage {
+  if (bytes.length === ED25519_SIGNATURE_LENGTH) {
+    return { scheme: 'ed25519', address, message, signature: Buffer.from(bytes).toString('base64') };
+  }
+  try {
+    const { signature, signedPayload } = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof signature === 'string' && typeof signedPayload === 'string') {
+      return { scheme: 'passkey', address, message, signature, signedPayload };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new Error('The wallet returned a signature in an unknown format');
+}
+
+/**
+ * Signs a sign-in message, letting the wallet compose it when it implements `solana:signIn`.
+ */
+export function signIn(signer: MessageSigner, fields: SignInFields): Promise<SignedMessage> {
+  return signer.signIn ? signer.signIn(fields) : signer.signMessage(buildSignInMessage(fields));
+}
+
+/**
+ * Reads a `SignedMessage` pasted as JSON. Throws an Error naming the first missing field.
+ */
+export function parseSignedMessage(json: string): SignedMessage {
+  let value: Partial<SignedMessage>;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  if (value.scheme !== 'passkey' && value.scheme !== 'ed25519') {
+    throw new Error('scheme must be "passkey" or "ed25519"');
+  }
+  for (const field of ['address', 'message', 'signature'] as const) {
+    if (typeof value[field] !== 'string') throw new Error(`${field} is missing`);
+  }
+  if (value.scheme === 'passkey' && typeof value.signedPayload !== 'string') {
+    throw new Error('signedPayload is missing');
+  }
+  return value as SignedMessage;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  return Buffer.from(value.toString(16).padStart(length * 2, '0'), 'hex');
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base %= modulus;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Expands a 33-byte compressed P-256 key to the uncompressed form WebCrypto imports everywhere.
+ * y² = x³ − 3x + b, and p ≡ 3 (mod 4) gives the square root as a single power.
+ */
+function decompressP256(compressed: Uint8Array): Uint8Array {
+  const x = bytesToBigInt(compressed.subarray(1));
+  const ySquared = (((x * x * x - 3n * x + P256_B) % P256_P) + P256_P) % P256_P;
+  let y = modPow(ySquared, (P256_P + 1n) / 4n, P256_P);
+  if ((y & 1n) !== BigInt(compressed[0] & 1)) y = P256_P - y;
+  return Buffer.concat([Buffer.from([0x04]), bigIntToBytes(x, 32), bigIntToBytes(y, 32)]);
+}
+
+/**
+ * WebCrypto wants ECDSA signatures as r‖s; authenticators usually hand out DER.
+ */
+function toRawEcdsaSignature(signature: Uint8Array): Uint8Array {
+  if (signature.length === 64) return signature;
+  if (signature[0] !== 0x30) throw new Error('Unrecognised ECDSA signature encoding');
+
+  const readInteger = (offset: number): [Uint8Array, number] => {
+    if (signature[offset] !== 0x02) throw new Error('Malformed DER signature');
+    const length = signature[offset + 1];
+    const value = signature.subarray(offset + 2, offset + 2 + length);
+    return [bigIntToBytes(bytesToBigInt(value), 32), offset + 2 + length];
+  };
+  const [r, next] = readInteger(2);
+  const [s] = readInteger(next);
+  return Buffer.concat([r, s]);
+}
+
+async function verifyP256(publicKey: Uint8Array, signature: Uint8Array, payload: Uint8Array): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    publicKey.length === PASSKEY_PUBLIC_KEY_LENGTH ? decompressP256(publicKey) : publicKey,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify']
+  );
+  return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, toRawEcdsaSignature(signature), payload);
+}
+
+async function verifyEd25519(signed: SignedMessage): Promise<VerificationCheck[]> {
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey('raw', new PublicKey(signed.address).toBytes(), { name: 'Ed25519' }, false, [
+      'verify',
+    ]);
+  } catch {
+    return [{ label: 'Signature', ok: null, detail: 'This browser cannot verify Ed25519 signatures' }];
+  }
+  const ok = await crypto.subtle.verify(
+    { name: 'Ed25519' },
+    key,
+    Buffer.from(signed.signature, 'base64'),
+    new TextEncoder().encode(signed.message)
+  );
+  return [{ label: 'Signature', ok, detail: ok ? 'Signed by this address' : 'Does not match the message and address' }];
+}
+
+/**
+ * A passkey signs WebAuthn data rather than the message, so this checks the signature against
+ * every passkey registered to the smart wallet on chain. Whether the WebAuthn challenge was built
+ * from this message cannot be seen in the signed payload alone and is reported as unknown.
+ */
+async function verifyPasskey(connection: Connection, signed: SignedMessage): Promise<VerificationCheck[]> {
+  const devices = await fetchWalletDevices(connection, new PublicKey(signed.address));
+  const passkeys = devices.map((device) => device.passkeyPubkey);
+  if (passkeys.length === 0) {
+    return [{ label: 'Smart wallet', ok: false, detail: 'No passkeys are registered to this address on this cluster' }];
+  }
+
+  const signature = Buffer.from(signed.signature, 'base64');
+  const payload = Buffer.from(signed.signedPayload ?? '', 'base64');
+  const results = await Promise.all(
+    passkeys.map((passkey) => verifyP256(passkey, signature, payload).catch(() => false))
+  );
+  const ok = results.some(Boolean);
+
+  return [
+    { label: 'Smart wallet', ok: true, detail: `${passkeys.length} passkey${passkeys.length === 1 ? '' : 's'} registered` },
+    {
+      label: 'Signature',
+      ok,
+      detail: ok ? 'Signed by a passkey of this smart wallet' : 'No registered passkey produced this signature',
+    },
+    {
+      label: 'Message',
+      ok: null,
+      detail: 'The portal does not return the WebAuthn client data, so the challenge cannot be matched to the message',
+    },
+  ];
+}
+
+export function verifySignedMessage(connection: Connection, signed: SignedMessage): Promise<VerificationCheck[]> {
+  return signed.scheme === 'passkey' ? verifyPasskey(connection, signed) : verifyEd25519(signed);
+}
@@ -0,0 +1,144 @@
+import { Connection, Keypair, VersionedTransaction } from '@solana/web3.js';
+import type { IdentifierString, Wallet, WalletAccount, WalletIcon } from '@wallet-standard/base';
+import type {
+  StandardConnectFeature,
+  StandardDisconnectFeature,
+  StandardEventsFeature,
+  StandardEventsListeners,
+} from '@wallet-standard/features';
+import type {
+  SolanaSignAndSendTransactionFeature,
+  SolanaSignInFeature,
+  SolanaSignMessageFeature,
+  SolanaSignTransactionFeature,
+} from '@solana/wallet-standard-features';
+import { registerWallet } from '@wallet-standard/wallet';
+import { fundMockWallet, signBytes, signTransactionBytes } from './mockWallet';
+import { buildSignInMessage } from './siws';
+
+export interface MockStandardWalletConfig {
+  keypair: Keypair;
+  rpcUrl: string;
+  chain: IdentifierString;
+}
+
+export const MOCK_WALLET_NAME = 'Mock Wallet';
+
+const ICON: WalletIcon = `data:image/svg+xml;base64,${btoa(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><rect width="32" height="32" rx="8" fill="#64748b"/><text x="16" y="22" font-size="16" text-anchor="middle" fill="white" font-family="sans-serif">M</text></svg>'
+)}`;
+
+type MockFeatures = StandardConnectFeature &
+  StandardDisconnectFeature &
+  StandardEventsFeature &
+  SolanaSignTransactionFeature &
+  SolanaSignAndSendTransactionFeature &
+  SolanaSignMessageFeature &
+  SolanaSignInFeature;
+
+/**
+ * A Wallet Standard wallet backed by a local keypair. Wallet-adapter discovers it the same way
+ * it discovers LazorKit, so the Wallet Standard integration runs unchanged against it.
+ */
+export function createMockStandardWallet({ keypair, rpcUrl, chain }: MockStandardWalletConfig): Wallet {
+  const connection = new Connection(rpcUrl, 'confirmed');
+  const listeners = new Set<StandardEventsListeners['change']>();
+  let accounts: WalletAccount[] = [];
+
+  const account: WalletAccount = Object.freeze({
+    address: keypair.publicKey.toBase58(),
+    publicKey: keypair.publicKey.toBytes(),
+    chains: [chain],
+    features: ['solana:signTransaction', 'solana:signAndSendTransaction', 'solana:signMessage', 'solana:signIn'] as const,
+  });
+
+  const setAccounts = (next: WalletAccount[]) => {
+    accounts = next;
+    listeners.forEach((listener) => listener({ accounts }));
+  };
+
+  const features: MockFeatures = {
+    'standard:connect': {
+      version: '1.0.0',
+      connect: async () => {
+        await fundMockWallet(connection, keypair.publicKey);
+        setAccounts([account]);
+        return { accounts };
+      },
+    },
+    'standard:disconnect': {
+      version: '1.0.0',
+      disconnect: async () => setAccounts([]),
+    },
+    'standard:events': {
+      version: '1.0.0',
+      on: (_event, listener) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    },
+    'solana:signTransaction': {
+      version: '1.0.0',
+      supportedTransactionVersions: ['legacy', 0],
+      signTransaction: async (...inputs) =>
+        inputs.map(({ transaction }) => ({ signedTransaction: signTransactionBytes(keypair, transaction) })),
+    },
+    'solana:signAndSendTransaction': {
+      version: '1.0.0',
+      supportedTransactionVersions: ['legacy', 0],
+      signAndSendTransaction: async (...inputs) =>
+        Promise.all(
+          inputs.map(async ({ transaction: serialized, options }) => {
+            const transaction = VersionedTransaction.deserialize(serialized);
+            transaction.sign([keypair]);
+            await connection.sendRawTransaction(transaction.serialize(), {
+              skipPreflight: options?.skipPreflight,
+              maxRetries: options?.maxRetries,
+            });
+            // The fee payer's signature is the transaction ID
+            return { signature: transaction.signatures[0] };
+          })
+        ),
+    },
+    'solana:signMessage': {
+      version: '1.0.0',
+      signMessage: async (...inputs) =>
+        Promise.all(
+          inputs.map(async ({ message }) => ({ signedMessage: message, signature: await signBytes(keypair, message) }))
+        ),
+    },
+    'solana:signIn': {
+      version: '1.0.0',
+      signIn: async (...inputs) =>
+        Promise.all(
+          inputs.map(async (input) => {
+            const signedMessage = new TextEncoder().encode(
+              buildSignInMessage({
+                ...input,
+                domain: input.domain ?? window.location.host,
+                address: account.address,
+                resources: input.resources && [...input.resources],
+              })
+            );
+            const signature = await signBytes(keypair, signedMessage);
+            return { account, signedMessage, signature, signatureType: 'ed25519' as const };
+          })
+        ),
+    },
+  };
+
+  return {
+    version: '1.0.0',
+    name: MOCK_WALLET_NAME,
+    icon: ICON,
+    chains: [chain],
+    features,
+    get accounts() {
+      return accounts;
+    },
+  };
+}
+
+export function registerMockWallet(config: MockStandardWalletConfig): void {
+  registerWallet(createMockStandardWallet(config));
+}
@@ -0,0 +1,97 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  TransactionInstruction,
+  TransactionSignature,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { buildV0Transaction } from './versionedTransactions';
+
+/**
+ * Signing for the mock wallets: a plain keypair stands in for the passkey, and the wallet pays
+ * its own fees instead of going through a paymaster. Nothing here talks to LazorKit's services.
+ */
+
+const STORAGE_KEY = 'lazorkit-starter-mock-keypair';
+// Topped up on connect when the wallet is empty, so a fresh validator is usable right away
+const AIRDROP_LAMPORTS = 2 * LAMPORTS_PER_SOL;
+// PKCS#8 wrapper for a raw Ed25519 seed, the only private key format WebCrypto imports
+const ED25519_PKCS8_PREFIX = Uint8Array.from([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20,
+]);
+
+export interface MockSendOptions {
+  computeUnitLimit?: number;
+  addressLookupTableAccounts?: AddressLookupTableAccount[];
+}
+
+/**
+ * The mock wallet's keypair: from `secret` (a JSON byte array) when given, otherwise generated
+ * on first use and kept in localStorage so the address survives a reload.
+ */
+export function loadMockKeypair(secret?: string): Keypair {
+  if (secret) {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)));
+  }
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(stored)));
+  }
+  const keypair = Keypair.generate();
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(keypair.secretKey)));
+  return keypair;
+}
+
+/**
+ * Airdrops to an empty wallet and waits for it to land. Clusters without a faucet are left alone.
+ */
+export async function fundMockWallet(connection: Connection, publicKey: PublicKey): Promise<void> {
+  if ((await connection.getBalance(publicKey)) > 0) return;
+  try {
+    const signature = await connection.requestAirdrop(publicKey, AIRDROP_LAMPORTS);
+    const latest = await connection.getLatestBlockhash();
+    await connection.confirmTransaction({ signature, ...latest }, 'confirmed');
+  } catch (err) {
+    console.warn('Mock wallet airdrop failed:', err);
+  }
+}
+
+export async function signBytes(keypair: Keypair, bytes: Uint8Array): Promise<Uint8Array> {
+  const pkcs8 = new Uint8Array(ED25519_PKCS8_PREFIX.length + 32);
+  pkcs8.set(ED25519_PKCS8_PREFIX);
+  pkcs8.set(keypair.secretKey.subarray(0, 32), ED25519_PKCS8_PREFIX.length);
+  const key = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign({ name: 'Ed25519' }, key, bytes));
+}
+
+export async function verifyBytes(publicKey: Uint8Array, signature: Uint8Array, bytes: Uint8Array): Promise<boolean> {
+  const key = await crypto.subtle.importKey('raw', publicKey, { name: 'Ed25519' }, false, ['verify']);
+  return crypto.subtle.verify({ name: 'Ed25519' }, key, signature, bytes);
+}
+
+/**
+ * Signs a transaction the app built elsewhere, if the keypair is one of its signers.
+ */
+export function signTransactionBytes(keypair: Keypair, serialized: Uint8Array): Uint8Array {
+  const transaction = VersionedTransaction.deserialize(serialized);
+  transaction.sign([keypair]);
+  return transaction.serialize();
+}
+
+/**
+ * Builds, signs and sends `instructions` with the keypair as fee payer, mirroring the options
+ * LazorKit's `signAndSendTransaction` takes.
+ */
+export async function sendWithKeypair(
+  connection: Connection,
+  keypair: Keypair,
+  instructions: TransactionInstruction[],
+  options: MockSendOptions = {}
+): Promise<TransactionSignature> {
+  const transaction = await buildV0Transaction(connection, keypair.publicKey, instructions, options);
+  transaction.sign([keypair]);
+  return connection.sendRawTransaction(transaction.serialize());
+}
@@ -0,0 +1,44 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+
+// Solana Name Service (SNS) program and the `.sol` top-level domain account
+const NAME_PROGRAM_ID = new PublicKey('namesLPneVptA9Z5rqUDD9tMTWEJwofgaYwp8cawRkX');
+const SOL_TLD = new PublicKey('58PwtjSDuFHuUkYjH9BYnnQKHfwo9reZhC2zMJv9JPkx');
+const HASH_PREFIX = 'SPL Name Service';
+// Name record header: parent name (32) + owner (32) + class (32)
+const OWNER_OFFSET = 32;
+const HEADER_SIZE = 96;
+
+export function isSolDomain(value: string): boolean {
+  return /^([a-z0-9-]+\.)?[a-z0-9-]+\.sol$/i.test(value.trim());
+}
+
+async function getHashedName(name: string): Promise<Buffer> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(HASH_PREFIX + name));
+  return Buffer.from(digest);
+}
+
+async function getNameAccount(name: string, parent: PublicKey): Promise<PublicKey> {
+  const hashed = await getHashedName(name);
+  // No name class: the seed is 32 zero bytes
+  return PublicKey.findProgramAddressSync([hashed, Buffer.alloc(32), parent.toBuffer()], NAME_PROGRAM_ID)[0];
+}
+
+/**
+ * Resolves `name.sol` (or `sub.name.sol`) to the owner of its name record.
+ * Domains that were tokenized are owned by the tokenizer's escrow, which is what this returns for them.
+ */
+export async function resolveSolDomain(connection: Connection, domain: string): Promise<PublicKey> {
+  const labels = domain.trim().toLowerCase().replace(/\.sol$/, '').split('.');
+  const [name, sub] = labels.length === 2 ? [labels[1], labels[0]] : [labels[0], undefined];
+
+  let account = await getNameAccount(name, SOL_TLD);
+  // Subdomain names are prefixed with a zero byte
+  if (sub) account = await getNameAccount(`\0${sub}`, account);
+
+  const info = await connection.getAccountInfo(account);
+  if (!info || !info.owner.equals(NAME_PROGRAM_ID) || info.data.length < HEADER_SIZE) {
+    throw new Error(`${domain.trim()} is not registered on this cluster`);
+  }
+
+  return new PublicKey(info.data.subarray(OWNER_OFFSET, OWNER_OFFSET + 32));
+}
@@ -0,0 +1,161 @@
+import { PublicKey } from '@solana/web3.js';
+import { PaymasterRejectedError } from './walletErrors';
+
+/**
+ * `covered`: the paymaster pays the fee for free. `charged`: it fronts the fee and takes it back in a token.
+ * `none`: no paymaster is configured, so the wallet pays.
+ */
+export type PaymasterCoverageStatus = 'covered' | 'charged' | 'not-covered' | 'unknown' | 'none';
+
+export interface PaymasterCoverage {
+  status: PaymasterCoverageStatus;
+  detail: string;
+}
+
+/**
+ * Sponsorship limits. Not part of Kora: the local paymaster in `server/paymaster` adds it to
+ * `getConfig`. Null limits are not enforced.
+ */
+export interface SponsorshipPolicy {
+  allowed_programs: string[];
+  max_fee_lamports: number | null;
+  daily_limit_lamports: number | null;
+  daily_limit_transactions: number | null;
+}
+
+// Subset of the Kora `getConfig` response the coverage check reads
+export interface KoraConfig {
+  fee_payers?: string[];
+  validation_config?: {
+    max_allowed_lamports?: number;
+    price?: { type?: string };
+  };
+  sponsorship_policy?: SponsorshipPolicy;
+}
+
+/**
+ * What is left of a wallet's sponsorship for the day, from the local paymaster's
+ * `getSponsorshipAllowance`.
+ */
+export interface PaymasterAllowance {
+  wallet: string;
+  used_lamports: number;
+  used_transactions: number;
+  remaining_lamports: number | null;
+  remaining_transactions: number | null;
+  // ISO timestamp of the next reset
+  resets_at: string;
+}
+
+// Who the transaction is for and which programs it calls, for paymasters that limit either
+export interface CoverageContext {
+  wallet?: PublicKey;
+  programIds?: PublicKey[];
+}
+
+/**
+ * Calls a method on a Kora-compatible paymaster, which is what LazorKit's `paymasterUrl` points at.
+ */
+export async function callPaymaster<T>(paymasterUrl: string, method: string, params: unknown = []): Promise<T> {
+  const response = await fetch(paymasterUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+  });
+  if (!response.ok) {
+    throw new PaymasterRejectedError(`${response.status} ${response.statusText}`);
+  }
+
+  const body = await response.json();
+  if (body.error) {
+    throw new PaymasterRejectedError(body.error.message || `${method} failed`);
+  }
+  return body.result as T;
+}
+
+/**
+ * The account the paymaster signs as fee payer.
+ */
+export async function fetchPaymasterPayer(paymasterUrl: string): Promise<PublicKey> {
+  const { signer_address } = await callPaymaster<{ signer_address: string }>(paymasterUrl, 'getPayerSigner');
+  return new PublicKey(signer_address);
+}
+
+export async function fetchPaymasterConfig(paymasterUrl: string): Promise<KoraConfig> {
+  return callPaymaster<KoraConfig>(paymasterUrl, 'getConfig');
+}
+
+/**
+ * The wallet's remaining daily sponsorship, or null when the paymaster does not track allowances
+ * (a hosted Kora answers "method not found").
+ */
+export async function fetchPaymasterAllowance(
+  paymasterUrl: string,
+  wallet: PublicKey
+): Promise<PaymasterAllowance | null> {
+  try {
+    return await callPaymaster<PaymasterAllowance>(paymasterUrl, 'getSponsorshipAllowance', {
+      wallet: wallet.toBase58(),
+    });
+  } catch (error) {
+    if (error instanceof PaymasterRejectedError && /not found/i.test(error.reason)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Reads the paymaster's policy and decides whether it will pay a fee of `feeLamports`. Program
+ * and allowance limits are only checked when the paymaster publishes a sponsorship policy.
+ */
+export async function checkPaymasterCoverage(
+  paymasterUrl: string | undefined,
+  feeLamports: number | null,
+  { wallet, programIds = [] }: CoverageContext = {}
+): Promise<PaymasterCoverage> {
+  if (!paymasterUrl) {
+    return { status: 'none', detail: 'No paymaster configured. The network fee is paid from your wallet.' };
+  }
+
+  let config: KoraConfig;
+  try {
+    config = await fetchPaymasterConfig(paymasterUrl);
+  } catch (error) {
+    console.error('Paymaster config error:', error);
+    return { status: 'unknown', detail: 'Could not reach the paymaster to check its fee policy.' };
+  }
+
+  const limit = config.validation_config?.max_allowed_lamports;
+  if (feeLamports !== null && limit !== undefined && feeLamports > limit) {
+    return { status: 'not-covered', detail: `The fee exceeds the paymaster limit of ${limit} lamports.` };
+  }
+
+  const policy = config.sponsorship_policy;
+  if (policy) {
+    const allowed = new Set(policy.allowed_programs);
+    const blocked = programIds.find((programId) => !allowed.has(programId.toBase58()));
+    if (blocked) {
+      return { status: 'not-covered', detail: `The paymaster does not sponsor program ${blocked.toBase58()}.` };
+    }
+
+    const allowance = wallet ? await fetchPaymasterAllowance(paymasterUrl, wallet).catch(() => null) : null;
+    if (allowance?.remaining_transactions === 0) {
+      return { status: 'not-covered', detail: 'This wallet has used its sponsored transactions for today.' };
+    }
+    if (
+      allowance?.remaining_lamports != null &&
+      feeLamports !== null &&
+      feeLamports > allowance.remaining_lamports
+    ) {
+      return {
+        status: 'not-covered',
+        detail: `The fee exceeds the ${allowance.remaining_lamports} lamports left of today's sponsorship.`,
+      };
+    }
+  }
+
+  const priceType = config.validation_config?.price?.type;
+  if (priceType && priceType !== 'free') {
+    return { status: 'charged', detail: 'The paymaster fronts the fee and charges it back in a supported token.' };
+  }
+  return { status: 'covered', detail: 'The paymaster pays the network fee.' };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { ComputeBudgetProgram, Keypair, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createTransferCheckedInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { EMPTY_POLICY, WalletPolicy, checkTransfers, fromInstructions, isPolicyActive, withoutRules } from './policies';
+import { TokenBalance } from './tokenService';
+
+const owner = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+const token: TokenBalance = {
+  mint,
+  tokenAccount: getAssociatedTokenAddressSync(mint, owner, true),
+  programId: TOKEN_PROGRAM_ID,
+  amount: 10_000_000n,
+  decimals: 6,
+  uiAmount: '10',
+  symbol: 'USDC',
+};
+const recipientTokenAccount = getAssociatedTokenAddressSync(mint, recipient, true);
+
+describe('fromInstructions', () => {
+  it('reads SOL transfers from the wallet', () => {
+    const instructions = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
+      SystemProgram.transfer({ fromPubkey: owner, toPubkey: recipient, lamports: 1_500_000_000 }),
+    ];
+    expect(fromInstructions(instructions, owner, [token])).toEqual([
+      { recipient: recipient.toBase58(), units: 1_500_000_000n, decimals: 9, asset: 'SOL' },
+    ]);
+  });
+
+  it('reads token transfers, looking up the mint of an unchecked one', () => {
+    const instructions = [
+      createAssociatedTokenAccountIdempotentInstruction(owner, recipientTokenAccount, recipient, mint),
+      createTransferInstruction(token.tokenAccount, recipientTokenAccount, owner, 1_000_000n),
+      createTransferCheckedInstruction(token.tokenAccount, mint, recipientTokenAccount, owner, 2_000_000n, 6),
+    ];
+    const expected = {
+      recipient: recipientTokenAccount.toBase58(),
+      mint: mint.toBase58(),
+      decimals: 6,
+      asset: 'USDC',
+      tokenProgram: TOKEN_PROGRAM_ID.toBase58(),
+    };
+    expect(fromInstructions(instructions, owner, [token])).toEqual([
+      { ...expected, units: 1_000_000n },
+      { ...expected, units: 2_000_000n },
+    ]);
+  });
+
+  it('ignores instructions that do not use the wallet', () => {
+    const other = Keypair.generate().publicKey;
+    const instructions = [
+      SystemProgram.transfer({ fromPubkey: other, toPubkey: recipient, lamports: 1000 }),
+      new TransactionInstruction({ programId: Keypair.generate().publicKey, keys: [], data: Buffer.from([1]) }),
+    ];
+    expect(fromInstructions(instructions, owner, [token])).toEqual([]);
+  });
+
+  const unknownProgram = new TransactionInstruction({
+    programId: Keypair.generate().publicKey,
+    keys: [{ pubkey: owner, isSigner: true, isWritable: true }],
+    data: Buffer.alloc(0),
+  });
+  const unknownSource = Keypair.generate().publicKey;
+
+  it.each([
+    ['another program', unknownProgram],
+    ['another System instruction', SystemProgram.assign({ accountPubkey: owner, programId: unknownProgram.programId })],
+    ['another token instruction', createCloseAccountInstruction(token.tokenAccount, owner, owner)],
+    ['a transfer from an unknown token account', createTransferInstruction(unknownSource, recipientTokenAccount, owner, 1n)],
+  ])('cannot read %s using the wallet', (_, instruction) => {
+    expect(fromInstructions([instruction], owner, [token])).toBeNull();
+  });
+});
+
+describe('checkTransfers', () => {
+  const allowlisted: WalletPolicy = { ...EMPTY_POLICY, allowlistEnabled: true, allowlist: [recipient.toBase58()] };
+
+  it("allows token transfers into an allowlisted address's token account", () => {
+    const instruction = createTransferCheckedInstruction(token.tokenAccount, mint, recipientTokenAccount, owner, 1n, 6);
+    const transfers = fromInstructions([instruction], owner, [token]) ?? [];
+    expect(checkTransfers(allowlisted, [], transfers)).toBeNull();
+  });
+
+  it('blocks token transfers into other token accounts', () => {
+    const other = getAssociatedTokenAddressSync(mint, Keypair.generate().publicKey, true);
+    const instruction = createTransferCheckedInstruction(token.tokenAccount, mint, other, owner, 1n, 6);
+    const transfers = fromInstructions([instruction], owner, [token]) ?? [];
+    expect(checkTransfers(allowlisted, [], transfers)).toMatchObject({ rule: 'allowlist', index: 0 });
+  });
+
+  it('leaves out skipped rules', () => {
+    const policy: WalletPolicy = { ...allowlisted, limits: [{ perTransaction: '1', daily: '2' }] };
+    const spending = [{ sentAt: Date.now(), units: '2000000000', signature: 'sig' }];
+    const transfer = { recipient: PublicKey.default.toBase58(), units: 500_000_000n, decimals: 9, asset: 'SOL' };
+
+    expect(checkTransfers(policy, spending, [transfer])).toMatchObject({ rule: 'allowlist' });
+    expect(checkTransfers(withoutRules(policy, ['allowlist']), spending, [transfer])).toMatchObject({ rule: 'daily' });
+    expect(checkTransfers(withoutRules(policy, ['allowlist', 'daily']), spending, [transfer])).toBeNull();
+  });
+});
+
+describe('isPolicyActive', () => {
+  it('is off for an empty policy or limits with no amounts', () => {
+    expect(isPolicyActive(EMPTY_POLICY)).toBe(false);
+    expect(isPolicyActive({ ...EMPTY_POLICY, limits: [{ mint: mint.toBase58() }] })).toBe(false);
+  });
+
+  it('is on with a limit or the allowlist', () => {
+    expect(isPolicyActive({ ...EMPTY_POLICY, limits: [{ daily: '1' }] })).toBe(true);
+    expect(isPolicyActive({ ...EMPTY_POLICY, allowlistEnabled: true })).toBe(true);
+  });
+});
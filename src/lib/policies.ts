@@ -0,0 +1,351 @@
+import { PublicKey, SystemInstruction, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  decodeTransferCheckedInstruction,
+  decodeTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { SOL_DECIMALS, formatUnits, parseUnits } from './amounts';
+import { BatchRow } from './batchService';
+import { TokenBalance, getTokenLabel } from './tokenService';
+import { TransferRequest } from './transactionService';
+
+/**
+ * Spending limits and a recipient allowlist for the smart wallet. The LazorKit program has no
+ * instructions for either, so the app enforces them before anything is signed: they guard against
+ * mistakes and unexpected sends from this app, not against someone holding the passkey.
+ */
+
+const POLICY_KEY = 'lazorkit-starter-wallet-policies';
+const SPENDING_KEY = 'lazorkit-starter-policy-spending';
+// Daily limits cover a rolling window rather than a calendar day
+export const SPENDING_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+export interface SpendingLimit {
+  // Omitted for native SOL
+  mint?: string;
+  // Decimal strings in UI units; no limit when omitted
+  perTransaction?: string;
+  daily?: string;
+}
+
+export interface WalletPolicy {
+  limits: SpendingLimit[];
+  allowlistEnabled: boolean;
+  // Base58 addresses transfers may go to while the allowlist is on
+  allowlist: string[];
+}
+
+export const EMPTY_POLICY: WalletPolicy = { limits: [], allowlistEnabled: false, allowlist: [] };
+
+/**
+ * A transfer as the policy engine sees it. `units` are base units of the asset.
+ */
+export interface PolicyTransfer {
+  recipient: string;
+  mint?: string;
+  units: bigint;
+  decimals: number;
+  // 'SOL' or the token label, for messages
+  asset: string;
+  // Set for token transfers read from instructions, whose recipient is a token account
+  tokenProgram?: string;
+}
+
+/**
+ * A transfer sent under the policy, kept for daily limits.
+ */
+export interface SpendingEntry {
+  sentAt: number;
+  mint?: string;
+  // Base units as a decimal string, since JSON has no bigint
+  units: string;
+  signature: string;
+}
+
+// `uninspectable` blocks instructions whose spending cannot be read while a policy is on
+export type PolicyRule = 'allowlist' | 'per-transaction' | 'daily' | 'uninspectable';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  // Index of the first transfer the policy blocks
+  index: number;
+  message: string;
+}
+
+// Policies differ per cluster for the same owner
+function getOwnerKey(cluster: string, owner: PublicKey): string {
+  return `${cluster}:${owner.toBase58()}`;
+}
+
+function loadAll<T>(key: string): Record<string, T> {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as Record<string, T>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function store<T>(key: string, cluster: string, owner: PublicKey, value: T): T {
+  localStorage.setItem(key, JSON.stringify({ ...loadAll<T>(key), [getOwnerKey(cluster, owner)]: value }));
+  return value;
+}
+
+export function isPolicyKey(key: string | null): boolean {
+  return key === POLICY_KEY || key === SPENDING_KEY;
+}
+
+export function loadPolicy(cluster: string, owner: PublicKey): WalletPolicy {
+  return { ...EMPTY_POLICY, ...loadAll<WalletPolicy>(POLICY_KEY)[getOwnerKey(cluster, owner)] };
+}
+
+export function savePolicy(cluster: string, owner: PublicKey, policy: WalletPolicy): WalletPolicy {
+  return store(POLICY_KEY, cluster, owner, policy);
+}
+
+/**
+ * Whether the policy limits or restricts anything.
+ */
+export function isPolicyActive(policy: WalletPolicy): boolean {
+  return policy.allowlistEnabled || policy.limits.some((limit) => limit.perTransaction || limit.daily);
+}
+
+/**
+ * `policy` without the given rules, for transfers that some of them do not apply to.
+ */
+export function withoutRules(policy: WalletPolicy, rules: PolicyRule[]): WalletPolicy {
+  return {
+    allowlistEnabled: policy.allowlistEnabled && !rules.includes('allowlist'),
+    allowlist: policy.allowlist,
+    limits: policy.limits.map(({ mint, perTransaction, daily }) => ({
+      mint,
+      perTransaction: rules.includes('per-transaction') ? undefined : perTransaction,
+      daily: rules.includes('daily') ? undefined : daily,
+    })),
+  };
+}
+
+/**
+ * Transfers sent within the last day, oldest first.
+ */
+export function loadSpending(cluster: string, owner: PublicKey, now = Date.now()): SpendingEntry[] {
+  const entries = loadAll<SpendingEntry[]>(SPENDING_KEY)[getOwnerKey(cluster, owner)] ?? [];
+  return entries.filter((entry) => entry.sentAt > now - SPENDING_WINDOW_MS);
+}
+
+export function recordSpending(
+  cluster: string,
+  owner: PublicKey,
+  transfers: PolicyTransfer[],
+  signature: string
+): SpendingEntry[] {
+  const sentAt = Date.now();
+  const added = transfers.map(({ mint, units }) => ({ sentAt, mint, units: units.toString(), signature }));
+  return store(SPENDING_KEY, cluster, owner, [...loadSpending(cluster, owner, sentAt), ...added]);
+}
+
+/**
+ * The transfer `request` describes, or null when its recipient or amount does not parse. Those
+ * are rejected by the send pipeline with a better message than the policy could give.
+ */
+export function toPolicyTransfer({ recipient, amount, token }: TransferRequest): PolicyTransfer | null {
+  const decimals = token?.decimals ?? SOL_DECIMALS;
+  try {
+    return {
+      recipient: new PublicKey(recipient.trim()).toBase58(),
+      mint: token?.mint.toBase58(),
+      units: parseUnits(amount, decimals),
+      decimals,
+      asset: token ? getTokenLabel(token) : 'SOL',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The transfer a checked batch row describes, or null for rows that did not pass the batch checks.
+ */
+export function fromBatchRow({ recipient, units, token }: BatchRow): PolicyTransfer | null {
+  if (!recipient || units === undefined) return null;
+  return {
+    recipient: recipient.toBase58(),
+    mint: token?.mint.toBase58(),
+    units,
+    decimals: token?.decimals ?? SOL_DECIMALS,
+    asset: token ? getTokenLabel(token) : 'SOL',
+  };
+}
+
+function readTokenTransfer(
+  instruction: TransactionInstruction,
+  owner: PublicKey,
+  tokens: TokenBalance[]
+): PolicyTransfer | 'other' {
+  const { programId } = instruction;
+  try {
+    if (instruction.data[0] === TokenInstruction.Transfer) {
+      const { keys, data } = decodeTransferInstruction(instruction, programId);
+      if (!keys.owner.pubkey.equals(owner)) return 'other';
+      // Without the mint in the instruction, the source must be one of the wallet's token accounts
+      const token = tokens.find((t) => t.tokenAccount.equals(keys.source.pubkey));
+      if (!token) return 'other';
+      return {
+        recipient: keys.destination.pubkey.toBase58(),
+        mint: token.mint.toBase58(),
+        units: data.amount,
+        decimals: token.decimals,
+        asset: getTokenLabel(token),
+        tokenProgram: programId.toBase58(),
+      };
+    }
+    if (instruction.data[0] === TokenInstruction.TransferChecked) {
+      const { keys, data } = decodeTransferCheckedInstruction(instruction, programId);
+      if (!keys.owner.pubkey.equals(owner)) return 'other';
+      const token = tokens.find((t) => t.mint.equals(keys.mint.pubkey));
+      return {
+        recipient: keys.destination.pubkey.toBase58(),
+        mint: keys.mint.pubkey.toBase58(),
+        units: data.amount,
+        decimals: data.decimals,
+        asset: token ? getTokenLabel(token) : keys.mint.pubkey.toBase58(),
+        tokenProgram: programId.toBase58(),
+      };
+    }
+  } catch {
+    // Malformed; the program rejects it anyway, but the policy cannot vouch for it
+  }
+  return 'other';
+}
+
+/**
+ * The transfers out of `owner` in instructions built outside the send form, such as merchant
+ * transactions, the program console and session key funding. Instructions that do not use the
+ * wallet's account cannot spend from it. Of those that do, System and SPL token transfers are read
+ * from their data, and memo and associated token account instructions move nothing but rent.
+ * Returns null when any other instruction uses the wallet, since what it spends cannot be told.
+ */
+export function fromInstructions(
+  instructions: TransactionInstruction[],
+  owner: PublicKey,
+  tokens: TokenBalance[]
+): PolicyTransfer[] | null {
+  const transfers: PolicyTransfer[] = [];
+  for (const instruction of instructions) {
+    const { programId, keys } = instruction;
+    if (!keys.some((key) => key.pubkey.equals(owner))) continue;
+    if (programId.equals(MEMO_PROGRAM_ID) || programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) continue;
+
+    if (programId.equals(SystemProgram.programId)) {
+      try {
+        if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') return null;
+        const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+        if (!fromPubkey.equals(owner)) continue;
+        transfers.push({ recipient: toPubkey.toBase58(), units: lamports, decimals: SOL_DECIMALS, asset: 'SOL' });
+        continue;
+      } catch {
+        return null;
+      }
+    }
+
+    if (programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)) {
+      const transfer = readTokenTransfer(instruction, owner, tokens);
+      if (transfer === 'other') return null;
+      transfers.push(transfer);
+      continue;
+    }
+
+    return null;
+  }
+  return transfers;
+}
+
+// A token transfer read from instructions pays into a token account: the allowlisted address's own
+function isAllowlisted(policy: WalletPolicy, { recipient, mint, tokenProgram }: PolicyTransfer): boolean {
+  if (policy.allowlist.includes(recipient)) return true;
+  if (!mint || !tokenProgram) return false;
+  const mintKey = new PublicKey(mint);
+  const programId = new PublicKey(tokenProgram);
+  return policy.allowlist.some(
+    (address) => getAssociatedTokenAddressSync(mintKey, new PublicKey(address), true, programId).toBase58() === recipient
+  );
+}
+
+export function findLimit(policy: WalletPolicy, mint: string | undefined): SpendingLimit | undefined {
+  return policy.limits.find((limit) => limit.mint === mint);
+}
+
+export function getSpentInWindow(spending: SpendingEntry[], mint: string | undefined, now = Date.now()): bigint {
+  return spending
+    .filter((entry) => entry.mint === mint && entry.sentAt > now - SPENDING_WINDOW_MS)
+    .reduce((total, entry) => total + BigInt(entry.units), 0n);
+}
+
+/**
+ * Checks `transfers`, sent together, against the policy. Daily limits count what was already spent
+ * plus every earlier transfer in the list.
+ */
+export function checkTransfers(
+  policy: WalletPolicy,
+  spending: SpendingEntry[],
+  transfers: PolicyTransfer[],
+  now = Date.now()
+): PolicyViolation | null {
+  const pending = new Map<string | undefined, bigint>();
+
+  for (const [index, transfer] of transfers.entries()) {
+    const amount = `${formatUnits(transfer.units, transfer.decimals)} ${transfer.asset}`;
+
+    if (policy.allowlistEnabled && !isAllowlisted(policy, transfer)) {
+      return {
+        rule: 'allowlist',
+        index,
+        message: `Blocked by your wallet policy: ${transfer.recipient} is not on the recipient allowlist.`,
+      };
+    }
+
+    const limit = findLimit(policy, transfer.mint);
+    if (!limit) continue;
+
+    // Saved limits are checked against the token's decimals, except for tokens not held at the time
+    let perTransaction: bigint | undefined;
+    let daily: bigint | undefined;
+    try {
+      perTransaction = limit.perTransaction ? parseUnits(limit.perTransaction, transfer.decimals) : undefined;
+      daily = limit.daily ? parseUnits(limit.daily, transfer.decimals) : undefined;
+    } catch {
+      return {
+        rule: 'per-transaction',
+        index,
+        message: `Blocked by your wallet policy: the ${transfer.asset} limit is not a valid ${transfer.asset} amount. Update it in your wallet policies.`,
+      };
+    }
+
+    if (perTransaction !== undefined && transfer.units > perTransaction) {
+      return {
+        rule: 'per-transaction',
+        index,
+        message: `Blocked by your wallet policy: ${amount} is over the ${limit.perTransaction} ${transfer.asset} per-transaction limit.`,
+      };
+    }
+
+    const spent = getSpentInWindow(spending, transfer.mint, now) + (pending.get(transfer.mint) ?? 0n);
+    if (daily !== undefined && spent + transfer.units > daily) {
+      return {
+        rule: 'daily',
+        index,
+        message:
+          `Blocked by your wallet policy: ${amount} would go over the ${limit.daily} ${transfer.asset} daily limit ` +
+          `(${formatUnits(spent, transfer.decimals)} ${transfer.asset} sent in the last 24 hours).`,
+      };
+    }
+    pending.set(transfer.mint, (pending.get(transfer.mint) ?? 0n) + transfer.units);
+  }
+
+  return null;
+}
@@ -0,0 +1,136 @@
+import { LazorkitClient } from '@lazorkit/wallet';
+import { Connection, PublicKey } from '@solana/web3.js';
+
+/**
+ * Passkeys registered for a smart wallet. The LazorKit program keeps one `walletDevice` account per
+ * passkey that can sign for a wallet; it has no instructions for adding a passkey to an existing
+ * wallet or for guardians, so this lists what is on chain and keeps the labels in this browser.
+ */
+
+const LABELS_KEY = 'lazorkit-starter-passkey-labels';
+// walletDevice layout: discriminator (8), passkeyPubkey (33), credentialHash (32), smartWallet
+const WALLET_DEVICE_OWNER_OFFSET = 8 + 33 + 32;
+// An account with fewer signatures than this has its creating transaction among them
+const CREATED_LOOKUP_LIMIT = 1000;
+
+/**
+ * A `walletDevice` account: one passkey that can sign for a smart wallet.
+ */
+export interface WalletDevice {
+  address: PublicKey;
+  // Compressed secp256r1 public key
+  passkeyPubkey: Uint8Array;
+  // SHA-256 of the credential ID
+  credentialHash: Uint8Array;
+}
+
+export interface RegisteredPasskey {
+  // The walletDevice account
+  address: string;
+  // Compressed secp256r1 public key, hex
+  passkeyPubkey: string;
+  // SHA-256 of the credential ID, hex
+  credentialHash: string;
+  // Unix ms of the transaction that created the account; null when it could not be found
+  createdAt: number | null;
+  createdSignature?: string;
+}
+
+// Device labels differ per cluster for the same wallet
+function getOwnerKey(cluster: string, owner: PublicKey): string {
+  return `${cluster}:${owner.toBase58()}`;
+}
+
+function loadAll(): Record<string, Record<string, string>> {
+  try {
+    const stored = localStorage.getItem(LABELS_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, Record<string, string>>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+export function isPasskeyLabelKey(key: string | null): boolean {
+  return key === LABELS_KEY;
+}
+
+/**
+ * Labels by walletDevice address.
+ */
+export function loadPasskeyLabels(cluster: string, owner: PublicKey): Record<string, string> {
+  return loadAll()[getOwnerKey(cluster, owner)] ?? {};
+}
+
+/**
+ * Sets the label of the passkey at `address`, or removes it when `label` is blank.
+ */
+export function savePasskeyLabel(
+  cluster: string,
+  owner: PublicKey,
+  address: string,
+  label: string
+): Record<string, string> {
+  const all = loadAll();
+  const ownerKey = getOwnerKey(cluster, owner);
+  const labels = { ...all[ownerKey] };
+  if (label.trim()) {
+    labels[address] = label.trim();
+  } else {
+    delete labels[address];
+  }
+  localStorage.setItem(LABELS_KEY, JSON.stringify({ ...all, [ownerKey]: labels }));
+  return labels;
+}
+
+export function getPasskeyLabel(labels: Record<string, string>, passkey: RegisteredPasskey, index: number): string {
+  return labels[passkey.address] ?? `Passkey ${index + 1}`;
+}
+
+type Creation = Pick<RegisteredPasskey, 'createdAt' | 'createdSignature'>;
+
+async function findCreation(connection: Connection, address: PublicKey): Promise<Creation> {
+  const signatures = await connection.getSignaturesForAddress(address, { limit: CREATED_LOOKUP_LIMIT });
+  const oldest = signatures[signatures.length - 1];
+  if (!oldest || signatures.length === CREATED_LOOKUP_LIMIT || !oldest.blockTime) return { createdAt: null };
+  return { createdAt: oldest.blockTime * 1000, createdSignature: oldest.signature };
+}
+
+/**
+ * The `walletDevice` accounts of `smartWallet`, decoded with the SDK's IDL, in no particular order.
+ * Needs an RPC that allows `getProgramAccounts`.
+ */
+export async function fetchWalletDevices(connection: Connection, smartWallet: PublicKey): Promise<WalletDevice[]> {
+  const client = new LazorkitClient(connection);
+  const accounts = await client.program.account.walletDevice.all([
+    { memcmp: { offset: WALLET_DEVICE_OWNER_OFFSET, bytes: smartWallet.toBase58() } },
+  ]);
+  return accounts.map(({ publicKey, account }) => ({
+    address: publicKey,
+    passkeyPubkey: Uint8Array.from(account.passkeyPubkey),
+    credentialHash: Uint8Array.from(account.credentialHash),
+  }));
+}
+
+/**
+ * Every passkey that can sign for `smartWallet`, oldest first.
+ */
+export async function fetchRegisteredPasskeys(
+  connection: Connection,
+  smartWallet: PublicKey
+): Promise<RegisteredPasskey[]> {
+  const devices = await fetchWalletDevices(connection, smartWallet);
+  const passkeys = await Promise.all(
+    devices.map(async ({ address, passkeyPubkey, credentialHash }) => ({
+      address: address.toBase58(),
+      passkeyPubkey: toHex(passkeyPubkey),
+      credentialHash: toHex(credentialHash),
+      // A missing date is not worth failing the whole list over
+      ...(await findCreation(connection, address).catch(() => ({ createdAt: null }))),
+    }))
+  );
+  return passkeys.sort((a, b) => (a.createdAt ?? Infinity) - (b.createdAt ?? Infinity));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { utils } from '@coral-xyz/anchor';
+import { Keypair } from '@solana/web3.js';
+import { DASHBOARD, formatRoute, parseInspectTarget, parseLocation } from './routes';
+
+describe('parseLocation', () => {
+  it('reads the integration and screen', () => {
+    expect(parseLocation('/direct/receive', '')).toEqual({ integration: 'direct', route: { view: 'receive' } });
+    expect(parseLocation('/wallet-standard/send', '?to=abc&amount=0.1')).toEqual({
+      integration: 'wallet-standard',
+      route: { view: 'send', prefill: { to: 'abc', amount: '0.1', token: undefined } },
+    });
+  });
+
+  it('falls back to the dashboard for unknown screens', () => {
+    expect(parseLocation('/direct/nope', '')).toEqual({ integration: 'direct', route: DASHBOARD });
+    expect(parseLocation('/direct/tx/not-a-signature', '')).toEqual({ integration: 'direct', route: DASHBOARD });
+  });
+
+  it('falls back to the dashboard for base58 of the wrong length', () => {
+    expect(parseLocation('/direct/address/12', '')).toEqual({ integration: 'direct', route: DASHBOARD });
+    // 64 base58 characters, but only 47 bytes
+    expect(parseLocation(`/direct/tx/${'2'.repeat(64)}`, '')).toEqual({ integration: 'direct', route: DASHBOARD });
+  });
+
+  it('falls back to the landing page outside an integration', () => {
+    expect(parseLocation('/', '')).toEqual({ integration: null, route: DASHBOARD });
+    expect(parseLocation('/elsewhere/send', '')).toEqual({ integration: null, route: DASHBOARD });
+  });
+
+  it('falls back to the landing page for malformed percent-encoding', () => {
+    expect(parseLocation('/direct/%E0', '')).toEqual({ integration: null, route: DASHBOARD });
+    expect(parseLocation('/%', '')).toEqual({ integration: null, route: DASHBOARD });
+  });
+
+  it('reads back what formatRoute writes', () => {
+    const address = Keypair.generate().publicKey.toBase58();
+    const route = { view: 'address', address } as const;
+    expect(parseLocation(formatRoute('direct', route), '')).toEqual({ integration: 'direct', route });
+  });
+});
+
+describe('parseInspectTarget', () => {
+  it('tells a signature from an address', () => {
+    const keypair = Keypair.generate();
+    const signature = utils.bytes.bs58.encode(Buffer.alloc(64, 7));
+    expect(parseInspectTarget(` ${signature} `)).toEqual({ view: 'tx', signature });
+    expect(parseInspectTarget(keypair.publicKey.toBase58())).toEqual({ view: 'address', address: keypair.publicKey.toBase58() });
+  });
+
+  it('rejects base58 that is neither', () => {
+    expect(parseInspectTarget('12')).toBeNull();
+    expect(parseInspectTarget('not base58')).toBeNull();
+  });
+});
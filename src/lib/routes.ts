@@ -0,0 +1,135 @@
+import { utils } from '@coral-xyz/anchor';
+
+export type Integration = 'direct' | 'wallet-standard';
+
+/**
+ * Fields a link can fill in on the send screen, e.g. `/direct/send?to=<address>&amount=0.1`.
+ * `token` is a mint address; SOL when omitted.
+ */
+export interface SendPrefill {
+  to?: string;
+  amount?: string;
+  token?: string;
+}
+
+export type AppRoute =
+  | { view: 'dashboard' }
+  | { view: 'send'; prefill: SendPrefill }
+  | { view: 'receive' }
+  | { view: 'batch' }
+  | { view: 'sign' }
+  | { view: 'schedule' }
+  | { view: 'policies' }
+  | { view: 'recovery' }
+  | { view: 'console' }
+  | { view: 'history' }
+  | { view: 'tx'; signature: string }
+  | { view: 'address'; address: string };
+
+export interface AppLocation {
+  // Null on the landing page
+  integration: Integration | null;
+  route: AppRoute;
+}
+
+export const DASHBOARD: AppRoute = { view: 'dashboard' };
+
+const INTEGRATIONS: readonly Integration[] = ['direct', 'wallet-standard'];
+const SIMPLE_VIEWS = ['receive', 'batch', 'sign', 'schedule', 'policies', 'recovery', 'console', 'history'] as const;
+const SIGNATURE_LENGTH = 64;
+const ADDRESS_LENGTH = 32;
+// Vite's `base`, so the app also works from a sub-path
+const BASE = import.meta.env.BASE_URL.replace(/\/$/, '');
+
+function isIntegration(value: string | undefined): value is Integration {
+  return INTEGRATIONS.includes(value as Integration);
+}
+
+// Base58 that decodes to exactly `length` bytes
+function isBase58Of(value: string, length: number): boolean {
+  try {
+    return utils.bytes.bs58.decode(value).length === length;
+  } catch {
+    return false;
+  }
+}
+
+function isSignature(value: string): boolean {
+  return isBase58Of(value, SIGNATURE_LENGTH);
+}
+
+function isAddress(value: string): boolean {
+  return isBase58Of(value, ADDRESS_LENGTH);
+}
+
+function parseRoute(segments: string[], query: URLSearchParams): AppRoute {
+  const [view, param] = segments;
+  if (view === undefined) return DASHBOARD;
+
+  if (view === 'send') {
+    return {
+      view,
+      prefill: {
+        to: query.get('to') ?? undefined,
+        amount: query.get('amount') ?? undefined,
+        token: query.get('token') ?? undefined,
+      },
+    };
+  }
+  if (view === 'tx' && param && isSignature(param)) return { view, signature: param };
+  if (view === 'address' && param && isAddress(param)) return { view, address: param };
+  const simple = SIMPLE_VIEWS.find((name) => name === view);
+  return simple ? { view: simple } : DASHBOARD;
+}
+
+/**
+ * Reads the integration and screen from a URL. Anything unknown falls back to the dashboard, or
+ * to the landing page outside an integration. A path with malformed percent-encoding, such as
+ * `/direct/%E0`, also goes to the landing page.
+ */
+export function parseLocation(pathname: string, search: string): AppLocation {
+  const path = pathname.startsWith(BASE) ? pathname.slice(BASE.length) : pathname;
+  let decoded: string[];
+  try {
+    decoded = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return { integration: null, route: DASHBOARD };
+  }
+  const [integration, ...segments] = decoded;
+  if (!isIntegration(integration)) return { integration: null, route: DASHBOARD };
+  return { integration, route: parseRoute(segments, new URLSearchParams(search)) };
+}
+
+/**
+ * The inspector screen for a pasted signature or address, or null when it is neither.
+ */
+export function parseInspectTarget(value: string): AppRoute | null {
+  const trimmed = value.trim();
+  if (isSignature(trimmed)) return { view: 'tx', signature: trimmed };
+  if (isAddress(trimmed)) return { view: 'address', address: trimmed };
+  return null;
+}
+
+export function formatRoute(integration: Integration | null, route: AppRoute = DASHBOARD): string {
+  if (!integration) return `${BASE}/`;
+  const root = `${BASE}/${integration}`;
+
+  switch (route.view) {
+    case 'dashboard':
+      return root;
+    case 'send': {
+      const query = new URLSearchParams();
+      for (const [key, value] of Object.entries(route.prefill)) {
+        if (value) query.set(key, value);
+      }
+      const search = query.toString();
+      return `${root}/send${search ? `?${search}` : ''}`;
+    }
+    case 'tx':
+      return `${root}/tx/${route.signature}`;
+    case 'address':
+      return `${root}/address/${route.address}`;
+    default:
+      return `${root}/${route.view}`;
+  }
+}
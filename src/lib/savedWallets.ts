@@ -0,0 +1,94 @@
+import { StorageManager, useWalletStore } from '@lazorkit/wallet';
+import type { WalletInfo } from '@lazorkit/wallet';
+import { Connection, PublicKey } from '@solana/web3.js';
+
+const SAVED_WALLETS_KEY = 'lazorkit-starter-saved-wallets';
+
+/**
+ * A smart wallet this browser has connected before. `info` is what the SDK stores for the active
+ * wallet, including the passkey's credential ID, so it can be made active again without the portal.
+ */
+export interface SavedWallet {
+  info: WalletInfo;
+  nickname: string;
+  addedAt: number;
+  lastUsedAt: number;
+}
+
+export function loadSavedWallets(): SavedWallet[] {
+  try {
+    const stored = localStorage.getItem(SAVED_WALLETS_KEY);
+    return stored ? (JSON.parse(stored) as SavedWallet[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function isSavedWalletsKey(key: string | null): boolean {
+  return key === SAVED_WALLETS_KEY;
+}
+
+function store(wallets: SavedWallet[]): SavedWallet[] {
+  localStorage.setItem(SAVED_WALLETS_KEY, JSON.stringify(wallets));
+  return wallets;
+}
+
+/**
+ * Adds the connected wallet to the list, or refreshes its stored info and last use.
+ */
+export function rememberWallet(info: WalletInfo): SavedWallet[] {
+  const wallets = loadSavedWallets();
+  const existing = wallets.find((saved) => saved.info.smartWallet === info.smartWallet);
+  const now = Date.now();
+  if (existing) {
+    return store(wallets.map((saved) => (saved === existing ? { ...saved, info, lastUsedAt: now } : saved)));
+  }
+  const nickname = info.accountName || `Wallet ${wallets.length + 1}`;
+  return store([...wallets, { info, nickname, addedAt: now, lastUsedAt: now }]);
+}
+
+export function renameWallet(smartWallet: string, nickname: string): SavedWallet[] {
+  return store(
+    loadSavedWallets().map((saved) =>
+      saved.info.smartWallet === smartWallet ? { ...saved, nickname: nickname.trim() || saved.nickname } : saved
+    )
+  );
+}
+
+export function forgetWallet(smartWallet: string): SavedWallet[] {
+  return store(loadSavedWallets().filter((saved) => saved.info.smartWallet !== smartWallet));
+}
+
+/**
+ * Makes a saved wallet the SDK's active one, the same state a finished `connect()` leaves behind.
+ * The passkey is only asked for at the next signature.
+ */
+export async function activateWallet(info: WalletInfo): Promise<void> {
+  await StorageManager.saveWallet(info);
+  useWalletStore.setState({ wallet: info, error: null });
+}
+
+/**
+ * Clears the SDK's active wallet without forgetting it here, so the next `connect()` opens the
+ * portal and can pick or create a different passkey.
+ */
+export async function deactivateWallet(): Promise<void> {
+  await StorageManager.clearWallet();
+  useWalletStore.setState({ wallet: null, error: null });
+}
+
+/**
+ * SOL balances of the saved wallets in lamports, keyed by smart wallet address.
+ */
+export async function fetchSavedWalletBalances(
+  connection: Connection,
+  wallets: SavedWallet[]
+): Promise<Record<string, bigint>> {
+  if (wallets.length === 0) return {};
+  const accounts = await connection.getMultipleAccountsInfo(
+    wallets.map((saved) => new PublicKey(saved.info.smartWallet))
+  );
+  return Object.fromEntries(
+    wallets.map((saved, index) => [saved.info.smartWallet, BigInt(accounts[index]?.lamports ?? 0)])
+  );
+}
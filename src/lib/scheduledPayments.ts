@@ -0,0 +1,237 @@
+import { PublicKey } from '@solana/web3.js';
+
+const SCHEDULE_KEY = 'lazorkit-starter-scheduled-payments';
+const LOG_KEY = 'lazorkit-starter-payment-log';
+const MAX_LOG_ENTRIES = 200;
+
+export type Recurrence = 'once' | 'weekly' | 'monthly';
+
+export interface ScheduledPayment {
+  id: string;
+  label: string;
+  recipient: string;
+  // Decimal string in UI units
+  amount: string;
+  // Omitted for native SOL
+  mint?: string;
+  recurrence: Recurrence;
+  // First run, in ms; weekly and monthly runs repeat from it
+  startsAt: number;
+  // Runs already sent or skipped. Runs are handled in order, so this also indexes the next one
+  handledRuns: number;
+  paused: boolean;
+  createdAt: number;
+}
+
+export type NewScheduledPayment = Pick<ScheduledPayment, 'label' | 'recipient' | 'amount' | 'mint' | 'recurrence' | 'startsAt'>;
+
+// `pending` until the tracker sees the run's transaction confirm or fail
+export type PaymentOutcome = 'pending' | 'sent' | 'skipped' | 'failed';
+
+export interface PaymentLogEntry {
+  id: string;
+  paymentId: string;
+  label: string;
+  recipient: string;
+  amount: string;
+  mint?: string;
+  dueAt: number;
+  loggedAt: number;
+  outcome: PaymentOutcome;
+  signature?: string;
+  // Of a pending run's transaction, read after sending; settles it once the tracker has let it go
+  lastValidBlockHeight?: number;
+  // Why a run failed or was skipped
+  reason?: string;
+}
+
+/**
+ * A payment with runs waiting for approval: `dueAt` is the oldest, `count` includes the ones
+ * missed while the app was closed.
+ */
+export interface DuePayment {
+  payment: ScheduledPayment;
+  dueAt: number;
+  count: number;
+}
+
+// Schedules differ per cluster for the same owner
+function getOwnerKey(cluster: string, owner: PublicKey): string {
+  return `${cluster}:${owner.toBase58()}`;
+}
+
+function loadAll<T>(key: string): Record<string, T[]> {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as Record<string, T[]>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function store<T>(key: string, cluster: string, owner: PublicKey, items: T[]): T[] {
+  localStorage.setItem(key, JSON.stringify({ ...loadAll<T>(key), [getOwnerKey(cluster, owner)]: items }));
+  return items;
+}
+
+export function isScheduleKey(key: string | null): boolean {
+  return key === SCHEDULE_KEY || key === LOG_KEY;
+}
+
+export function loadScheduledPayments(cluster: string, owner: PublicKey): ScheduledPayment[] {
+  return loadAll<ScheduledPayment>(SCHEDULE_KEY)[getOwnerKey(cluster, owner)] ?? [];
+}
+
+/**
+ * Newest first.
+ */
+export function loadPaymentLog(cluster: string, owner: PublicKey): PaymentLogEntry[] {
+  return loadAll<PaymentLogEntry>(LOG_KEY)[getOwnerKey(cluster, owner)] ?? [];
+}
+
+export function addScheduledPayment(cluster: string, owner: PublicKey, payment: NewScheduledPayment): ScheduledPayment[] {
+  const created: ScheduledPayment = {
+    ...payment,
+    id: crypto.randomUUID(),
+    label: payment.label.trim(),
+    recipient: payment.recipient.trim(),
+    handledRuns: 0,
+    paused: false,
+    createdAt: Date.now(),
+  };
+  return store(SCHEDULE_KEY, cluster, owner, [...loadScheduledPayments(cluster, owner), created]);
+}
+
+function updatePayment(
+  cluster: string,
+  owner: PublicKey,
+  id: string,
+  update: (payment: ScheduledPayment) => ScheduledPayment
+): ScheduledPayment[] {
+  const payments = loadScheduledPayments(cluster, owner).map((payment) =>
+    payment.id === id ? update(payment) : payment
+  );
+  return store(SCHEDULE_KEY, cluster, owner, payments);
+}
+
+export function setPaymentPaused(cluster: string, owner: PublicKey, id: string, paused: boolean): ScheduledPayment[] {
+  return updatePayment(cluster, owner, id, (payment) => ({ ...payment, paused }));
+}
+
+/**
+ * Marks the next `runs` runs as handled. Reads the stored payment, so a run approved in another
+ * tab is not counted twice.
+ */
+export function advancePayment(cluster: string, owner: PublicKey, id: string, runs = 1): ScheduledPayment[] {
+  return updatePayment(cluster, owner, id, (payment) => ({ ...payment, handledRuns: payment.handledRuns + runs }));
+}
+
+export function removeScheduledPayment(cluster: string, owner: PublicKey, id: string): ScheduledPayment[] {
+  return store(
+    SCHEDULE_KEY,
+    cluster,
+    owner,
+    loadScheduledPayments(cluster, owner).filter((payment) => payment.id !== id)
+  );
+}
+
+export function appendPaymentLog(
+  cluster: string,
+  owner: PublicKey,
+  entry: Omit<PaymentLogEntry, 'id' | 'loggedAt'>
+): PaymentLogEntry[] {
+  const next = [{ ...entry, id: crypto.randomUUID(), loggedAt: Date.now() }, ...loadPaymentLog(cluster, owner)];
+  return store(LOG_KEY, cluster, owner, next.slice(0, MAX_LOG_ENTRIES));
+}
+
+/**
+ * Settles a logged run; `loggedAt` moves to now.
+ */
+export function updatePaymentLog(
+  cluster: string,
+  owner: PublicKey,
+  id: string,
+  update: Pick<PaymentLogEntry, 'outcome' | 'reason'>
+): PaymentLogEntry[] {
+  const entries = loadPaymentLog(cluster, owner).map((entry) =>
+    entry.id === id ? { ...entry, ...update, loggedAt: Date.now() } : entry
+  );
+  return store(LOG_KEY, cluster, owner, entries);
+}
+
+export function clearPaymentLog(cluster: string, owner: PublicKey): PaymentLogEntry[] {
+  return store<PaymentLogEntry>(LOG_KEY, cluster, owner, []);
+}
+
+/**
+ * Adds months in local time, keeping the day of month where it exists: a schedule started on the
+ * 31st runs on the last day of shorter months.
+ */
+function addMonths(time: number, months: number): number {
+  const date = new Date(time);
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1, date.getHours(), date.getMinutes());
+  const daysInMonth = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), daysInMonth));
+  return target.getTime();
+}
+
+/**
+ * When run number `index` (from 0) is due, or null when the schedule has no such run.
+ */
+export function getRunTime(payment: ScheduledPayment, index: number): number | null {
+  switch (payment.recurrence) {
+    case 'once':
+      return index === 0 ? payment.startsAt : null;
+    case 'weekly': {
+      // Local calendar days, so the time of day survives daylight saving changes
+      const date = new Date(payment.startsAt);
+      date.setDate(date.getDate() + 7 * index);
+      return date.getTime();
+    }
+    case 'monthly':
+      return addMonths(payment.startsAt, index);
+  }
+}
+
+export function getNextRunTime(payment: ScheduledPayment): number | null {
+  return getRunTime(payment, payment.handledRuns);
+}
+
+/**
+ * Runs of `payment` that are due at `now` and not yet handled.
+ */
+export function countDueRuns(payment: ScheduledPayment, now: number): number {
+  let count = 0;
+  for (let time = getRunTime(payment, payment.handledRuns); time !== null && time <= now; ) {
+    count += 1;
+    time = getRunTime(payment, payment.handledRuns + count);
+  }
+  return count;
+}
+
+/**
+ * Active payments with runs waiting, oldest due first.
+ */
+export function getDuePayments(payments: ScheduledPayment[], now: number): DuePayment[] {
+  return payments
+    .filter((payment) => !payment.paused)
+    .map((payment) => ({ payment, dueAt: getNextRunTime(payment) ?? 0, count: countDueRuns(payment, now) }))
+    .filter((due) => due.count > 0)
+    .sort((a, b) => a.dueAt - b.dueAt);
+}
+
+export function describeRecurrence(payment: ScheduledPayment): string {
+  const start = new Date(payment.startsAt);
+  switch (payment.recurrence) {
+    case 'once':
+      return 'One time';
+    case 'weekly':
+      return `Weekly on ${start.toLocaleDateString(undefined, { weekday: 'long' })}`;
+    case 'monthly':
+      return `Monthly on day ${start.getDate()}`;
+  }
+}
+
+export function formatRunTime(time: number): string {
+  return new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Connection, Keypair } from '@solana/web3.js';
+import { SessionKey, sweepSessionKey } from './sessionKeys';
+
+const owner = Keypair.generate().publicKey;
+
+function createSession(funding?: SessionKey['funding']): SessionKey {
+  const keypair = Keypair.generate();
+  return {
+    publicKey: keypair.publicKey.toBase58(),
+    secretKey: Array.from(keypair.secretKey),
+    budget: '0.1',
+    maxPerTransfer: '0.01',
+    expiresAt: Date.now(),
+    createdAt: Date.now(),
+    funding,
+  };
+}
+
+function createConnection(blockHeights: number[]) {
+  const getBlockHeight = vi.fn();
+  blockHeights.forEach((height) => getBlockHeight.mockResolvedValueOnce(height));
+  const connection = { getBalance: vi.fn().mockResolvedValue(0), getBlockHeight } as unknown as Connection;
+  return { connection, getBlockHeight };
+}
+
+describe('sweepSessionKey', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns nothing for an empty key without waiting', async () => {
+    const { connection, getBlockHeight } = createConnection([]);
+    await expect(sweepSessionKey(connection, createSession(), owner)).resolves.toBeNull();
+    expect(getBlockHeight).not.toHaveBeenCalled();
+  });
+
+  it('waits for a failed funding to expire before calling the key empty', async () => {
+    vi.useFakeTimers();
+    const { connection, getBlockHeight } = createConnection([200, 251]);
+    const session = createSession({ sentAt: Date.now(), lastValidBlockHeight: 250 });
+
+    const sweep = sweepSessionKey(connection, session, owner);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(sweep).resolves.toBeNull();
+    expect(getBlockHeight).toHaveBeenCalledTimes(2);
+  });
+});
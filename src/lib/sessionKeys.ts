@@ -0,0 +1,193 @@
+import { Connection, Keypair, PACKET_DATA_SIZE, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import { parseSol } from './amounts';
+import { sendWithKeypair } from './mockWallet';
+import { SolBalance, TransactionSigner, TransferRequest, resolveSignOptions } from './transactionService';
+import { hasExpired } from './transactionTracker';
+
+/**
+ * Session keys: a throwaway keypair the smart wallet funds once, with a passkey prompt, so small SOL
+ * transfers can be signed locally until the session expires. The LazorKit program cannot delegate
+ * signing, so the key spends its own balance rather than the wallet's: transfers come from the
+ * session address, and at most the funded budget is ever at risk. Ending the session sends what is
+ * left back to the wallet, signed by the session key alone.
+ */
+
+const STORAGE_KEY = 'lazorkit-starter-session-keys';
+// Base fee for one signature. Session transactions carry no priority fee
+export const SESSION_FEE_LAMPORTS = 5000n;
+// Funded on top of the budget, so fees never eat into it
+const FEE_ALLOWANCE_LAMPORTS = 100n * SESSION_FEE_LAMPORTS;
+const FUNDING_POLL_MS = 2000;
+
+/**
+ * A funding transaction that reported a failure but may still land.
+ */
+export interface PendingFunding {
+  sentAt: number;
+  // Read after the failure, so never earlier than the real one; unknown if that read failed too
+  lastValidBlockHeight?: number;
+}
+
+export interface SessionKey {
+  publicKey: string;
+  secretKey: number[];
+  // SOL the wallet funded the key with, as typed
+  budget: string;
+  // Largest single transfer the key signs, in SOL; larger ones go through the passkey
+  maxPerTransfer: string;
+  expiresAt: number;
+  createdAt: number;
+  // Set when funding failed; the key is kept until that transaction can no longer land
+  funding?: PendingFunding;
+}
+
+export interface NewSessionKey {
+  budget: string;
+  maxPerTransfer: string;
+  durationMs: number;
+}
+
+// Sessions differ per cluster for the same owner
+function getOwnerKey(cluster: string, owner: PublicKey): string {
+  return `${cluster}:${owner.toBase58()}`;
+}
+
+function loadAll(): Record<string, SessionKey> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, SessionKey>) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function isSessionKeyStorageKey(key: string | null): boolean {
+  return key === STORAGE_KEY;
+}
+
+export function loadSessionKey(cluster: string, owner: PublicKey): SessionKey | null {
+  return loadAll()[getOwnerKey(cluster, owner)] ?? null;
+}
+
+/**
+ * Generates the key and stores it before anything is funded, so a tab closed mid-funding cannot
+ * strand SOL on a key nobody has.
+ */
+export function createSessionKey(cluster: string, owner: PublicKey, { budget, maxPerTransfer, durationMs }: NewSessionKey): SessionKey {
+  const keypair = Keypair.generate();
+  const now = Date.now();
+  const session: SessionKey = {
+    publicKey: keypair.publicKey.toBase58(),
+    secretKey: Array.from(keypair.secretKey),
+    budget: budget.trim(),
+    maxPerTransfer: maxPerTransfer.trim(),
+    expiresAt: now + durationMs,
+    createdAt: now,
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadAll(), [getOwnerKey(cluster, owner)]: session }));
+  return session;
+}
+
+/**
+ * Ends the session now without removing the key, so its balance can still be swept back.
+ */
+export function expireSessionKey(cluster: string, owner: PublicKey, funding?: PendingFunding): SessionKey | null {
+  const session = loadSessionKey(cluster, owner);
+  if (!session) return null;
+  const expired = { ...session, expiresAt: Date.now(), ...(funding && { funding }) };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadAll(), [getOwnerKey(cluster, owner)]: expired }));
+  return expired;
+}
+
+export function removeSessionKey(cluster: string, owner: PublicKey): void {
+  const { [getOwnerKey(cluster, owner)]: removed, ...rest } = loadAll();
+  if (removed) localStorage.setItem(STORAGE_KEY, JSON.stringify(rest));
+}
+
+export function getSessionKeypair(session: SessionKey): Keypair {
+  return Keypair.fromSecretKey(Uint8Array.from(session.secretKey));
+}
+
+/**
+ * The wallet's transfer into the session key: the budget, the rent the key keeps while it is open,
+ * and its fees.
+ */
+export function buildSessionFunding(owner: PublicKey, session: SessionKey, rentReserve: bigint): TransactionInstruction[] {
+  return [
+    SystemProgram.transfer({
+      fromPubkey: owner,
+      toPubkey: new PublicKey(session.publicKey),
+      lamports: parseSol(session.budget) + rentReserve + FEE_ALLOWANCE_LAMPORTS,
+    }),
+  ];
+}
+
+/**
+ * Whether the session key signs `request` in place of the passkey: a SOL transfer within the
+ * per-transfer cap that the key can still pay for, before the session expires.
+ */
+export function canSessionSign(session: SessionKey, balance: SolBalance | null, request: TransferRequest, now = Date.now()): boolean {
+  if (request.token || !balance || now >= session.expiresAt) return false;
+  try {
+    const lamports = parseSol(request.amount);
+    return (
+      lamports > 0n &&
+      lamports <= parseSol(session.maxPerTransfer) &&
+      lamports + SESSION_FEE_LAMPORTS + balance.rentReserve <= balance.lamports
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signs with the session keypair, which pays its own fee.
+ */
+export function createSessionSigner(connection: Connection, session: SessionKey): TransactionSigner {
+  const keypair = getSessionKeypair(session);
+  const signer: TransactionSigner = {
+    publicKey: keypair.publicKey,
+    maxTransactionSize: PACKET_DATA_SIZE,
+    signAndSend: (instructions, options) => {
+      if (Date.now() >= session.expiresAt) {
+        return Promise.reject(new Error('The session key has expired. Sign with your passkey instead.'));
+      }
+      return sendWithKeypair(connection, keypair, instructions, resolveSignOptions(signer, instructions, options));
+    },
+  };
+  return signer;
+}
+
+/**
+ * Resolves once a failed funding can no longer change the balance: it shows on the key, or its
+ * blockhash expired without it landing.
+ */
+async function waitForFunding(connection: Connection, session: SessionKey): Promise<void> {
+  const { funding } = session;
+  if (!funding) return;
+  const publicKey = new PublicKey(session.publicKey);
+  for (;;) {
+    const [lamports, blockHeight] = await Promise.all([
+      connection.getBalance(publicKey, 'confirmed'),
+      connection.getBlockHeight('confirmed'),
+    ]);
+    if (lamports > 0 || hasExpired(blockHeight, funding.sentAt, funding.lastValidBlockHeight)) return;
+    await new Promise((resolve) => setTimeout(resolve, FUNDING_POLL_MS));
+  }
+}
+
+/**
+ * Sends the session key's whole balance back to `owner`, leaving the account empty. Resolves with
+ * null when there is nothing left to return. After a failed funding it first waits until that
+ * transaction can no longer land, so an empty key really stays empty.
+ */
+export async function sweepSessionKey(connection: Connection, session: SessionKey, owner: PublicKey): Promise<string | null> {
+  const keypair = getSessionKeypair(session);
+  await waitForFunding(connection, session);
+  const lamports = BigInt(await connection.getBalance(keypair.publicKey));
+  if (lamports <= SESSION_FEE_LAMPORTS) return null;
+
+  return sendWithKeypair(connection, keypair, [
+    SystemProgram.transfer({ fromPubkey: keypair.publicKey, toPubkey: owner, lamports: lamports - SESSION_FEE_LAMPORTS }),
+  ]);
+}
@@ -0,0 +1,180 @@
+import { Connection, PublicKey, TransactionInstruction, VersionedTransaction } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { SOL_DECIMALS } from './amounts';
+import { PaymasterCoverage, checkPaymasterCoverage, fetchPaymasterPayer } from './paymasterService';
+import { TokenBalance, getTokenLabel } from './tokenService';
+import {
+  SignOptions,
+  SolBalance,
+  TransactionSigner,
+  TransferRequest,
+  buildTransfer,
+  resolveSignOptions,
+} from './transactionService';
+import { compileV0Message, withComputeUnitLimit } from './versionedTransactions';
+import { fromTransactionError } from './walletErrors';
+
+// The token amount sits at the same offset in Token and Token-2022 accounts
+const TOKEN_AMOUNT_OFFSET = 64;
+
+export interface WatchedAccount {
+  address: PublicKey;
+  label: string;
+  // Omitted for SOL balances
+  token?: TokenBalance;
+}
+
+export interface BalanceChange {
+  label: string;
+  address: string;
+  asset: string;
+  decimals: number;
+  // Base units (lamports for SOL)
+  before: bigint;
+  after: bigint;
+}
+
+export interface SimulationResult {
+  // null when the simulation succeeded
+  error: string | null;
+  logs: string[];
+  unitsConsumed: number | null;
+  computeUnitLimit: number | null;
+  // Network fee in lamports, null if the RPC could not price the message
+  fee: number | null;
+  balanceChanges: BalanceChange[];
+}
+
+export interface TransferPreview extends SimulationResult {
+  paymaster: PaymasterCoverage;
+}
+
+function readBalance(data: Buffer | null, lamports: number, watched: WatchedAccount): bigint {
+  if (!watched.token) return BigInt(lamports);
+  return data && data.length >= TOKEN_AMOUNT_OFFSET + 8 ? data.readBigUInt64LE(TOKEN_AMOUNT_OFFSET) : 0n;
+}
+
+/**
+ * The wallet's SOL balance and each of its token accounts.
+ */
+export function getWalletAccounts(owner: PublicKey, tokens: TokenBalance[]): WatchedAccount[] {
+  return [
+    { address: owner, label: 'You' },
+    ...tokens.map((token) => ({ address: token.tokenAccount, label: 'You', token })),
+  ];
+}
+
+/**
+ * Simulates the instructions with `payer` as fee payer and reports what would change for `watched`.
+ * Signatures are not verified, so this runs before the passkey prompt.
+ */
+export async function simulateInstructions(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  watched: WatchedAccount[],
+  options?: SignOptions
+): Promise<SimulationResult> {
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const message = compileV0Message(
+    payer,
+    withComputeUnitLimit(instructions, options?.computeUnitLimit),
+    blockhash,
+    options?.addressLookupTableAccounts
+  );
+  const addresses = watched.map((account) => account.address);
+
+  const [before, { value: simulation }, { value: fee }] = await Promise.all([
+    connection.getMultipleAccountsInfo(addresses, 'confirmed'),
+    connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      commitment: 'confirmed',
+      accounts: { encoding: 'base64', addresses: addresses.map((address) => address.toBase58()) },
+    }),
+    connection.getFeeForMessage(message, 'confirmed'),
+  ]);
+
+  const balanceChanges = watched.map((account, index): BalanceChange => {
+    const pre = before[index];
+    const post = simulation.accounts?.[index];
+    return {
+      label: account.label,
+      address: account.address.toBase58(),
+      asset: account.token ? getTokenLabel(account.token) : 'SOL',
+      decimals: account.token ? account.token.decimals : SOL_DECIMALS,
+      before: readBalance(pre ? pre.data : null, pre?.lamports ?? 0, account),
+      after: readBalance(post ? Buffer.from(post.data[0], 'base64') : null, post?.lamports ?? 0, account),
+    };
+  });
+
+  return {
+    error: simulation.err ? fromTransactionError(simulation.err, simulation.logs ?? []).message : null,
+    logs: simulation.logs ?? [],
+    unitsConsumed: simulation.unitsConsumed ?? null,
+    computeUnitLimit: options?.computeUnitLimit ?? null,
+    fee,
+    balanceChanges,
+  };
+}
+
+/**
+ * Builds a transfer exactly as `sendTransfer` would and simulates it, then checks whether the
+ * paymaster will cover the fee. Validation errors are thrown as they would be on send.
+ */
+export async function previewTransfer(
+  connection: Connection,
+  signer: TransactionSigner,
+  request: TransferRequest,
+  balance: SolBalance | null,
+  paymasterUrl?: string
+): Promise<TransferPreview> {
+  const instructions = await buildTransfer(connection, signer.publicKey, request, balance);
+  const recipient = new PublicKey(request.recipient.trim());
+
+  const watched: WatchedAccount[] = [{ address: signer.publicKey, label: 'You' }];
+  if (request.token) {
+    const { token } = request;
+    watched.push(
+      { address: token.tokenAccount, label: 'You', token },
+      {
+        address: getAssociatedTokenAddressSync(token.mint, recipient, true, token.programId),
+        label: 'Recipient',
+        token,
+      }
+    );
+  } else {
+    watched.push({ address: recipient, label: 'Recipient' });
+  }
+
+  return previewInstructions(connection, signer, instructions, watched, paymasterUrl);
+}
+
+/**
+ * Simulates instructions the signer is about to send, such as the ones a Solana Pay merchant
+ * returned, and checks paymaster coverage for them.
+ */
+export async function previewInstructions(
+  connection: Connection,
+  signer: TransactionSigner,
+  instructions: TransactionInstruction[],
+  watched: WatchedAccount[],
+  paymasterUrl?: string
+): Promise<TransferPreview> {
+  // With a paymaster the wallet never pays the fee, so simulate with the paymaster as fee payer
+  const feePayer = paymasterUrl
+    ? await fetchPaymasterPayer(paymasterUrl).catch(() => signer.publicKey)
+    : signer.publicKey;
+  const simulation = await simulateInstructions(
+    connection,
+    feePayer,
+    instructions,
+    watched,
+    resolveSignOptions(signer, instructions)
+  );
+  const paymaster = await checkPaymasterCoverage(paymasterUrl, simulation.fee, {
+    wallet: signer.publicKey,
+    programIds: instructions.map((ix) => ix.programId),
+  });
+
+  return { ...simulation, paymaster };
+}
@@ -0,0 +1,192 @@
+import type { ClusterName } from '../config/clusters';
+
+/**
+ * Sign-In With Solana messages, in the text format wallet-standard's `solana:signIn` produces.
+ *
+ * Only plain TypeScript and the global `crypto`, so a backend (or a local mock server) can import
+ * this file to parse and check what the app sends.
+ */
+
+export interface SignInFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri?: string;
+  version?: string;
+  chainId?: string;
+  nonce?: string;
+  issuedAt?: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SignInExpectations {
+  domain: string;
+  nonce: string;
+  // Checked only when given
+  address?: string;
+  chainId?: string;
+  now?: Date;
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Solana account:';
+const NONCE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const NONCE_LENGTH = 16;
+// The spec asks for at least 8 alphanumeric characters
+const NONCE_PATTERN = /^[A-Za-z0-9]{8,}$/;
+
+// Labelled lines in the order they are written
+const FIELD_LABELS: [keyof SignInFields, string][] = [
+  ['uri', 'URI'],
+  ['version', 'Version'],
+  ['chainId', 'Chain ID'],
+  ['nonce', 'Nonce'],
+  ['issuedAt', 'Issued At'],
+  ['expirationTime', 'Expiration Time'],
+  ['notBefore', 'Not Before'],
+  ['requestId', 'Request ID'],
+];
+
+export function createNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  return Array.from(bytes, (byte) => NONCE_ALPHABET[byte % NONCE_ALPHABET.length]).join('');
+}
+
+/**
+ * Chain ID for a cluster, in the `solana:<network>` form wallet-standard uses.
+ */
+export function chainIdForCluster(cluster: ClusterName): `solana:${string}` {
+  return `solana:${cluster === 'mainnet-beta' ? 'mainnet' : cluster}`;
+}
+
+// `mainnet` and `solana:mainnet` name the same chain
+function normalizeChainId(chainId: string): string {
+  return chainId.startsWith('solana:') ? chainId : `solana:${chainId}`;
+}
+
+export function buildSignInMessage(fields: SignInFields): string {
+  let message = `${fields.domain}${HEADER_SUFFIX}\n${fields.address}`;
+  if (fields.statement) message += `\n\n${fields.statement}`;
+
+  const lines: string[] = [];
+  for (const [key, label] of FIELD_LABELS) {
+    const value = fields[key];
+    if (value) lines.push(`${label}: ${value}`);
+  }
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map((resource) => `- ${resource}`));
+  }
+  if (lines.length > 0) message += `\n\n${lines.join('\n')}`;
+  return message;
+}
+
+/**
+ * Inverse of `buildSignInMessage`. Throws an Error when the text is not a sign-in message.
+ */
+export function parseSignInMessage(text: string): SignInFields {
+  const lines = text.split('\n');
+  const header = lines[0] ?? '';
+  if (!header.endsWith(HEADER_SUFFIX) || header.length === HEADER_SUFFIX.length) {
+    throw new Error('Not a Sign-In With Solana message');
+  }
+  const address = lines[1]?.trim();
+  if (!address) {
+    throw new Error('Sign-in message has no address');
+  }
+  if (lines.length > 2 && lines[2] !== '') {
+    throw new Error('Sign-in message needs a blank line after the address');
+  }
+
+  const fields: SignInFields = { domain: header.slice(0, -HEADER_SUFFIX.length), address };
+  // After the address: an optional statement, then the labelled fields, each block after a blank line
+  const blocks = lines.slice(3).join('\n').split('\n\n').filter(Boolean);
+  const isFieldBlock = (block: string) =>
+    FIELD_LABELS.some(([, label]) => block.startsWith(`${label}: `)) || block.startsWith('Resources:');
+
+  let fieldBlock = blocks[0];
+  if (blocks.length > 0 && !isFieldBlock(blocks[0])) {
+    fields.statement = blocks[0];
+    fieldBlock = blocks[1];
+  }
+  if (blocks.length > (fields.statement === undefined ? 1 : 2)) {
+    throw new Error('Sign-in message has unexpected trailing text');
+  }
+
+  let inResources = false;
+  for (const line of fieldBlock?.split('\n') ?? []) {
+    if (inResources && line.startsWith('- ')) {
+      fields.resources?.push(line.slice(2));
+      continue;
+    }
+    if (line === 'Resources:') {
+      inResources = true;
+      fields.resources = [];
+      continue;
+    }
+    const field = FIELD_LABELS.find(([, label]) => line.startsWith(`${label}: `));
+    if (!field || inResources) {
+      throw new Error(`Unexpected line in sign-in message: ${line}`);
+    }
+    (fields as unknown as Record<string, string>)[field[0]] = line.slice(field[1].length + 2);
+  }
+  return fields;
+}
+
+function parseTime(value: string | undefined, label: string, problems: string[]): Date | null {
+  if (value === undefined) return null;
+  const time = new Date(value);
+  if (Number.isNaN(time.getTime())) {
+    problems.push(`${label} is not an ISO 8601 timestamp`);
+    return null;
+  }
+  return time;
+}
+
+/**
+ * Checks a parsed message against what the server issued. Returns one line per problem,
+ * so an empty array means the message can be accepted (once its signature verifies).
+ */
+export function validateSignInMessage(fields: SignInFields, expected: SignInExpectations): string[] {
+  const problems: string[] = [];
+  const now = expected.now ?? new Date();
+
+  if (fields.domain !== expected.domain) {
+    problems.push(`Domain ${fields.domain} does not match ${expected.domain}`);
+  }
+  if (expected.address && fields.address !== expected.address) {
+    problems.push('Address is not the account that signed');
+  }
+  if (!fields.nonce) {
+    problems.push('Nonce is missing');
+  } else if (!NONCE_PATTERN.test(fields.nonce)) {
+    problems.push('Nonce must be at least 8 alphanumeric characters');
+  } else if (fields.nonce !== expected.nonce) {
+    problems.push('Nonce does not match the one issued');
+  }
+  if (expected.chainId) {
+    if (!fields.chainId) {
+      problems.push('Chain ID is missing');
+    } else if (normalizeChainId(fields.chainId) !== normalizeChainId(expected.chainId)) {
+      problems.push(`Chain ID ${fields.chainId} does not match ${expected.chainId}`);
+    }
+  }
+  if (fields.version !== undefined && fields.version !== '1') {
+    problems.push(`Unsupported version ${fields.version}`);
+  }
+
+  const issuedAt = parseTime(fields.issuedAt, 'Issued At', problems);
+  const expirationTime = parseTime(fields.expirationTime, 'Expiration Time', problems);
+  const notBefore = parseTime(fields.notBefore, 'Not Before', problems);
+  if (issuedAt && issuedAt > now) {
+    problems.push('Issued At is in the future');
+  }
+  if (expirationTime && expirationTime <= now) {
+    problems.push('Message has expired');
+  }
+  if (notBefore && notBefore > now) {
+    problems.push('Message is not valid yet');
+  }
+  return problems;
+}
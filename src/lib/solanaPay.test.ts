@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { encodeTransferRequestURL, fetchMerchantTransaction, parsePaymentURL } from './solanaPay';
+
+const recipient = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+
+describe('encodeTransferRequestURL', () => {
+  it('leaves out empty fields', () => {
+    expect(encodeTransferRequestURL({ recipient })).toBe(`solana:${recipient.toBase58()}`);
+  });
+
+  it('keeps the amount exactly as given', () => {
+    const url = encodeTransferRequestURL({ recipient, amount: '0.000000001' });
+    expect(url).toBe(`solana:${recipient.toBase58()}?amount=0.000000001`);
+  });
+
+  it('percent-encodes text fields', () => {
+    const url = encodeTransferRequestURL({ recipient, label: 'Café & Co', message: 'Thanks!', memo: 'order #42' });
+    expect(url).toContain('label=Caf%C3%A9%20%26%20Co');
+    expect(url).toContain('memo=order%20%2342');
+    expect(url).not.toContain('+');
+  });
+
+  it('round-trips through parsePaymentURL', () => {
+    const references = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+    const fields = {
+      recipient,
+      amount: '12.5',
+      splToken: mint,
+      references,
+      label: 'Shop',
+      message: 'Hi there',
+      memo: 'a=b',
+    };
+    expect(parsePaymentURL(encodeTransferRequestURL(fields))).toEqual({ kind: 'transfer', ...fields });
+  });
+});
+
+describe('parsePaymentURL', () => {
+  const base = `solana:${recipient.toBase58()}`;
+
+  it('parses a bare recipient', () => {
+    const request = parsePaymentURL(` ${base} `);
+    expect(request).toMatchObject({ kind: 'transfer', amount: undefined, references: [] });
+    expect(request.kind === 'transfer' && request.recipient.equals(recipient)).toBe(true);
+  });
+
+  it('keeps the amount string so no precision is lost', () => {
+    expect(parsePaymentURL(`${base}?amount=1.000000001`)).toMatchObject({ amount: '1.000000001' });
+    expect(parsePaymentURL(`${base}?amount=0.01&spl-token=${mint.toBase58()}`)).toMatchObject({ amount: '0.01' });
+  });
+
+  it('reads every reference in order', () => {
+    const references = [Keypair.generate().publicKey, Keypair.generate().publicKey, Keypair.generate().publicKey];
+    const query = references.map((reference) => `reference=${reference.toBase58()}`).join('&');
+    const request = parsePaymentURL(`${base}?${query}`);
+    expect(request.kind === 'transfer' && request.references).toEqual(references);
+  });
+
+  it('decodes percent-encoded label, message and memo', () => {
+    const query = 'label=Michael%27s%20Caf%C3%A9&message=Thanks%20for%20your%20order&memo=OrderId%2312345';
+    expect(parsePaymentURL(`${base}?${query}`)).toMatchObject({
+      label: "Michael's Café",
+      message: 'Thanks for your order',
+      memo: 'OrderId#12345',
+    });
+  });
+
+  it('parses a transaction request with an encoded link', () => {
+    const link = 'https://example.com/solana-pay?order=42&size=L';
+    const request = parsePaymentURL(`solana:${encodeURIComponent(link)}?label=Example%20Shop`);
+    expect(request).toMatchObject({ kind: 'transaction', label: 'Example Shop' });
+    expect(request.kind === 'transaction' && request.link.href).toBe(link);
+  });
+
+  it('parses a transaction request with a plain link', () => {
+    const request = parsePaymentURL('solana:https://example.com/pay');
+    expect(request.kind === 'transaction' && request.link.href).toBe('https://example.com/pay');
+  });
+
+  it('rejects transaction requests that are not HTTPS', () => {
+    expect(() => parsePaymentURL(`solana:${encodeURIComponent('http://example.com/pay')}`)).toThrow(
+      'Transaction request links must use HTTPS'
+    );
+  });
+
+  it.each([
+    ['a non-solana URL', `https://example.com/${recipient.toBase58()}`, 'Payment links must start with solana:'],
+    ['no recipient', 'solana:', 'Payment link has no recipient'],
+    ['an invalid recipient', 'solana:notbase58!', 'Invalid recipient in payment link'],
+    ['a short recipient', 'solana:abc', 'Invalid recipient in payment link'],
+    ['an invalid spl-token', `${base}?spl-token=nope`, 'Invalid spl-token in payment link'],
+    ['an invalid reference', `${base}?reference=nope`, 'Invalid reference in payment link'],
+    ['a negative amount', `${base}?amount=-1`, 'Invalid amount in payment link'],
+    ['an exponent amount', `${base}?amount=1e3`, 'Invalid amount in payment link'],
+    ['a bare fraction', `${base}?amount=.5`, 'Invalid amount in payment link'],
+    ['an amount with leading zeros', `${base}?amount=007.5`, 'Invalid amount in payment link'],
+    ['an empty amount', `${base}?amount=`, 'Invalid amount in payment link'],
+    ['an amount finer than a lamport', `${base}?amount=0.0000000001`, 'more than 9 decimal places'],
+    ['garbage', 'not a url', 'Not a valid payment link'],
+  ])('rejects %s', (_, input, message) => {
+    expect(() => parsePaymentURL(input)).toThrow(message);
+  });
+
+  it('leaves token amount precision to the caller', () => {
+    expect(parsePaymentURL(`${base}?amount=0.0000000001&spl-token=${mint.toBase58()}`)).toMatchObject({
+      amount: '0.0000000001',
+    });
+  });
+});
+
+describe('fetchMerchantTransaction', () => {
+  const account = Keypair.generate().publicKey;
+  const link = new URL('https://example.com/pay');
+  const connection = {} as Connection;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function serve(transaction: VersionedTransaction, message?: string) {
+    const body = { transaction: Buffer.from(transaction.serialize()).toString('base64'), message };
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, json: async () => body });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  function buildTransaction(payerKey: PublicKey, instructions: TransactionInstruction[]) {
+    const message = new TransactionMessage({ payerKey, recentBlockhash: PublicKey.default.toBase58(), instructions });
+    return new VersionedTransaction(message.compileToV0Message());
+  }
+
+  const payment = SystemProgram.transfer({ fromPubkey: account, toPubkey: recipient, lamports: 1000 });
+
+  it('returns the instructions without the compute budget', async () => {
+    const transaction = buildTransaction(account, [ComputeBudgetProgram.setComputeUnitLimit({ units: 1000 }), payment]);
+    const fetchMock = serve(transaction, 'Thanks!');
+
+    const result = await fetchMerchantTransaction(connection, link, account);
+    expect(result.message).toBe('Thanks!');
+    expect(result.instructions).toHaveLength(1);
+    expect(result.instructions[0].programId.equals(SystemProgram.programId)).toBe(true);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ account: account.toBase58() });
+  });
+
+  it('rejects a fee payer that has already signed', async () => {
+    const merchant = Keypair.generate();
+    const transaction = buildTransaction(merchant.publicKey, [payment]);
+    transaction.sign([merchant]);
+    serve(transaction);
+
+    await expect(fetchMerchantTransaction(connection, link, account)).rejects.toThrow(
+      `signed by ${merchant.publicKey.toBase58()}`
+    );
+  });
+
+  it('rejects a fee payer that still has to sign', async () => {
+    const merchant = Keypair.generate().publicKey;
+    serve(buildTransaction(merchant, [payment]));
+
+    await expect(fetchMerchantTransaction(connection, link, account)).rejects.toThrow(
+      `needs a signature from ${merchant.toBase58()}`
+    );
+  });
+
+  it('rejects other required signers', async () => {
+    const cosigner = Keypair.generate().publicKey;
+    const instruction = new TransactionInstruction({
+      programId: SystemProgram.programId,
+      keys: [{ pubkey: cosigner, isSigner: true, isWritable: false }],
+      data: Buffer.alloc(0),
+    });
+    serve(buildTransaction(account, [payment, instruction]));
+
+    await expect(fetchMerchantTransaction(connection, link, account)).rejects.toThrow(cosigner.toBase58());
+  });
+
+  it('reports merchant errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500 }));
+    await expect(fetchMerchantTransaction(connection, link, account)).rejects.toThrow('Merchant responded with 500');
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  TransactionSignature,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { parseSol } from './amounts';
+
+// Solana Pay specification: https://docs.solanapay.com/spec
+const SOLANA_PROTOCOL = 'solana:';
+// Non-negative decimal with at least one leading digit, no leading zeros and no exponent
+const AMOUNT_PATTERN = /^(0|[1-9]\d*)(\.\d+)?$/;
+
+export interface TransferRequestFields {
+  recipient: PublicKey;
+  // Decimal string in SOL or token units; the wallet asks for it when omitted
+  amount?: string;
+  splToken?: PublicKey;
+  references: PublicKey[];
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+export interface TransactionRequestFields {
+  // HTTPS endpoint that builds the transaction for the paying account
+  link: URL;
+  label?: string;
+  message?: string;
+}
+
+export type PaymentRequest =
+  | ({ kind: 'transfer' } & TransferRequestFields)
+  | ({ kind: 'transaction' } & TransactionRequestFields);
+
+export interface MerchantInfo {
+  label: string;
+  icon: string;
+}
+
+export interface MerchantTransaction {
+  instructions: TransactionInstruction[];
+  message?: string;
+}
+
+/**
+ * Encodes a transfer request as a `solana:` URL. Optional fields are left out when empty.
+ */
+export function encodeTransferRequestURL(fields: Omit<TransferRequestFields, 'references'> & { references?: PublicKey[] }): string {
+  const params: [string, string][] = [];
+  if (fields.amount) params.push(['amount', fields.amount]);
+  if (fields.splToken) params.push(['spl-token', fields.splToken.toBase58()]);
+  fields.references?.forEach((reference) => params.push(['reference', reference.toBase58()]));
+  if (fields.label) params.push(['label', fields.label]);
+  if (fields.message) params.push(['message', fields.message]);
+  if (fields.memo) params.push(['memo', fields.memo]);
+
+  // Percent-encoding rather than URLSearchParams, which writes spaces as `+`
+  const query = params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+  return `${SOLANA_PROTOCOL}${fields.recipient.toBase58()}${query ? `?${query}` : ''}`;
+}
+
+function parsePublicKey(value: string, field: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new Error(`Invalid ${field} in payment link`);
+  }
+}
+
+function optionalParam(url: URL, key: string): string | undefined {
+  return url.searchParams.get(key) ?? undefined;
+}
+
+/**
+ * Parses a `solana:` URL into a transfer request, or a transaction request when the path is an HTTPS link.
+ * Throws an Error naming the first field that does not follow the spec.
+ */
+export function parsePaymentURL(input: string): PaymentRequest {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new Error('Not a valid payment link');
+  }
+
+  if (url.protocol !== SOLANA_PROTOCOL) {
+    throw new Error('Payment links must start with solana:');
+  }
+  if (!url.pathname) {
+    throw new Error('Payment link has no recipient');
+  }
+
+  // A recipient is base58, so a `:` (or its encoding) means the path is a link
+  if (/[:%]/.test(url.pathname)) {
+    let link: URL;
+    try {
+      link = new URL(decodeURIComponent(url.pathname));
+    } catch {
+      throw new Error('Invalid transaction request link');
+    }
+    if (link.protocol !== 'https:') {
+      throw new Error('Transaction request links must use HTTPS');
+    }
+    return { kind: 'transaction', link, label: optionalParam(url, 'label'), message: optionalParam(url, 'message') };
+  }
+
+  const recipient = parsePublicKey(url.pathname, 'recipient');
+  const amount = optionalParam(url, 'amount');
+  const splTokenParam = optionalParam(url, 'spl-token');
+  const splToken = splTokenParam ? parsePublicKey(splTokenParam, 'spl-token') : undefined;
+
+  if (amount !== undefined) {
+    if (!AMOUNT_PATTERN.test(amount)) {
+      throw new Error('Invalid amount in payment link');
+    }
+    // Token decimals are only known once the mint is found; SOL can be checked now
+    if (!splToken) parseSol(amount);
+  }
+
+  return {
+    kind: 'transfer',
+    recipient,
+    amount,
+    splToken,
+    references: url.searchParams.getAll('reference').map((reference) => parsePublicKey(reference, 'reference')),
+    label: optionalParam(url, 'label'),
+    message: optionalParam(url, 'message'),
+    memo: optionalParam(url, 'memo'),
+  };
+}
+
+/**
+ * The merchant's name and icon, from the GET half of a transaction request.
+ */
+export async function fetchMerchantInfo(link: URL): Promise<MerchantInfo> {
+  const response = await fetch(link, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Merchant responded with ${response.status}`);
+  }
+  const { label, icon } = (await response.json()) as Partial<MerchantInfo>;
+  if (typeof label !== 'string' || typeof icon !== 'string') {
+    throw new Error('Merchant response is missing label or icon');
+  }
+  return { label, icon };
+}
+
+/**
+ * POSTs the paying account to a transaction request link and unpacks the returned transaction.
+ *
+ * The smart wallet signs through its own program, so the merchant's transaction cannot be signed
+ * as-is: its instructions are replayed instead. That only works when the account is the sole signer.
+ */
+export async function fetchMerchantTransaction(
+  connection: Connection,
+  link: URL,
+  account: PublicKey
+): Promise<MerchantTransaction> {
+  const response = await fetch(link, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({ account: account.toBase58() }),
+  });
+  if (!response.ok) {
+    throw new Error(`Merchant responded with ${response.status}`);
+  }
+  const body = (await response.json()) as { transaction?: unknown; message?: unknown };
+  if (typeof body.transaction !== 'string') {
+    throw new Error('Merchant response has no transaction');
+  }
+
+  const transaction = VersionedTransaction.deserialize(Buffer.from(body.transaction, 'base64'));
+  const { message } = transaction;
+  // Every other signer, the fee payer included, loses its signature when the instructions are replayed
+  const signers = message.staticAccountKeys.slice(0, message.header.numRequiredSignatures);
+  const otherIndex = signers.findIndex((signer) => !signer.equals(account));
+  if (otherIndex !== -1) {
+    const other = signers[otherIndex].toBase58();
+    const signed = transaction.signatures[otherIndex].some((byte) => byte !== 0);
+    throw new Error(
+      signed
+        ? `Merchant transaction is signed by ${other}, and that signature cannot be kept`
+        : `Merchant transaction also needs a signature from ${other}, which this wallet cannot add`
+    );
+  }
+
+  const addressLookupTableAccounts = await Promise.all(
+    message.addressTableLookups.map(async (lookup) => {
+      const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+      if (!value) throw new Error(`Lookup table ${lookup.accountKey.toBase58()} not found`);
+      return value;
+    })
+  );
+
+  const { instructions } = TransactionMessage.decompile(message, { addressLookupTableAccounts });
+  return {
+    // The signer sets its own compute budget
+    instructions: instructions.filter((instruction) => !instruction.programId.equals(ComputeBudgetProgram.programId)),
+    message: typeof body.message === 'string' ? body.message : undefined,
+  };
+}
+
+/**
+ * First transaction that includes `reference`, which is how a merchant (or the receive panel)
+ * finds the payment for a request it handed out.
+ */
+export async function findReference(connection: Connection, reference: PublicKey): Promise<TransactionSignature | null> {
+  const [latest] = await connection.getSignaturesForAddress(reference, { limit: 1 }, 'confirmed');
+  return latest && !latest.err ? latest.signature : null;
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Connection, SignatureResult } from '@solana/web3.js';
+import { SubscriptionManager, createSubscriptionManager } from './subscriptionManager';
+
+function createConnection() {
+  const signatureCallbacks = new Map<number, (result: SignatureResult) => void>();
+  let nextId = 1;
+  const connection = {
+    onSlotChange: vi.fn(() => 0),
+    removeSlotChangeListener: vi.fn().mockResolvedValue(undefined),
+    onSignature: vi.fn((_signature: string, callback: (result: SignatureResult) => void) => {
+      const id = nextId++;
+      signatureCallbacks.set(id, callback);
+      return id;
+    }),
+    removeSignatureListener: vi.fn(async (id: number) => {
+      signatureCallbacks.delete(id);
+    }),
+    // Not landed yet
+    getSignatureStatuses: vi.fn(async (signatures: string[]) => ({ value: signatures.map(() => null) })),
+  };
+  const notify = (result: SignatureResult) => signatureCallbacks.forEach((callback) => callback(result));
+  return { connection, notify, signatureCallbacks };
+}
+
+describe('waitForSignature', () => {
+  let manager: SubscriptionManager | undefined;
+
+  afterEach(() => {
+    manager?.destroy();
+    vi.useRealTimers();
+  });
+
+  it('resolves every caller waiting on the same signature', async () => {
+    const { connection, notify } = createConnection();
+    manager = createSubscriptionManager(connection as unknown as Connection);
+
+    const first = manager.waitForSignature('sig');
+    const second = manager.waitForSignature('sig');
+    expect(connection.onSignature).toHaveBeenCalledTimes(1);
+
+    notify({ err: null });
+    await expect(first).resolves.toBeUndefined();
+    await expect(second).resolves.toBeUndefined();
+    expect(connection.removeSignatureListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects every caller when the transaction fails', async () => {
+    const { connection, notify } = createConnection();
+    manager = createSubscriptionManager(connection as unknown as Connection);
+
+    const first = manager.waitForSignature('sig');
+    const second = manager.waitForSignature('sig');
+    notify({ err: { InstructionError: [0, { Custom: 6 }] } });
+
+    await expect(first).rejects.toThrow('custom error 0x6');
+    await expect(second).rejects.toThrow('custom error 0x6');
+  });
+
+  it('times out one caller without settling the others', async () => {
+    vi.useFakeTimers();
+    const { connection, notify, signatureCallbacks } = createConnection();
+    manager = createSubscriptionManager(connection as unknown as Connection);
+
+    const short = manager.waitForSignature('sig', 1000);
+    const long = manager.waitForSignature('sig', 60000);
+    const shortResult = expect(short).rejects.toThrow('not confirmed within 1 seconds');
+    await vi.advanceTimersByTimeAsync(1000);
+    await shortResult;
+    expect(signatureCallbacks.size).toBe(1);
+
+    notify({ err: null });
+    await expect(long).resolves.toBeUndefined();
+    expect(signatureCallbacks.size).toBe(0);
+  });
+
+  it('rejects pending callers when destroyed', async () => {
+    const { connection } = createConnection();
+    manager = createSubscriptionManager(connection as unknown as Connection);
+
+    const first = manager.waitForSignature('sig');
+    const second = manager.waitForSignature('sig');
+    manager.destroy();
+
+    await expect(first).rejects.toThrow('Subscription manager closed');
+    await expect(second).rejects.toThrow('Subscription manager closed');
+  });
+});
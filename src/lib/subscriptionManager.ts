@@ -0,0 +1,260 @@
+import { AccountInfo, Connection, PublicKey, TransactionSignature } from '@solana/web3.js';
+import { fromTransactionError } from './walletErrors';
+
+// No slot notification for this long means the WebSocket is gone
+const STALE_AFTER_MS = 15000;
+const WATCHDOG_INTERVAL_MS = 5000;
+const MIN_POLL_DELAY_MS = 2000;
+const MAX_POLL_DELAY_MS = 30000;
+
+/**
+ * `live` while WebSocket notifications arrive, `polling` while falling back to HTTP.
+ */
+export type ConnectionHealth = 'connecting' | 'live' | 'polling';
+
+// null while the account does not exist
+type AccountListener = (account: AccountInfo<Buffer> | null) => void;
+
+interface AccountWatch {
+  address: PublicKey;
+  listeners: Set<AccountListener>;
+  subscriptionId: number;
+  account?: AccountInfo<Buffer> | null;
+}
+
+interface SignatureWaiter {
+  timer: ReturnType<typeof setTimeout>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// One subscription per signature, however many callers wait on it
+interface SignatureWatch {
+  subscriptionId: number;
+  waiters: Set<SignatureWaiter>;
+}
+
+export interface SubscriptionManager {
+  readonly connection: Connection;
+  /** Calls the listener with the account now and whenever its lamports or data change. */
+  watchAccount(address: PublicKey, listener: AccountListener): () => void;
+  /** Resolves once the signature reaches `confirmed`, rejects if it fails or times out. */
+  waitForSignature(signature: TransactionSignature, timeoutMs?: number): Promise<void>;
+  getHealth(): ConnectionHealth;
+  onHealthChange(listener: (health: ConnectionHealth) => void): () => void;
+  destroy(): void;
+}
+
+/**
+ * One manager per Connection. Subscriptions are shared between every component watching the
+ * same account, and when the WebSocket drops the manager polls with exponential backoff until
+ * slot notifications resume.
+ */
+export function createSubscriptionManager(connection: Connection): SubscriptionManager {
+  const accounts = new Map<string, AccountWatch>();
+  const signatures = new Map<TransactionSignature, SignatureWatch>();
+  const healthListeners = new Set<(health: ConnectionHealth) => void>();
+
+  let health: ConnectionHealth = 'connecting';
+  let lastSlotAt = Date.now();
+  let pollDelay = MIN_POLL_DELAY_MS;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let destroyed = false;
+
+  const setHealth = (next: ConnectionHealth) => {
+    if (next === health) return;
+    health = next;
+    healthListeners.forEach((listener) => listener(next));
+  };
+
+  const emitAccount = (watch: AccountWatch, account: AccountInfo<Buffer> | null) => {
+    const previous = watch.account;
+    if (
+      previous !== undefined &&
+      previous?.lamports === account?.lamports &&
+      (previous === account || (previous && account && previous.data.equals(account.data)))
+    ) {
+      return false;
+    }
+    watch.account = account;
+    watch.listeners.forEach((listener) => listener(account));
+    return true;
+  };
+
+  const settleWaiter = (waiter: SignatureWaiter, error?: Error) => {
+    clearTimeout(waiter.timer);
+    if (error) {
+      waiter.reject(error);
+    } else {
+      waiter.resolve();
+    }
+  };
+
+  const settleSignature = (signature: TransactionSignature, error?: Error) => {
+    const watch = signatures.get(signature);
+    if (!watch) return;
+    signatures.delete(signature);
+    connection.removeSignatureListener(watch.subscriptionId).catch(() => {});
+    watch.waiters.forEach((waiter) => settleWaiter(waiter, error));
+  };
+
+  // A timed-out waiter leaves the others waiting; the subscription goes with the last one
+  const dropWaiter = (signature: TransactionSignature, waiter: SignatureWaiter, error: Error) => {
+    const watch = signatures.get(signature);
+    if (!watch?.waiters.delete(waiter)) return;
+    if (watch.waiters.size === 0) {
+      signatures.delete(signature);
+      connection.removeSignatureListener(watch.subscriptionId).catch(() => {});
+    }
+    settleWaiter(waiter, error);
+  };
+
+  const checkSignatures = async (pending: TransactionSignature[]): Promise<boolean> => {
+    if (pending.length === 0) return false;
+    let changed = false;
+
+    const { value } = await connection.getSignatureStatuses(pending);
+    value.forEach((status, index) => {
+      if (status?.err) {
+        settleSignature(pending[index], fromTransactionError(status.err));
+        changed = true;
+      } else if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+        settleSignature(pending[index]);
+        changed = true;
+      }
+    });
+
+    return changed;
+  };
+
+  const pollOnce = async (): Promise<boolean> => {
+    let changed = false;
+
+    const watches = [...accounts.values()];
+    if (watches.length > 0) {
+      const infos = await connection.getMultipleAccountsInfo(watches.map((watch) => watch.address));
+      infos.forEach((info, index) => {
+        changed = emitAccount(watches[index], info) || changed;
+      });
+    }
+
+    return (await checkSignatures([...signatures.keys()])) || changed;
+  };
+
+  const schedulePoll = () => {
+    if (pollTimer || destroyed) return;
+    pollTimer = setTimeout(async () => {
+      pollTimer = null;
+      if (health !== 'polling') return;
+      try {
+        const changed = await pollOnce();
+        pollDelay = changed ? MIN_POLL_DELAY_MS : Math.min(pollDelay * 2, MAX_POLL_DELAY_MS);
+      } catch (error) {
+        console.error('Polling error:', error);
+        pollDelay = Math.min(pollDelay * 2, MAX_POLL_DELAY_MS);
+      }
+      schedulePoll();
+    }, pollDelay);
+  };
+
+  const slotSubscription = connection.onSlotChange(() => {
+    lastSlotAt = Date.now();
+    if (health !== 'live') {
+      const wasPolling = health === 'polling';
+      setHealth('live');
+      // Catch anything missed while the socket was down
+      if (wasPolling) pollOnce().catch(() => {});
+    }
+  });
+
+  const watchdog = setInterval(() => {
+    if (Date.now() - lastSlotAt > STALE_AFTER_MS && health !== 'polling') {
+      setHealth('polling');
+      pollDelay = MIN_POLL_DELAY_MS;
+      schedulePoll();
+    }
+  }, WATCHDOG_INTERVAL_MS);
+
+  return {
+    connection,
+
+    watchAccount(address, listener) {
+      const key = address.toString();
+      let watch = accounts.get(key);
+
+      if (!watch) {
+        const created: AccountWatch = {
+          address,
+          listeners: new Set(),
+          subscriptionId: connection.onAccountChange(address, (info) => emitAccount(created, info), 'confirmed'),
+        };
+        accounts.set(key, created);
+        watch = created;
+        connection
+          .getAccountInfo(address)
+          .then((info) => emitAccount(created, info))
+          .catch((error) => console.error('Account fetch error:', error));
+      } else if (watch.account !== undefined) {
+        listener(watch.account);
+      }
+
+      watch.listeners.add(listener);
+
+      return () => {
+        const current = accounts.get(key);
+        if (!current) return;
+        current.listeners.delete(listener);
+        if (current.listeners.size === 0) {
+          accounts.delete(key);
+          connection.removeAccountChangeListener(current.subscriptionId).catch(() => {});
+        }
+      };
+    },
+
+    waitForSignature(signature, timeoutMs = 60000) {
+      return new Promise<void>((resolve, reject) => {
+        let watch = signatures.get(signature);
+        if (!watch) {
+          const subscriptionId = connection.onSignature(
+            signature,
+            (result) => {
+              settleSignature(signature, result.err ? fromTransactionError(result.err) : undefined);
+            },
+            'confirmed'
+          );
+          watch = { subscriptionId, waiters: new Set() };
+          signatures.set(signature, watch);
+        }
+
+        const timeout = new Error(`Transaction was not confirmed within ${timeoutMs / 1000} seconds`);
+        const waiter: SignatureWaiter = {
+          timer: setTimeout(() => dropWaiter(signature, waiter, timeout), timeoutMs),
+          resolve,
+          reject,
+        };
+        watch.waiters.add(waiter);
+
+        // The transaction may have landed before the subscription was opened
+        checkSignatures([signature]).catch(() => {});
+      });
+    },
+
+    getHealth: () => health,
+
+    onHealthChange(listener) {
+      healthListeners.add(listener);
+      return () => healthListeners.delete(listener);
+    },
+
+    destroy() {
+      destroyed = true;
+      clearInterval(watchdog);
+      if (pollTimer) clearTimeout(pollTimer);
+      connection.removeSlotChangeListener(slotSubscription).catch(() => {});
+      accounts.forEach((watch) => connection.removeAccountChangeListener(watch.subscriptionId).catch(() => {}));
+      [...signatures.keys()].forEach((signature) => settleSignature(signature, new Error('Subscription manager closed')));
+      accounts.clear();
+      healthListeners.clear();
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getTokenMetadata,
+} from '@solana/spl-token';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { formatUnits } from './amounts';
+
+const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+// Tokens without on-chain metadata that users are likely to hold
+const KNOWN_TOKENS: Record<string, { symbol: string; name: string }> = {
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: { symbol: 'USDC', name: 'USD Coin' },
+  '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU': { symbol: 'USDC', name: 'USD Coin (Devnet)' },
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: { symbol: 'USDT', name: 'Tether USD' },
+};
+
+export interface TokenBalance {
+  mint: PublicKey;
+  tokenAccount: PublicKey;
+  programId: PublicKey;
+  // Raw amount in base units
+  amount: bigint;
+  decimals: number;
+  uiAmount: string;
+  symbol?: string;
+  name?: string;
+}
+
+export function getTokenLabel(token: TokenBalance): string {
+  return token.symbol || `${token.mint.toString().slice(0, 4)}…${token.mint.toString().slice(-4)}`;
+}
+
+/**
+ * Label for an asset stored by mint, e.g. in a saved schedule: SOL when unset, the held token's
+ * symbol when known.
+ */
+export function getAssetLabel(mint: string | undefined, tokens: TokenBalance[]): string {
+  if (!mint) return 'SOL';
+  const token = tokens.find((t) => t.mint.toString() === mint);
+  return token ? getTokenLabel(token) : `${mint.slice(0, 4)}…${mint.slice(-4)}`;
+}
+
+function readBorshString(data: Buffer, offset: number): [string, number] {
+  const length = data.readUInt32LE(offset);
+  const value = data.subarray(offset + 4, offset + 4 + length).toString('utf8').replace(/\0/g, '').trim();
+  return [value, offset + 4 + length];
+}
+
+/**
+ * Reads name and symbol from Metaplex metadata accounts.
+ */
+async function fetchMetaplexMetadata(connection: Connection, mints: PublicKey[]) {
+  const metadataAddresses = mints.map(
+    (mint) =>
+      PublicKey.findProgramAddressSync(
+        [Buffer.from('metadata'), METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+        METADATA_PROGRAM_ID
+      )[0]
+  );
+  const accounts = mints.length > 0 ? await connection.getMultipleAccountsInfo(metadataAddresses) : [];
+
+  return accounts.map((account) => {
+    if (!account) return null;
+    try {
+      // key (1) + update authority (32) + mint (32)
+      const [name, next] = readBorshString(account.data, 65);
+      const [symbol] = readBorshString(account.data, next);
+      return { name, symbol };
+    } catch {
+      return null;
+    }
+  });
+}
+
+/**
+ * Lists SPL Token and Token-2022 balances held by the owner, with mint metadata when available.
+ */
+export async function fetchTokenBalances(connection: Connection, owner: PublicKey): Promise<TokenBalance[]> {
+  const responses = await Promise.all(
+    [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(async (programId) => {
+      const { value } = await connection.getParsedTokenAccountsByOwner(owner, { programId });
+      return value.map(({ pubkey, account }) => ({ pubkey, programId, info: account.data.parsed.info }));
+    })
+  );
+
+  const tokens: TokenBalance[] = responses.flat().map(({ pubkey, programId, info }) => ({
+    mint: new PublicKey(info.mint),
+    tokenAccount: pubkey,
+    programId,
+    amount: BigInt(info.tokenAmount.amount),
+    decimals: info.tokenAmount.decimals,
+    uiAmount: formatUnits(BigInt(info.tokenAmount.amount), info.tokenAmount.decimals),
+  }));
+
+  const metaplex = await fetchMetaplexMetadata(connection, tokens.map((token) => token.mint));
+
+  await Promise.all(
+    tokens.map(async (token, index) => {
+      const known = KNOWN_TOKENS[token.mint.toString()];
+      let metadata: { name: string; symbol: string } | null = known || metaplex[index];
+
+      if (!metadata && token.programId.equals(TOKEN_2022_PROGRAM_ID)) {
+        metadata = await getTokenMetadata(connection, token.mint).catch(() => null);
+      }
+
+      token.symbol = metadata?.symbol || undefined;
+      token.name = metadata?.name || undefined;
+    })
+  );
+
+  return tokens.sort((a, b) => getTokenLabel(a).localeCompare(getTokenLabel(b)));
+}
+
+/**
+ * Builds a `transferChecked`, creating the recipient's associated token account first when it is missing.
+ */
+export async function buildTokenTransferInstructions(
+  connection: Connection,
+  owner: PublicKey,
+  recipient: PublicKey,
+  token: TokenBalance,
+  amount: bigint
+): Promise<TransactionInstruction[]> {
+  // Smart wallets are PDAs, so the recipient may be off-curve too
+  const destination = getAssociatedTokenAddressSync(token.mint, recipient, true, token.programId);
+  const instructions: TransactionInstruction[] = [];
+
+  const destinationInfo = await connection.getAccountInfo(destination);
+  if (!destinationInfo) {
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(owner, destination, recipient, token.mint, token.programId)
+    );
+  }
+
+  instructions.push(
+    createTransferCheckedInstruction(
+      token.tokenAccount,
+      token.mint,
+      destination,
+      owner,
+      amount,
+      token.decimals,
+      [],
+      token.programId
+    )
+  );
+
+  return instructions;
+}
@@ -0,0 +1,246 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AddressLookupTableAccount,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { TokenBalance } from './tokenService';
+import {
+  ConfirmFn,
+  SolBalance,
+  TransactionSigner,
+  resolveSignOptions,
+  sendTransfer,
+  validateTokenTransfer,
+  validateTransfer,
+} from './transactionService';
+import { InsufficientFundsError, SimulationFailedError } from './walletErrors';
+
+const wallet = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+
+const balance: SolBalance = { lamports: 2_000_000_000n, rentReserve: 890_880n };
+
+const token: TokenBalance = {
+  mint: Keypair.generate().publicKey,
+  tokenAccount: Keypair.generate().publicKey,
+  programId: TOKEN_PROGRAM_ID,
+  amount: 5_000_000n,
+  decimals: 6,
+  uiAmount: '5',
+  symbol: 'USDC',
+};
+
+function createSigner(overrides: Partial<TransactionSigner> = {}) {
+  const signAndSend = vi.fn<TransactionSigner['signAndSend']>().mockResolvedValue('signature');
+  const signer: TransactionSigner = { publicKey: wallet, signAndSend, ...overrides };
+  return { signer, signAndSend };
+}
+
+// Only the token path reads from the connection: whether the recipient's token account exists
+function createConnection(recipientAccountExists = false): Connection {
+  return {
+    getAccountInfo: vi.fn().mockResolvedValue(recipientAccountExists ? { lamports: 1 } : null),
+  } as unknown as Connection;
+}
+
+function createTable(addresses: PublicKey[]): AddressLookupTableAccount {
+  return new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt('18446744073709551615'),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      authority: wallet,
+      addresses,
+    },
+  });
+}
+
+describe('validateTransfer', () => {
+  it('parses the recipient and amount', () => {
+    const transfer = validateTransfer({ recipient: ` ${recipient.toBase58()} `, amount: '0.5' }, balance);
+    expect(transfer.recipient.equals(recipient)).toBe(true);
+    expect(transfer.lamports).toBe(500_000_000n);
+  });
+
+  it('rejects zero and malformed amounts', () => {
+    expect(() => validateTransfer({ recipient: recipient.toBase58(), amount: '0' }, balance)).toThrow('Invalid amount');
+    expect(() => validateTransfer({ recipient: recipient.toBase58(), amount: '1e3' }, balance)).toThrow('Invalid amount');
+  });
+
+  it('rejects an invalid recipient', () => {
+    expect(() => validateTransfer({ recipient: 'not-an-address', amount: '1' }, balance)).toThrow();
+  });
+
+  it('rejects more than the balance with an InsufficientFundsError', () => {
+    const error = (() => {
+      try {
+        validateTransfer({ recipient: recipient.toBase58(), amount: '3' }, balance);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(InsufficientFundsError);
+    expect((error as InsufficientFundsError).required).toBe(3_000_000_000n);
+  });
+
+  it('keeps the rent reserve', () => {
+    expect(() => validateTransfer({ recipient: recipient.toBase58(), amount: '2' }, balance)).toThrow(
+      /rent exempt. Max sendable: 1.99910912 SOL/
+    );
+    expect(validateTransfer({ recipient: recipient.toBase58(), amount: '1.99910912' }, balance).lamports).toBe(
+      1_999_109_120n
+    );
+  });
+
+  it('skips balance checks while the balance is unknown', () => {
+    expect(validateTransfer({ recipient: recipient.toBase58(), amount: '1000' }, null).lamports).toBe(
+      1_000_000_000_000n
+    );
+  });
+});
+
+describe('validateTokenTransfer', () => {
+  it('parses the amount with the token decimals', () => {
+    expect(validateTokenTransfer({ recipient: recipient.toBase58(), amount: '1.25' }, token).amount).toBe(1_250_000n);
+  });
+
+  it('rejects more decimals than the token has', () => {
+    expect(() => validateTokenTransfer({ recipient: recipient.toBase58(), amount: '0.0000001' }, token)).toThrow(
+      'more than 6 decimal places'
+    );
+  });
+
+  it('rejects more than the token balance', () => {
+    expect(() => validateTokenTransfer({ recipient: recipient.toBase58(), amount: '6' }, token)).toThrow(
+      'Insufficient USDC balance: 5 available, 6 needed.'
+    );
+  });
+
+  it('rejects a zero amount', () => {
+    expect(() => validateTokenTransfer({ recipient: recipient.toBase58(), amount: '0' }, token)).toThrow('Invalid amount');
+  });
+});
+
+describe('resolveSignOptions', () => {
+  const transfer = SystemProgram.transfer({ fromPubkey: wallet, toPubkey: recipient, lamports: 1 });
+
+  it('lets per-send options override the signer options', () => {
+    const { signer } = createSigner({ options: { computeUnitLimit: 200_000 } });
+    expect(resolveSignOptions(signer, [transfer])).toEqual({ computeUnitLimit: 200_000 });
+    expect(resolveSignOptions(signer, [transfer], { computeUnitLimit: 50_000 })).toEqual({ computeUnitLimit: 50_000 });
+  });
+
+  it('keeps explicitly given lookup tables', () => {
+    const given = createTable([recipient]);
+    const { signer } = createSigner({ lookupTables: [createTable([recipient])] });
+    const options = resolveSignOptions(signer, [transfer], { addressLookupTableAccounts: [given] });
+    expect(options.addressLookupTableAccounts).toEqual([given]);
+  });
+
+  it('picks no tables for a transaction that already fits', () => {
+    const { signer } = createSigner({ lookupTables: [createTable([recipient])] });
+    expect(resolveSignOptions(signer, [transfer]).addressLookupTableAccounts).toEqual([]);
+  });
+
+  it('picks the table that brings an oversized transaction under the signer limit', () => {
+    const accounts = Array.from({ length: 40 }, () => Keypair.generate().publicKey);
+    const instruction = new TransactionInstruction({
+      programId: SystemProgram.programId,
+      keys: accounts.map((pubkey) => ({ pubkey, isSigner: false, isWritable: true })),
+      data: Buffer.alloc(0),
+    });
+    const table = createTable(accounts);
+    const { signer } = createSigner({ lookupTables: [createTable([recipient]), table], maxTransactionSize: 1232 });
+    expect(resolveSignOptions(signer, [instruction]).addressLookupTableAccounts).toEqual([table]);
+  });
+});
+
+describe('sendTransfer', () => {
+  it('builds, signs and confirms a SOL transfer', async () => {
+    const { signer, signAndSend } = createSigner();
+    const confirm = vi.fn<ConfirmFn>().mockResolvedValue();
+
+    const signature = await sendTransfer(
+      createConnection(),
+      signer,
+      { recipient: recipient.toBase58(), amount: '0.25' },
+      balance,
+      confirm
+    );
+
+    expect(signature).toBe('signature');
+    expect(confirm).toHaveBeenCalledWith('signature');
+    const [instructions] = signAndSend.mock.calls[0];
+    expect(instructions).toHaveLength(1);
+    const decoded = SystemInstruction.decodeTransfer(instructions[0]);
+    expect(decoded.fromPubkey.equals(wallet)).toBe(true);
+    expect(decoded.toPubkey.equals(recipient)).toBe(true);
+    expect(decoded.lamports).toBe(250_000_000n);
+  });
+
+  it('creates the recipient token account when it does not exist', async () => {
+    const { signer, signAndSend } = createSigner();
+    const request = { recipient: recipient.toBase58(), amount: '1', token };
+    await sendTransfer(createConnection(false), signer, request, balance, async () => {});
+    expect(signAndSend.mock.calls[0][0]).toHaveLength(2);
+
+    signAndSend.mockClear();
+    await sendTransfer(createConnection(true), signer, request, balance, async () => {});
+    const [instructions] = signAndSend.mock.calls[0];
+    expect(instructions).toHaveLength(1);
+    expect(instructions[0].programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+  });
+
+  it('adds the Solana Pay memo before the transfer and references to it', async () => {
+    const reference = Keypair.generate().publicKey;
+    const { signer, signAndSend } = createSigner();
+    await sendTransfer(
+      createConnection(),
+      signer,
+      { recipient: recipient.toBase58(), amount: '0.1', memo: 'order 42', references: [reference.toBase58()] },
+      balance,
+      async () => {}
+    );
+
+    const [[memo, transfer]] = signAndSend.mock.calls[0];
+    expect(memo.data.toString('utf8')).toBe('order 42');
+    expect(transfer.keys[transfer.keys.length - 1]).toEqual({ pubkey: reference, isSigner: false, isWritable: false });
+  });
+
+  it('does not sign a transfer that fails validation', async () => {
+    const { signer, signAndSend } = createSigner();
+    const confirm = vi.fn<ConfirmFn>();
+    await expect(
+      sendTransfer(createConnection(), signer, { recipient: recipient.toBase58(), amount: '5' }, balance, confirm)
+    ).rejects.toBeInstanceOf(InsufficientFundsError);
+    expect(signAndSend).not.toHaveBeenCalled();
+    expect(confirm).not.toHaveBeenCalled();
+  });
+
+  it('passes signing errors through without confirming', async () => {
+    const { signer, signAndSend } = createSigner();
+    signAndSend.mockRejectedValue(new Error('User rejected the request'));
+    const confirm = vi.fn<ConfirmFn>();
+    await expect(
+      sendTransfer(createConnection(), signer, { recipient: recipient.toBase58(), amount: '0.1' }, balance, confirm)
+    ).rejects.toThrow('User rejected the request');
+    expect(confirm).not.toHaveBeenCalled();
+  });
+
+  it('rejects when confirmation fails', async () => {
+    const { signer } = createSigner();
+    const failed = new SimulationFailedError('instruction 0 returned custom error 0x1');
+    await expect(
+      sendTransfer(createConnection(), signer, { recipient: recipient.toBase58(), amount: '0.1' }, balance, () =>
+        Promise.reject(failed)
+      )
+    ).rejects.toBe(failed);
+  });
+});
@@ -0,0 +1,344 @@
+import {
+  AddressLookupTableAccount,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionSignature,
+} from '@solana/web3.js';
+import type { WalletHookInterface } from '@lazorkit/wallet';
+import type { WalletContextState } from '@solana/wallet-adapter-react';
+import { formatSol, parseSol, parseUnits } from './amounts';
+import { checkPaymasterCoverage } from './paymasterService';
+import { TokenBalance, buildTokenTransferInstructions, getTokenLabel } from './tokenService';
+import {
+  SMART_WALLET_OVERHEAD,
+  buildV0Transaction,
+  compileV0Message,
+  selectLookupTables,
+  withComputeUnitLimit,
+} from './versionedTransactions';
+import { InsufficientFundsError, fromTransactionError } from './walletErrors';
+
+/**
+ * Common interface over the two ways this app can get a transaction signed:
+ * LazorKit's `signAndSendTransaction` and wallet-adapter's `sendTransaction`.
+ */
+export interface TransactionSigner {
+  readonly publicKey: PublicKey;
+  // Options applied to every send, so a simulation can match what gets signed
+  readonly options?: SignOptions;
+  // Tables the signer may load accounts from; each send picks the ones it needs to fit
+  readonly lookupTables?: AddressLookupTableAccount[];
+  // Largest transaction, in bytes, the signer can get on chain
+  readonly maxTransactionSize?: number;
+  signAndSend(instructions: TransactionInstruction[], options?: SignOptions): Promise<TransactionSignature>;
+}
+
+/**
+ * Per-transaction overrides. Mirrors the subset of LazorKit's `transactionOptions` both paths can honour.
+ */
+export interface SignOptions {
+  computeUnitLimit?: number;
+  addressLookupTableAccounts?: AddressLookupTableAccount[];
+}
+
+export interface TransferRequest {
+  recipient: string;
+  amount: string;
+  // Omitted for native SOL
+  token?: TokenBalance;
+  // Solana Pay fields: a memo logged before the transfer and read-only reference keys on it
+  memo?: string;
+  references?: string[];
+}
+
+export interface ValidatedTransfer {
+  recipient: PublicKey;
+  lamports: bigint;
+}
+
+/**
+ * Lamports held by a wallet and the part of them it must keep to stay rent exempt.
+ */
+export interface SolBalance {
+  lamports: bigint;
+  rentReserve: bigint;
+}
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+type LazorkitSignAndSend = WalletHookInterface['signAndSendTransaction'];
+type LazorkitTransactionOptions = NonNullable<Parameters<LazorkitSignAndSend>[0]['transactionOptions']>;
+
+/**
+ * The options a send of `instructions` uses: the signer's own, then the per-send overrides. Unless
+ * lookup tables were given explicitly, the signer's tables that bring the transaction under its
+ * size limit are picked here.
+ */
+export function resolveSignOptions(
+  signer: TransactionSigner,
+  instructions: TransactionInstruction[],
+  options?: SignOptions
+): SignOptions {
+  const merged = { ...signer.options, ...options };
+  if (merged.addressLookupTableAccounts?.length || !signer.lookupTables?.length) return merged;
+
+  const { tables } = selectLookupTables(
+    signer.publicKey,
+    withComputeUnitLimit(instructions, merged.computeUnitLimit),
+    signer.lookupTables,
+    signer.maxTransactionSize
+  );
+  return { ...merged, addressLookupTableAccounts: tables };
+}
+
+/**
+ * Wraps LazorKit's `signAndSendTransaction`. LazorKit will open a portal for passkey signing.
+ */
+export function createLazorkitSigner(
+  publicKey: PublicKey,
+  signAndSendTransaction: LazorkitSignAndSend,
+  transactionOptions?: LazorkitTransactionOptions,
+  lookupTables?: AddressLookupTableAccount[]
+): TransactionSigner {
+  const signer: TransactionSigner = {
+    publicKey,
+    options: {
+      computeUnitLimit: transactionOptions?.computeUnitLimit,
+      addressLookupTableAccounts: transactionOptions?.addressLookupTableAccounts,
+    },
+    lookupTables,
+    maxTransactionSize: PACKET_DATA_SIZE - SMART_WALLET_OVERHEAD,
+    signAndSend: (instructions, options) =>
+      signAndSendTransaction({
+        instructions,
+        transactionOptions: { ...transactionOptions, ...resolveSignOptions(signer, instructions, options) },
+      }),
+  };
+  return signer;
+}
+
+/**
+ * Wraps wallet-adapter's `sendTransaction`. LazorKit handles paymaster logic internally.
+ */
+export function createWalletAdapterSigner(
+  publicKey: PublicKey,
+  sendTransaction: WalletContextState['sendTransaction'],
+  connection: Connection,
+  lookupTables?: AddressLookupTableAccount[]
+): TransactionSigner {
+  const signer: TransactionSigner = {
+    publicKey,
+    lookupTables,
+    maxTransactionSize: PACKET_DATA_SIZE,
+    signAndSend: async (instructions, options) => {
+      const transaction = await buildV0Transaction(
+        connection,
+        publicKey,
+        instructions,
+        resolveSignOptions(signer, instructions, options)
+      );
+      return sendTransaction(transaction, connection);
+    },
+  };
+  return signer;
+}
+
+const rentCache = new Map<string, Promise<bigint>>();
+
+/**
+ * Rent-exempt minimum for an account of `dataLength` bytes. Cached per endpoint, since it only
+ * changes with a cluster-wide rent update.
+ */
+export function getRentReserve(connection: Connection, dataLength: number): Promise<bigint> {
+  const key = `${connection.rpcEndpoint}:${dataLength}`;
+  let cached = rentCache.get(key);
+  if (!cached) {
+    cached = connection.getMinimumBalanceForRentExemption(dataLength).then(BigInt);
+    cached.catch(() => rentCache.delete(key));
+    rentCache.set(key, cached);
+  }
+  return cached;
+}
+
+export async function fetchBalance(connection: Connection, address: PublicKey): Promise<SolBalance> {
+  const account = await connection.getAccountInfo(address);
+  return {
+    lamports: BigInt(account?.lamports ?? 0),
+    rentReserve: await getRentReserve(connection, account?.data.length ?? 0),
+  };
+}
+
+/**
+ * Largest SOL amount the wallet can send: its balance minus the rent reserve and, unless a
+ * paymaster pays it, the network fee of the transfer.
+ */
+export async function getMaxSendable(
+  connection: Connection,
+  payer: PublicKey,
+  balance: SolBalance,
+  paymasterUrl?: string
+): Promise<bigint> {
+  const { blockhash } = await connection.getLatestBlockhash();
+  const message = compileV0Message(payer, buildTransferInstructions(payer, { recipient: payer, lamports: 1n }), blockhash);
+  const { value: fee } = await connection.getFeeForMessage(message);
+
+  const coverage = await checkPaymasterCoverage(paymasterUrl, fee);
+  const walletFee = coverage.status === 'covered' || coverage.status === 'charged' ? 0n : BigInt(fee ?? 0);
+
+  const max = balance.lamports - balance.rentReserve - walletFee;
+  return max > 0n ? max : 0n;
+}
+
+/**
+ * Checks the recipient and amount against the current balance.
+ * Throws an Error with a user-facing message when the transfer is not allowed.
+ */
+export function validateTransfer(request: TransferRequest, balance: SolBalance | null): ValidatedTransfer {
+  const recipient = new PublicKey(request.recipient.trim());
+  const lamports = parseSol(request.amount);
+
+  if (lamports <= 0n) {
+    throw new Error('Invalid amount');
+  }
+
+  if (balance) {
+    if (lamports > balance.lamports) {
+      throw new InsufficientFundsError({ available: balance.lamports, required: lamports });
+    }
+
+    const maxSendable = balance.lamports > balance.rentReserve ? balance.lamports - balance.rentReserve : 0n;
+    if (lamports > maxSendable) {
+      throw new Error(
+        `Amount too high. Keep at least ${formatSol(balance.rentReserve)} SOL so the wallet stays rent exempt. Max sendable: ${formatSol(maxSendable)} SOL`
+      );
+    }
+  }
+
+  return { recipient, lamports };
+}
+
+export function validateTokenTransfer(request: TransferRequest, token: TokenBalance): { recipient: PublicKey; amount: bigint } {
+  const recipient = new PublicKey(request.recipient.trim());
+  const amount = parseUnits(request.amount, token.decimals);
+
+  if (amount <= 0n) {
+    throw new Error('Invalid amount');
+  }
+
+  if (amount > token.amount) {
+    throw new InsufficientFundsError({
+      asset: getTokenLabel(token),
+      decimals: token.decimals,
+      available: token.amount,
+      required: amount,
+    });
+  }
+
+  return { recipient, amount };
+}
+
+export function buildTransferInstructions(from: PublicKey, transfer: ValidatedTransfer): TransactionInstruction[] {
+  return [
+    SystemProgram.transfer({
+      fromPubkey: from,
+      toPubkey: transfer.recipient,
+      lamports: transfer.lamports,
+    }),
+  ];
+}
+
+/**
+ * Polls the signature status until it reaches `confirmed` or the timeout elapses.
+ */
+export async function confirmSignature(
+  connection: Connection,
+  signature: TransactionSignature,
+  timeoutMs = 60000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const { value } = await connection.getSignatureStatuses([signature]);
+    const status = value[0];
+
+    if (status?.err) {
+      throw fromTransactionError(status.err);
+    }
+    if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      return;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  throw new Error(`Transaction was not confirmed within ${timeoutMs / 1000} seconds`);
+}
+
+/**
+ * Runs once a transaction is sent, and `sendTransfer` resolves when it does. The default waits for
+ * `confirmed` with `confirmSignature`; handing the signature to a tracker returns right away instead.
+ */
+export type ConfirmFn = (signature: TransactionSignature) => Promise<void>;
+
+/**
+ * validate → build. Shared by `sendTransfer` and the pre-flight simulation.
+ */
+export async function buildTransfer(
+  connection: Connection,
+  from: PublicKey,
+  request: TransferRequest,
+  balance: SolBalance | null
+): Promise<TransactionInstruction[]> {
+  let instructions: TransactionInstruction[];
+  if (request.token) {
+    const transfer = validateTokenTransfer(request, request.token);
+    instructions = await buildTokenTransferInstructions(connection, from, transfer.recipient, request.token, transfer.amount);
+  } else {
+    instructions = buildTransferInstructions(from, validateTransfer(request, balance));
+  }
+  return addPaymentFields(instructions, request);
+}
+
+/**
+ * Applies Solana Pay's memo and references to the transfer, which is always the last instruction.
+ */
+function addPaymentFields(instructions: TransactionInstruction[], request: TransferRequest): TransactionInstruction[] {
+  if (!request.memo && !request.references?.length) return instructions;
+
+  const transfer = instructions[instructions.length - 1];
+  const references = (request.references ?? []).map((reference) => ({
+    pubkey: new PublicKey(reference),
+    isSigner: false,
+    isWritable: false,
+  }));
+  const withReferences = new TransactionInstruction({
+    programId: transfer.programId,
+    keys: [...transfer.keys, ...references],
+    data: transfer.data,
+  });
+  const memo = request.memo
+    ? [new TransactionInstruction({ programId: MEMO_PROGRAM_ID, keys: [], data: Buffer.from(request.memo, 'utf8') })]
+    : [];
+
+  return [...instructions.slice(0, -1), ...memo, withReferences];
+}
+
+/**
+ * validate → build → sign → confirm
+ */
+export async function sendTransfer(
+  connection: Connection,
+  signer: TransactionSigner,
+  request: TransferRequest,
+  balance: SolBalance | null,
+  confirm: ConfirmFn = (signature) => confirmSignature(connection, signature)
+): Promise<TransactionSignature> {
+  const instructions = await buildTransfer(connection, signer.publicKey, request, balance);
+  const signature = await signer.signAndSend(instructions);
+  await confirm(signature);
+
+  return signature;
+}
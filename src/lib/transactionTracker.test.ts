@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Connection, SignatureStatus } from '@solana/web3.js';
+import type { SubscriptionManager } from './subscriptionManager';
+import { TransactionTracker, createTransactionTracker, lookupTransaction } from './transactionTracker';
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => items.delete(key),
+    setItem: (key, value) => items.set(key, value),
+  };
+}
+
+function createManager({ blockhashFails = false } = {}) {
+  const connection = {
+    getSignatureStatuses: vi.fn(async (signatures: string[]) => ({
+      value: signatures.map((): Partial<SignatureStatus> | null => null),
+    })),
+    getBlockHeight: vi.fn().mockResolvedValue(100),
+    getLatestBlockhash: vi.fn(() =>
+      blockhashFails
+        ? Promise.reject(new Error('fetch failed'))
+        : Promise.resolve({ blockhash: 'hash', lastValidBlockHeight: 250 })
+    ),
+  };
+  const manager = {
+    connection: connection as unknown as Connection,
+    // Never confirms over the socket, so the tracker relies on polling
+    waitForSignature: vi.fn(() => new Promise<void>(() => {})),
+  } as unknown as SubscriptionManager;
+  return { manager, connection };
+}
+
+describe('waitFor', () => {
+  let tracker: TransactionTracker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('localStorage', createStorage());
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves once the transaction reaches the stage', async () => {
+    const { manager, connection } = createManager();
+    tracker = createTransactionTracker(manager, 'devnet');
+    tracker.track('sig', { description: 'Send' });
+    const waiting = tracker.waitFor('sig', 'confirmed');
+
+    connection.getSignatureStatuses.mockResolvedValue({ value: [{ confirmationStatus: 'confirmed', err: null }] });
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(waiting).resolves.toBeUndefined();
+  });
+
+  it('rejects when the transaction fails', async () => {
+    const { manager, connection } = createManager();
+    tracker = createTransactionTracker(manager, 'devnet');
+    tracker.track('sig', { description: 'Send' });
+    const waiting = tracker.waitFor('sig', 'confirmed');
+
+    connection.getSignatureStatuses.mockResolvedValue({
+      value: [{ confirmationStatus: 'processed', err: { InstructionError: [0, { Custom: 1 }] } }],
+    });
+    const rejected = expect(waiting).rejects.toThrow('custom error 0x1');
+    await vi.advanceTimersByTimeAsync(2000);
+    await rejected;
+  });
+
+  it('rejects when the record is dismissed', async () => {
+    const { manager } = createManager();
+    tracker = createTransactionTracker(manager, 'devnet');
+    tracker.track('sig', { description: 'Send' });
+    const waiting = tracker.waitFor('sig', 'confirmed');
+
+    tracker.dismiss('sig');
+    await expect(waiting).rejects.toThrow('dismissed before it settled');
+  });
+
+  it('rejects when the tracker is destroyed', async () => {
+    const { manager } = createManager();
+    tracker = createTransactionTracker(manager, 'devnet');
+    tracker.track('sig', { description: 'Send' });
+    const waiting = tracker.waitFor('sig', 'finalized');
+
+    tracker.destroy();
+    await expect(waiting).rejects.toThrow('Stopped tracking transactions');
+  });
+
+  it('expires a transaction whose block height was never known', async () => {
+    const { manager } = createManager({ blockhashFails: true });
+    tracker = createTransactionTracker(manager, 'devnet');
+    tracker.track('sig', { description: 'Send' });
+    const waiting = tracker.waitFor('sig', 'confirmed');
+    const rejected = expect(waiting).rejects.toThrow('expired before it landed');
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(tracker.getTransactions()[0].stage).toBe('sent');
+    await vi.advanceTimersByTimeAsync(62000);
+    await rejected;
+    expect(tracker.getTransactions()[0].stage).toBe('expired');
+  });
+
+  it('expires by block height once it is known', async () => {
+    const { manager, connection } = createManager();
+    tracker = createTransactionTracker(manager, 'devnet');
+    tracker.track('sig', { description: 'Send' });
+    const waiting = tracker.waitFor('sig', 'confirmed');
+    const rejected = expect(waiting).rejects.toThrow('expired before it landed');
+
+    connection.getBlockHeight.mockResolvedValue(251);
+    await vi.advanceTimersByTimeAsync(2000);
+    await rejected;
+  });
+});
+
+describe('lookupTransaction', () => {
+  function withStatus(status: Partial<SignatureStatus> | null) {
+    const { manager, connection } = createManager();
+    connection.getSignatureStatuses.mockResolvedValue({ value: [status] });
+    return { connection: manager.connection, getSignatureStatuses: connection.getSignatureStatuses };
+  }
+
+  it('searches the full history and reads a landed transaction', async () => {
+    const { connection, getSignatureStatuses } = withStatus({ confirmationStatus: 'finalized', err: null });
+    await expect(lookupTransaction(connection, 'sig', Date.now())).resolves.toEqual({ stage: 'finalized' });
+    expect(getSignatureStatuses).toHaveBeenCalledWith(['sig'], { searchTransactionHistory: true });
+  });
+
+  it('reads a failed transaction', async () => {
+    const { connection } = withStatus({ confirmationStatus: 'confirmed', err: { InstructionError: [0, 'InvalidArgument'] } });
+    await expect(lookupTransaction(connection, 'sig', Date.now())).resolves.toMatchObject({ stage: 'failed' });
+  });
+
+  it('expires a missing transaction only once its blockhash has', async () => {
+    const { connection } = withStatus(null);
+    await expect(lookupTransaction(connection, 'sig', Date.now(), 100)).resolves.toBeNull();
+    await expect(lookupTransaction(connection, 'sig', Date.now(), 99)).resolves.toMatchObject({ stage: 'expired' });
+  });
+});
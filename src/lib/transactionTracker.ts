@@ -0,0 +1,294 @@
+import { Connection, TransactionSignature } from '@solana/web3.js';
+import type { SubscriptionManager } from './subscriptionManager';
+import { getTokenLabel } from './tokenService';
+import type { TransferRequest } from './transactionService';
+import { BlockhashExpiredError, fromTransactionError } from './walletErrors';
+
+const STORAGE_KEY = 'lazorkit-starter-transactions';
+const POLL_INTERVAL_MS = 2000;
+// Settled records are kept for the pending list, newest first
+const MAX_RECORDS = 20;
+// A blockhash lives for 150 blocks, about a minute. Without the block height to compare against,
+// a transaction with no status after this long is treated as expired
+const UNKNOWN_EXPIRY_MS = 120000;
+
+export type TransactionStage = 'sent' | 'processed' | 'confirmed' | 'finalized' | 'failed' | 'expired';
+
+export const STAGE_ORDER: TransactionStage[] = ['sent', 'processed', 'confirmed', 'finalized'];
+
+/**
+ * What is needed to rebuild a single transfer after its blockhash expired.
+ */
+export interface ResubmitRequest {
+  recipient: string;
+  amount: string;
+  // Omitted for native SOL
+  mint?: string;
+  memo?: string;
+  references?: string[];
+}
+
+export interface TrackedTransaction {
+  signature: TransactionSignature;
+  cluster: string;
+  description: string;
+  createdAt: number;
+  stage: TransactionStage;
+  // Unknown until the first block height lookup after sending
+  lastValidBlockHeight?: number;
+  error?: string;
+  request?: ResubmitRequest;
+  // Signature of the transaction that replaced this one after expiry
+  replacedBy?: TransactionSignature;
+}
+
+export interface TransactionTracker {
+  /** Starts following a freshly sent transaction. */
+  track(signature: TransactionSignature, details: { description: string; request?: ResubmitRequest }): void;
+  /**
+   * Resolves once the transaction reaches the stage. Rejects if it fails or expires first, or if
+   * it is dismissed or the tracker destroyed while waiting.
+   */
+  waitFor(signature: TransactionSignature, stage: 'processed' | 'confirmed' | 'finalized'): Promise<void>;
+  markReplaced(signature: TransactionSignature, replacedBy: TransactionSignature): void;
+  dismiss(signature: TransactionSignature): void;
+  getTransactions(): TrackedTransaction[];
+  subscribe(listener: (transactions: TrackedTransaction[]) => void): () => void;
+  destroy(): void;
+}
+
+export function isSettled(stage: TransactionStage): boolean {
+  return stage === 'finalized' || stage === 'failed' || stage === 'expired';
+}
+
+/**
+ * Whether a transaction with no status can no longer land: past its last valid block height when
+ * known, otherwise some time after it was sent.
+ */
+export function hasExpired(blockHeight: number, sentAt: number, lastValidBlockHeight?: number): boolean {
+  return lastValidBlockHeight !== undefined ? blockHeight > lastValidBlockHeight : Date.now() - sentAt > UNKNOWN_EXPIRY_MS;
+}
+
+/**
+ * Where a transaction the tracker does not hold stands, read from the cluster's full signature
+ * history. Null while it has no status and may still land.
+ */
+export async function lookupTransaction(
+  connection: Connection,
+  signature: TransactionSignature,
+  sentAt: number,
+  lastValidBlockHeight?: number
+): Promise<{ stage: TransactionStage; error?: string } | null> {
+  const [{ value }, blockHeight] = await Promise.all([
+    connection.getSignatureStatuses([signature], { searchTransactionHistory: true }),
+    connection.getBlockHeight('confirmed'),
+  ]);
+  const [status] = value;
+  if (status?.err) return { stage: 'failed', error: fromTransactionError(status.err).message };
+  if (status?.confirmationStatus) return { stage: status.confirmationStatus };
+  if (hasExpired(blockHeight, sentAt, lastValidBlockHeight)) {
+    return { stage: 'expired', error: new BlockhashExpiredError().message };
+  }
+  return null;
+}
+
+/**
+ * Label and resubmit details for a single transfer sent from the send modal.
+ */
+export function getTransferDetails(request: TransferRequest): { description: string; request: ResubmitRequest } {
+  const asset = request.token ? getTokenLabel(request.token) : 'SOL';
+  const recipient = request.recipient.trim();
+  return {
+    description: `Send ${request.amount} ${asset} to ${recipient.slice(0, 4)}…${recipient.slice(-4)}`,
+    request: {
+      recipient,
+      amount: request.amount,
+      mint: request.token?.mint.toString(),
+      memo: request.memo,
+      references: request.references,
+    },
+  };
+}
+
+function loadRecords(): TrackedTransaction[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as TrackedTransaction[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecords(records: TrackedTransaction[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records.slice(0, MAX_RECORDS)));
+}
+
+/**
+ * Follows transactions through processed → confirmed → finalized and flags the ones whose
+ * blockhash expired before they landed. Records live in localStorage, so pending transactions
+ * are picked up again after a reload.
+ */
+export function createTransactionTracker(manager: SubscriptionManager, cluster: string): TransactionTracker {
+  const connection: Connection = manager.connection;
+  const listeners = new Set<(transactions: TrackedTransaction[]) => void>();
+  // Rejects a pending `waitFor`
+  const waiters = new Set<(error: Error) => void>();
+  let records = loadRecords();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const active = () => records.filter((record) => record.cluster === cluster && !isSettled(record.stage));
+
+  const commit = (next: TrackedTransaction[]) => {
+    records = next;
+    saveRecords(records);
+    listeners.forEach((listener) => listener(records));
+  };
+
+  const update = (signature: TransactionSignature, patch: Partial<TrackedTransaction>) => {
+    const current = records.find((record) => record.signature === signature);
+    if (!current) return;
+
+    // Stages only move forward, and a settled record keeps its outcome
+    const { stage, ...rest } = patch;
+    const advances =
+      stage !== undefined &&
+      !isSettled(current.stage) &&
+      (isSettled(stage) || STAGE_ORDER.indexOf(stage) > STAGE_ORDER.indexOf(current.stage));
+    const changes = advances ? { ...rest, stage } : rest;
+    if (Object.keys(changes).length === 0) return;
+
+    commit(records.map((record) => (record.signature === signature ? { ...record, ...changes } : record)));
+  };
+
+  const subscribe = (listener: (transactions: TrackedTransaction[]) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const poll = async () => {
+    const pending = active();
+    if (pending.length === 0) {
+      stop();
+      return;
+    }
+
+    try {
+      const [{ value }, blockHeight] = await Promise.all([
+        connection.getSignatureStatuses(pending.map((record) => record.signature)),
+        connection.getBlockHeight('confirmed'),
+      ]);
+
+      value.forEach((status, index) => {
+        const record = pending[index];
+        if (status?.err) {
+          update(record.signature, { stage: 'failed', error: fromTransactionError(status.err).message });
+        } else if (status?.confirmationStatus) {
+          update(record.signature, { stage: status.confirmationStatus });
+        } else if (hasExpired(blockHeight, record.createdAt, record.lastValidBlockHeight)) {
+          update(record.signature, { stage: 'expired', error: new BlockhashExpiredError().message });
+        }
+      });
+    } catch (error) {
+      console.error('Transaction status error:', error);
+    }
+  };
+
+  const start = () => {
+    if (!timer && active().length > 0) {
+      timer = setInterval(poll, POLL_INTERVAL_MS);
+      poll();
+    }
+  };
+
+  const stop = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const follow = (signature: TransactionSignature) => {
+    // WebSocket confirmation makes the modal update instantly; polling covers the other stages
+    manager
+      .waitForSignature(signature, 120000)
+      .then(() => update(signature, { stage: 'confirmed' }))
+      .catch(() => {});
+  };
+
+  active().forEach((record) => follow(record.signature));
+  start();
+
+  return {
+    track(signature, { description, request }) {
+      commit([
+        { signature, cluster, description, request, createdAt: Date.now(), stage: 'sent' },
+        ...records.filter((record) => record.signature !== signature),
+      ]);
+
+      // The signer fetched its blockhash before this point, so a block height read now can only
+      // be later than the real one: expiry is never reported early
+      connection
+        .getLatestBlockhash('confirmed')
+        .then(({ lastValidBlockHeight }) => update(signature, { lastValidBlockHeight }))
+        .catch((error) => console.error('Blockhash lookup error:', error));
+
+      follow(signature);
+      start();
+    },
+
+    waitFor(signature, stage) {
+      return new Promise<void>((resolve, reject) => {
+        const check = (transactions: TrackedTransaction[]) => {
+          const record = transactions.find((t) => t.signature === signature);
+          if (!record) {
+            reject(new Error('The transaction was dismissed before it settled'));
+            return true;
+          }
+          if (record.stage === 'failed' || record.stage === 'expired') {
+            reject(new Error(record.error || `Transaction ${record.stage}`));
+            return true;
+          }
+          if (STAGE_ORDER.indexOf(record.stage) >= STAGE_ORDER.indexOf(stage)) {
+            resolve();
+            return true;
+          }
+          return false;
+        };
+
+        if (check(records)) return;
+        const stopWaiting = () => {
+          unsubscribe();
+          waiters.delete(cancel);
+        };
+        const cancel = (error: Error) => {
+          stopWaiting();
+          reject(error);
+        };
+        const unsubscribe = subscribe((transactions) => {
+          if (check(transactions)) stopWaiting();
+        });
+        waiters.add(cancel);
+      });
+    },
+
+    markReplaced(signature, replacedBy) {
+      update(signature, { replacedBy });
+    },
+
+    dismiss(signature) {
+      commit(records.filter((record) => record.signature !== signature));
+    },
+
+    getTransactions: () => records,
+
+    subscribe,
+
+    destroy() {
+      stop();
+      waiters.forEach((cancel) => cancel(new Error('Stopped tracking transactions before this one settled')));
+      listeners.clear();
+    },
+  };
+}
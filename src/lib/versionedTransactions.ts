@@ -0,0 +1,151 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  MessageV0,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import type { SignOptions } from './transactionService';
+
+// LazorKit wraps the instructions in a smart-wallet execute call and adds a passkey
+// verification instruction, so leave room for both when sizing its transactions
+export const SMART_WALLET_OVERHEAD = 420;
+
+const SIGNATURE_LENGTH = 64;
+const PUBKEY_LENGTH = 32;
+
+export interface LookupTableSelection {
+  tables: AddressLookupTableAccount[];
+  // Serialized size with those tables, in bytes
+  size: number;
+  fits: boolean;
+}
+
+export function withComputeUnitLimit(instructions: TransactionInstruction[], computeUnitLimit?: number) {
+  return computeUnitLimit
+    ? [ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }), ...instructions]
+    : instructions;
+}
+
+/**
+ * The v0 message every path in this app signs or simulates. Accounts found in
+ * `lookupTables` are loaded from them instead of being listed in full.
+ */
+export function compileV0Message(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  recentBlockhash: string,
+  lookupTables: AddressLookupTableAccount[] = []
+): MessageV0 {
+  return new TransactionMessage({ payerKey: payer, recentBlockhash, instructions }).compileToV0Message(lookupTables);
+}
+
+export async function buildV0Transaction(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  options?: SignOptions
+): Promise<VersionedTransaction> {
+  const { blockhash } = await connection.getLatestBlockhash();
+  const message = compileV0Message(
+    payer,
+    withComputeUnitLimit(instructions, options?.computeUnitLimit),
+    blockhash,
+    options?.addressLookupTableAccounts
+  );
+  return new VersionedTransaction(message);
+}
+
+function shortVecLength(length: number): number {
+  return length < 0x80 ? 1 : length < 0x4000 ? 2 : 3;
+}
+
+function sizedArray(length: number, itemSize = 1): number {
+  return shortVecLength(length) + length * itemSize;
+}
+
+/**
+ * Bytes the signed transaction will take on the wire. Computed from the compiled message rather
+ * than by serializing it, since web3.js refuses to serialize anything over the packet limit.
+ */
+export function getTransactionSize(message: MessageV0): number {
+  const instructions = message.compiledInstructions.reduce(
+    (total, ix) => total + 1 + sizedArray(ix.accountKeyIndexes.length) + sizedArray(ix.data.length),
+    0
+  );
+  const lookups = message.addressTableLookups.reduce(
+    (total, lookup) =>
+      total + PUBKEY_LENGTH + sizedArray(lookup.writableIndexes.length) + sizedArray(lookup.readonlyIndexes.length),
+    0
+  );
+
+  return (
+    sizedArray(message.header.numRequiredSignatures, SIGNATURE_LENGTH) +
+    // Version prefix and the three header bytes
+    4 +
+    sizedArray(message.staticAccountKeys.length, PUBKEY_LENGTH) +
+    PUBKEY_LENGTH +
+    shortVecLength(message.compiledInstructions.length) +
+    instructions +
+    shortVecLength(message.addressTableLookups.length) +
+    lookups
+  );
+}
+
+/**
+ * Size of the transaction the instructions compile to, or Infinity when they cannot be compiled
+ * at all (more than 256 accounts, for one).
+ */
+export function measureTransaction(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[] = []
+): number {
+  try {
+    // Any 32-byte value; only the size matters here
+    return getTransactionSize(compileV0Message(payer, instructions, PublicKey.default.toBase58(), lookupTables));
+  } catch {
+    return Infinity;
+  }
+}
+
+/**
+ * Picks lookup tables from `candidates` until the transaction fits in `limit` bytes, each time
+ * taking the table that saves the most. A table only pays off when it replaces enough addresses
+ * to cover its own 32-byte key, so none are picked for transactions that already fit.
+ */
+export function selectLookupTables(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  candidates: AddressLookupTableAccount[],
+  limit = PACKET_DATA_SIZE
+): LookupTableSelection {
+  const tables: AddressLookupTableAccount[] = [];
+  let size = measureTransaction(payer, instructions);
+
+  // Signers and invoked programs must stay in the message, so only the other accounts count
+  const programs = new Set(instructions.map((ix) => ix.programId.toBase58()));
+  const lookupable = new Set(
+    instructions.flatMap((ix) => ix.keys.filter((key) => !key.isSigner).map((key) => key.pubkey.toBase58()))
+  );
+  programs.forEach((program) => lookupable.delete(program));
+  let remaining = candidates.filter(
+    (table) => table.isActive() && table.state.addresses.some((address) => lookupable.has(address.toBase58()))
+  );
+
+  while (size > limit && remaining.length > 0) {
+    const [best] = remaining
+      .map((table) => ({ table, size: measureTransaction(payer, instructions, [...tables, table]) }))
+      .sort((a, b) => a.size - b.size);
+    if (best.size >= size) break;
+    tables.push(best.table);
+    size = best.size;
+    remaining = remaining.filter((table) => table !== best.table);
+  }
+
+  return { tables, size, fits: size <= limit };
+}
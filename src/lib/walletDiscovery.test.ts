@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getWallets } from '@wallet-standard/app';
+import type { Wallet } from '@wallet-standard/base';
+import { registerWallet } from '@wallet-standard/wallet';
+import { recordRegistration, registerUnregisterable } from './walletDiscovery';
+
+function createWallet(name: string): Wallet {
+  return { version: '1.0.0', name, icon: 'data:image/svg+xml;base64,', chains: ['solana:devnet'], features: {}, accounts: [] };
+}
+
+const registeredNames = () => getWallets().get().map((wallet) => wallet.name);
+
+type Listener = (event: Event) => void;
+
+// Browsers run capture listeners on the target before the others; Node's EventTarget does not
+function createWindow() {
+  const listeners: { type: string; listener: Listener; capture: boolean }[] = [];
+  const isCapture = (options?: boolean | AddEventListenerOptions) =>
+    typeof options === 'object' ? options.capture === true : options === true;
+  return {
+    addEventListener(type: string, listener: Listener, options?: boolean | AddEventListenerOptions) {
+      listeners.push({ type, listener, capture: isCapture(options) });
+    },
+    removeEventListener(type: string, listener: Listener, options?: boolean | EventListenerOptions) {
+      const index = listeners.findIndex(
+        (entry) => entry.type === type && entry.listener === listener && entry.capture === isCapture(options)
+      );
+      if (index !== -1) listeners.splice(index, 1);
+    },
+    dispatchEvent(event: Event) {
+      const matching = listeners.filter((entry) => entry.type === event.type);
+      [...matching.filter((entry) => entry.capture), ...matching.filter((entry) => !entry.capture)].forEach((entry) =>
+        entry.listener(event)
+      );
+      return true;
+    },
+  };
+}
+
+describe('registerUnregisterable', () => {
+  beforeAll(() => {
+    // Wallet Standard talks through events on `window`
+    vi.stubGlobal('window', createWindow());
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('unregisters what a registerWallet call registered', () => {
+    const unregister = registerUnregisterable(() => registerWallet(createWallet('Devnet Wallet')));
+    expect(registeredNames()).toContain('Devnet Wallet');
+
+    unregister();
+    expect(registeredNames()).not.toContain('Devnet Wallet');
+  });
+
+  it('lets a wallet be registered again under the same name', () => {
+    const unregisterDevnet = registerUnregisterable(() => registerWallet(createWallet('Lazorkit Wallet')));
+    unregisterDevnet();
+    const unregisterMainnet = registerUnregisterable(() => registerWallet(createWallet('Lazorkit Wallet')));
+
+    expect(registeredNames().filter((name) => name === 'Lazorkit Wallet')).toHaveLength(1);
+    unregisterMainnet();
+  });
+
+  it('is discovered by recordRegistration', () => {
+    let unregister = () => {};
+    const result = recordRegistration('Mock Wallet', () => {
+      unregister = registerUnregisterable(() => registerWallet(createWallet('Mock Wallet')));
+    });
+    expect(result.status).toBe('registered');
+    unregister();
+  });
+});
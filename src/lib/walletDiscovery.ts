@@ -0,0 +1,169 @@
+import { getWallets } from '@wallet-standard/app';
+import type { Wallet, WindowRegisterWalletEvent } from '@wallet-standard/base';
+import {
+  SolanaSignAndSendTransaction,
+  SolanaSignIn,
+  SolanaSignMessage,
+  SolanaSignTransaction,
+} from '@solana/wallet-standard-features';
+import type {
+  SolanaSignAndSendTransactionFeature,
+  SolanaSignTransactionFeature,
+} from '@solana/wallet-standard-features';
+
+export type WalletCapability = 'signMessage' | 'signTransaction' | 'signAndSendTransaction' | 'versionedTransactions' | 'signIn';
+
+export interface DiscoveredWallet {
+  name: string;
+  icon: string;
+  version: string;
+  chains: string[];
+  // Feature name and its version, e.g. `solana:signMessage@1.1.0`
+  features: string[];
+  capabilities: WalletCapability[];
+  accounts: number;
+  isSolana: boolean;
+}
+
+export type RegistrationStatus = 'registered' | 'missing' | 'failed';
+
+/**
+ * Outcome of a `registerWallet` call made by this app, checked against what discovery then sees.
+ */
+export interface RegistrationResult {
+  wallet: string;
+  status: RegistrationStatus;
+  detail: string;
+  at: number;
+}
+
+// Wallets worth pointing at when they are not installed
+export const SUGGESTED_WALLETS = [
+  { name: 'Phantom', url: 'https://phantom.com/download' },
+  { name: 'Solflare', url: 'https://solflare.com/download' },
+];
+
+export const CAPABILITY_LABELS: Record<WalletCapability, string> = {
+  signMessage: 'Sign message',
+  signTransaction: 'Sign transaction',
+  signAndSendTransaction: 'Sign & send',
+  versionedTransactions: 'Versioned tx',
+  signIn: 'Sign in',
+};
+
+const registrations: RegistrationResult[] = [];
+
+type TransactionFeature =
+  | SolanaSignTransactionFeature[typeof SolanaSignTransaction]
+  | SolanaSignAndSendTransactionFeature[typeof SolanaSignAndSendTransaction];
+
+function supportsVersioned(feature: unknown): boolean {
+  const versions = (feature as TransactionFeature | undefined)?.supportedTransactionVersions;
+  return versions?.includes(0) ?? false;
+}
+
+export function getCapabilities(wallet: Wallet): WalletCapability[] {
+  const { features } = wallet;
+  const capabilities: WalletCapability[] = [];
+  if (SolanaSignMessage in features) capabilities.push('signMessage');
+  if (SolanaSignTransaction in features) capabilities.push('signTransaction');
+  if (SolanaSignAndSendTransaction in features) capabilities.push('signAndSendTransaction');
+  if (supportsVersioned(features[SolanaSignTransaction]) || supportsVersioned(features[SolanaSignAndSendTransaction])) {
+    capabilities.push('versionedTransactions');
+  }
+  if (SolanaSignIn in features) capabilities.push('signIn');
+  return capabilities;
+}
+
+export function describeWallet(wallet: Wallet): DiscoveredWallet {
+  return {
+    name: wallet.name,
+    icon: wallet.icon,
+    version: wallet.version,
+    chains: [...wallet.chains],
+    features: Object.entries(wallet.features).map(
+      ([name, feature]) => `${name}@${(feature as { version?: string }).version ?? '?'}`
+    ),
+    capabilities: getCapabilities(wallet),
+    accounts: wallet.accounts.length,
+    isSolana: wallet.chains.some((chain) => chain.startsWith('solana:')),
+  };
+}
+
+/**
+ * Every Standard Wallet registered in the page, described again whenever one registers or leaves.
+ */
+export function watchWallets(listener: (wallets: DiscoveredWallet[]) => void): () => void {
+  const { get, on } = getWallets();
+  const emit = () => listener(get().map(describeWallet));
+  const offRegister = on('register', emit);
+  const offUnregister = on('unregister', emit);
+  emit();
+  return () => {
+    offRegister();
+    offUnregister();
+  };
+}
+
+/**
+ * Runs a `registerWallet` call and returns a function that unregisters the wallets it registered.
+ *
+ * `registerWallet` drops the unregister function `getWallets().register` returns, so its event is
+ * caught first and answered here. The app's own listener then sees the wallets as already registered.
+ */
+export function registerUnregisterable(register: () => void): () => void {
+  const wallets = getWallets();
+  const unregisters: (() => void)[] = [];
+  // Capture listeners on the target run before the app's bubbling one
+  const capture = (event: Event) => {
+    (event as WindowRegisterWalletEvent).detail({
+      register: (...registered) => {
+        const unregister = wallets.register(...registered);
+        unregisters.push(unregister);
+        return unregister;
+      },
+    });
+  };
+
+  window.addEventListener('wallet-standard:register-wallet', capture, { capture: true });
+  try {
+    register();
+  } finally {
+    window.removeEventListener('wallet-standard:register-wallet', capture, { capture: true });
+  }
+  return () => unregisters.forEach((unregister) => unregister());
+}
+
+/**
+ * Runs a wallet registration and records whether the wallet then shows up in discovery.
+ */
+export function recordRegistration(walletName: string, register: () => void): RegistrationResult {
+  let result: RegistrationResult;
+  try {
+    register();
+    const found = getWallets()
+      .get()
+      .find((wallet) => wallet.name === walletName);
+    result = found
+      ? {
+          wallet: walletName,
+          status: 'registered',
+          detail: `Discovered with ${Object.keys(found.features).length} features on ${found.chains.join(', ')}`,
+          at: Date.now(),
+        }
+      : { wallet: walletName, status: 'missing', detail: 'Registration returned but discovery does not list the wallet', at: Date.now() };
+  } catch (error) {
+    result = {
+      wallet: walletName,
+      status: 'failed',
+      detail: error instanceof Error ? error.message : String(error),
+      at: Date.now(),
+    };
+  }
+  registrations.push(result);
+  return result;
+}
+
+export function getRegistrations(): RegistrationResult[] {
+  return [...registrations];
+}
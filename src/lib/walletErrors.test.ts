@@ -0,0 +1,263 @@
+import { describe, expect, it } from 'vitest';
+import { SendTransactionError, SystemProgram, TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { WalletSendTransactionError, WalletSignTransactionError } from '@solana/wallet-adapter-base';
+import {
+  BlockhashExpiredError,
+  InsufficientFundsError,
+  PaymasterRejectedError,
+  PolicyBlockedError,
+  RpcUnavailableError,
+  SimulationFailedError,
+  TxTooLargeError,
+  fromTransactionError,
+  toWalletError,
+} from './walletErrors';
+
+const SYSTEM = SystemProgram.programId.toBase58();
+const TOKEN = TOKEN_PROGRAM_ID.toBase58();
+const OTHER = 'LAZr4SZ1eG3rE5JqC7FTr6qJ5aSRYwLNp6azjBTfhxE';
+
+// Program logs as the RPC returns them for a failed transfer
+const SYSTEM_SHORTFALL_LOGS = [
+  `Program ${SYSTEM} invoke [1]`,
+  'Transfer: insufficient lamports 1000, need 5000',
+  `Program ${SYSTEM} failed: custom program error: 0x1`,
+];
+
+const TOKEN_SHORTFALL_LOGS = [
+  `Program ${TOKEN} invoke [1]`,
+  'Program log: Instruction: TransferChecked',
+  'Program log: Error: insufficient funds',
+  `Program ${TOKEN} consumed 1500 of 200000 compute units`,
+  `Program ${TOKEN} failed: custom program error: 0x1`,
+];
+
+// A CPI failure: the inner program's `failed:` line comes before its caller's
+const NESTED_LOGS = [
+  `Program ${OTHER} invoke [1]`,
+  `Program ${TOKEN} invoke [2]`,
+  `Program ${TOKEN} failed: custom program error: 0x1`,
+  `Program ${OTHER} failed: custom program error: 0x1`,
+];
+
+function domException(name: string): Error {
+  const error = new Error('The operation either timed out or was not allowed.');
+  error.name = name;
+  return error;
+}
+
+function sendError(transactionMessage: string, logs?: string[]) {
+  return new SendTransactionError({ action: 'send', signature: '', transactionMessage, logs });
+}
+
+describe('toWalletError', () => {
+  it('passes WalletErrors through', () => {
+    const blocked = new PolicyBlockedError({ rule: 'daily', message: 'Over the 1 SOL daily limit.' });
+    expect(toWalletError(blocked)).toBe(blocked);
+  });
+
+  it('wraps values that are not errors', () => {
+    expect(toWalletError('nope')).toMatchObject({ kind: 'unknown', message: 'nope' });
+    expect(toWalletError(undefined)).toMatchObject({ kind: 'unknown', message: 'Transaction failed' });
+  });
+
+  describe('user-rejected', () => {
+    it.each([
+      ['a dismissed passkey prompt', domException('NotAllowedError')],
+      ['an aborted passkey prompt', domException('AbortError')],
+      ['an EIP-1193 rejection code', Object.assign(new Error('Rejected'), { code: 4001 })],
+      ['a wallet-adapter rejection', new WalletSignTransactionError('User rejected the request.')],
+      ['the portal timing out', new Error('Signing timed out after 60 seconds')],
+      ['a cancelled message', new Error('Transaction cancelled by user')],
+    ])('from %s', (_, error) => {
+      expect(toWalletError(error).kind).toBe('user-rejected');
+    });
+  });
+
+  describe('passkey-unavailable', () => {
+    it.each([
+      ['an unsupported browser', domException('NotSupportedError')],
+      ['an insecure origin', domException('SecurityError')],
+      ['a passkey already registered', domException('InvalidStateError')],
+      ['a blocked popup', new Error('Popup was blocked by browser')],
+      ['a portal signing failure', new Error('Signing failed: credential not found')],
+    ])('from %s', (_, error) => {
+      expect(toWalletError(error).kind).toBe('passkey-unavailable');
+    });
+  });
+
+  it('unwraps the error a wallet-adapter error carries', () => {
+    const inner = sendError('Transaction simulation failed: Blockhash not found');
+    const wrapped = new WalletSendTransactionError(inner.message, inner);
+    expect(toWalletError(wrapped)).toBeInstanceOf(BlockhashExpiredError);
+  });
+
+  describe('paymaster-rejected', () => {
+    it.each([
+      'Failed to sign and send transaction after all retries',
+      'Failed to sign and send transaction: Bad Request',
+      'Failed to sign transaction: Internal Server Error',
+      'Unknown paymaster error',
+    ])('from "%s"', (message) => {
+      const error = toWalletError(new Error(message));
+      expect(error).toBeInstanceOf(PaymasterRejectedError);
+      expect((error as PaymasterRejectedError).reason).toBe(message);
+    });
+
+    it('takes the reason from a Kora JSON-RPC error', () => {
+      const error = toWalletError(new Error('RPC Error -32000: Disallowed account 9xQe...'));
+      expect((error as PaymasterRejectedError).reason).toBe('Disallowed account 9xQe...');
+    });
+
+    it('takes the reason from a local paymaster policy rejection', () => {
+      const error = toWalletError(new Error('RPC Error -32602: Paymaster policy: program not allowed'));
+      expect(error).toBeInstanceOf(PaymasterRejectedError);
+      expect((error as PaymasterRejectedError).reason).toBe('program not allowed');
+    });
+  });
+
+  describe('rpc-unavailable', () => {
+    it('from a failed fetch', () => {
+      expect(toWalletError(new TypeError('Failed to fetch'))).toBeInstanceOf(RpcUnavailableError);
+    });
+
+    it.each([
+      ['Server responded with 429 Too Many Requests.  Retrying after 500ms delay...', 429],
+      ['503 Service Unavailable', 503],
+      ['failed to get recent blockhash: 502 Bad Gateway', 502],
+    ])('from "%s"', (message, status) => {
+      const error = toWalletError(new Error(message));
+      expect(error).toBeInstanceOf(RpcUnavailableError);
+      expect((error as RpcUnavailableError).status).toBe(status);
+    });
+
+    it('ignores status-like numbers in unrelated messages', () => {
+      expect(toWalletError(new Error('Account 429 not found')).kind).toBe('unknown');
+    });
+  });
+
+  it('maps an exceeded block height to blockhash-expired', () => {
+    expect(toWalletError(new TransactionExpiredBlockheightExceededError('sig'))).toBeInstanceOf(BlockhashExpiredError);
+  });
+
+  describe('tx-too-large', () => {
+    it('reads the size from the serializer message', () => {
+      const error = toWalletError(new Error('Transaction too large: 1300 > 1232'));
+      expect(error).toBeInstanceOf(TxTooLargeError);
+      expect((error as TxTooLargeError).size).toBe(1300);
+      expect(error.message).toContain('1300 bytes, over the 1232-byte limit');
+    });
+
+    it('from a buffer overrun while serializing', () => {
+      const error = toWalletError(new RangeError('encoding overruns Uint8Array'));
+      expect(error).toBeInstanceOf(TxTooLargeError);
+      expect((error as TxTooLargeError).size).toBeUndefined();
+    });
+  });
+
+  describe('SendTransactionError', () => {
+    it('decodes a System shortfall from the preflight message and logs', () => {
+      const error = toWalletError(
+        sendError(
+          'Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1',
+          SYSTEM_SHORTFALL_LOGS
+        )
+      );
+      expect(error).toBeInstanceOf(InsufficientFundsError);
+      expect(error).toMatchObject({ asset: 'SOL', available: 1000n, required: 5000n, logs: SYSTEM_SHORTFALL_LOGS });
+    });
+
+    it('decodes a custom error from another program', () => {
+      const error = toWalletError(
+        sendError('Transaction simulation failed: Error processing Instruction 2: custom program error: 0x1771', [
+          `Program ${OTHER} invoke [1]`,
+          `Program ${OTHER} failed: custom program error: 0x1771`,
+        ])
+      );
+      expect(error).toBeInstanceOf(SimulationFailedError);
+      expect(error).toMatchObject({ instructionIndex: 2, customCode: 0x1771, programId: OTHER });
+      expect(error.message).toBe('Transaction failed: instruction 2 returned custom error 0x1771');
+    });
+
+    it('decodes built-in instruction errors printed in prose', () => {
+      const error = toWalletError(
+        sendError('Transaction simulation failed: Error processing Instruction 1: insufficient funds for instruction')
+      );
+      expect(error).toBeInstanceOf(InsufficientFundsError);
+    });
+
+    it.each([
+      ['Transaction simulation failed: Blockhash not found', BlockhashExpiredError],
+      [
+        'Transaction simulation failed: Transaction results in an account (0) with insufficient funds for fee',
+        InsufficientFundsError,
+      ],
+      [
+        'Transaction simulation failed: Attempt to debit an account but found no record of a prior credit.',
+        InsufficientFundsError,
+      ],
+      ['Transaction simulation failed: Transaction signature verification failure', SimulationFailedError],
+    ])('maps "%s"', (message, type) => {
+      const error = toWalletError(sendError(message));
+      expect(error).toBeInstanceOf(type);
+      expect(error.cause).toBeInstanceOf(SendTransactionError);
+    });
+  });
+});
+
+describe('fromTransactionError', () => {
+  it.each([
+    ['InsufficientFundsForFee', InsufficientFundsError],
+    ['InsufficientFundsForRent', InsufficientFundsError],
+    ['AccountNotFound', InsufficientFundsError],
+    ['BlockhashNotFound', BlockhashExpiredError],
+    ['TooManyAccountLocks', TxTooLargeError],
+    ['AccountInUse', SimulationFailedError],
+  ])('maps %s', (err, type) => {
+    expect(fromTransactionError(err)).toBeInstanceOf(type);
+  });
+
+  it('reads the lamport shortfall of a System Custom 1', () => {
+    const error = fromTransactionError({ InstructionError: [0, { Custom: 1 }] }, SYSTEM_SHORTFALL_LOGS);
+    expect(error).toMatchObject({ kind: 'insufficient-funds', asset: 'SOL', available: 1000n, required: 5000n });
+    expect(error.message).toBe('Insufficient SOL balance: 0.000001 available, 0.000005 needed.');
+  });
+
+  it('maps a Token Custom 1 to an insufficient token balance', () => {
+    const error = fromTransactionError({ InstructionError: [1, { Custom: 1 }] }, TOKEN_SHORTFALL_LOGS);
+    expect(error).toMatchObject({ kind: 'insufficient-funds', asset: 'token' });
+    expect((error as InsufficientFundsError).required).toBeUndefined();
+  });
+
+  it('attributes a CPI failure to the innermost program', () => {
+    const error = fromTransactionError({ InstructionError: [0, { Custom: 1 }] }, NESTED_LOGS);
+    expect(error).toBeInstanceOf(InsufficientFundsError);
+  });
+
+  it('keeps Custom codes of other programs as simulation failures', () => {
+    const error = fromTransactionError({ InstructionError: [3, { Custom: 1 }] }, [
+      `Program ${OTHER} failed: custom program error: 0x1`,
+    ]);
+    expect(error).toBeInstanceOf(SimulationFailedError);
+    expect(error).toMatchObject({ instructionIndex: 3, customCode: 1, programId: OTHER });
+  });
+
+  it('does not guess the program of a Custom code without logs', () => {
+    const error = fromTransactionError({ InstructionError: [0, { Custom: 1 }] });
+    expect(error).toBeInstanceOf(SimulationFailedError);
+    expect((error as SimulationFailedError).programId).toBeUndefined();
+  });
+
+  it('describes built-in instruction errors', () => {
+    const error = fromTransactionError({ InstructionError: [0, 'InvalidAccountData'] });
+    expect(error.message).toBe('Transaction failed: instruction 0 failed with InvalidAccountData');
+    expect(fromTransactionError({ InstructionError: [0, 'InsufficientFunds'] })).toBeInstanceOf(InsufficientFundsError);
+  });
+
+  it('falls back to the JSON of unrecognised errors', () => {
+    expect(fromTransactionError({ DuplicateInstruction: 2 }).message).toBe(
+      'Transaction failed: {"DuplicateInstruction":2}'
+    );
+  });
+});
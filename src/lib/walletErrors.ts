@@ -0,0 +1,349 @@
+import { PACKET_DATA_SIZE, SendTransactionError, SystemProgram, TransactionError } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { formatUnits } from './amounts';
+import type { PolicyRule, PolicyViolation } from './policies';
+
+export type WalletErrorKind =
+  | 'user-rejected'
+  | 'passkey-unavailable'
+  | 'insufficient-funds'
+  | 'tx-too-large'
+  | 'simulation-failed'
+  | 'paymaster-rejected'
+  | 'rpc-unavailable'
+  | 'blockhash-expired'
+  | 'policy-blocked'
+  | 'unknown';
+
+interface WalletErrorOptions {
+  cause?: unknown;
+  logs?: string[];
+}
+
+/**
+ * Base class for every failure surfaced by the send flows. `kind` is what the UI switches on;
+ * subclasses carry whatever structured data their failure has.
+ */
+export class WalletError extends Error {
+  readonly kind: WalletErrorKind;
+  readonly cause?: unknown;
+  // Program logs, when the failure came from executing or simulating a transaction
+  readonly logs: string[];
+
+  constructor(kind: WalletErrorKind, message: string, { cause, logs = [] }: WalletErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.cause = cause;
+    this.logs = logs;
+  }
+}
+
+export class UserRejectedError extends WalletError {
+  constructor(message = 'Transaction was cancelled.', options?: WalletErrorOptions) {
+    super('user-rejected', message, options);
+  }
+}
+
+export class PasskeyUnavailableError extends WalletError {
+  constructor(
+    message = 'Passkey signing is not available. Allow pop-ups for this site and use a browser with passkey support.',
+    options?: WalletErrorOptions
+  ) {
+    super('passkey-unavailable', message, options);
+  }
+}
+
+export class InsufficientFundsError extends WalletError {
+  // 'SOL' or the token label; amounts are base units when known
+  readonly asset: string;
+  readonly decimals: number;
+  readonly available?: bigint;
+  readonly required?: bigint;
+
+  constructor(
+    {
+      asset = 'SOL',
+      decimals = 9,
+      available,
+      required,
+    }: { asset?: string; decimals?: number; available?: bigint; required?: bigint } = {},
+    options?: WalletErrorOptions
+  ) {
+    super(
+      'insufficient-funds',
+      available !== undefined && required !== undefined
+        ? `Insufficient ${asset} balance: ${formatUnits(available, decimals)} available, ${formatUnits(required, decimals)} needed.`
+        : `Insufficient ${asset} balance for this transaction.`,
+      options
+    );
+    this.asset = asset;
+    this.decimals = decimals;
+    this.available = available;
+    this.required = required;
+  }
+}
+
+const TOO_LARGE_HINT = 'Try fewer transfers at once, or add the accounts it uses to an address lookup table.';
+
+export class TxTooLargeError extends WalletError {
+  readonly size?: number;
+  readonly limit: number;
+
+  constructor(size?: number, options?: WalletErrorOptions) {
+    super(
+      'tx-too-large',
+      size
+        ? `Transaction is ${size} bytes, over the ${PACKET_DATA_SIZE}-byte limit. ${TOO_LARGE_HINT}`
+        : `Transaction is too large. ${TOO_LARGE_HINT}`,
+      options
+    );
+    this.size = size;
+    this.limit = PACKET_DATA_SIZE;
+  }
+}
+
+export class SimulationFailedError extends WalletError {
+  readonly instructionIndex?: number;
+  // Custom program error code, e.g. 1 for `0x1`
+  readonly customCode?: number;
+  // Program that raised the error, taken from the logs
+  readonly programId?: string;
+
+  constructor(
+    detail: string,
+    { instructionIndex, customCode, programId }: { instructionIndex?: number; customCode?: number; programId?: string } = {},
+    options?: WalletErrorOptions
+  ) {
+    super('simulation-failed', `Transaction failed: ${detail}`, options);
+    this.instructionIndex = instructionIndex;
+    this.customCode = customCode;
+    this.programId = programId;
+  }
+}
+
+export class PaymasterRejectedError extends WalletError {
+  readonly reason: string;
+
+  constructor(reason: string, options?: WalletErrorOptions) {
+    super('paymaster-rejected', `The paymaster declined to sponsor this transaction: ${reason}`, options);
+    this.reason = reason;
+  }
+}
+
+export class RpcUnavailableError extends WalletError {
+  readonly status?: number;
+
+  constructor(status?: number, options?: WalletErrorOptions) {
+    super('rpc-unavailable', 'The Solana RPC node is unreachable or rate limiting. Try again in a moment.', options);
+    this.status = status;
+  }
+}
+
+export class BlockhashExpiredError extends WalletError {
+  constructor(options?: WalletErrorOptions) {
+    super('blockhash-expired', 'The transaction expired before it landed. Send it again.', options);
+  }
+}
+
+export class PolicyBlockedError extends WalletError {
+  // Which wallet policy rule stopped the transfer
+  readonly rule: PolicyRule;
+
+  constructor({ rule, message }: Pick<PolicyViolation, 'rule' | 'message'>, options?: WalletErrorOptions) {
+    super('policy-blocked', message, options);
+    this.rule = rule;
+  }
+}
+
+const INSUFFICIENT_FUNDS_CODES: Record<string, number> = {
+  // SystemError::ResultWithNegativeLamports
+  [SystemProgram.programId.toBase58()]: 1,
+  // TokenError::InsufficientFunds
+  [TOKEN_PROGRAM_ID.toBase58()]: 1,
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: 1,
+};
+
+// RPC strings for `TransactionError` variants that need no further decoding
+const TRANSACTION_ERROR_KINDS: Record<string, (options: WalletErrorOptions) => WalletError> = {
+  InsufficientFundsForFee: (options) => new InsufficientFundsError({}, options),
+  InsufficientFundsForRent: (options) => new InsufficientFundsError({}, options),
+  AccountNotFound: (options) => new InsufficientFundsError({}, options),
+  BlockhashNotFound: (options) => new BlockhashExpiredError(options),
+  TooManyAccountLocks: (options) => new TxTooLargeError(undefined, options),
+};
+
+/**
+ * Finds the innermost program that failed. Its `failed:` line is logged before those of its callers.
+ */
+function findFailedProgram(logs: string[]): string | undefined {
+  for (const line of logs) {
+    const match = /^Program (\w+) failed: /.exec(line);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+// System program log line: `Transfer: insufficient lamports 100, need 200`
+function findLamportShortfall(logs: string[]): { available: bigint; required: bigint } | undefined {
+  for (const line of logs) {
+    const match = /insufficient lamports (\d+), need (\d+)/.exec(line);
+    if (match) return { available: BigInt(match[1]), required: BigInt(match[2]) };
+  }
+  return undefined;
+}
+
+function decodeInstructionError(
+  instructionIndex: number,
+  inner: unknown,
+  logs: string[],
+  cause: unknown
+): WalletError {
+  const options = { cause, logs };
+  const programId = findFailedProgram(logs);
+  const customCode =
+    inner && typeof inner === 'object' && 'Custom' in inner ? Number((inner as { Custom: number }).Custom) : undefined;
+
+  if (
+    inner === 'InsufficientFunds' ||
+    (customCode !== undefined && programId !== undefined && INSUFFICIENT_FUNDS_CODES[programId] === customCode)
+  ) {
+    const shortfall = findLamportShortfall(logs);
+    const isToken = programId !== undefined && programId !== SystemProgram.programId.toBase58();
+    return new InsufficientFundsError({ asset: isToken ? 'token' : 'SOL', ...shortfall }, options);
+  }
+
+  const detail =
+    customCode !== undefined
+      ? `instruction ${instructionIndex} returned custom error 0x${customCode.toString(16)}`
+      : `instruction ${instructionIndex} failed with ${typeof inner === 'string' ? inner : JSON.stringify(inner)}`;
+  return new SimulationFailedError(detail, { instructionIndex, customCode, programId }, options);
+}
+
+/**
+ * Decodes the `err` of a signature status or simulation result.
+ */
+export function fromTransactionError(err: TransactionError, logs: string[] = [], cause?: unknown): WalletError {
+  if (typeof err === 'string') {
+    const create = TRANSACTION_ERROR_KINDS[err];
+    return create ? create({ cause, logs }) : new SimulationFailedError(err, {}, { cause, logs });
+  }
+
+  if (err && typeof err === 'object' && 'InstructionError' in err) {
+    const [index, inner] = (err as { InstructionError: [number, unknown] }).InstructionError;
+    return decodeInstructionError(index, inner, logs, cause);
+  }
+
+  return new SimulationFailedError(JSON.stringify(err), {}, { cause, logs });
+}
+
+/**
+ * Parses the RPC's preflight message, e.g.
+ * `Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1`.
+ */
+function fromSendTransactionError(err: SendTransactionError): WalletError {
+  const logs = err.logs ?? [];
+  const { message } = err.transactionError;
+
+  if (/Blockhash not found/i.test(message)) {
+    return new BlockhashExpiredError({ cause: err, logs });
+  }
+
+  const instruction = /Error processing Instruction (\d+): (.+)$/m.exec(message);
+  if (instruction) {
+    const reason = instruction[2].trim();
+    const custom = /custom program error: 0x([0-9a-f]+)/i.exec(reason);
+    // The RPC prints built-in variants in prose ("insufficient funds for instruction")
+    const inner = custom
+      ? { Custom: parseInt(custom[1], 16) }
+      : /^insufficient funds/i.test(reason)
+        ? 'InsufficientFunds'
+        : reason;
+    return decodeInstructionError(Number(instruction[1]), inner, logs, err);
+  }
+
+  if (/insufficient funds for fee/i.test(message)) {
+    return new InsufficientFundsError({}, { cause: err, logs });
+  }
+  if (/Attempt to debit an account but found no record of a prior credit/.test(message)) {
+    return new InsufficientFundsError({}, { cause: err, logs });
+  }
+
+  return new SimulationFailedError(message, {}, { cause: err, logs });
+}
+
+/**
+ * Normalizes anything thrown by the send flows into a `WalletError`.
+ *
+ * Structured signals (error classes, names, codes, `TransactionError` JSON) are checked first.
+ * The LazorKit portal and paymaster only report failures as text, so those fall back to
+ * matching their documented messages.
+ */
+export function toWalletError(err: unknown): WalletError {
+  if (err instanceof WalletError) return err;
+
+  if (err instanceof SendTransactionError) {
+    return fromSendTransactionError(err);
+  }
+
+  if (!(err instanceof Error)) {
+    return new WalletError('unknown', typeof err === 'string' ? err : 'Transaction failed', { cause: err });
+  }
+
+  // WebAuthn reports a dismissed or timed-out prompt as NotAllowedError
+  if (err.name === 'NotAllowedError' || err.name === 'AbortError') {
+    return new UserRejectedError(undefined, { cause: err });
+  }
+  if (err.name === 'NotSupportedError' || err.name === 'SecurityError' || err.name === 'InvalidStateError') {
+    return new PasskeyUnavailableError(undefined, { cause: err });
+  }
+
+  // wallet-adapter wraps the wallet's own error; EIP-1193 style wallets use 4001 for rejection
+  const wrapped = err as Error & { error?: unknown; code?: unknown };
+  if (wrapped.code === 4001) {
+    return new UserRejectedError(undefined, { cause: err });
+  }
+  if (err.name.startsWith('Wallet') && wrapped.error instanceof Error) {
+    return toWalletError(wrapped.error);
+  }
+
+  // fetch() rejects with a TypeError when the network request itself fails
+  if (err instanceof TypeError && /fetch/i.test(err.message)) {
+    return new RpcUnavailableError(undefined, { cause: err });
+  }
+  if (err.name === 'TransactionExpiredBlockheightExceededError') {
+    return new BlockhashExpiredError({ cause: err });
+  }
+  if (err instanceof RangeError && /overruns/i.test(err.message)) {
+    return new TxTooLargeError(undefined, { cause: err });
+  }
+
+  const { message } = err;
+  const tooLarge = /Transaction too large: (\d+) > \d+/.exec(message);
+  if (tooLarge) {
+    return new TxTooLargeError(Number(tooLarge[1]), { cause: err });
+  }
+  const status = /\b(429|50[234])\b/.exec(message);
+  if (status && /server responded|too many requests|service unavailable|bad gateway/i.test(message)) {
+    return new RpcUnavailableError(Number(status[1]), { cause: err });
+  }
+  if (/User rejected|cancelled|canceled/i.test(message) || /^Signing timed out/.test(message)) {
+    return new UserRejectedError(undefined, { cause: err });
+  }
+  if (/^Popup was blocked/.test(message) || /^Signing failed/.test(message)) {
+    return new PasskeyUnavailableError(undefined, { cause: err });
+  }
+  if (/paymaster error|^Failed to sign (and send )?transaction/.test(message)) {
+    return new PaymasterRejectedError(message, { cause: err });
+  }
+  // The Kora client reports JSON-RPC errors from the paymaster as `RPC Error <code>: <message>`;
+  // the local paymaster prefixes its policy rejections
+  const koraError = /^RPC Error -?\d+: (.+)$/s.exec(message);
+  const policyError = /^Paymaster policy: (.+)$/s.exec(koraError?.[1] ?? message);
+  const reason = policyError?.[1] ?? koraError?.[1];
+  if (reason) {
+    return new PaymasterRejectedError(reason, { cause: err });
+  }
+
+  return new WalletError('unknown', message, { cause: err });
+}
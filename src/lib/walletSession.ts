@@ -0,0 +1,117 @@
+import { StorageManager, useWalletStore } from '@lazorkit/wallet';
+import type { WalletInfo } from '@lazorkit/wallet';
+import { activateWallet, deactivateWallet } from './savedWallets';
+
+const SESSION_KEY = 'lazorkit-starter-session';
+
+/**
+ * The Direct example's session. The SDK keeps the active wallet in two places (its persisted
+ * store and the credentials it syncs to the portal); this record adds when it was last used and
+ * whether it was locked.
+ */
+export interface WalletSession {
+  smartWallet: string;
+  lastActiveAt: number;
+  locked: boolean;
+}
+
+export type SessionRestore =
+  | { status: 'restored'; wallet: WalletInfo }
+  | { status: 'locked'; smartWallet: string }
+  | { status: 'none' };
+
+export function loadSession(): WalletSession | null {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    return stored ? (JSON.parse(stored) as WalletSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: WalletSession): void {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function isSessionKey(key: string | null): boolean {
+  return key === SESSION_KEY;
+}
+
+/**
+ * Starts the session for a freshly connected (or unlocked) wallet.
+ */
+export function startSession(smartWallet: string): void {
+  saveSession({ smartWallet, lastActiveAt: Date.now(), locked: false });
+}
+
+export function touchSession(smartWallet: string): void {
+  const session = loadSession();
+  if (session?.smartWallet === smartWallet && !session.locked) {
+    saveSession({ ...session, lastActiveAt: Date.now() });
+  }
+}
+
+export function isSessionIdle(session: WalletSession, idleMs: number, now = Date.now()): boolean {
+  return idleMs > 0 && now - session.lastActiveAt > idleMs;
+}
+
+/**
+ * Clears the SDK's credentials, so the next `connect()` goes through the portal and its passkey
+ * prompt, but remembers which wallet to offer for unlocking.
+ */
+export async function lockSession(smartWallet: string): Promise<void> {
+  await deactivateWallet();
+  saveSession({ smartWallet, lastActiveAt: Date.now(), locked: true });
+}
+
+/**
+ * Removes every trace of the session: the SDK's credentials and persisted store as well as this
+ * record. Credentials left behind by an earlier session are what the portal picks up and then
+ * fails to sign with.
+ */
+export async function endSession(): Promise<void> {
+  await StorageManager.clearWallet();
+  useWalletStore.setState({ wallet: null, error: null });
+  useWalletStore.persist.clearStorage();
+  localStorage.removeItem(SESSION_KEY);
+}
+
+function waitForHydration(): Promise<void> {
+  if (useWalletStore.persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = useWalletStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Brings back the last wallet after a reload without a passkey prompt, unless the session was
+ * locked or has been idle too long. The SDK's stored credentials are the source of truth: a
+ * persisted store without them is stale and cleared.
+ */
+export async function restoreSession(idleMs: number): Promise<SessionRestore> {
+  await waitForHydration();
+  const wallet = await StorageManager.getWallet();
+  const session = loadSession();
+
+  if (!wallet) {
+    if (session?.locked) return { status: 'locked', smartWallet: session.smartWallet };
+    if (useWalletStore.getState().wallet) await endSession();
+    return { status: 'none' };
+  }
+
+  if (session?.smartWallet === wallet.smartWallet && (session.locked || isSessionIdle(session, idleMs))) {
+    await lockSession(wallet.smartWallet);
+    return { status: 'locked', smartWallet: wallet.smartWallet };
+  }
+
+  await activateWallet(wallet);
+  if (session?.smartWallet === wallet.smartWallet) {
+    touchSession(wallet.smartWallet);
+  } else {
+    startSession(wallet.smartWallet);
+  }
+  return { status: 'restored', wallet };
+}
@@ -3,8 +3,14 @@ window.Buffer = Buffer;
 
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { ClusterProvider } from './context/ClusterProvider';
+import { RouterProvider } from './context/RouterProvider';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
-  <App />
+  <RouterProvider>
+    <ClusterProvider>
+      <App />
+    </ClusterProvider>
+  </RouterProvider>
 );
@@ -1 +1,24 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DEFAULT_CLUSTER?: string;
+  readonly VITE_DEVNET_RPC_URL?: string;
+  readonly VITE_DEVNET_PORTAL_URL?: string;
+  readonly VITE_DEVNET_PAYMASTER_URL?: string;
+  readonly VITE_TESTNET_RPC_URL?: string;
+  readonly VITE_TESTNET_PORTAL_URL?: string;
+  readonly VITE_TESTNET_PAYMASTER_URL?: string;
+  readonly VITE_MAINNET_RPC_URL?: string;
+  readonly VITE_MAINNET_PORTAL_URL?: string;
+  readonly VITE_MAINNET_PAYMASTER_URL?: string;
+  readonly VITE_LOCALNET_RPC_URL?: string;
+  readonly VITE_LOCALNET_PORTAL_URL?: string;
+  readonly VITE_LOCALNET_PAYMASTER_URL?: string;
+  readonly VITE_MOCK_WALLET?: string;
+  readonly VITE_MOCK_WALLET_SECRET?: string;
+  readonly VITE_SESSION_IDLE_MINUTES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { nodePolyfills } from 'vite-plugin-node-polyfills';
@@ -26,4 +27,7 @@ export default defineConfig({
   define: {
     'process.env': {},
   },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
 });